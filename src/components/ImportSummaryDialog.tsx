@@ -0,0 +1,63 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { FileInput, AlertTriangle } from 'lucide-react'
+import type { ImportSummary } from '@/types/geometry'
+
+interface ImportSummaryDialogProps {
+  summary: ImportSummary | null
+  onClose: () => void
+}
+
+/**
+ * Import Summary Dialog Component
+ * Reports what was imported from a foreign file and which constructs were dropped or approximated
+ */
+export function ImportSummaryDialog({ summary, onClose }: ImportSummaryDialogProps) {
+  if (!summary) return null
+
+  const { source, importedCount, issues } = summary
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileInput className="h-5 w-5 text-primary" />
+            Import summary
+          </DialogTitle>
+          <DialogDescription className="text-left">
+            Imported {importedCount} element{importedCount === 1 ? '' : 's'} from "{source}".
+          </DialogDescription>
+        </DialogHeader>
+        {issues.length > 0 && (
+          <div className="bg-muted p-3 rounded-md space-y-2">
+            <h4 className="font-medium text-sm flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 text-amber-500" />
+              Not imported as-is
+            </h4>
+            <ul className="text-sm text-muted-foreground space-y-1 max-h-48 overflow-y-auto">
+              {issues.map(issue => (
+                <li key={`${issue.construct}-${issue.reason}`}>
+                  <span className="font-mono text-foreground">{issue.construct}</span>
+                  {issue.count > 1 && <> &times;{issue.count}</>}: {issue.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <DialogFooter>
+          <Button onClick={onClose}>
+            OK
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,189 @@
+import { useMemo, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertTriangle, Printer } from 'lucide-react'
+import type { GeometricElement, LayerDefinition } from '@/types/geometry'
+import {
+  formatScale,
+  PAPER_SIZES,
+  renderPlotSvg,
+  type PaperOrientation,
+  type PaperSize,
+  type PlotLayout
+} from '@/io/plotLayout'
+
+interface PlotDialogProps {
+  open: boolean
+  elements: GeometricElement[]
+  layers: LayerDefinition[]
+  drawingName: string
+  onPrint: (svg: string, layout: PlotLayout) => void
+  onDownload: (svg: string) => void
+  onCancel: () => void
+}
+
+/**
+ * Plot Dialog Component
+ * Lays out the drawing on a sheet at a fixed scale and previews the page before printing
+ */
+export function PlotDialog({ open, elements, layers, drawingName, onPrint, onDownload, onCancel }: PlotDialogProps) {
+  const [paper, setPaper] = useState<PaperSize>('A4')
+  const [orientation, setOrientation] = useState<PaperOrientation>('landscape')
+  const [margin, setMargin] = useState(10)
+  const [fitToPage, setFitToPage] = useState(true)
+  const [scaleDenominator, setScaleDenominator] = useState(10)
+  const [showTitleBlock, setShowTitleBlock] = useState(true)
+  const [title, setTitle] = useState(drawingName)
+  const [date, setDate] = useState(() => new Date().toLocaleDateString())
+
+  const validScale = Number.isFinite(scaleDenominator) && scaleDenominator > 0
+  const validMargin = Number.isFinite(margin) && margin >= 0
+
+  const plot = useMemo(() => {
+    if (!validMargin || (!fitToPage && !validScale)) return null
+    return renderPlotSvg(elements, {
+      paper,
+      orientation,
+      margin,
+      scale: fitToPage ? 'fit' : scaleDenominator,
+      titleBlock: showTitleBlock ? { name: title, date } : undefined,
+      layers
+    })
+  }, [elements, layers, paper, orientation, margin, fitToPage, scaleDenominator, showTitleBlock, title, date, validMargin, validScale])
+
+  const previewUrl = plot ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(plot.svg)}` : null
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Printer className="h-5 w-5 text-primary" />
+            Plot drawing
+          </DialogTitle>
+          <DialogDescription className="text-left">
+            One drawing unit is plotted as one millimetre at 1:1.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Paper</Label>
+              <div className="flex gap-1">
+                {(Object.keys(PAPER_SIZES) as PaperSize[]).map(size => (
+                  <Button key={size} size="sm" variant={paper === size ? 'default' : 'outline'} onClick={() => setPaper(size)}>
+                    {size}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Orientation</Label>
+              <div className="flex gap-1">
+                {(['portrait', 'landscape'] as PaperOrientation[]).map(value => (
+                  <Button
+                    key={value}
+                    size="sm"
+                    variant={orientation === value ? 'default' : 'outline'}
+                    onClick={() => setOrientation(value)}
+                    className="capitalize"
+                  >
+                    {value}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plot-margin">Margins (mm)</Label>
+              <Input
+                id="plot-margin"
+                type="number"
+                min={0}
+                value={Number.isFinite(margin) ? margin : ''}
+                onChange={(e) => setMargin(parseFloat(e.target.value))}
+                className="h-8 w-24"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plot-scale">Scale</Label>
+              <div className="flex items-center gap-1">
+                <Button size="sm" variant={fitToPage ? 'default' : 'outline'} onClick={() => setFitToPage(true)}>
+                  Fit
+                </Button>
+                <Button size="sm" variant={fitToPage ? 'outline' : 'default'} onClick={() => setFitToPage(false)}>
+                  Fixed
+                </Button>
+                <span className="text-sm pl-2">1 :</span>
+                <Input
+                  id="plot-scale"
+                  type="number"
+                  min={0}
+                  step="any"
+                  disabled={fitToPage}
+                  value={fitToPage && plot ? plot.layout.scale : Number.isFinite(scaleDenominator) ? scaleDenominator : ''}
+                  onChange={(e) => setScaleDenominator(parseFloat(e.target.value))}
+                  className="h-8 w-24"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <input
+                  id="plot-title-block"
+                  type="checkbox"
+                  checked={showTitleBlock}
+                  onChange={(e) => setShowTitleBlock(e.target.checked)}
+                />
+                <Label htmlFor="plot-title-block">Title block</Label>
+              </div>
+              {showTitleBlock && (
+                <div className="space-y-1 pl-5">
+                  <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Name" className="h-8" />
+                  <Input value={date} onChange={(e) => setDate(e.target.value)} placeholder="Date" className="h-8" />
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="space-y-2">
+            {previewUrl ? (
+              <img src={previewUrl} alt="Plot preview" className="w-full border shadow-sm bg-white" />
+            ) : (
+              <div className="text-sm text-muted-foreground">Enter a valid margin and scale to see the page.</div>
+            )}
+            {plot && (
+              <div className="text-xs text-muted-foreground">
+                {paper} {orientation}, scale {formatScale(plot.layout.scale)}
+              </div>
+            )}
+            {plot && !plot.layout.fits && (
+              <div className="flex items-start gap-2 text-xs text-amber-600">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                The drawing is larger than the page at this scale and will be clipped.
+              </div>
+            )}
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="outline" disabled={!plot} onClick={() => plot && onDownload(plot.svg)}>
+            Download SVG
+          </Button>
+          <Button disabled={!plot} onClick={() => plot && onPrint(plot.svg, plot.layout)}>
+            Print / Save as PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,162 @@
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { ImageDown } from 'lucide-react'
+import type { ExportArea } from '@/io/svgExport'
+import { getRasterSize, SCREEN_DPI, type RasterFormat } from '@/io/rasterExport'
+
+export interface RasterExportChoices {
+  format: RasterFormat
+  area: 'extents' | 'view'
+  dpi: number
+  background: 'transparent' | 'theme'
+  showGrid: boolean
+}
+
+interface RasterExportDialogProps {
+  open: boolean
+  extentsArea: ExportArea
+  viewArea: ExportArea
+  onExport: (choices: RasterExportChoices) => void
+  onCancel: () => void
+}
+
+const DPI_PRESETS = [72, 96, 150, 300]
+
+/**
+ * Small segmented control built from buttons
+ */
+function OptionButtons<T extends string | number>({ value, options, onChange }: {
+  value: T
+  options: { value: T; label: string; disabled?: boolean }[]
+  onChange: (value: T) => void
+}) {
+  return (
+    <div className="flex gap-1">
+      {options.map(option => (
+        <Button
+          key={option.value}
+          type="button"
+          size="sm"
+          variant={option.value === value ? 'default' : 'outline'}
+          disabled={option.disabled}
+          onClick={() => onChange(option.value)}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Raster Export Dialog Component
+ * Collects format, area, resolution and background options for PNG/JPEG export
+ */
+export function RasterExportDialog({ open, extentsArea, viewArea, onExport, onCancel }: RasterExportDialogProps) {
+  const [format, setFormat] = useState<RasterFormat>('png')
+  const [area, setArea] = useState<'extents' | 'view'>('extents')
+  const [dpi, setDpi] = useState(SCREEN_DPI)
+  const [background, setBackground] = useState<'transparent' | 'theme'>('transparent')
+  const [showGrid, setShowGrid] = useState(false)
+
+  // JPEG has no alpha channel
+  const effectiveBackground = format === 'jpeg' ? 'theme' : background
+  const validDpi = Number.isFinite(dpi) && dpi > 0
+  const size = validDpi ? getRasterSize(area === 'view' ? viewArea : extentsArea, dpi) : null
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ImageDown className="h-5 w-5 text-primary" />
+            Export as image
+          </DialogTitle>
+          <DialogDescription className="text-left">
+            Renders the drawing without the grid cursor, selection or on-screen controls.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <OptionButtons
+              value={format}
+              options={[{ value: 'png', label: 'PNG' }, { value: 'jpeg', label: 'JPEG' }]}
+              onChange={setFormat}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Area</Label>
+            <OptionButtons
+              value={area}
+              options={[{ value: 'extents', label: 'Full drawing' }, { value: 'view', label: 'Current view' }]}
+              onChange={setArea}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="raster-export-dpi">Resolution (DPI)</Label>
+            <div className="flex gap-1">
+              <OptionButtons
+                value={dpi}
+                options={DPI_PRESETS.map(preset => ({ value: preset, label: String(preset) }))}
+                onChange={setDpi}
+              />
+              <Input
+                id="raster-export-dpi"
+                type="number"
+                min={1}
+                value={Number.isFinite(dpi) ? dpi : ''}
+                onChange={(e) => setDpi(parseFloat(e.target.value))}
+                className="h-8 w-20"
+              />
+            </div>
+            <div className="text-xs text-muted-foreground">
+              {size ? `${size.width} × ${size.height} px` : 'Enter a positive DPI'}
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label>Background</Label>
+            <OptionButtons
+              value={effectiveBackground}
+              options={[
+                { value: 'transparent', label: 'Transparent', disabled: format === 'jpeg' },
+                { value: 'theme', label: 'Theme color' }
+              ]}
+              onChange={setBackground}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              id="raster-export-grid"
+              type="checkbox"
+              checked={showGrid}
+              onChange={(e) => setShowGrid(e.target.checked)}
+            />
+            <Label htmlFor="raster-export-grid">Include grid</Label>
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!validDpi}
+            onClick={() => onExport({ format, area, dpi, background: effectiveBackground, showGrid })}
+          >
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
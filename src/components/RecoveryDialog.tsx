@@ -0,0 +1,53 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { History } from 'lucide-react'
+import type { AutosaveSnapshot } from '@/types/geometry'
+
+interface RecoveryDialogProps {
+  snapshot: AutosaveSnapshot | null
+  onRestore: (snapshot: AutosaveSnapshot) => void
+  onDiscard: () => void
+}
+
+/**
+ * Recovery Dialog Component
+ * Offers to restore an autosaved drawing left behind by a reload or tab crash
+ */
+export function RecoveryDialog({ snapshot, onRestore, onDiscard }: RecoveryDialogProps) {
+  if (!snapshot) return null
+
+  const savedAt = new Date(snapshot.savedAt)
+  const elementCount = snapshot.document.elements.length
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onDiscard()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            Restore unsaved drawing?
+          </DialogTitle>
+          <DialogDescription className="text-left">
+            "{snapshot.document.metadata.name}" with {elementCount} element{elementCount === 1 ? '' : 's'} was
+            autosaved on {savedAt.toLocaleDateString()} at {savedAt.toLocaleTimeString()} but not closed cleanly.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onDiscard}>
+            Discard
+          </Button>
+          <Button onClick={() => onRestore(snapshot)}>
+            Restore
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
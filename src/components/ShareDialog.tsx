@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { AlertTriangle, Check, Copy, Share2 } from 'lucide-react'
+import type { DrawingState } from '@/types/geometry'
+import { createShareUrl } from '@/io/shareLink'
+
+interface ShareDialogProps {
+  open: boolean
+  drawing: DrawingState
+  onClose: () => void
+}
+
+/**
+ * Share Dialog Component
+ * Builds a link that carries the whole drawing, optionally opening it read-only
+ */
+export function ShareDialog({ open, drawing, onClose }: ShareDialogProps) {
+  const [readOnly, setReadOnly] = useState(true)
+  const [url, setUrl] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    setUrl(null)
+    setError(null)
+    setCopied(false)
+
+    createShareUrl(drawing, readOnly, `${window.location.origin}/`)
+      .then(result => {
+        if (!cancelled) setUrl(result)
+      })
+      .catch(error => {
+        if (!cancelled) setError((error as Error).message)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [drawing, readOnly])
+
+  const handleCopy = async () => {
+    if (!url) return
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+    } catch {
+      setError('Could not copy to the clipboard; select the link and copy it manually')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5 text-primary" />
+            Share drawing
+          </DialogTitle>
+          <DialogDescription className="text-left">
+            The drawing is stored in the link itself; nothing is uploaded.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              id="share-read-only"
+              type="checkbox"
+              checked={readOnly}
+              onChange={(e) => setReadOnly(e.target.checked)}
+            />
+            <Label htmlFor="share-read-only">Read-only</Label>
+          </div>
+          <div className="flex gap-1">
+            <Input
+              readOnly
+              value={url ?? ''}
+              placeholder={error ? '' : 'Creating link…'}
+              onFocus={(e) => e.target.select()}
+              className="h-8"
+            />
+            <Button size="sm" disabled={!url} onClick={handleCopy}>
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+          </div>
+          {error && (
+            <div className="flex items-start gap-2 text-xs text-amber-600">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
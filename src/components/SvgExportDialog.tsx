@@ -0,0 +1,84 @@
+import { useState } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { FileImage } from 'lucide-react'
+
+export interface SvgExportChoices {
+  selectionOnly: boolean
+  fitToContent: boolean
+}
+
+interface SvgExportDialogProps {
+  open: boolean
+  selectionCount: number
+  onExport: (choices: SvgExportChoices) => void
+  onCancel: () => void
+}
+
+/**
+ * SVG Export Dialog Component
+ * Lets the user choose what to include before downloading an SVG file
+ */
+export function SvgExportDialog({ open, selectionCount, onExport, onCancel }: SvgExportDialogProps) {
+  const [selectionOnly, setSelectionOnly] = useState(false)
+  const [fitToContent, setFitToContent] = useState(true)
+
+  const hasSelection = selectionCount > 0
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileImage className="h-5 w-5 text-primary" />
+            Export as SVG
+          </DialogTitle>
+          <DialogDescription className="text-left">
+            Writes the visible geometry in world coordinates, grouped by layer.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              id="svg-export-selection-only"
+              type="checkbox"
+              checked={selectionOnly && hasSelection}
+              disabled={!hasSelection}
+              onChange={(e) => setSelectionOnly(e.target.checked)}
+            />
+            <Label htmlFor="svg-export-selection-only" className={hasSelection ? '' : 'text-muted-foreground'}>
+              Selection only {hasSelection ? `(${selectionCount} element${selectionCount === 1 ? '' : 's'})` : '(nothing selected)'}
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              id="svg-export-fit-to-content"
+              type="checkbox"
+              checked={fitToContent}
+              onChange={(e) => setFitToContent(e.target.checked)}
+            />
+            <Label htmlFor="svg-export-fit-to-content">
+              Fit to content (otherwise keep the world origin in view)
+            </Label>
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onExport({ selectionOnly: selectionOnly && hasSelection, fitToContent })}>
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
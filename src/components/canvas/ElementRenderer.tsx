@@ -4,9 +4,68 @@
  * Separated from main canvas component for better organization
  */
 
-import { Point2D, Line2D, Circle2D, CogWheel } from '@/lib/geometry'
-import type { GeometricElement, ElementRenderProps, ToolType, RectangleData, TriangleData } from '@/types/geometry'
+import type { SVGProps } from 'react'
+import { Point2D, Line2D, Circle2D, Arc2D, Ellipse2D, EllipticalArc2D, Polyline2D, Polygon2D, CubicBezier2D, Spline2D, CogWheel } from '@/lib/geometry'
+import type { GeometricElement, ElementRenderProps, ToolType, RectangleData, TextData, TriangleData } from '@/types/geometry'
 import { GEOMETRY_COLORS } from '@/types/geometry'
+import {
+  type SvgShape,
+  POINT_RADIUS,
+  GRIP_SIZE,
+  pointToSvgShape,
+  lineToSvgShape,
+  circleToSvgShape,
+  arcToSvgShape,
+  ellipseToSvgShape,
+  ellipticalArcToSvgShape,
+  polylineToSvgShape,
+  polygonToSvgShape,
+  bezierToSvgShape,
+  splineToSvgShape,
+  rectangleToSvgShape,
+  triangleToSvgShape,
+  cogWheelToSvgShapes,
+  textToSvgShape
+} from '@/utils/elementShapes'
+
+/**
+ * Renders a single SVG primitive with the given presentation attributes
+ */
+export function ShapePrimitive({ shape, ...props }: { shape: SvgShape } & SVGProps<SVGElement>) {
+  switch (shape.kind) {
+    case 'line':
+      return <line x1={shape.x1} y1={shape.y1} x2={shape.x2} y2={shape.y2} {...(props as SVGProps<SVGLineElement>)} />
+    case 'circle':
+      return <circle cx={shape.cx} cy={shape.cy} r={shape.r} {...(props as SVGProps<SVGCircleElement>)} />
+    case 'ellipse':
+      return (
+        <ellipse
+          cx={shape.cx}
+          cy={shape.cy}
+          rx={shape.rx}
+          ry={shape.ry}
+          transform={shape.rotation === 0 ? undefined : `rotate(${shape.rotation} ${shape.cx} ${shape.cy})`}
+          {...(props as SVGProps<SVGEllipseElement>)}
+        />
+      )
+    case 'rect':
+      return <rect x={shape.x} y={shape.y} width={shape.width} height={shape.height} {...(props as SVGProps<SVGRectElement>)} />
+    case 'path':
+      return <path d={shape.d} {...(props as SVGProps<SVGPathElement>)} />
+    case 'text':
+      return (
+        <text
+          x={shape.x}
+          y={shape.y}
+          fontSize={shape.size}
+          transform={shape.rotation === 0 ? undefined : `rotate(${shape.rotation} ${shape.x} ${shape.y})`}
+          {...(props as SVGProps<SVGTextElement>)}
+        >
+          {shape.text}
+        </text>
+      )
+  }
+}
 
 /**
  * Renders a point element
@@ -17,11 +76,9 @@ export function PointRenderer({ element, isHovered, isSelected, isHidden, select
   const point = element.data as Point2D
   
   return (
-    <circle
+    <ShapePrimitive
       key={element.id}
-      cx={point.x}
-      cy={point.y}
-      r={isHovered || isSelected ? 6 : 4}
+      shape={pointToSvgShape(point, isHovered || isSelected ? 6 : POINT_RADIUS)}
       fill={element.color}
       stroke={
         isSelected 
@@ -46,12 +103,9 @@ export function LineRenderer({ element, isHovered, isSelected, isHidden, selecte
   const line = element.data as Line2D
   
   return (
-    <line
+    <ShapePrimitive
       key={element.id}
-      x1={line.start.x}
-      y1={line.start.y}
-      x2={line.end.x}
-      y2={line.end.y}
+      shape={lineToSvgShape(line)}
       stroke={
         isSelected 
           ? GEOMETRY_COLORS.SELECTION 
@@ -75,11 +129,9 @@ export function CircleRenderer({ element, isHovered, isSelected, isHidden, selec
   const circle = element.data as Circle2D
   
   return (
-    <circle
+    <ShapePrimitive
       key={element.id}
-      cx={circle.center.x}
-      cy={circle.center.y}
-      r={circle.radius}
+      shape={circleToSvgShape(circle)}
       fill="none"
       stroke={
         isSelected 
@@ -95,6 +147,239 @@ export function CircleRenderer({ element, isHovered, isSelected, isHidden, selec
   )
 }
 
+/**
+ * Renders an arc element, showing its center and end points when hovered
+ */
+export function ArcRenderer({ element, isHovered, isSelected, isHidden, selectedTool }: ElementRenderProps) {
+  if (isHidden) return null
+  
+  const arc = element.data as Arc2D
+  const stroke = isSelected ? GEOMETRY_COLORS.SELECTION : 
+                 selectedTool === 'delete' && isHovered ? GEOMETRY_COLORS.HOVER_DELETE : 
+                 element.color
+  const { startPoint, endPoint } = arc
+
+  return (
+    <g opacity={element.hidden ? 0.3 : 1}>
+      <ShapePrimitive
+        shape={arcToSvgShape(arc)}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={isSelected ? 3 : isHovered ? 3 : 2}
+        className="pointer-events-none"
+      />
+      {isHovered && (
+        <>
+          <circle cx={arc.center.x} cy={arc.center.y} r={3} fill={stroke} opacity={0.7} />
+          <circle cx={startPoint.x} cy={startPoint.y} r={3} fill={stroke} opacity={0.7} />
+          <circle cx={endPoint.x} cy={endPoint.y} r={3} fill={stroke} opacity={0.7} />
+        </>
+      )}
+    </g>
+  )
+}
+
+/**
+ * Renders an elliptical arc element with its center and end points on hover
+ */
+export function EllipticalArcRenderer({ element, isHovered, isSelected, isHidden, selectedTool }: ElementRenderProps) {
+  if (isHidden) return null
+
+  const arc = element.data as EllipticalArc2D
+  const stroke = isSelected ? GEOMETRY_COLORS.SELECTION :
+                 selectedTool === 'delete' && isHovered ? GEOMETRY_COLORS.HOVER_DELETE :
+                 element.color
+  const { startPoint, endPoint } = arc
+
+  return (
+    <g opacity={element.hidden ? 0.3 : 1}>
+      <ShapePrimitive
+        shape={ellipticalArcToSvgShape(arc)}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={isSelected ? 3 : isHovered ? 3 : 2}
+        className="pointer-events-none"
+      />
+      {isHovered && (
+        <>
+          <circle cx={arc.center.x} cy={arc.center.y} r={3} fill={stroke} opacity={0.7} />
+          <circle cx={startPoint.x} cy={startPoint.y} r={3} fill={stroke} opacity={0.7} />
+          <circle cx={endPoint.x} cy={endPoint.y} r={3} fill={stroke} opacity={0.7} />
+        </>
+      )}
+    </g>
+  )
+}
+
+/**
+ * Renders a polyline element; selected polylines show their vertex grips
+ */
+export function PolylineRenderer({ element, isHovered, isSelected, isHidden, selectedTool }: ElementRenderProps) {
+  if (isHidden) return null
+  
+  const polyline = element.data as Polyline2D
+  const stroke = isSelected ? GEOMETRY_COLORS.SELECTION : 
+                 selectedTool === 'delete' && isHovered ? GEOMETRY_COLORS.HOVER_DELETE : 
+                 element.color
+
+  return (
+    <g opacity={element.hidden ? 0.3 : 1}>
+      <ShapePrimitive
+        shape={polylineToSvgShape(polyline)}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={isSelected ? 3 : isHovered ? 3 : 2}
+        strokeLinejoin="round"
+        className="pointer-events-none"
+      />
+      {isSelected && selectedTool === 'select' ? (
+        <GripRenderer points={polyline.vertices} />
+      ) : isHovered && (
+        polyline.vertices.map((vertex, index) => (
+          <circle key={index} cx={vertex.x} cy={vertex.y} r={3} fill={stroke} opacity={0.7} />
+        ))
+      )}
+    </g>
+  )
+}
+
+/**
+ * Renders a polygon element; selected polygons show their vertex grips
+ */
+export function PolygonRenderer({ element, isHovered, isSelected, isHidden, selectedTool }: ElementRenderProps) {
+  if (isHidden) return null
+
+  const polygon = element.data as Polygon2D
+  const stroke = isSelected ? GEOMETRY_COLORS.SELECTION : 
+                 selectedTool === 'delete' && isHovered ? GEOMETRY_COLORS.HOVER_DELETE : 
+                 element.color
+
+  return (
+    <g opacity={element.hidden ? 0.3 : 1}>
+      <ShapePrimitive
+        shape={polygonToSvgShape(polygon)}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={isSelected ? 3 : isHovered ? 3 : 2}
+        strokeLinejoin="round"
+        className="pointer-events-none"
+      />
+      {isSelected && selectedTool === 'select' ? (
+        <GripRenderer points={polygon.vertices} />
+      ) : isHovered && (
+        polygon.vertices.map((vertex, index) => (
+          <circle key={index} cx={vertex.x} cy={vertex.y} r={3} fill={stroke} opacity={0.7} />
+        ))
+      )}
+    </g>
+  )
+}
+
+/**
+ * Renders the square grips that can be dragged to reshape a selected element
+ */
+function GripRenderer({ points }: { points: readonly Point2D[] }) {
+  return (
+    <>
+      {points.map((point, index) => (
+        <rect
+          key={index}
+          x={point.x - GRIP_SIZE / 2}
+          y={point.y - GRIP_SIZE / 2}
+          width={GRIP_SIZE}
+          height={GRIP_SIZE}
+          fill="white"
+          stroke={GEOMETRY_COLORS.SELECTION}
+          strokeWidth={1.5}
+        />
+      ))}
+    </>
+  )
+}
+
+/**
+ * Renders a Bezier or spline curve; selected curves show their control polygon and grips
+ */
+export function CurveRenderer({ element, isHovered, isSelected, isHidden, selectedTool }: ElementRenderProps) {
+  if (isHidden) return null
+  
+  const stroke = isSelected ? GEOMETRY_COLORS.SELECTION : 
+                 selectedTool === 'delete' && isHovered ? GEOMETRY_COLORS.HOVER_DELETE : 
+                 element.color
+  const isBezier = element.type === 'bezier'
+  const controlPoints = isBezier ? (element.data as CubicBezier2D).controlPoints : (element.data as Spline2D).controlPoints
+  // Bezier handles run from each end point to its control point; a spline's control polygon joins all its points
+  const controlLines = isBezier
+    ? [[controlPoints[0], controlPoints[1]], [controlPoints[2], controlPoints[3]]]
+    : controlPoints.slice(1).map((point, index) => [controlPoints[index], point])
+  if (!isBezier && (element.data as Spline2D).closed) {
+    controlLines.push([controlPoints[controlPoints.length - 1], controlPoints[0]])
+  }
+
+  return (
+    <g opacity={element.hidden ? 0.3 : 1}>
+      <ShapePrimitive
+        shape={isBezier ? bezierToSvgShape(element.data as CubicBezier2D) : splineToSvgShape(element.data as Spline2D)}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={isSelected ? 3 : isHovered ? 3 : 2}
+        strokeLinejoin="round"
+        className="pointer-events-none"
+      />
+      {isSelected && selectedTool === 'select' && (
+        <>
+          {controlLines.map(([from, to], index) => (
+            <line
+              key={index}
+              x1={from.x}
+              y1={from.y}
+              x2={to.x}
+              y2={to.y}
+              stroke={GEOMETRY_COLORS.SELECTION}
+              strokeWidth={1}
+              strokeDasharray="4,3"
+              className="pointer-events-none"
+            />
+          ))}
+          <GripRenderer points={controlPoints} />
+        </>
+      )}
+    </g>
+  )
+}
+
+/**
+ * Renders an ellipse element, showing its center and foci when hovered
+ */
+export function EllipseRenderer({ element, isHovered, isSelected, isHidden, selectedTool }: ElementRenderProps) {
+  if (isHidden) return null
+  
+  const ellipse = element.data as Ellipse2D
+  const stroke = isSelected ? GEOMETRY_COLORS.SELECTION : 
+                 selectedTool === 'delete' && isHovered ? GEOMETRY_COLORS.HOVER_DELETE : 
+                 element.color
+
+  return (
+    <g opacity={element.hidden ? 0.3 : 1}>
+      <ShapePrimitive
+        shape={ellipseToSvgShape(ellipse)}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={isSelected ? 3 : isHovered ? 3 : 2}
+        className="pointer-events-none"
+      />
+      {isHovered && (
+        <>
+          <circle cx={ellipse.center.x} cy={ellipse.center.y} r={3} fill={stroke} opacity={0.7} />
+          {ellipse.foci.map((focus, index) => (
+            <circle key={index} cx={focus.x} cy={focus.y} r={2} fill="none" stroke={stroke} opacity={0.7} />
+          ))}
+        </>
+      )}
+    </g>
+  )
+}
+
 /**
  * Rectangle renderer - renders a rectangle as a single entity
  */
@@ -106,26 +391,24 @@ export function RectangleRenderer({ element, isHovered, isSelected, isHidden, se
                  selectedTool === 'delete' && isHovered ? GEOMETRY_COLORS.HOVER_DELETE : 
                  element.color
 
-  // Calculate rectangle coordinates
-  const x = Math.min(rect.topLeft.x, rect.bottomRight.x)
-  const y = Math.min(rect.topLeft.y, rect.bottomRight.y)
-  const width = Math.abs(rect.bottomRight.x - rect.topLeft.x)
-  const height = Math.abs(rect.bottomRight.y - rect.topLeft.y)
-
   return (
     <g opacity={opacity}>
-      <rect
-        x={x}
-        y={y}
-        width={width}
-        height={height}
+      <ShapePrimitive
+        shape={rectangleToSvgShape(rect)}
         fill="none"
         stroke={stroke}
         strokeWidth={strokeWidth}
         className="cursor-pointer"
       />
-      {/* Corner snap points (visual indicators when hovered) */}
-      {isHovered && (
+      {/* Corner grips when selected; dragging one turns the rectangle into a polygon */}
+      {isSelected && selectedTool === 'select' ? (
+        <GripRenderer points={[
+          rect.topLeft,
+          new Point2D(rect.bottomRight.x, rect.topLeft.y),
+          rect.bottomRight,
+          new Point2D(rect.topLeft.x, rect.bottomRight.y)
+        ]} />
+      ) : isHovered && (
         <>
           <circle cx={rect.topLeft.x} cy={rect.topLeft.y} r={3} fill={stroke} opacity={0.7} />
           <circle cx={rect.bottomRight.x} cy={rect.topLeft.y} r={3} fill={stroke} opacity={0.7} />
@@ -148,19 +431,19 @@ export function TriangleRenderer({ element, isHovered, isSelected, isHidden, sel
                  selectedTool === 'delete' && isHovered ? GEOMETRY_COLORS.HOVER_DELETE : 
                  element.color
 
-  const pathData = `M ${triangle.pointA.x} ${triangle.pointA.y} L ${triangle.pointB.x} ${triangle.pointB.y} L ${triangle.pointC.x} ${triangle.pointC.y} Z`
-
   return (
     <g opacity={opacity}>
-      <path
-        d={pathData}
+      <ShapePrimitive
+        shape={triangleToSvgShape(triangle)}
         fill="none"
         stroke={stroke}
         strokeWidth={strokeWidth}
         className="cursor-pointer"
       />
-      {/* Vertex snap points (visual indicators when hovered) */}
-      {isHovered && (
+      {/* Vertex grips when selected; dragging one turns the triangle into a polygon */}
+      {isSelected && selectedTool === 'select' ? (
+        <GripRenderer points={[triangle.pointA, triangle.pointB, triangle.pointC]} />
+      ) : isHovered && (
         <>
           <circle cx={triangle.pointA.x} cy={triangle.pointA.y} r={3} fill={stroke} opacity={0.7} />
           <circle cx={triangle.pointB.x} cy={triangle.pointB.y} r={3} fill={stroke} opacity={0.7} />
@@ -184,31 +467,19 @@ export function CogWheelRenderer({ element, isHovered, isSelected, isHidden, sel
                  selectedTool === 'delete' && isHovered ? GEOMETRY_COLORS.HOVER_DELETE : 
                  element.color
 
-  // Generate the cog wheel path
-  const pathData = cogWheel.toSVGPath()
-  const centerHole = cogWheel.getCenterHole()
-
   return (
     <g opacity={opacity}>
-      {/* Main cog wheel outline */}
-      <path
-        d={pathData}
-        fill="none"
-        stroke={stroke}
-        strokeWidth={strokeWidth}
-        className="cursor-pointer"
-      />
-      
-      {/* Center hole */}
-      <circle
-        cx={centerHole.center.x}
-        cy={centerHole.center.y}
-        r={centerHole.radius}
-        fill="none"
-        stroke={stroke}
-        strokeWidth={strokeWidth}
-        className="cursor-pointer"
-      />
+      {/* Main cog wheel outline and center hole */}
+      {cogWheelToSvgShapes(cogWheel).map((shape, index) => (
+        <ShapePrimitive
+          key={index}
+          shape={shape}
+          fill="none"
+          stroke={stroke}
+          strokeWidth={strokeWidth}
+          className="cursor-pointer"
+        />
+      ))}
       
       {/* Center point indicator when hovered */}
       {isHovered && (
@@ -250,6 +521,31 @@ export function CogWheelRenderer({ element, isHovered, isSelected, isHidden, sel
   )
 }
 
+/**
+ * Text renderer - renders a single line of text with its insertion point on hover
+ */
+export function TextRenderer({ element, isHovered, isSelected, isHidden, selectedTool }: ElementRenderProps) {
+  if (isHidden) return null
+
+  const text = element.data as TextData
+  const fill = isSelected ? GEOMETRY_COLORS.SELECTION :
+               selectedTool === 'delete' && isHovered ? GEOMETRY_COLORS.HOVER_DELETE :
+               element.color
+
+  return (
+    <g opacity={element.hidden ? 0.3 : 1}>
+      <ShapePrimitive
+        shape={textToSvgShape(text)}
+        fill={fill}
+        className="pointer-events-none select-none"
+      />
+      {isHovered && (
+        <circle cx={text.position.x} cy={text.position.y} r={3} fill={fill} opacity={0.7} />
+      )}
+    </g>
+  )
+}
+
 /**
  * Main element renderer that delegates to specific renderers
  */
@@ -286,12 +582,27 @@ export function ElementRenderer({
       return <LineRenderer {...renderProps} />
     case 'circle':
       return <CircleRenderer {...renderProps} />
+    case 'arc':
+      return <ArcRenderer {...renderProps} />
+    case 'ellipse':
+      return <EllipseRenderer {...renderProps} />
+    case 'elliptical-arc':
+      return <EllipticalArcRenderer {...renderProps} />
+    case 'polyline':
+      return <PolylineRenderer {...renderProps} />
+    case 'polygon':
+      return <PolygonRenderer {...renderProps} />
+    case 'bezier':
+    case 'spline':
+      return <CurveRenderer {...renderProps} />
     case 'rectangle':
       return <RectangleRenderer {...renderProps} />
     case 'triangle':
       return <TriangleRenderer {...renderProps} />
     case 'cogwheel':
       return <CogWheelRenderer {...renderProps} />
+    case 'text':
+      return <TextRenderer {...renderProps} />
     default:
       return null
   }
@@ -5,14 +5,17 @@
  */
 
 import React, { useRef, useCallback, useState, useEffect } from 'react'
-import { Point2D, Vector2D, Line2D, Circle2D } from '@/lib/geometry'
-import type { GeometryCanvasProps, ToolType, IntersectionInfo, MeasurementState, GeometricElement } from '@/types/geometry'
+import { Point2D, Vector2D, Matrix2D, Line2D, Circle2D, Arc2D, Ellipse2D, EllipticalArc2D, Polyline2D, Polygon2D, CubicBezier2D, Spline2D, GeometryUtils, ZERO_TOLERANCE } from '@/lib/geometry'
+import type { ChamferSize, SplineKind } from '@/lib/geometry'
+import type { GeometryCanvasProps, ToolType, IntersectionInfo, MeasurementState, GeometricElement, ViewportState, DynamicInputState, TextData } from '@/types/geometry'
 import { GEOMETRY_COLORS } from '@/types/geometry'
 import { useCanvasState } from '@/hooks/useCanvasState'
 import { useIsMobile } from '@/hooks/use-mobile'
-import { ToolHandlerFactory } from '@/tools/toolHandlers'
-import { ElementCollectionRenderer } from './ElementRenderer'
-import { extractPointsFromElements, findNearestPoint } from '@/utils/elementUtils'
+import { ToolHandlerFactory, buildPolygon, buildPolyline, buildSpline } from '@/tools/toolHandlers'
+import { ElementCollectionRenderer, ShapePrimitive } from './ElementRenderer'
+import { type SvgShape, getElementShapes, lineToSvgShape, polygonToSvgShape, polylineToSvgShape, splineToSvgShape } from '@/utils/elementShapes'
+import { breakElement, canBreakElement, canChamferElement, canExplodeElement, canExtendElement, canFilletElement, canJoinElement, chamferElements, canOffsetElement, canTrimElement, cloneElement, explodeElement, extendElement, extractPointsFromElements, filletElements, findLineCrossings, findNearestPoint, getElementGrips, getElementPath, getElementsBounds, getTextOutline, getVisibleElements, joinElements, moveElementGrip, offsetElement, transformElement, trimElement } from '@/utils/elementUtils'
+import { readElementsFromClipboard, writeElementsToClipboard } from '@/io/clipboard'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { ZoomIn, ZoomOut, RotateCcw, PanelLeft, X, Undo, Redo, Palette, Info, ChevronUp, ChevronDown } from 'lucide-react'
@@ -28,16 +31,163 @@ import {
   Ruler
 } from 'lucide-react'
 
+// Tools that inspect the drawing without changing it, usable in read-only mode
+const READ_ONLY_TOOLS: ToolType[] = ['select', 'measure']
+
+// Tools that collect any number of points until finished with Enter, double-click or C
+const POINT_SEQUENCE_TOOLS: ToolType[] = ['polyline', 'polygon', 'spline', 'bspline']
+
+// Spline kind drawn by each spline tool
+const SPLINE_TOOL_KINDS: Partial<Record<ToolType, SplineKind>> = {
+  spline: 'catmull-rom',
+  bspline: 'b-spline'
+}
+
 /**
- * Helper function to mirror a point across a line
+ * Progress of the rotate and scale tools: base point, then any reference points,
+ * then the point completing the transform unless its value is typed
  */
-function mirrorPointAcrossLine(point: Point2D, mirrorLine: Line2D): Point2D {
-  // Get the closest point on the line to the given point
-  const closestPoint = mirrorLine.closestPointTo(point)
-  
-  // Mirror the point by reflecting it across the closest point
-  const offset = closestPoint.subtract(point)
-  return closestPoint.add(offset)
+interface TransformToolState {
+  isActive: boolean
+  basePoint: Point2D | null
+  referencePoints: Point2D[]
+  currentPoint: Point2D | null // Cursor position, for the live preview
+  elementIds: string[]
+}
+
+const IDLE_TRANSFORM_TOOL_STATE: TransformToolState = {
+  isActive: false,
+  basePoint: null,
+  referencePoints: [],
+  currentPoint: null,
+  elementIds: []
+}
+
+/**
+ * Distance typed for the offset tool, or null to offset through the clicked point
+ */
+function getOffsetDistance(dynamicInput: DynamicInputState): number | null {
+  return dynamicInput.showDynamicInput ? Math.max(0, dynamicInput.dynamicDistance) : null
+}
+
+/**
+ * Chamfer size set in the sidebar: two distances, or a distance and an angle
+ */
+function getChamferSize(dynamicInput: DynamicInputState): ChamferSize {
+  return dynamicInput.chamferUseAngle
+    ? { distance: dynamicInput.chamferDistance1, angle: GeometryUtils.degreesToRadians(dynamicInput.chamferAngle) }
+    : { distance1: dynamicInput.chamferDistance1, distance2: dynamicInput.chamferDistance2 }
+}
+
+/**
+ * Placements of the copies made by the array tool, leaving out the one that keeps the sources in place
+ * @param center Center of a polar array
+ * @param path Path followed by a path array
+ * @returns Transforms, or null while a polar array has no center or a path array no path
+ */
+function getArrayTransforms(dynamicInput: DynamicInputState, sources: GeometricElement[], center: Point2D | null, path: Polyline2D | null): Matrix2D[] | null {
+  let placements: Matrix2D[]
+  if (dynamicInput.arrayKind === 'rectangular') {
+    placements = GeometryUtils.rectangularArray(
+      dynamicInput.arrayRows,
+      dynamicInput.arrayColumns,
+      dynamicInput.arrayRowSpacing,
+      dynamicInput.arrayColumnSpacing,
+      -GeometryUtils.degreesToRadians(dynamicInput.arrayAngle)
+    )
+  } else if (dynamicInput.arrayKind === 'polar') {
+    if (!center) return null
+    // Items that keep their orientation move with the center of their bounds
+    const bounds = getElementsBounds(sources)
+    const basePoint = bounds ? new Point2D((bounds.min.x + bounds.max.x) / 2, (bounds.min.y + bounds.max.y) / 2) : center
+    placements = GeometryUtils.polarArray(center, dynamicInput.arrayCount, -GeometryUtils.degreesToRadians(dynamicInput.arrayFillAngle), dynamicInput.arrayRotateItems, basePoint)
+  } else {
+    if (!path) return null
+    placements = GeometryUtils.pathArray(path, dynamicInput.arrayCount, dynamicInput.arrayRotateItems)
+  }
+  return placements.filter(matrix => !matrix.equals(Matrix2D.IDENTITY))
+}
+
+/**
+ * Builds the transform of the rotate or scale tool from the picked points
+ * @param newPoint Point completing the transform, ignored when its value is typed
+ * @returns Transform, or null while more points are needed
+ */
+type TransformToolBuilder = (
+  basePoint: Point2D,
+  referencePoints: Point2D[],
+  newPoint: Point2D | null,
+  dynamicInput: DynamicInputState
+) => Matrix2D | null
+
+/**
+ * Get the rotation the rotate tool would apply
+ * The new angle is the direction from the base point to the cursor, or the typed
+ * angle, which counts counter-clockwise on screen; by reference it is measured
+ * against the direction of the two reference points instead of the X axis
+ */
+const getRotateTransform: TransformToolBuilder = (basePoint, referencePoints, newPoint, dynamicInput) => {
+  let referenceAngle = 0
+  if (dynamicInput.useReference) {
+    if (referencePoints.length < 2) return null
+    referenceAngle = GeometryUtils.vectorAngle(referencePoints[1].subtract(referencePoints[0]))
+  }
+  let newAngle: number
+  if (dynamicInput.showDynamicInput) {
+    newAngle = -GeometryUtils.degreesToRadians(dynamicInput.dynamicAngle ?? 0)
+  } else {
+    if (!newPoint || newPoint.equals(basePoint)) return null
+    newAngle = GeometryUtils.vectorAngle(newPoint.subtract(basePoint))
+  }
+  return Matrix2D.rotation(newAngle - referenceAngle, basePoint)
+}
+
+/**
+ * Get the scaling the scale tool would apply
+ * - By reference, the distance between the reference points becomes the new length,
+ *   typed or measured from the base point to the cursor
+ * - Otherwise the typed factors are used, or the single reference point is scaled onto
+ *   the cursor, per axis when scaling non-uniformly
+ */
+const getScaleTransform: TransformToolBuilder = (basePoint, referencePoints, newPoint, dynamicInput) => {
+  const scaling = (scaleX: number, scaleY: number) => {
+    const matrix = Matrix2D.scaling(scaleX, scaleY, basePoint)
+    return Number.isFinite(matrix.determinant) && !matrix.isSingular ? matrix : null
+  }
+  if (dynamicInput.useReference) {
+    if (referencePoints.length < 2) return null
+    const referenceLength = referencePoints[0].distanceTo(referencePoints[1])
+    const newLength = dynamicInput.showDynamicInput ? dynamicInput.dynamicDistance : newPoint?.distanceTo(basePoint)
+    if (newLength === undefined) return null
+    return scaling(newLength / referenceLength, newLength / referenceLength)
+  }
+  if (dynamicInput.showDynamicInput) {
+    const { scaleFactor, scaleFactorY, nonUniformScale } = dynamicInput
+    return scaling(scaleFactor, nonUniformScale ? scaleFactorY : scaleFactor)
+  }
+  if (referencePoints.length < 1 || !newPoint) return null
+  const from = referencePoints[0].subtract(basePoint)
+  const to = newPoint.subtract(basePoint)
+  if (dynamicInput.nonUniformScale) {
+    // An axis along which the reference point lies level with the base point keeps its size
+    const ratio = (fromLength: number, toLength: number) => Math.abs(fromLength) < ZERO_TOLERANCE ? 1 : toLength / fromLength
+    return scaling(ratio(from.x, to.x), ratio(from.y, to.y))
+  }
+  const factor = to.magnitude / from.magnitude
+  return scaling(factor, factor)
+}
+
+const TRANSFORM_TOOL_BUILDERS: Partial<Record<ToolType, TransformToolBuilder>> = {
+  rotate: getRotateTransform,
+  scale: getScaleTransform
+}
+
+/**
+ * Get how many reference points a rotate or scale operation picks after its base point
+ */
+function getReferencePointCount(tool: ToolType, dynamicInput: DynamicInputState): number {
+  if (dynamicInput.useReference) return 2
+  return tool === 'scale' && !dynamicInput.showDynamicInput ? 1 : 0
 }
 
 /**
@@ -86,6 +236,82 @@ function isElementInSelection(
       // Crossing selection: center inside or circle intersects rectangle
       return centerInside || circleIntersectsRectangle(circle, startX, startY, endX, endY)
     }
+  } else if (element.type === 'arc') {
+    const arc = element.data as Arc2D
+    if (isLeftToRight) {
+      // Window selection: the whole arc must be inside
+      const { min, max } = arc.getBounds()
+      return min.x >= startX && max.x <= endX && min.y >= startY && max.y <= endY
+    }
+    // Crossing selection: an end inside or the arc crossing the rectangle
+    return [arc.startPoint, arc.endPoint].some(end => end.x >= startX && end.x <= endX && end.y >= startY && end.y <= endY) ||
+      arcIntersectsRectangle(arc, startX, startY, endX, endY)
+  } else if (element.type === 'ellipse') {
+    const ellipse = element.data as Ellipse2D
+    if (isLeftToRight) {
+      // Window selection: the whole ellipse must be inside
+      const { min, max } = ellipse.getBounds()
+      return min.x >= startX && max.x <= endX && min.y >= startY && max.y <= endY
+    }
+    // Crossing selection: center inside or the ellipse crossing the rectangle
+    const centerInside = ellipse.center.x >= startX && ellipse.center.x <= endX && ellipse.center.y >= startY && ellipse.center.y <= endY
+    return centerInside || ellipseIntersectsRectangle(ellipse, startX, startY, endX, endY)
+  } else if (element.type === 'elliptical-arc') {
+    const arc = element.data as EllipticalArc2D
+    if (isLeftToRight) {
+      // Window selection: the whole arc must be inside
+      const { min, max } = arc.getBounds()
+      return min.x >= startX && max.x <= endX && min.y >= startY && max.y <= endY
+    }
+    // Crossing selection: an end inside or the arc crossing the rectangle
+    return [arc.startPoint, arc.endPoint].some(end => end.x >= startX && end.x <= endX && end.y >= startY && end.y <= endY) ||
+      ellipticalArcIntersectsRectangle(arc, startX, startY, endX, endY)
+  } else if (element.type === 'polyline') {
+    const polyline = element.data as Polyline2D
+    if (isLeftToRight) {
+      // Window selection: the whole outline must be inside
+      const { min, max } = polyline.getBounds()
+      return min.x >= startX && max.x <= endX && min.y >= startY && max.y <= endY
+    }
+    // Crossing selection: a vertex inside or any segment crossing the rectangle
+    return polyline.vertices.some(vertex => vertex.x >= startX && vertex.x <= endX && vertex.y >= startY && vertex.y <= endY) ||
+      polyline.segments.some(segment => segment instanceof Arc2D
+        ? arcIntersectsRectangle(segment, startX, startY, endX, endY)
+        : lineIntersectsRectangle(segment, startX, startY, endX, endY))
+  } else if (element.type === 'polygon') {
+    const polygon = element.data as Polygon2D
+    if (isLeftToRight) {
+      // Window selection: every vertex must be inside
+      const { min, max } = polygon.getBounds()
+      return min.x >= startX && max.x <= endX && min.y >= startY && max.y <= endY
+    }
+    // Crossing selection: a vertex inside or any edge crossing the rectangle
+    return polygon.vertices.some(vertex => vertex.x >= startX && vertex.x <= endX && vertex.y >= startY && vertex.y <= endY) ||
+      polygon.edges.some(edge => lineIntersectsRectangle(edge, startX, startY, endX, endY))
+  } else if (element.type === 'bezier' || element.type === 'spline') {
+    const curves = element.type === 'bezier' ? [element.data as CubicBezier2D] : (element.data as Spline2D).segments
+    if (isLeftToRight) {
+      // Window selection: the whole curve must be inside
+      return curves.every(curve => {
+        const { min, max } = curve.getBounds()
+        return min.x >= startX && max.x <= endX && min.y >= startY && max.y <= endY
+      })
+    }
+    // Crossing selection: an end inside or the curve crossing the rectangle
+    return curves.some(curve =>
+      (curve.start.x >= startX && curve.start.x <= endX && curve.start.y >= startY && curve.start.y <= endY) ||
+      bezierIntersectsRectangle(curve, startX, startY, endX, endY)
+    )
+  } else if (element.type === 'text') {
+    const outline = getTextOutline(element.data as TextData)
+    if (isLeftToRight) {
+      // Window selection: the whole text box must be inside
+      const { min, max } = outline.getBounds()
+      return min.x >= startX && max.x <= endX && min.y >= startY && max.y <= endY
+    }
+    // Crossing selection: a corner of the text box inside or any of its edges crossing the rectangle
+    return outline.vertices.some(vertex => vertex.x >= startX && vertex.x <= endX && vertex.y >= startY && vertex.y <= endY) ||
+      outline.edges.some(edge => lineIntersectsRectangle(edge, startX, startY, endX, endY))
   }
   
   return false
@@ -120,6 +346,67 @@ function lineIntersectsRectangle(line: Line2D, left: number, top: number, right:
   })
 }
 
+/**
+ * Helper function to check if an arc crosses the edges of a rectangle
+ */
+function arcIntersectsRectangle(arc: Arc2D, left: number, top: number, right: number, bottom: number): boolean {
+  const corners = [
+    new Point2D(left, top),
+    new Point2D(right, top),
+    new Point2D(right, bottom),
+    new Point2D(left, bottom)
+  ]
+  return corners.some((corner, index) =>
+    GeometryUtils.lineArcIntersection(new Line2D(corner, corners[(index + 1) % 4]), arc).length > 0
+  )
+}
+
+/**
+ * Helper function to check if an ellipse crosses the edges of a rectangle
+ */
+function ellipseIntersectsRectangle(ellipse: Ellipse2D, left: number, top: number, right: number, bottom: number): boolean {
+  const corners = [
+    new Point2D(left, top),
+    new Point2D(right, top),
+    new Point2D(right, bottom),
+    new Point2D(left, bottom)
+  ]
+  return corners.some((corner, index) =>
+    GeometryUtils.lineEllipseIntersection(new Line2D(corner, corners[(index + 1) % 4]), ellipse).length > 0
+  )
+}
+
+/**
+ * Helper function to check if an elliptical arc crosses the edges of a rectangle
+ */
+function ellipticalArcIntersectsRectangle(arc: EllipticalArc2D, left: number, top: number, right: number, bottom: number): boolean {
+  const corners = [
+    new Point2D(left, top),
+    new Point2D(right, top),
+    new Point2D(right, bottom),
+    new Point2D(left, bottom)
+  ]
+  return corners.some((corner, index) => GeometryUtils.findIntersections(
+    { type: 'line', data: new Line2D(corner, corners[(index + 1) % 4]) },
+    { type: 'elliptical-arc', data: arc }
+  ).length > 0)
+}
+
+/**
+ * Helper function to check if a Bezier curve crosses the edges of a rectangle
+ */
+function bezierIntersectsRectangle(curve: CubicBezier2D, left: number, top: number, right: number, bottom: number): boolean {
+  const corners = [
+    new Point2D(left, top),
+    new Point2D(right, top),
+    new Point2D(right, bottom),
+    new Point2D(left, bottom)
+  ]
+  return corners.some((corner, index) =>
+    GeometryUtils.lineBezierIntersection(new Line2D(corner, corners[(index + 1) % 4]), curve).length > 0
+  )
+}
+
 /**
  * Helper function to check if a circle intersects a rectangle
  */
@@ -134,15 +421,6 @@ function circleIntersectsRectangle(circle: Circle2D, left: number, top: number,
   return distance <= circle.radius
 }
 
-/**
- * Canvas viewport state for pan/zoom
- */
-interface ViewportState {
-  x: number
-  y: number
-  scale: number
-}
-
 /**
  * Renders infinite grid background in world coordinates
  */
@@ -275,10 +553,32 @@ function IntersectionRenderer({
   )
 }
 
+/**
+ * Renders geometry being drawn or reshaped, in world coordinates
+ */
+function ShapePreviewRenderer({ shapes, color }: { shapes: SvgShape[]; color: string }) {
+  return (
+    <>
+      {shapes.map((shape, index) => (
+        <ShapePrimitive
+          key={index}
+          shape={shape}
+          fill="none"
+          stroke={color}
+          strokeWidth={2}
+          strokeDasharray="6,4"
+          strokeLinejoin="round"
+          className="pointer-events-none"
+        />
+      ))}
+    </>
+  )
+}
+
 /**
  * Renders preview elements for tools in progress
  */
-function PreviewRenderer({ selectedPoints, selectedTool, moveToolState, copyToolState, windowSelectionState, viewport }: {
+function PreviewRenderer({ selectedPoints, selectedTool, moveToolState, copyToolState, transformPreview, windowSelectionState, viewport }: {
   selectedPoints: Point2D[]
   selectedTool: ToolType
   moveToolState?: {
@@ -291,6 +591,11 @@ function PreviewRenderer({ selectedPoints, selectedTool, moveToolState, copyTool
     startPoint: Point2D | null
     elementsToCopy: string[]
   }
+  transformPreview?: {
+    basePoint: Point2D
+    guides: Line2D[] // Reference and new directions or lengths, in world coordinates
+    shapes: SvgShape[] // Rotated or scaled selection, in world coordinates
+  }
   windowSelectionState?: {
     isActive: boolean
     startPoint: Point2D | null
@@ -377,6 +682,37 @@ function PreviewRenderer({ selectedPoints, selectedTool, moveToolState, copyTool
     )
   }
 
+  // Preview for rotate and scale tools, drawn in world coordinates
+  if (transformPreview) {
+    previewElements.push(
+      <g key="transform-preview" className="pointer-events-none">
+        <ShapePreviewRenderer shapes={transformPreview.shapes} color={GEOMETRY_COLORS.SELECTION} />
+        {transformPreview.guides.map((guide, index) => (
+          <line
+            key={index}
+            x1={guide.start.x}
+            y1={guide.start.y}
+            x2={guide.end.x}
+            y2={guide.end.y}
+            stroke={GEOMETRY_COLORS.MEASUREMENT}
+            strokeWidth={1}
+            strokeDasharray="4,4"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        <circle
+          cx={transformPreview.basePoint.x}
+          cy={transformPreview.basePoint.y}
+          r={4}
+          fill="none"
+          stroke={GEOMETRY_COLORS.SELECTION}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </g>
+    )
+  }
+
   // Preview for window selection rectangle
   if (windowSelectionState?.isActive && windowSelectionState.startPoint && windowSelectionState.endPoint) {
     const startX = Math.min(windowSelectionState.startPoint.x, windowSelectionState.endPoint.x)
@@ -469,6 +805,8 @@ export function ModularGeometryCanvas({
   elements: parentElements, // Elements from parent for undo/redo
   selectedTool, 
   onElementAdded,
+  onElementUpdated,
+  onElementDeleted,
   onCanvasClick,
   onToolSelect,
   onClear,
@@ -479,6 +817,11 @@ export function ModularGeometryCanvas({
   onRedo,
   canUndo = false,
   canRedo = false,
+  viewport: externalViewport,
+  onViewportChange,
+  onSelectionChange,
+  dynamicInput: externalDynamicInput,
+  readOnly = false,
   // New props for sidebar state
   sidebarOpen,
   sidebarOpenMobile
@@ -491,6 +834,9 @@ export function ModularGeometryCanvas({
   const containerRef = useRef<HTMLDivElement>(null)
   const canvasState = useCanvasState(showIntersections)
   
+  // Last pointer position in world coordinates, where pasted elements are placed
+  const cursorWorldPointRef = useRef<Point2D | null>(null)
+  
   // Sync parent elements with canvas state for undo/redo
   useEffect(() => {
     if (parentElements && parentElements !== canvasState.elements) {
@@ -500,6 +846,7 @@ export function ModularGeometryCanvas({
   
   // Use external canvas settings if provided, otherwise use internal state
   const canvasSettings = externalCanvasSettings || canvasState.settings
+  const dynamicInput = externalDynamicInput || canvasState.dynamicInput
   
   // DEBUG: Log settings to console to verify
   useEffect(() => {
@@ -573,6 +920,23 @@ export function ModularGeometryCanvas({
     y: 0,
     scale: 1
   })
+
+  // Apply viewport changes coming from the parent (e.g. opening a saved drawing)
+  useEffect(() => {
+    if (externalViewport) {
+      setViewport(externalViewport)
+    }
+  }, [externalViewport])
+
+  // Report viewport and canvas size changes so the parent can persist the view and export what is visible
+  useEffect(() => {
+    onViewportChange?.(viewport, { width, height })
+  }, [viewport, width, height, onViewportChange])
+
+  // Report selection changes so the parent can act on the selected elements
+  useEffect(() => {
+    onSelectionChange?.(canvasState.selection.selectedElements)
+  }, [canvasState.selection.selectedElements, onSelectionChange])
   
   // Prevent browser zoom and handle touch zoom - moved here after viewport state
   useEffect(() => {
@@ -725,6 +1089,68 @@ export function ModularGeometryCanvas({
     elementsToCopy: []
   })
   
+  // Rotate and scale tool state
+  const [transformToolState, setTransformToolState] = useState<TransformToolState>(IDLE_TRANSFORM_TOOL_STATE)
+
+  // Offset tool state: the picked element and the cursor position for the preview
+  const [offsetToolState, setOffsetToolState] = useState<{
+    elementId: string
+    currentPoint: Point2D
+  } | null>(null)
+
+  // Fillet and chamfer tool state: the first picked element and where it was picked
+  const [cornerToolState, setCornerToolState] = useState<{
+    elementId: string
+    pick: Point2D
+  } | null>(null)
+
+  // Trim tool fence: a line dragged across the spans to trim
+  const [trimFence, setTrimFence] = useState<{
+    start: Point2D
+    end: Point2D
+  } | null>(null)
+
+  // Extend tool state: the cursor position for the preview
+  const [extendHoverPoint, setExtendHoverPoint] = useState<Point2D | null>(null)
+
+  // Break tool state: the element and first point picked, and the cursor position for the preview
+  const [breakToolState, setBreakToolState] = useState<{
+    elementId: string
+    first: Point2D
+    currentPoint: Point2D
+  } | null>(null)
+
+  // Array tool state: the cursor position for the preview
+  const [arrayHoverPoint, setArrayHoverPoint] = useState<Point2D | null>(null)
+
+  // Polyline tool state: which segments so far are arcs, and whether the next one will be
+  const [polylineState, setPolylineState] = useState<{
+    arcSegments: boolean[]
+    arcMode: boolean
+  }>({
+    arcSegments: [],
+    arcMode: false
+  })
+
+  // Grip being dragged on a selected polyline or curve
+  const [gripDragState, setGripDragState] = useState<{
+    elementId: string
+    gripIndex: number
+    point: Point2D
+  } | null>(null)
+
+  // Drop an unfinished polyline's segment modes when switching tools
+  useEffect(() => {
+    setPolylineState({ arcSegments: [], arcMode: false })
+    setTransformToolState(IDLE_TRANSFORM_TOOL_STATE)
+    setOffsetToolState(null)
+    setCornerToolState(null)
+    setTrimFence(null)
+    setExtendHoverPoint(null)
+    setBreakToolState(null)
+    setArrayHoverPoint(null)
+  }, [selectedTool])
+
   // Window selection state
   const [windowSelectionState, setWindowSelectionState] = useState<{
     isActive: boolean
@@ -821,9 +1247,158 @@ export function ModularGeometryCanvas({
     setViewport(newViewport)
   }, [viewport, width, height, screenToWorld])
 
+  /**
+   * Add elements built from existing ones, such as copies and offsets, reporting each to the parent
+   */
+  const addDerivedElements = useCallback((elements: GeometricElement[]) => {
+    if (elements.length === 0) return
+    canvasState.setElements([...canvasState.elements, ...elements])
+    elements.forEach(element => onElementAdded?.(element))
+  }, [canvasState, onElementAdded])
+
+  /**
+   * Get the cutting or boundary edges for trim and extend
+   * Selected elements are the edges when there are any; otherwise every visible element is.
+   */
+  const getEdgeElements = useCallback(() => {
+    const selectedIds = canvasState.selection.selectedElements
+    const visible = getVisibleElements(canvasState.elements)
+    return selectedIds.length > 0 ? visible.filter(element => selectedIds.includes(element.id)) : visible
+  }, [canvasState])
+
+  /**
+   * Write edited, new and removed elements in one step, reporting every change to the parent
+   */
+  const applyElementChanges = useCallback((updated: GeometricElement[], added: GeometricElement[], deletedIds: string[]) => {
+    const selectedIds = canvasState.selection.selectedElements
+    const updates = new Map(updated.map(element => [element.id, element]))
+    canvasState.setElements([
+      ...canvasState.elements
+        .filter(element => !deletedIds.includes(element.id))
+        .map(element => updates.get(element.id) ?? element),
+      ...added
+    ])
+    if (deletedIds.some(id => selectedIds.includes(id))) {
+      canvasState.selectElements(selectedIds.filter(id => !deletedIds.includes(id)))
+    }
+    updated.forEach(element => onElementUpdated?.(element))
+    added.forEach(element => onElementAdded?.(element))
+    deletedIds.forEach(id => onElementDeleted?.(id))
+  }, [canvasState, onElementUpdated, onElementAdded, onElementDeleted])
+
+  /**
+   * Trim the picked spans of elements, reporting every change to the parent
+   */
+  const trimPickedSpans = useCallback((picks: Array<{ element: GeometricElement; points: Point2D[] }>) => {
+    const edges = getEdgeElements()
+    const trimmed = picks.flatMap(({ element, points }) => {
+      const pieces = trimElement(element, points, edges)
+      return pieces ? [{ id: element.id, pieces }] : []
+    })
+    if (trimmed.length === 0) return
+
+    applyElementChanges(
+      trimmed.flatMap(({ pieces }) => pieces.slice(0, 1)),
+      trimmed.flatMap(({ pieces }) => pieces.slice(1)),
+      trimmed.filter(({ pieces }) => pieces.length === 0).map(({ id }) => id)
+    )
+  }, [getEdgeElements, applyElementChanges])
+
+  /**
+   * Break the element picked by the break tool at its first point, or between its first point and a second one
+   */
+  const finishBreak = useCallback((second: Point2D | null) => {
+    const source = breakToolState && canvasState.elements.find(element => element.id === breakToolState.elementId)
+    setBreakToolState(null)
+    if (!source) return
+    const pieces = breakElement(source, breakToolState.first, second)
+    if (!pieces) return
+    applyElementChanges(pieces.slice(0, 1), pieces.slice(1), pieces.length === 0 ? [source.id] : [])
+  }, [breakToolState, canvasState, applyElementChanges])
+
+  /**
+   * Join the selected elements that the join tool can merge
+   */
+  const joinSelectedElements = useCallback(() => {
+    const selectedIds = canvasState.selection.selectedElements
+    const joined = joinElements(canvasState.elements.filter(element => selectedIds.includes(element.id)))
+    if (!joined) return
+    applyElementChanges(joined.updated, [], joined.deleted)
+    canvasState.clearSelection()
+  }, [canvasState, applyElementChanges])
+
+  /**
+   * Add one transformed copy of the given elements per transform, keeping their color and layer
+   */
+  const addTransformedCopies = useCallback((elementIds: string[], transforms: Matrix2D[]) => {
+    const sources = canvasState.elements.filter(element => elementIds.includes(element.id))
+    addDerivedElements(transforms.flatMap(matrix => sources.map(element => cloneElement(element, matrix))))
+  }, [canvasState, addDerivedElements])
+
+  /**
+   * Apply the transform built by the rotate or scale tool to the picked elements,
+   * or add transformed copies of them
+   */
+  const finishTransform = useCallback((elementIds: string[], matrix: Matrix2D) => {
+    setTransformToolState(IDLE_TRANSFORM_TOOL_STATE)
+    if (matrix.equals(Matrix2D.IDENTITY)) return
+    if (dynamicInput.keepOriginal) {
+      addTransformedCopies(elementIds, [matrix])
+      return
+    }
+    canvasState.elements
+      .filter(element => elementIds.includes(element.id))
+      .forEach(element => {
+        const transformed = transformElement(element, matrix)
+        canvasState.updateElement(element.id, { type: transformed.type, data: transformed.data })
+        onElementUpdated?.(transformed)
+      })
+  }, [canvasState, dynamicInput.keepOriginal, addTransformedCopies, onElementUpdated])
+
   /**
    * Handle canvas click events
    */
+  /**
+   * Create the polyline, polygon or spline drawn so far and reset the drawing tool
+   */
+  const finishPointSequence = useCallback((points: Point2D[], arcSegments: boolean[], closed: boolean) => {
+    const splineKind = SPLINE_TOOL_KINDS[selectedTool]
+    if (selectedTool === 'polygon') {
+      const polygon = buildPolygon(points)
+      if (polygon) {
+        const element = canvasState.addElement('polygon', polygon, GEOMETRY_COLORS.POLYGON)
+        onElementAdded?.(element)
+      }
+    } else if (splineKind) {
+      const spline = buildSpline(points, splineKind, closed)
+      if (spline) {
+        const element = canvasState.addElement('spline', spline, GEOMETRY_COLORS.CURVE)
+        onElementAdded?.(element)
+      }
+    } else {
+      const polyline = buildPolyline(points, arcSegments, closed)
+      if (polyline) {
+        const element = canvasState.addElement('polyline', polyline, GEOMETRY_COLORS.POLYLINE)
+        onElementAdded?.(element)
+      }
+    }
+    canvasState.setSelectedPoints([])
+    setPolylineState({ arcSegments: [], arcMode: false })
+  }, [canvasState, onElementAdded, selectedTool])
+
+  /**
+   * Find the grip of a selected element under a world point
+   */
+  const findElementGrip = useCallback((worldPoint: Point2D) => {
+    const gripDistance = canvasSettings.snapDistance / viewport.scale
+    for (const element of canvasState.elements) {
+      if (!canvasState.selection.selectedElements.includes(element.id)) continue
+      const gripIndex = getElementGrips(element).findIndex(grip => grip.distanceTo(worldPoint) <= gripDistance)
+      if (gripIndex !== -1) return { elementId: element.id, gripIndex }
+    }
+    return null
+  }, [canvasState, canvasSettings.snapDistance, viewport.scale])
+
   const handleCanvasClick = useCallback((event: React.MouseEvent<SVGSVGElement>) => {
     // Don't handle clicks during panning OR if mouse moved significantly (drag operation)
     if (isPanning || hasMouseMoved) {
@@ -831,6 +1406,9 @@ export function ModularGeometryCanvas({
       return
     }
     
+    // Only inspection tools work on a read-only drawing
+    if (readOnly && !READ_ONLY_TOOLS.includes(selectedTool)) return
+    
     const screenPoint = getMousePosition(event)
     const worldPoint = screenToWorld(screenPoint)
     
@@ -925,27 +1503,7 @@ export function ModularGeometryCanvas({
             worldPoint.y - copyToolState.startPoint.y
           )
           
-          // Copy each element with offset
-          copyToolState.elementsToCopy.forEach(elementId => {
-            const element = canvasState.elements.find(el => el.id === elementId)
-            if (element) {
-              let newData = element.data
-              
-              // Apply offset based on element type
-              if (element.type === 'point') {
-                const point = element.data as Point2D
-                newData = point.add(offset)
-              } else if (element.type === 'line') {
-                const line = element.data as Line2D
-                newData = new Line2D(line.start.add(offset), line.end.add(offset))
-              } else if (element.type === 'circle') {
-                const circle = element.data as Circle2D
-                newData = new Circle2D(circle.center.add(offset), circle.radius)
-              }
-              
-              canvasState.addElement(element.type, newData, element.color)
-            }
-          })
+          addTransformedCopies(copyToolState.elementsToCopy, [Matrix2D.translation(offset)])
           
           // Reset copy tool state
           setCopyToolState({
@@ -959,78 +1517,78 @@ export function ModularGeometryCanvas({
     }
     
     if (selectedTool === 'array') {
-      // Array tool - create multiple copies in a pattern
-      if (canvasState.selection.selectedElements.length > 0) {
-        // For now, create a simple linear array
-        const offset = new Vector2D(50, 50)
-        const copies = 3
-        
-        for (let i = 1; i <= copies; i++) {
-          const currentOffset = offset.scale(i)
-          canvasState.selection.selectedElements.forEach(elementId => {
-            const element = canvasState.elements.find(el => el.id === elementId)
-            if (element) {
-              let newData = element.data
-              
-              // Apply offset based on element type
-              if (element.type === 'point') {
-                const point = element.data as Point2D
-                newData = point.add(currentOffset)
-              } else if (element.type === 'line') {
-                const line = element.data as Line2D
-                newData = new Line2D(line.start.add(currentOffset), line.end.add(currentOffset))
-              } else if (element.type === 'circle') {
-                const circle = element.data as Circle2D
-                newData = new Circle2D(circle.center.add(currentOffset), circle.radius)
-              }
-              
-              canvasState.addElement(element.type, newData, element.color)
-            }
-          })
-        }
+      // Ctrl+click picks the elements to copy; a plain click places the array, picking
+      // the center of a polar array or the element a path array follows
+      const elementAtPoint = canvasState.findElementAt(worldPoint)
+      const selectedIds = canvasState.selection.selectedElements
+      if (event.ctrlKey || event.metaKey || selectedIds.length === 0) {
+        if (elementAtPoint) canvasState.toggleElementSelection(elementAtPoint.id)
+        return
       }
+      const path = elementAtPoint && !selectedIds.includes(elementAtPoint.id) ? getElementPath(elementAtPoint) : null
+      const sources = canvasState.elements.filter(element => selectedIds.includes(element.id))
+      const transforms = getArrayTransforms(dynamicInput, sources, findSnapPoint(worldPoint), path)
+      if (!transforms) return
+      addTransformedCopies(selectedIds, transforms)
+      canvasState.clearSelection()
       return
     }
     
     if (selectedTool === 'trim') {
-      // Trim tool - delete segment of line between intersections
+      // Ctrl+click picks the cutting edges; a plain click removes the span under the cursor
       const elementAtPoint = canvasState.findElementAt(worldPoint)
-      if (elementAtPoint && elementAtPoint.type === 'line') {
-        // Find intersections on this line
-        const lineData = elementAtPoint.data as Line2D
-        const intersectionsOnLine = canvasState.intersections.filter(intersection =>
-          intersection.elements.includes(elementAtPoint.id)
-        )
-        
-        if (intersectionsOnLine.length >= 2) {
-          // Find the two closest intersections to the click point
-          const sortedIntersections = intersectionsOnLine
-            .map(intersection => ({
-              intersection,
-              distance: worldPoint.distanceTo(intersection.point)
-            }))
-            .sort((a, b) => a.distance - b.distance)
-            .slice(0, 2)
-            .map(item => item.intersection)
-          
-          if (sortedIntersections.length === 2) {
-            // Delete the original line
-            canvasState.deleteElement(elementAtPoint.id)
-            
-            // Create two new line segments
-            const newLine1 = new Line2D(lineData.start, sortedIntersections[0].point)
-            const newLine2 = new Line2D(sortedIntersections[1].point, lineData.end)
-            
-            // Only add lines if they have meaningful length
-            if (newLine1.length > 1) {
-              canvasState.addElement('line', newLine1, elementAtPoint.color)
-            }
-            if (newLine2.length > 1) {
-              canvasState.addElement('line', newLine2, elementAtPoint.color)
-            }
-          }
+      if (!elementAtPoint) return
+      if (event.ctrlKey || event.metaKey) {
+        canvasState.toggleElementSelection(elementAtPoint.id)
+      } else if (canTrimElement(elementAtPoint)) {
+        trimPickedSpans([{ element: elementAtPoint, points: [worldPoint] }])
+      }
+      return
+    }
+    
+    if (selectedTool === 'extend') {
+      // Ctrl+click picks the boundary edges; a plain click extends the nearer end of the element
+      const elementAtPoint = canvasState.findElementAt(worldPoint)
+      if (!elementAtPoint) return
+      if (event.ctrlKey || event.metaKey) {
+        canvasState.toggleElementSelection(elementAtPoint.id)
+      } else if (canExtendElement(elementAtPoint)) {
+        const extended = extendElement(elementAtPoint, worldPoint, getEdgeElements())
+        if (!extended) return
+        canvasState.updateElement(extended.id, { data: extended.data })
+        onElementUpdated?.(extended)
+      }
+      return
+    }
+    
+    if (selectedTool === 'break') {
+      // Pick the element at the first break point, then click the second point
+      if (!breakToolState) {
+        const elementAtPoint = canvasState.findElementAt(worldPoint)
+        if (elementAtPoint && canBreakElement(elementAtPoint)) {
+          const first = findSnapPoint(worldPoint)
+          setBreakToolState({ elementId: elementAtPoint.id, first, currentPoint: first })
         }
+        return
       }
+      finishBreak(findSnapPoint(worldPoint))
+      return
+    }
+    
+    if (selectedTool === 'join') {
+      // Pick the elements to join, then press Enter
+      const elementAtPoint = canvasState.findElementAt(worldPoint)
+      if (elementAtPoint && canJoinElement(elementAtPoint)) {
+        canvasState.toggleElementSelection(elementAtPoint.id)
+      }
+      return
+    }
+    
+    if (selectedTool === 'explode') {
+      const elementAtPoint = canvasState.findElementAt(worldPoint)
+      if (!elementAtPoint || !canExplodeElement(elementAtPoint)) return
+      const parts = explodeElement(elementAtPoint)
+      applyElementChanges(parts.slice(0, 1), parts.slice(1), [])
       return
     }
     
@@ -1044,34 +1602,14 @@ export function ModularGeometryCanvas({
           return
         } else if (canvasState.selectedPoints.length === 1) {
           // Second click - end of mirror axis, perform mirror
+          // Clicking the same point twice gives no axis, so wait for a distinct second point
+          if (canvasState.selectedPoints[0].equals(worldPoint)) return
           const mirrorAxis = new Line2D(canvasState.selectedPoints[0], worldPoint)
           
-          // Mirror each selected element
-          canvasState.selection.selectedElements.forEach(elementId => {
-            const element = canvasState.elements.find(el => el.id === elementId)
-            if (element) {
-              let mirroredData = element.data
-              
-              if (element.type === 'point') {
-                const point = element.data as Point2D
-                mirroredData = mirrorPointAcrossLine(point, mirrorAxis)
-              } else if (element.type === 'line') {
-                const line = element.data as Line2D
-                const mirroredStart = mirrorPointAcrossLine(line.start, mirrorAxis)
-                const mirroredEnd = mirrorPointAcrossLine(line.end, mirrorAxis)
-                mirroredData = new Line2D(mirroredStart, mirroredEnd)
-              } else if (element.type === 'circle') {
-                const circle = element.data as Circle2D
-                const mirroredCenter = mirrorPointAcrossLine(circle.center, mirrorAxis)
-                mirroredData = new Circle2D(mirroredCenter, circle.radius)
-              }
-              
-              canvasState.addElement(element.type, mirroredData, element.color)
-            }
-          })
-          
-          // Add mirror axis line for reference
-          canvasState.addElement('line', mirrorAxis, GEOMETRY_COLORS.PERPENDICULAR)
+          // Mirror each selected element, then add the mirror axis line for reference
+          addTransformedCopies(canvasState.selection.selectedElements, [Matrix2D.reflection(mirrorAxis)])
+          const axisElement = canvasState.addElement('line', mirrorAxis, GEOMETRY_COLORS.PERPENDICULAR)
+          onElementAdded?.(axisElement)
           canvasState.setSelectedPoints([])
         }
       } else {
@@ -1084,6 +1622,93 @@ export function ModularGeometryCanvas({
       return
     }
     
+    if (selectedTool === 'offset') {
+      // Pick the element, then click the side to offset toward or the point to offset through
+      const source = offsetToolState && canvasState.elements.find(element => element.id === offsetToolState.elementId)
+      if (!source) {
+        const elementAtPoint = canvasState.findElementAt(worldPoint)
+        if (elementAtPoint && canOffsetElement(elementAtPoint)) {
+          canvasState.selectElements([elementAtPoint.id])
+          setOffsetToolState({ elementId: elementAtPoint.id, currentPoint: worldPoint })
+        }
+        return
+      }
+      addDerivedElements(offsetElement(source, findSnapPoint(worldPoint), getOffsetDistance(dynamicInput), dynamicInput.offsetJoin))
+      canvasState.clearSelection()
+      setOffsetToolState(null)
+      return
+    }
+
+    if (selectedTool === 'fillet' || selectedTool === 'chamfer') {
+      // Pick two elements, or two segments of one polyline or outline, on the sides of the corner to keep
+      const isFillet = selectedTool === 'fillet'
+      const elementAtPoint = canvasState.findElementAt(worldPoint)
+      if (!elementAtPoint || !(isFillet ? canFilletElement(elementAtPoint) : canChamferElement(elementAtPoint))) return
+      const first = cornerToolState ? canvasState.elements.find(element => element.id === cornerToolState.elementId) : undefined
+      if (!cornerToolState || !first) {
+        canvasState.selectElements([elementAtPoint.id])
+        setCornerToolState({ elementId: elementAtPoint.id, pick: worldPoint })
+        return
+      }
+      const corner = isFillet
+        ? filletElements(first, cornerToolState.pick, elementAtPoint, worldPoint, dynamicInput.filletRadius)
+        : chamferElements(first, cornerToolState.pick, elementAtPoint, worldPoint, getChamferSize(dynamicInput))
+      canvasState.clearSelection()
+      setCornerToolState(null)
+      if (!corner) return
+      const updates = new Map(corner.updated.map(element => [element.id, element]))
+      canvasState.setElements([...canvasState.elements.map(element => updates.get(element.id) ?? element), ...corner.added])
+      corner.updated.forEach(element => onElementUpdated?.(element))
+      corner.added.forEach(element => onElementAdded?.(element))
+      return
+    }
+
+    const getTransform = TRANSFORM_TOOL_BUILDERS[selectedTool]
+    if (getTransform) {
+      const point = findSnapPoint(worldPoint)
+      if (!transformToolState.isActive) {
+        // Transform what is selected, or pick the element to transform first
+        if (canvasState.selection.selectedElements.length === 0) {
+          const elementAtPoint = canvasState.findElementAt(worldPoint)
+          if (elementAtPoint) {
+            canvasState.selectElements([elementAtPoint.id])
+          }
+          return
+        }
+        const elementIds = canvasState.selection.selectedElements
+        // Typed values may complete the transform as soon as the base point is known
+        const matrix = getTransform(point, [], null, dynamicInput)
+        if (matrix) {
+          finishTransform(elementIds, matrix)
+          return
+        }
+        setTransformToolState({ ...IDLE_TRANSFORM_TOOL_STATE, isActive: true, basePoint: point, currentPoint: point, elementIds })
+        return
+      }
+
+      const { basePoint, referencePoints, elementIds } = transformToolState
+      if (!basePoint) return
+      const referenceCount = getReferencePointCount(selectedTool, dynamicInput)
+      if (referencePoints.length < referenceCount) {
+        // A pair of reference points must be distinct, and a single one is measured from the base point
+        const previous = referencePoints.length > 0 ? referencePoints[referencePoints.length - 1] : referenceCount === 1 ? basePoint : null
+        if (previous?.equals(point)) return
+        const newReferencePoints = [...referencePoints, point]
+        const matrix = getTransform(basePoint, newReferencePoints, null, dynamicInput)
+        if (matrix) {
+          finishTransform(elementIds, matrix)
+        } else {
+          setTransformToolState(prev => ({ ...prev, referencePoints: newReferencePoints }))
+        }
+        return
+      }
+      const matrix = getTransform(basePoint, referencePoints, point, dynamicInput)
+      if (matrix) {
+        finishTransform(elementIds, matrix)
+      }
+      return
+    }
+    
     if (selectedTool === 'move') {
       // Two-click move workflow: start point -> end point
       if (!moveToolState.isActive) {
@@ -1114,7 +1739,7 @@ export function ModularGeometryCanvas({
             worldPoint.x - moveToolState.startPoint.x,
             worldPoint.y - moveToolState.startPoint.y
           )
-          canvasState.moveSelectedElements(offset)
+          canvasState.moveSelectedElements(offset).forEach(element => onElementUpdated?.(element))
           
           // Reset move tool state
           setMoveToolState({
@@ -1152,7 +1777,7 @@ export function ModularGeometryCanvas({
         elements: canvasState.elements,
         selectedPoints: canvasState.selectedPoints,
         settings: canvasSettings,
-        dynamicInput: canvasState.dynamicInput,
+        dynamicInput,
         addElement: (type, data, color) => {
           const element = canvasState.addElement(type, data, color)
           onElementAdded?.(element)
@@ -1164,8 +1789,28 @@ export function ModularGeometryCanvas({
       if (result.newSelectedPoints !== undefined) {
         canvasState.setSelectedPoints(result.newSelectedPoints)
       }
+
+      // Each new polyline segment takes the current line/arc mode; clicking the first point closes the outline
+      const points = result.newSelectedPoints
+      if (POINT_SEQUENCE_TOOLS.includes(selectedTool) && points && points.length > Math.max(canvasState.selectedPoints.length, 1)) {
+        const arcSegments = [...polylineState.arcSegments, polylineState.arcMode]
+        if (points.length > 3 && points[0].equals(points[points.length - 1])) {
+          finishPointSequence(points, arcSegments, true)
+        } else {
+          setPolylineState(prev => ({ ...prev, arcSegments }))
+        }
+      }
+    }
+  }, [isPanning, hasMouseMoved, getMousePosition, selectedTool, canvasState, findSnapPoint, onCanvasClick, onElementAdded, moveToolState, copyToolState, windowSelectionState, canvasSettings, dynamicInput, readOnly, polylineState, finishPointSequence, addTransformedCopies, onElementUpdated, transformToolState, finishTransform, offsetToolState, addDerivedElements, cornerToolState, trimPickedSpans, getEdgeElements, breakToolState, finishBreak, applyElementChanges])
+
+  /**
+   * Double-click finishes an open polyline or spline
+   */
+  const handleDoubleClick = useCallback(() => {
+    if (POINT_SEQUENCE_TOOLS.includes(selectedTool) && canvasState.selectedPoints.length > 0) {
+      finishPointSequence(canvasState.selectedPoints, polylineState.arcSegments, false)
     }
-  }, [isPanning, hasMouseMoved, getMousePosition, selectedTool, canvasState, findSnapPoint, onCanvasClick, onElementAdded, moveToolState, copyToolState, windowSelectionState, canvasSettings])
+  }, [selectedTool, canvasState.selectedPoints, polylineState.arcSegments, finishPointSequence])
 
   /**
    * Handle mouse move for hover effects and panning
@@ -1200,6 +1845,32 @@ export function ModularGeometryCanvas({
     }
     
     const worldPoint = screenToWorld(screenPoint)
+    cursorWorldPointRef.current = worldPoint
+    
+    // Handle polyline grip dragging
+    if (gripDragState) {
+      setGripDragState(prev => prev && { ...prev, point: findSnapPoint(worldPoint) })
+    }
+    
+    // Track the cursor for the rotate and scale previews; typed values are previewed around the cursor before the base point is picked
+    if (TRANSFORM_TOOL_BUILDERS[selectedTool]) {
+      setTransformToolState(prev => ({ ...prev, currentPoint: findSnapPoint(worldPoint) }))
+    }
+    if (selectedTool === 'offset') {
+      setOffsetToolState(prev => prev && { ...prev, currentPoint: findSnapPoint(worldPoint) })
+    }
+    if (selectedTool === 'trim') {
+      setTrimFence(prev => prev && { ...prev, end: worldPoint })
+    }
+    if (selectedTool === 'extend') {
+      setExtendHoverPoint(worldPoint)
+    }
+    if (selectedTool === 'break') {
+      setBreakToolState(prev => prev && { ...prev, currentPoint: findSnapPoint(worldPoint) })
+    }
+    if (selectedTool === 'array') {
+      setArrayHoverPoint(worldPoint)
+    }
     
     // Handle window selection tracking
     if (selectedTool === 'select' && windowSelectionState.isActive && windowSelectionState.startPoint) {
@@ -1243,7 +1914,7 @@ export function ModularGeometryCanvas({
       hoveredElement: elementAtPoint?.id || null,
       hoveredGridPoint
     })
-  }, [getMousePosition, mouseDownPoint, isPanning, lastPanPoint, screenToWorld, canvasState, viewport.scale, selectedTool, windowSelectionState, canvasSettings])
+  }, [getMousePosition, mouseDownPoint, isPanning, lastPanPoint, screenToWorld, canvasState, viewport.scale, selectedTool, windowSelectionState, canvasSettings, gripDragState, findSnapPoint])
 
   /**
    * Handle mouse down for drag operations and panning
@@ -1262,11 +1933,22 @@ export function ModularGeometryCanvas({
       return
     }
     
-    if (selectedTool === 'select' && canvasState.selection.selectedElements.length > 0) {
+    if (selectedTool === 'select' && canvasState.selection.selectedElements.length > 0 && !readOnly) {
       const worldPoint = screenToWorld(screenPoint)
+      // Grabbing a grip reshapes that element instead of moving the selection
+      const grip = findElementGrip(worldPoint)
+      if (grip) {
+        setGripDragState({ ...grip, point: worldPoint })
+        return
+      }
       canvasState.startDrag(worldPoint, canvasState.selection.selectedElements)
     }
-  }, [getMousePosition, selectedTool, canvasState, screenToWorld])
+    
+    if (selectedTool === 'trim' && !readOnly) {
+      const worldPoint = screenToWorld(screenPoint)
+      setTrimFence({ start: worldPoint, end: worldPoint })
+    }
+  }, [getMousePosition, selectedTool, canvasState, screenToWorld, readOnly, findElementGrip])
 
   /**
    * Handle mouse up for drag operations and panning
@@ -1282,31 +1964,118 @@ export function ModularGeometryCanvas({
       return
     }
     
+    if (trimFence) {
+      setTrimFence(null)
+      // Dragging trims every span the fence crosses; a plain click is handled by handleCanvasClick
+      const end = screenToWorld(getMousePosition(event))
+      if (!hasMouseMoved || end.equals(trimFence.start)) return
+      const fence = new Line2D(trimFence.start, end)
+      trimPickedSpans(getVisibleElements(canvasState.elements)
+        .filter(canTrimElement)
+        .map(element => ({ element, points: findLineCrossings(element, fence) }))
+        .filter(({ points }) => points.length > 0))
+      return
+    }
+    
+    if (gripDragState) {
+      const { elementId, gripIndex, point } = gripDragState
+      setGripDragState(null)
+      const element = canvasState.elements.find(el => el.id === elementId)
+      if (!element || getElementGrips(element)[gripIndex].equals(point)) return
+      try {
+        const updatedElement = moveElementGrip(element, gripIndex, point)
+        canvasState.updateElement(elementId, { type: updatedElement.type, data: updatedElement.data })
+        onElementUpdated?.(updatedElement)
+      } catch {
+        // Dropping a vertex onto its neighbour would collapse an edge, so keep the element as it was
+      }
+      return
+    }
+    
     if (canvasState.drag.isDragging) {
       const screenPoint = getMousePosition(event)
       const worldPoint = screenToWorld(screenPoint)
       canvasState.endDrag(worldPoint, (_elementIds, offset) => {
-        canvasState.moveSelectedElements(offset)
+        canvasState.moveSelectedElements(offset).forEach(element => onElementUpdated?.(element))
       })
     }
-  }, [isPanning, canvasState, getMousePosition, screenToWorld])
+  }, [isPanning, canvasState, getMousePosition, screenToWorld, gripDragState, onElementUpdated, trimFence, hasMouseMoved, trimPickedSpans])
 
   /**
    * Handle keyboard shortcuts
    */
   const handleKeyDown = useCallback((event: React.KeyboardEvent<SVGSVGElement>) => {
+    if (readOnly && (event.key === 'Delete' || event.key === 'Backspace' ||
+      ((event.ctrlKey || event.metaKey) && 'zZyYhH'.includes(event.key)))) {
+      return
+    }
+    // Polyline and spline tool keys; preventDefault keeps them from also switching tools
+    if (POINT_SEQUENCE_TOOLS.includes(selectedTool) && canvasState.selectedPoints.length > 0 && !event.ctrlKey && !event.metaKey) {
+      const key = event.key.toLowerCase()
+      if (event.key === 'Enter' || key === 'c') {
+        event.preventDefault()
+        const closed = key === 'c'
+        finishPointSequence(
+          canvasState.selectedPoints,
+          closed ? [...polylineState.arcSegments, polylineState.arcMode] : polylineState.arcSegments,
+          closed
+        )
+        return
+      }
+      if (selectedTool === 'polyline' && (key === 'a' || key === 'l')) {
+        event.preventDefault()
+        setPolylineState(prev => ({ ...prev, arcMode: key === 'a' }))
+        return
+      }
+      if (event.key === 'Escape') {
+        event.preventDefault()
+        canvasState.setSelectedPoints([])
+        setPolylineState({ arcSegments: [], arcMode: false })
+        return
+      }
+    }
+    if (TRANSFORM_TOOL_BUILDERS[selectedTool] && transformToolState.isActive && event.key === 'Escape') {
+      event.preventDefault()
+      setTransformToolState(IDLE_TRANSFORM_TOOL_STATE)
+      return
+    }
+    if (selectedTool === 'offset' && offsetToolState && event.key === 'Escape') {
+      event.preventDefault()
+      canvasState.clearSelection()
+      setOffsetToolState(null)
+      return
+    }
+    if ((selectedTool === 'fillet' || selectedTool === 'chamfer') && cornerToolState && event.key === 'Escape') {
+      event.preventDefault()
+      canvasState.clearSelection()
+      setCornerToolState(null)
+      return
+    }
+    if (selectedTool === 'break' && breakToolState && (event.key === 'Enter' || event.key === 'Escape')) {
+      event.preventDefault()
+      if (event.key === 'Enter') {
+        finishBreak(null)
+      } else {
+        setBreakToolState(null)
+      }
+      return
+    }
+    if (selectedTool === 'join' && !readOnly && canvasState.selection.selectedElements.length > 0 && (event.key === 'Enter' || event.key === 'Escape')) {
+      event.preventDefault()
+      if (event.key === 'Enter') {
+        joinSelectedElements()
+      } else {
+        canvasState.clearSelection()
+      }
+      return
+    }
+    // Ctrl+C and Ctrl+V are left to the browser, which fires the copy and paste events below
     if (event.key === 'Delete' || event.key === 'Backspace') {
       if (canvasState.selection.selectedElements.length > 0) {
         canvasState.deleteSelectedElements()
       }
     } else if (event.ctrlKey || event.metaKey) {
-      if (event.key === 'c' || event.key === 'C') {
-        event.preventDefault()
-        canvasState.copySelected()
-      } else if (event.key === 'v' || event.key === 'V') {
-        event.preventDefault()
-        canvasState.pasteElements(canvasState.addElement)
-      } else if (event.key === 'z' || event.key === 'Z') {
+      if (event.key === 'z' || event.key === 'Z') {
         event.preventDefault()
         if (event.shiftKey) {
           // Ctrl+Shift+Z = Redo
@@ -1349,7 +2118,121 @@ export function ModularGeometryCanvas({
         }
       }
     }
-  }, [canvasState, windowSelectionState, moveToolState, copyToolState, onUndo, onRedo])
+  }, [canvasState, windowSelectionState, moveToolState, copyToolState, onUndo, onRedo, readOnly, selectedTool, polylineState, finishPointSequence, transformToolState.isActive, offsetToolState, cornerToolState, breakToolState, finishBreak, joinSelectedElements])
+
+  /**
+   * Write the selection to the system clipboard
+   */
+  const handleCopy = useCallback((event: React.ClipboardEvent<SVGSVGElement>) => {
+    const selected = canvasState.copySelected()
+    if (selected.length === 0) return
+    event.preventDefault()
+    writeElementsToClipboard(event.clipboardData, selected)
+  }, [canvasState])
+
+  /**
+   * Paste elements from the system clipboard
+   * Copied elements and SVG are centered on the cursor; coordinate text is placed as written
+   */
+  const handlePaste = useCallback((event: React.ClipboardEvent<SVGSVGElement>) => {
+    if (readOnly) return
+    event.preventDefault()
+
+    let content
+    try {
+      content = readElementsFromClipboard(event.clipboardData)
+    } catch (error) {
+      alert(`Could not paste: ${(error as Error).message}`)
+      return
+    }
+    if (!content || content.elements.length === 0) return
+
+    const pasted: GeometricElement[] = []
+    if (content.source === 'coordinates') {
+      pasted.push(...content.elements)
+      canvasState.selectElements(pasted.map(element => element.id))
+    } else {
+      canvasState.pasteElements(content.elements, element => pasted.push(element), cursorWorldPointRef.current)
+    }
+    canvasState.setElements([...canvasState.elements, ...pasted])
+    pasted.forEach(element => onElementAdded?.(element))
+  }, [canvasState, onElementAdded, readOnly])
+
+  // Rotate and scale tool preview: the picked elements transformed by the cursor position, with the guides
+  const transformPreview = (() => {
+    const getTransform = TRANSFORM_TOOL_BUILDERS[selectedTool]
+    if (!getTransform) return undefined
+    const { isActive, referencePoints, currentPoint } = transformToolState
+    // Typed values that need no further clicks are previewed around the cursor
+    const previewAtCursor = !isActive && currentPoint !== null && canvasState.selection.selectedElements.length > 0 &&
+      getTransform(currentPoint, [], null, dynamicInput) !== null
+    const basePoint = isActive ? transformToolState.basePoint : previewAtCursor ? currentPoint : null
+    if (!basePoint) return undefined
+
+    const guides: Line2D[] = []
+    const guide = (start: Point2D, end: Point2D | null) => {
+      if (end && !start.equals(end)) guides.push(new Line2D(start, end))
+    }
+    if (isActive && referencePoints.length < getReferencePointCount(selectedTool, dynamicInput)) {
+      guide(referencePoints.length > 0 ? referencePoints[referencePoints.length - 1] : basePoint, currentPoint)
+    } else {
+      if (referencePoints.length === 2) guide(referencePoints[0], referencePoints[1])
+      if (referencePoints.length === 1) guide(basePoint, referencePoints[0])
+      if (isActive && !getTransform(basePoint, referencePoints, null, dynamicInput)) guide(basePoint, currentPoint)
+    }
+
+    const matrix = getTransform(basePoint, referencePoints, currentPoint, dynamicInput)
+    const elementIds = isActive ? transformToolState.elementIds : canvasState.selection.selectedElements
+    const shapes = matrix
+      ? canvasState.elements
+        .filter(element => elementIds.includes(element.id))
+        .flatMap(element => getElementShapes(transformElement(element, matrix)))
+      : []
+    return { basePoint, guides, shapes }
+  })()
+
+  // Offset tool preview: the picked element offset toward the cursor
+  const offsetPreviewShapes = (() => {
+    const source = offsetToolState && canvasState.elements.find(element => element.id === offsetToolState.elementId)
+    if (!source) return []
+    return offsetElement(source, offsetToolState.currentPoint, getOffsetDistance(dynamicInput), dynamicInput.offsetJoin)
+      .flatMap(getElementShapes)
+  })()
+
+  // Extend tool preview: the element under the cursor lengthened at its nearer end
+  const extendPreviewShapes = (() => {
+    const element = extendHoverPoint && canvasState.findElementAt(extendHoverPoint)
+    if (!element || !canExtendElement(element)) return []
+    const extended = extendElement(element, extendHoverPoint, getEdgeElements())
+    return extended ? getElementShapes(extended) : []
+  })()
+
+  // Break tool preview: what remains of the picked element if the cursor is the second point
+  const breakPreviewShapes = (() => {
+    const source = breakToolState && canvasState.elements.find(element => element.id === breakToolState.elementId)
+    if (!source) return []
+    return (breakElement(source, breakToolState.first, breakToolState.currentPoint) ?? []).flatMap(getElementShapes)
+  })()
+
+  // Join tool preview: the elements the selection joins into
+  const joinPreviewShapes = (() => {
+    if (selectedTool !== 'join') return []
+    const selectedIds = canvasState.selection.selectedElements
+    const joined = joinElements(canvasState.elements.filter(element => selectedIds.includes(element.id)))
+    return joined ? joined.updated.flatMap(getElementShapes) : []
+  })()
+
+  // Array tool preview: the copies the next click would add
+  const arrayPreviewShapes = (() => {
+    const selectedIds = canvasState.selection.selectedElements
+    if (!arrayHoverPoint || selectedIds.length === 0) return []
+    const elementAtPoint = canvasState.findElementAt(arrayHoverPoint)
+    const path = elementAtPoint && !selectedIds.includes(elementAtPoint.id) ? getElementPath(elementAtPoint) : null
+    const sources = canvasState.elements.filter(element => selectedIds.includes(element.id))
+    const transforms = getArrayTransforms(dynamicInput, sources, findSnapPoint(arrayHoverPoint), path)
+    if (!transforms) return []
+    return transforms.flatMap(matrix => sources.flatMap(element => getElementShapes(transformElement(element, matrix))))
+  })()
 
   // Mobile drawing tools data
   const mobileDrawingTools = [
@@ -1398,7 +2281,10 @@ export function ModularGeometryCanvas({
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
         onClick={handleCanvasClick}
+        onDoubleClick={handleDoubleClick}
         onKeyDown={handleKeyDown}
+        onCopy={handleCopy}
+        onPaste={handlePaste}
         style={{ outline: 'none', display: 'block', minHeight: 0 }}
       >
         <defs>
@@ -1440,11 +2326,61 @@ export function ModularGeometryCanvas({
               viewport={viewport}
             />
           )}
+          {POINT_SEQUENCE_TOOLS.includes(selectedTool) && (
+            <ShapePreviewRenderer
+              shapes={(() => {
+                const splineKind = SPLINE_TOOL_KINDS[selectedTool]
+                if (selectedTool === 'polygon') {
+                  const polygon = buildPolygon(canvasState.selectedPoints)
+                  return polygon ? [polygonToSvgShape(polygon)] : []
+                }
+                const geometry = splineKind
+                  ? buildSpline(canvasState.selectedPoints, splineKind, false)
+                  : buildPolyline(canvasState.selectedPoints, polylineState.arcSegments, false)
+                if (!geometry) return []
+                return [geometry instanceof Spline2D ? splineToSvgShape(geometry) : polylineToSvgShape(geometry)]
+              })()}
+              color={selectedTool === 'polygon' ? GEOMETRY_COLORS.POLYGON : SPLINE_TOOL_KINDS[selectedTool] ? GEOMETRY_COLORS.CURVE : GEOMETRY_COLORS.POLYLINE}
+            />
+          )}
+          {offsetPreviewShapes.length > 0 && (
+            <ShapePreviewRenderer shapes={offsetPreviewShapes} color={GEOMETRY_COLORS.SELECTION} />
+          )}
+          {extendPreviewShapes.length > 0 && (
+            <ShapePreviewRenderer shapes={extendPreviewShapes} color={GEOMETRY_COLORS.SELECTION} />
+          )}
+          {breakPreviewShapes.length > 0 && (
+            <ShapePreviewRenderer shapes={breakPreviewShapes} color={GEOMETRY_COLORS.SELECTION} />
+          )}
+          {joinPreviewShapes.length > 0 && (
+            <ShapePreviewRenderer shapes={joinPreviewShapes} color={GEOMETRY_COLORS.SELECTION} />
+          )}
+          {arrayPreviewShapes.length > 0 && (
+            <ShapePreviewRenderer shapes={arrayPreviewShapes} color={GEOMETRY_COLORS.SELECTION} />
+          )}
+          {trimFence && !trimFence.start.equals(trimFence.end) && (
+            <ShapePreviewRenderer shapes={[lineToSvgShape(new Line2D(trimFence.start, trimFence.end))]} color={GEOMETRY_COLORS.HOVER_DELETE} />
+          )}
+          {gripDragState && (
+            <ShapePreviewRenderer
+              shapes={(() => {
+                const element = canvasState.elements.find(el => el.id === gripDragState.elementId)
+                if (!element) return []
+                try {
+                  return getElementShapes(moveElementGrip(element, gripDragState.gripIndex, gripDragState.point))
+                } catch {
+                  return []
+                }
+              })()}
+              color={GEOMETRY_COLORS.SELECTION}
+            />
+          )}
           <PreviewRenderer
             selectedPoints={canvasState.selectedPoints}
             selectedTool={selectedTool}
             moveToolState={moveToolState}
             copyToolState={copyToolState}
+            transformPreview={transformPreview}
             windowSelectionState={windowSelectionState}
             viewport={viewport}
           />
@@ -1581,6 +2517,7 @@ export function ModularGeometryCanvas({
               canvasState.clearElements()
             }
           }}
+          disabled={readOnly}
           variant="outline"
           size="sm"
           className="shadow-lg bg-background/95 backdrop-blur-sm text-red-600 hover:text-red-700"
@@ -1740,14 +2677,85 @@ export function ModularGeometryCanvas({
                     : 'Click element or start point to begin copy'}
                 </div>
               )}
+              {(selectedTool === 'rotate' || selectedTool === 'scale') && (
+                <div className="text-xs opacity-75">
+                  {(() => {
+                    const copyMode = dynamicInput.keepOriginal ? ' (keeping originals)' : ''
+                    const { isActive, referencePoints, elementIds } = transformToolState
+                    if (canvasState.selection.selectedElements.length === 0 && !isActive) {
+                      return `Click an element or select elements to ${selectedTool}`
+                    }
+                    if (!isActive) {
+                      if (getReferencePointCount(selectedTool, dynamicInput) > 0 || !dynamicInput.showDynamicInput) {
+                        return `Click base point to ${selectedTool}${copyMode}`
+                      }
+                      return selectedTool === 'rotate'
+                        ? `Click base point to rotate by ${dynamicInput.dynamicAngle ?? 0}°${copyMode}`
+                        : `Click base point to scale by ${dynamicInput.scaleFactor}${dynamicInput.nonUniformScale ? ` × ${dynamicInput.scaleFactorY}` : ''}${copyMode}`
+                    }
+                    if (dynamicInput.useReference && referencePoints.length < 2) {
+                      return `Click ${referencePoints.length === 0 ? 'first' : 'second'} point of the reference ${selectedTool === 'rotate' ? 'angle' : 'length'} | Esc: cancel`
+                    }
+                    if (selectedTool === 'scale' && referencePoints.length === 0) {
+                      return 'Click a point to scale from | Esc: cancel'
+                    }
+                    return selectedTool === 'rotate'
+                      ? `Click to set the new angle of ${elementIds.length} element(s)${copyMode} | Esc: cancel`
+                      : dynamicInput.useReference
+                        ? `Click to set the new length from the base point${copyMode} | Esc: cancel`
+                        : `Click where the point moves to scale ${elementIds.length} element(s)${copyMode} | Esc: cancel`
+                  })()}
+                </div>
+              )}
               {selectedTool === 'array' && (
                 <div className="text-xs opacity-75">
-                  Select elements first, then click Array to create multiple copies
+                  {canvasState.selection.selectedElements.length === 0
+                    ? 'Click the elements to copy'
+                    : dynamicInput.arrayKind === 'rectangular'
+                      ? `Click to add a ${dynamicInput.arrayRows} × ${dynamicInput.arrayColumns} array | Ctrl+click: pick elements`
+                      : dynamicInput.arrayKind === 'polar'
+                        ? `Click the center of ${dynamicInput.arrayCount} items over ${dynamicInput.arrayFillAngle}° | Ctrl+click: pick elements`
+                        : `Click a line, arc, circle or polyline to place ${dynamicInput.arrayCount} items along | Ctrl+click: pick elements`}
+                </div>
+              )}
+              {selectedTool === 'offset' && (
+                <div className="text-xs opacity-75">
+                  {offsetToolState
+                    ? `Click the side to offset toward${dynamicInput.showDynamicInput ? ` (distance ${dynamicInput.dynamicDistance})` : ' or a point the offset passes through'} | Esc: cancel`
+                    : 'Click a line, circle, arc, polyline or polygon to offset'}
                 </div>
               )}
               {selectedTool === 'trim' && (
                 <div className="text-xs opacity-75">
-                  Click on line segment between intersections to trim
+                  {canvasState.selection.selectedElements.length > 0
+                    ? `Click the spans to remove, cut at the ${canvasState.selection.selectedElements.length} selected edge(s) | Drag a fence across several | Ctrl+click: edit edges`
+                    : 'Click the spans to remove, cut where other elements cross | Drag a fence across several | Ctrl+click: pick cutting edges'}
+                </div>
+              )}
+              {selectedTool === 'extend' && (
+                <div className="text-xs opacity-75">
+                  {canvasState.selection.selectedElements.length > 0
+                    ? `Click near the end of a line, arc or open polyline to extend it to the ${canvasState.selection.selectedElements.length} selected edge(s) | Ctrl+click: edit edges`
+                    : 'Click near the end of a line, arc or open polyline to extend it to the nearest element | Ctrl+click: pick boundary edges'}
+                </div>
+              )}
+              {selectedTool === 'break' && (
+                <div className="text-xs opacity-75">
+                  {breakToolState
+                    ? 'Click the second point; the part in between is removed | Enter: split at the first point | Esc: cancel'
+                    : 'Click a line, arc, circle or polyline at the first break point'}
+                </div>
+              )}
+              {selectedTool === 'join' && (
+                <div className="text-xs opacity-75">
+                  {canvasState.selection.selectedElements.length > 0
+                    ? `Click more lines, arcs or open polylines | Enter: join ${canvasState.selection.selectedElements.length} element(s) | Esc: clear`
+                    : 'Click the lines, arcs and open polylines to join'}
+                </div>
+              )}
+              {selectedTool === 'explode' && (
+                <div className="text-xs opacity-75">
+                  Click a polyline, polygon, rectangle, triangle or cog wheel to split it into lines and arcs
                 </div>
               )}
               {selectedTool === 'mirror' && (
@@ -1761,7 +2769,75 @@ export function ModularGeometryCanvas({
               )}
               {selectedTool === 'fillet' && (
                 <div className="text-xs opacity-75">
-                  Click two points to create a fillet with current radius
+                  {cornerToolState
+                    ? 'Click the second line or circle, or the neighbouring polyline segment | Esc: cancel'
+                    : `Click a line, circle or polyline segment to fillet with radius ${dynamicInput.filletRadius}`}
+                </div>
+              )}
+              {selectedTool === 'chamfer' && (
+                <div className="text-xs opacity-75">
+                  {cornerToolState
+                    ? 'Click the second line, or the neighbouring edge of the polyline or outline | Esc: cancel'
+                    : dynamicInput.chamferUseAngle
+                      ? `Click the first line or edge to chamfer by ${dynamicInput.chamferDistance1} at ${dynamicInput.chamferAngle}°`
+                      : `Click the first line or edge to chamfer by ${dynamicInput.chamferDistance1} and ${dynamicInput.chamferDistance2}`}
+                </div>
+              )}
+              {selectedTool === 'arc' && (
+                <div className="text-xs opacity-75">
+                  {['Click start point of arc', 'Click a point on the arc', 'Click end point to create arc'][canvasState.selectedPoints.length]}
+                </div>
+              )}
+              {selectedTool === 'arc-center' && (
+                <div className="text-xs opacity-75">
+                  {['Click center point of arc', 'Click start point to set radius', 'Click to set end angle and create arc'][canvasState.selectedPoints.length]}
+                </div>
+              )}
+              {selectedTool === 'polyline' && (
+                <div className="text-xs opacity-75">
+                  {canvasState.selectedPoints.length === 0
+                    ? 'Click to place the first vertex of the polyline'
+                    : `Adding ${polylineState.arcMode ? 'arc' : 'line'} segments (A: arc, L: line) | Enter or double-click: finish | C: close | Esc: cancel`}
+                </div>
+              )}
+              {selectedTool === 'polygon' && (
+                <div className="text-xs opacity-75">
+                  {canvasState.selectedPoints.length === 0
+                    ? 'Click to place the first vertex of the polygon'
+                    : 'Click to add vertices | Enter, double-click or C: close the polygon | Esc: cancel'}
+                </div>
+              )}
+              {selectedTool === 'regular-polygon' && (
+                <div className="text-xs opacity-75">
+                  {canvasState.selectedPoints.length === 0
+                    ? `Click center point of ${dynamicInput.polygonSides}-sided polygon`
+                    : dynamicInput.polygonCircumscribed
+                      ? 'Click the midpoint of an edge to create polygon'
+                      : 'Click a vertex to create polygon'}
+                </div>
+              )}
+              {selectedTool === 'bezier' && (
+                <div className="text-xs opacity-75">
+                  {['Click start point of curve', 'Click first control point', 'Click second control point', 'Click end point to create curve'][canvasState.selectedPoints.length]}
+                </div>
+              )}
+              {(selectedTool === 'spline' || selectedTool === 'bspline') && (
+                <div className="text-xs opacity-75">
+                  {canvasState.selectedPoints.length === 0
+                    ? `Click to place the first control point of the ${selectedTool === 'spline' ? 'curve through the points' : 'B-spline'}`
+                    : 'Click to add control points | Enter or double-click: finish | C: close | Esc: cancel'}
+                </div>
+              )}
+              {selectedTool === 'ellipse' && (
+                <div className="text-xs opacity-75">
+                  {['Click center point of ellipse', 'Click end of first axis', 'Click to set the other radius and create ellipse'][canvasState.selectedPoints.length]}
+                </div>
+              )}
+              {selectedTool === 'ellipse-box' && (
+                <div className="text-xs opacity-75">
+                  {canvasState.selectedPoints.length === 0
+                    ? 'Click first corner of bounding box'
+                    : 'Click opposite corner to create ellipse'}
                 </div>
               )}
               {selectedTool === 'cogwheel' && (
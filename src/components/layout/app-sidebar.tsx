@@ -5,6 +5,9 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { 
   Minus,
+  PenTool,
+  SplinePointer,
+  Waves,
   RectangleHorizontal,
   Triangle,
   Eye,
@@ -26,9 +29,16 @@ import {
   RotateCw,
   FlipHorizontal,
   Scissors,
+  ArrowRightToLine,
+  Unlink,
+  Link,
+  Ungroup,
   MoveHorizontal,
   CornerDownRight,
+  TriangleRight,
   Grid3X3,
+  Orbit,
+  Route,
   Spline,
   Cog,
   Moon,
@@ -39,7 +49,29 @@ import {
   Ruler as RulerIcon,
   Github,
   Linkedin,
-  Target
+  Target,
+  Save,
+  FolderOpen,
+  Download,
+  Library,
+  FileImage,
+  FileInput,
+  FileOutput,
+  ImageDown,
+  Printer,
+  Share2,
+  Rainbow,
+  ChartPie,
+  Egg,
+  BoxSelect,
+  Hexagon,
+  Pentagon,
+  CircleDashed,
+  Compass,
+  CopyPlus,
+  Scaling,
+  MoveDiagonal,
+  SquareRoundCorner
 } from "lucide-react"
 
 import {
@@ -70,11 +102,20 @@ import {
 export const drawTools = [
   { id: 'line', name: 'Line', icon: Minus, shortcut: 'L' },
   { id: 'circle', name: 'Circle', icon: Radius, shortcut: 'C' },
+  { id: 'arc', name: 'Arc (3 Points)', icon: Rainbow, shortcut: 'A' },
+  { id: 'arc-center', name: 'Arc (Center)', icon: ChartPie, shortcut: 'CA' },
+  { id: 'ellipse', name: 'Ellipse (Axes)', icon: Egg, shortcut: 'EL' },
+  { id: 'ellipse-box', name: 'Ellipse (Box)', icon: BoxSelect, shortcut: 'EB' },
   { id: 'rectangle', name: 'Rectangle', icon: RectangleHorizontal, shortcut: 'REC' },
   { id: 'triangle', name: 'Triangle', icon: Triangle, shortcut: 'T' },
+  { id: 'regular-polygon', name: 'Regular Polygon', icon: Hexagon, shortcut: 'N' },
+  { id: 'polygon', name: 'Polygon', icon: Pentagon, shortcut: 'PG' },
   { id: 'point', name: 'Point', icon: Dot, shortcut: 'P' },
   { id: 'perpendicular', name: 'Perpendicular', icon: SquareSlash, shortcut: 'B' },
   { id: 'polyline', name: 'Polyline', icon: Spline, shortcut: 'PL' },
+  { id: 'bezier', name: 'Bezier Curve', icon: PenTool, shortcut: 'BZ' },
+  { id: 'spline', name: 'Spline (Fit Points)', icon: SplinePointer, shortcut: 'SPL' },
+  { id: 'bspline', name: 'B-Spline (Control Points)', icon: Waves, shortcut: 'BS' },
   { id: 'cogwheel', name: 'Cog Wheel', icon: Cog, shortcut: 'COG' },
 ]
 
@@ -84,11 +125,17 @@ export const modifyTools = [
   { id: 'move', name: 'Move', icon: Move, shortcut: 'M' },
   { id: 'copy', name: 'Copy', icon: Copy, shortcut: 'CO' },
   { id: 'rotate', name: 'Rotate', icon: RotateCw, shortcut: 'RO' },
+  { id: 'scale', name: 'Scale', icon: Scaling, shortcut: 'SC' },
   { id: 'mirror', name: 'Mirror', icon: FlipHorizontal, shortcut: 'MI' },
   { id: 'delete', name: 'Erase', icon: Trash2, shortcut: 'E' },
   { id: 'trim', name: 'Trim', icon: Scissors, shortcut: 'TR' },
+  { id: 'extend', name: 'Extend', icon: ArrowRightToLine, shortcut: 'X' },
+  { id: 'break', name: 'Break', icon: Unlink, shortcut: 'K' },
+  { id: 'join', name: 'Join', icon: Link, shortcut: 'J' },
+  { id: 'explode', name: 'Explode', icon: Ungroup, shortcut: 'Shift+X' },
   { id: 'offset', name: 'Offset', icon: MoveHorizontal, shortcut: 'O' },
   { id: 'fillet', name: 'Fillet', icon: CornerDownRight, shortcut: 'F' },
+  { id: 'chamfer', name: 'Chamfer', icon: TriangleRight, shortcut: 'CHA' },
   { id: 'array', name: 'Array', icon: Grid3X3, shortcut: 'AR' },
 ]
 
@@ -108,10 +155,26 @@ export const constructions = [
   { id: 'intersection-demo', name: 'Intersection Demo', icon: Crosshair },
 ]
 
+// File actions - Saving, opening, importing and exporting drawings
+const fileActions = [
+  { id: 'save', name: 'Save to Library', icon: Save },
+  { id: 'library', name: 'Open Library', icon: Library },
+  { id: 'download', name: 'Download Drawing', icon: Download },
+  { id: 'open', name: 'Open Drawing File', icon: FolderOpen },
+  { id: 'import-svg', name: 'Import SVG', icon: FileInput },
+  { id: 'export-svg', name: 'Export as SVG', icon: FileImage },
+  { id: 'export-image', name: 'Export as PNG/JPEG', icon: ImageDown },
+  { id: 'plot', name: 'Plot / Print', icon: Printer },
+  { id: 'import-dxf', name: 'Import DXF', icon: FileInput },
+  { id: 'export-dxf', name: 'Export as DXF', icon: FileOutput },
+  { id: 'share', name: 'Share Link', icon: Share2 },
+]
+
 interface AppSidebarProps extends React.ComponentProps<typeof Sidebar> {
   selectedTool?: string
   onToolSelect?: (toolId: string) => void
   onConstructionSelect?: (constructionId: string) => void
+  onFileAction?: (actionId: string) => void
   showIntersections?: boolean
   onToggleIntersections?: () => void
   currentConstruction?: string | null
@@ -146,11 +209,55 @@ interface AppSidebarProps extends React.ComponentProps<typeof Sidebar> {
     showDynamicInput: boolean
     dynamicDistance: number
     dynamicAngle?: number
+    polygonSides: number
+    polygonCircumscribed: boolean
+    scaleFactor: number
+    scaleFactorY: number
+    nonUniformScale: boolean
+    useReference: boolean
+    keepOriginal: boolean
+    offsetJoin: 'miter' | 'round'
+    filletRadius: number
+    chamferDistance1: number
+    chamferDistance2: number
+    chamferAngle: number
+    chamferUseAngle: boolean
+    arrayKind: 'rectangular' | 'polar' | 'path'
+    arrayRows: number
+    arrayColumns: number
+    arrayRowSpacing: number
+    arrayColumnSpacing: number
+    arrayAngle: number
+    arrayCount: number
+    arrayFillAngle: number
+    arrayRotateItems: boolean
   }
   onDynamicInputChange?: (settings: Partial<{
     showDynamicInput: boolean
     dynamicDistance: number
     dynamicAngle?: number
+    polygonSides: number
+    polygonCircumscribed: boolean
+    scaleFactor: number
+    scaleFactorY: number
+    nonUniformScale: boolean
+    useReference: boolean
+    keepOriginal: boolean
+    offsetJoin: 'miter' | 'round'
+    filletRadius: number
+    chamferDistance1: number
+    chamferDistance2: number
+    chamferAngle: number
+    chamferUseAngle: boolean
+    arrayKind: 'rectangular' | 'polar' | 'path'
+    arrayRows: number
+    arrayColumns: number
+    arrayRowSpacing: number
+    arrayColumnSpacing: number
+    arrayAngle: number
+    arrayCount: number
+    arrayFillAngle: number
+    arrayRotateItems: boolean
   }>) => void
 }
 
@@ -162,6 +269,7 @@ export function AppSidebar({
   selectedTool,
   onToolSelect,
   onConstructionSelect,
+  onFileAction,
   showIntersections,
   onToggleIntersections,
   currentConstruction,
@@ -178,6 +286,7 @@ export function AppSidebar({
   onDynamicInputChange,
   ...props 
 }: AppSidebarProps) {
+  const [fileOpen, setFileOpen] = React.useState(false)
   const [constructionsOpen, setConstructionsOpen] = React.useState(false)
   const [settingsOpen, setSettingsOpen] = React.useState(false)
 
@@ -352,6 +461,40 @@ export function AppSidebar({
 
               <SidebarSeparator className="my-0.5" />
 
+              {/* File Actions - Collapsible */}
+              <Collapsible open={fileOpen} onOpenChange={setFileOpen}>
+                <SidebarGroup className="py-1">
+                  <SidebarGroupLabel asChild>
+                    <CollapsibleTrigger className="flex w-full items-center justify-between text-xs font-medium text-sidebar-muted-foreground hover:text-sidebar-foreground px-2 py-0.5">
+                      File
+                      {fileOpen ? (
+                        <ChevronDown className="size-3" />
+                      ) : (
+                        <ChevronRight className="size-3" />
+                      )}
+                    </CollapsibleTrigger>
+                  </SidebarGroupLabel>
+                  <CollapsibleContent>
+                    <SidebarMenu className="gap-0.5 mt-0.5">
+                      {fileActions.map((action) => (
+                        <SidebarMenuItem key={action.id}>
+                          <SidebarMenuButton
+                            onClick={() => onFileAction?.(action.id)}
+                            className="h-6 justify-start"
+                            size="sm"
+                          >
+                            <action.icon className="size-3" />
+                            <span className="text-xs truncate">{action.name}</span>
+                          </SidebarMenuButton>
+                        </SidebarMenuItem>
+                      ))}
+                    </SidebarMenu>
+                  </CollapsibleContent>
+                </SidebarGroup>
+              </Collapsible>
+
+              <SidebarSeparator className="my-0.5" />
+
               {/* Classical Constructions - Collapsible */}
               <Collapsible open={constructionsOpen} onOpenChange={setConstructionsOpen}>
                 <SidebarGroup className="py-1">
@@ -513,7 +656,7 @@ export function AppSidebar({
                       )}
 
                       {/* Dynamic Input Controls */}
-                      {dynamicInput && onDynamicInputChange && (selectedTool === 'line' || selectedTool === 'circle') && (
+                      {dynamicInput && onDynamicInputChange && (selectedTool === 'line' || selectedTool === 'circle' || selectedTool === 'offset') && (
                         <>
                           {/* Dynamic Input Toggle */}
                           <SidebarMenuItem>
@@ -529,7 +672,11 @@ export function AppSidebar({
                                 </SidebarMenuButton>
                               </TooltipTrigger>
                               <TooltipContent side="right">
-                                <p>Enable precise distance input for {selectedTool}s</p>
+                                <p>
+                                  {selectedTool === 'offset'
+                                    ? 'Offset by a typed distance instead of through the clicked point'
+                                    : `Enable precise distance input for ${selectedTool}s`}
+                                </p>
                               </TooltipContent>
                             </Tooltip>
                           </SidebarMenuItem>
@@ -556,6 +703,561 @@ export function AppSidebar({
                           )}
                         </>
                       )}
+
+                      {/* Offset Controls */}
+                      {dynamicInput && onDynamicInputChange && selectedTool === 'offset' && (
+                        <SidebarMenuItem>
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <SidebarMenuButton
+                                onClick={() => onDynamicInputChange({ offsetJoin: dynamicInput.offsetJoin === 'round' ? 'miter' : 'round' })}
+                                className={`h-6 justify-start ${dynamicInput.offsetJoin === 'round' ? 'bg-sidebar-accent text-sidebar-accent-foreground' : ''}`}
+                                size="sm"
+                              >
+                                <SquareRoundCorner className="size-3" />
+                                <span className="text-xs">Round Corners</span>
+                              </SidebarMenuButton>
+                            </TooltipTrigger>
+                            <TooltipContent side="right">
+                              <p>Join outer corners of offset polylines and polygons with arcs instead of extending the sides</p>
+                            </TooltipContent>
+                          </Tooltip>
+                        </SidebarMenuItem>
+                      )}
+
+                      {/* Fillet Controls */}
+                      {dynamicInput && onDynamicInputChange && selectedTool === 'fillet' && (
+                        <SidebarMenuItem>
+                          <div className="px-2 py-1">
+                            <Label htmlFor="sidebar-fillet-radius" className="text-xs text-sidebar-muted-foreground">
+                              Radius (0 for a sharp corner):
+                            </Label>
+                            <Input
+                              id="sidebar-fillet-radius"
+                              type="number"
+                              value={dynamicInput.filletRadius}
+                              onChange={(e) => {
+                                const radius = Number(e.target.value)
+                                if (radius >= 0) onDynamicInputChange({ filletRadius: radius })
+                              }}
+                              className="h-6 text-xs mt-1"
+                              min="0"
+                              max="10000"
+                              step="1"
+                            />
+                          </div>
+                        </SidebarMenuItem>
+                      )}
+
+                      {/* Chamfer Controls */}
+                      {dynamicInput && onDynamicInputChange && selectedTool === 'chamfer' && (
+                        <>
+                          <SidebarMenuItem>
+                            <div className="px-2 py-1">
+                              <Label htmlFor="sidebar-chamfer-distance1" className="text-xs text-sidebar-muted-foreground">
+                                {dynamicInput.chamferUseAngle ? 'Distance:' : 'First Distance:'}
+                              </Label>
+                              <Input
+                                id="sidebar-chamfer-distance1"
+                                type="number"
+                                value={dynamicInput.chamferDistance1}
+                                onChange={(e) => {
+                                  const distance = Number(e.target.value)
+                                  if (distance >= 0) onDynamicInputChange({ chamferDistance1: distance })
+                                }}
+                                className="h-6 text-xs mt-1"
+                                min="0"
+                                max="10000"
+                                step="1"
+                              />
+                            </div>
+                          </SidebarMenuItem>
+                          <SidebarMenuItem>
+                            <div className="px-2 py-1">
+                              {dynamicInput.chamferUseAngle ? (
+                                <>
+                                  <Label htmlFor="sidebar-chamfer-angle" className="text-xs text-sidebar-muted-foreground">
+                                    Angle (degrees):
+                                  </Label>
+                                  <Input
+                                    id="sidebar-chamfer-angle"
+                                    type="number"
+                                    value={dynamicInput.chamferAngle}
+                                    onChange={(e) => {
+                                      const angle = Number(e.target.value)
+                                      if (angle > 0 && angle < 180) onDynamicInputChange({ chamferAngle: angle })
+                                    }}
+                                    className="h-6 text-xs mt-1"
+                                    min="1"
+                                    max="179"
+                                    step="1"
+                                  />
+                                </>
+                              ) : (
+                                <>
+                                  <Label htmlFor="sidebar-chamfer-distance2" className="text-xs text-sidebar-muted-foreground">
+                                    Second Distance:
+                                  </Label>
+                                  <Input
+                                    id="sidebar-chamfer-distance2"
+                                    type="number"
+                                    value={dynamicInput.chamferDistance2}
+                                    onChange={(e) => {
+                                      const distance = Number(e.target.value)
+                                      if (distance >= 0) onDynamicInputChange({ chamferDistance2: distance })
+                                    }}
+                                    className="h-6 text-xs mt-1"
+                                    min="0"
+                                    max="10000"
+                                    step="1"
+                                  />
+                                </>
+                              )}
+                            </div>
+                          </SidebarMenuItem>
+                          <SidebarMenuItem>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <SidebarMenuButton
+                                  onClick={() => onDynamicInputChange({ chamferUseAngle: !dynamicInput.chamferUseAngle })}
+                                  className={`h-6 justify-start ${dynamicInput.chamferUseAngle ? 'bg-sidebar-accent text-sidebar-accent-foreground' : ''}`}
+                                  size="sm"
+                                >
+                                  <RotateCcw className="size-3" />
+                                  <span className="text-xs">Distance and Angle</span>
+                                </SidebarMenuButton>
+                              </TooltipTrigger>
+                              <TooltipContent side="right">
+                                <p>Size the bevel by its distance along the first line and its angle to it</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </SidebarMenuItem>
+                        </>
+                      )}
+
+                      {/* Array Controls */}
+                      {dynamicInput && onDynamicInputChange && selectedTool === 'array' && (
+                        <>
+                          <SidebarMenuItem>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <SidebarMenuButton
+                                  onClick={() => onDynamicInputChange({ arrayKind: 'rectangular' })}
+                                  className={`h-6 justify-start ${dynamicInput.arrayKind === 'rectangular' ? 'bg-sidebar-accent text-sidebar-accent-foreground' : ''}`}
+                                  size="sm"
+                                >
+                                  <Grid3X3 className="size-3" />
+                                  <span className="text-xs">Rectangular</span>
+                                </SidebarMenuButton>
+                              </TooltipTrigger>
+                              <TooltipContent side="right">
+                                <p>Copy the selection into rows and columns</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </SidebarMenuItem>
+                          <SidebarMenuItem>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <SidebarMenuButton
+                                  onClick={() => onDynamicInputChange({ arrayKind: 'polar' })}
+                                  className={`h-6 justify-start ${dynamicInput.arrayKind === 'polar' ? 'bg-sidebar-accent text-sidebar-accent-foreground' : ''}`}
+                                  size="sm"
+                                >
+                                  <Orbit className="size-3" />
+                                  <span className="text-xs">Polar</span>
+                                </SidebarMenuButton>
+                              </TooltipTrigger>
+                              <TooltipContent side="right">
+                                <p>Copy the selection around a clicked center</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </SidebarMenuItem>
+                          <SidebarMenuItem>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <SidebarMenuButton
+                                  onClick={() => onDynamicInputChange({ arrayKind: 'path' })}
+                                  className={`h-6 justify-start ${dynamicInput.arrayKind === 'path' ? 'bg-sidebar-accent text-sidebar-accent-foreground' : ''}`}
+                                  size="sm"
+                                >
+                                  <Route className="size-3" />
+                                  <span className="text-xs">Path</span>
+                                </SidebarMenuButton>
+                              </TooltipTrigger>
+                              <TooltipContent side="right">
+                                <p>Copy the selection along a clicked line, arc or polyline</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </SidebarMenuItem>
+                          {dynamicInput.arrayKind === 'rectangular' ? (
+                            <>
+                              <SidebarMenuItem>
+                                <div className="px-2 py-1">
+                                  <Label htmlFor="sidebar-array-rows" className="text-xs text-sidebar-muted-foreground">
+                                    Rows:
+                                  </Label>
+                                  <Input
+                                    id="sidebar-array-rows"
+                                    type="number"
+                                    value={dynamicInput.arrayRows}
+                                    onChange={(e) => {
+                                      const value = Number(e.target.value)
+                                      if (Number.isInteger(value) && value >= 1) onDynamicInputChange({ arrayRows: value })
+                                    }}
+                                    className="h-6 text-xs mt-1"
+                                    min="1"
+                                    max="100"
+                                    step="1"
+                                  />
+                                </div>
+                              </SidebarMenuItem>
+                              <SidebarMenuItem>
+                                <div className="px-2 py-1">
+                                  <Label htmlFor="sidebar-array-columns" className="text-xs text-sidebar-muted-foreground">
+                                    Columns:
+                                  </Label>
+                                  <Input
+                                    id="sidebar-array-columns"
+                                    type="number"
+                                    value={dynamicInput.arrayColumns}
+                                    onChange={(e) => {
+                                      const value = Number(e.target.value)
+                                      if (Number.isInteger(value) && value >= 1) onDynamicInputChange({ arrayColumns: value })
+                                    }}
+                                    className="h-6 text-xs mt-1"
+                                    min="1"
+                                    max="100"
+                                    step="1"
+                                  />
+                                </div>
+                              </SidebarMenuItem>
+                              <SidebarMenuItem>
+                                <div className="px-2 py-1">
+                                  <Label htmlFor="sidebar-array-row-spacing" className="text-xs text-sidebar-muted-foreground">
+                                    Row Spacing:
+                                  </Label>
+                                  <Input
+                                    id="sidebar-array-row-spacing"
+                                    type="number"
+                                    value={dynamicInput.arrayRowSpacing}
+                                    onChange={(e) => {
+                                      const value = Number(e.target.value)
+                                      if (Number.isFinite(value)) onDynamicInputChange({ arrayRowSpacing: value })
+                                    }}
+                                    className="h-6 text-xs mt-1"
+                                    min="-10000"
+                                    max="10000"
+                                    step="1"
+                                  />
+                                </div>
+                              </SidebarMenuItem>
+                              <SidebarMenuItem>
+                                <div className="px-2 py-1">
+                                  <Label htmlFor="sidebar-array-column-spacing" className="text-xs text-sidebar-muted-foreground">
+                                    Column Spacing:
+                                  </Label>
+                                  <Input
+                                    id="sidebar-array-column-spacing"
+                                    type="number"
+                                    value={dynamicInput.arrayColumnSpacing}
+                                    onChange={(e) => {
+                                      const value = Number(e.target.value)
+                                      if (Number.isFinite(value)) onDynamicInputChange({ arrayColumnSpacing: value })
+                                    }}
+                                    className="h-6 text-xs mt-1"
+                                    min="-10000"
+                                    max="10000"
+                                    step="1"
+                                  />
+                                </div>
+                              </SidebarMenuItem>
+                              <SidebarMenuItem>
+                                <div className="px-2 py-1">
+                                  <Label htmlFor="sidebar-array-angle" className="text-xs text-sidebar-muted-foreground">
+                                    Angle (degrees):
+                                  </Label>
+                                  <Input
+                                    id="sidebar-array-angle"
+                                    type="number"
+                                    value={dynamicInput.arrayAngle}
+                                    onChange={(e) => {
+                                      const value = Number(e.target.value)
+                                      if (Number.isFinite(value)) onDynamicInputChange({ arrayAngle: value })
+                                    }}
+                                    className="h-6 text-xs mt-1"
+                                    min="-360"
+                                    max="360"
+                                    step="1"
+                                  />
+                                </div>
+                              </SidebarMenuItem>
+                            </>
+                          ) : (
+                            <>
+                              <SidebarMenuItem>
+                                <div className="px-2 py-1">
+                                  <Label htmlFor="sidebar-array-count" className="text-xs text-sidebar-muted-foreground">
+                                    Items:
+                                  </Label>
+                                  <Input
+                                    id="sidebar-array-count"
+                                    type="number"
+                                    value={dynamicInput.arrayCount}
+                                    onChange={(e) => {
+                                      const value = Number(e.target.value)
+                                      if (Number.isInteger(value) && value >= 2) onDynamicInputChange({ arrayCount: value })
+                                    }}
+                                    className="h-6 text-xs mt-1"
+                                    min="2"
+                                    max="1000"
+                                    step="1"
+                                  />
+                                </div>
+                              </SidebarMenuItem>
+                              {dynamicInput.arrayKind === 'polar' && (
+                                <SidebarMenuItem>
+                                  <div className="px-2 py-1">
+                                    <Label htmlFor="sidebar-array-fill-angle" className="text-xs text-sidebar-muted-foreground">
+                                      Angle to Fill (degrees):
+                                    </Label>
+                                    <Input
+                                      id="sidebar-array-fill-angle"
+                                      type="number"
+                                      value={dynamicInput.arrayFillAngle}
+                                      onChange={(e) => {
+                                        const value = Number(e.target.value)
+                                        if (value !== 0 && Math.abs(value) <= 360) onDynamicInputChange({ arrayFillAngle: value })
+                                      }}
+                                      className="h-6 text-xs mt-1"
+                                      min="-360"
+                                      max="360"
+                                      step="1"
+                                    />
+                                  </div>
+                                </SidebarMenuItem>
+                              )}
+                              <SidebarMenuItem>
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <SidebarMenuButton
+                                      onClick={() => onDynamicInputChange({ arrayRotateItems: !dynamicInput.arrayRotateItems })}
+                                      className={`h-6 justify-start ${dynamicInput.arrayRotateItems ? 'bg-sidebar-accent text-sidebar-accent-foreground' : ''}`}
+                                      size="sm"
+                                    >
+                                      <RotateCw className="size-3" />
+                                      <span className="text-xs">Rotate Items</span>
+                                    </SidebarMenuButton>
+                                  </TooltipTrigger>
+                                  <TooltipContent side="right">
+                                    <p>Turn the copies with the array instead of only moving them</p>
+                                  </TooltipContent>
+                                </Tooltip>
+                              </SidebarMenuItem>
+                            </>
+                          )}
+                        </>
+                      )}
+
+                      {/* Regular Polygon Controls */}
+                      {dynamicInput && onDynamicInputChange && selectedTool === 'regular-polygon' && (
+                        <>
+                          <SidebarMenuItem>
+                            <div className="px-2 py-1">
+                              <Label htmlFor="sidebar-polygon-sides" className="text-xs text-sidebar-muted-foreground">
+                                Sides:
+                              </Label>
+                              <Input
+                                id="sidebar-polygon-sides"
+                                type="number"
+                                value={dynamicInput.polygonSides}
+                                onChange={(e) => {
+                                  const sides = Math.round(Number(e.target.value))
+                                  if (sides >= 3) onDynamicInputChange({ polygonSides: sides })
+                                }}
+                                className="h-6 text-xs mt-1"
+                                min="3"
+                                max="100"
+                                step="1"
+                              />
+                            </div>
+                          </SidebarMenuItem>
+                          <SidebarMenuItem>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <SidebarMenuButton
+                                  onClick={() => onDynamicInputChange({ polygonCircumscribed: !dynamicInput.polygonCircumscribed })}
+                                  className={`h-6 justify-start ${dynamicInput.polygonCircumscribed ? 'bg-sidebar-accent text-sidebar-accent-foreground' : ''}`}
+                                  size="sm"
+                                >
+                                  <CircleDashed className="size-3" />
+                                  <span className="text-xs">Circumscribed</span>
+                                </SidebarMenuButton>
+                              </TooltipTrigger>
+                              <TooltipContent side="right">
+                                <p>Draw the polygon around the circle through the clicked point instead of inside it</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </SidebarMenuItem>
+                        </>
+                      )}
+
+                      {/* Rotate and Scale Controls */}
+                      {dynamicInput && onDynamicInputChange && (selectedTool === 'rotate' || selectedTool === 'scale') && (
+                        <>
+                          <SidebarMenuItem>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <SidebarMenuButton
+                                  onClick={() => onDynamicInputChange({ showDynamicInput: !dynamicInput.showDynamicInput })}
+                                  className={`h-6 justify-start ${dynamicInput.showDynamicInput ? 'bg-sidebar-accent text-sidebar-accent-foreground' : ''}`}
+                                  size="sm"
+                                >
+                                  <Target className="size-3" />
+                                  <span className="text-xs">
+                                    {selectedTool === 'rotate' ? 'Angle Input' : dynamicInput.useReference ? 'Length Input' : 'Factor Input'}
+                                  </span>
+                                </SidebarMenuButton>
+                              </TooltipTrigger>
+                              <TooltipContent side="right">
+                                <p>
+                                  {selectedTool === 'rotate'
+                                    ? 'Rotate by a typed angle instead of clicking the new direction'
+                                    : dynamicInput.useReference
+                                      ? 'Type the new length instead of clicking it'
+                                      : 'Scale by typed factors instead of clicking'}
+                                </p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </SidebarMenuItem>
+                          {dynamicInput.showDynamicInput && selectedTool === 'rotate' && (
+                            <SidebarMenuItem>
+                              <div className="px-2 py-1">
+                                <Label htmlFor="sidebar-rotate-angle" className="text-xs text-sidebar-muted-foreground">
+                                  Angle (°, counter-clockwise):
+                                </Label>
+                                <Input
+                                  id="sidebar-rotate-angle"
+                                  type="number"
+                                  value={dynamicInput.dynamicAngle ?? 0}
+                                  onChange={(e) => onDynamicInputChange({ dynamicAngle: Number(e.target.value) })}
+                                  className="h-6 text-xs mt-1"
+                                  min="-360"
+                                  max="360"
+                                  step="1"
+                                />
+                              </div>
+                            </SidebarMenuItem>
+                          )}
+                          {dynamicInput.showDynamicInput && selectedTool === 'scale' && dynamicInput.useReference && (
+                            <SidebarMenuItem>
+                              <div className="px-2 py-1">
+                                <Label htmlFor="sidebar-scale-length" className="text-xs text-sidebar-muted-foreground">
+                                  New length:
+                                </Label>
+                                <Input
+                                  id="sidebar-scale-length"
+                                  type="number"
+                                  value={dynamicInput.dynamicDistance}
+                                  onChange={(e) => onDynamicInputChange({ dynamicDistance: Number(e.target.value) })}
+                                  className="h-6 text-xs mt-1"
+                                  min="1"
+                                  max="10000"
+                                  step="1"
+                                />
+                              </div>
+                            </SidebarMenuItem>
+                          )}
+                          {dynamicInput.showDynamicInput && selectedTool === 'scale' && !dynamicInput.useReference && (
+                            <SidebarMenuItem>
+                              <div className="px-2 py-1 space-y-1">
+                                <Label htmlFor="sidebar-scale-factor" className="text-xs text-sidebar-muted-foreground">
+                                  {dynamicInput.nonUniformScale ? 'Factor X:' : 'Factor:'}
+                                </Label>
+                                <Input
+                                  id="sidebar-scale-factor"
+                                  type="number"
+                                  value={dynamicInput.scaleFactor}
+                                  onChange={(e) => onDynamicInputChange({ scaleFactor: Number(e.target.value) })}
+                                  className="h-6 text-xs mt-1"
+                                  step="0.1"
+                                />
+                                {dynamicInput.nonUniformScale && (
+                                  <>
+                                    <Label htmlFor="sidebar-scale-factor-y" className="text-xs text-sidebar-muted-foreground">
+                                      Factor Y:
+                                    </Label>
+                                    <Input
+                                      id="sidebar-scale-factor-y"
+                                      type="number"
+                                      value={dynamicInput.scaleFactorY}
+                                      onChange={(e) => onDynamicInputChange({ scaleFactorY: Number(e.target.value) })}
+                                      className="h-6 text-xs mt-1"
+                                      step="0.1"
+                                    />
+                                  </>
+                                )}
+                              </div>
+                            </SidebarMenuItem>
+                          )}
+                          {selectedTool === 'scale' && !dynamicInput.useReference && (
+                            <SidebarMenuItem>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <SidebarMenuButton
+                                    onClick={() => onDynamicInputChange({ nonUniformScale: !dynamicInput.nonUniformScale })}
+                                    className={`h-6 justify-start ${dynamicInput.nonUniformScale ? 'bg-sidebar-accent text-sidebar-accent-foreground' : ''}`}
+                                    size="sm"
+                                  >
+                                    <MoveDiagonal className="size-3" />
+                                    <span className="text-xs">Non-uniform</span>
+                                  </SidebarMenuButton>
+                                </TooltipTrigger>
+                                <TooltipContent side="right">
+                                  <p>Scale X and Y separately; circles become ellipses and cog wheels keep their shape</p>
+                                </TooltipContent>
+                              </Tooltip>
+                            </SidebarMenuItem>
+                          )}
+                          <SidebarMenuItem>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <SidebarMenuButton
+                                  onClick={() => onDynamicInputChange({ useReference: !dynamicInput.useReference })}
+                                  className={`h-6 justify-start ${dynamicInput.useReference ? 'bg-sidebar-accent text-sidebar-accent-foreground' : ''}`}
+                                  size="sm"
+                                >
+                                  <Compass className="size-3" />
+                                  <span className="text-xs">{selectedTool === 'rotate' ? 'Reference Angle' : 'Reference Length'}</span>
+                                </SidebarMenuButton>
+                              </TooltipTrigger>
+                              <TooltipContent side="right">
+                                <p>
+                                  {selectedTool === 'rotate'
+                                    ? 'Pick two points giving the current angle, then set the new angle'
+                                    : 'Pick two points giving the current length, then set the new length'}
+                                </p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </SidebarMenuItem>
+                          <SidebarMenuItem>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <SidebarMenuButton
+                                  onClick={() => onDynamicInputChange({ keepOriginal: !dynamicInput.keepOriginal })}
+                                  className={`h-6 justify-start ${dynamicInput.keepOriginal ? 'bg-sidebar-accent text-sidebar-accent-foreground' : ''}`}
+                                  size="sm"
+                                >
+                                  <CopyPlus className="size-3" />
+                                  <span className="text-xs">Keep Original</span>
+                                </SidebarMenuButton>
+                              </TooltipTrigger>
+                              <TooltipContent side="right">
+                                <p>Add {selectedTool === 'rotate' ? 'rotated' : 'scaled'} copies and leave the selected elements in place</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </SidebarMenuItem>
+                        </>
+                      )}
                     </SidebarMenu>
                   </CollapsibleContent>
                 </SidebarGroup>
@@ -0,0 +1,44 @@
+import { useMemo } from 'react'
+import type { GeometricElement } from '@/types/geometry'
+import { ElementCollectionRenderer } from '@/components/canvas/ElementRenderer'
+import { getElementsBounds, getVisibleElements } from '@/utils/elementUtils'
+
+interface DrawingThumbnailProps {
+  elements: GeometricElement[]
+  className?: string
+}
+
+/**
+ * Drawing Thumbnail Component
+ * Renders a small preview of a drawing fitted to the extents of its visible elements
+ */
+export function DrawingThumbnail({ elements, className }: DrawingThumbnailProps) {
+  const visibleElements = useMemo(() => getVisibleElements(elements), [elements])
+  const bounds = useMemo(() => getElementsBounds(visibleElements), [visibleElements])
+
+  if (!bounds) {
+    return (
+      <div className={`flex items-center justify-center text-xs text-muted-foreground ${className ?? ''}`}>
+        Empty drawing
+      </div>
+    )
+  }
+
+  // Pad the extents so strokes at the edges are not clipped
+  const width = Math.max(bounds.max.x - bounds.min.x, 1)
+  const height = Math.max(bounds.max.y - bounds.min.y, 1)
+  const padding = Math.max(width, height) * 0.05 + 2
+  const viewBox = `${bounds.min.x - padding} ${bounds.min.y - padding} ${width + padding * 2} ${height + padding * 2}`
+
+  return (
+    <svg viewBox={viewBox} preserveAspectRatio="xMidYMid meet" className={className}>
+      <ElementCollectionRenderer
+        elements={visibleElements}
+        selectedElements={[]}
+        hoveredElement={null}
+        showHidden={false}
+        selectedTool="select"
+      />
+    </svg>
+  )
+}
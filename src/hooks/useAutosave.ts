@@ -0,0 +1,171 @@
+/**
+ * Custom hook for autosave and crash recovery
+ * Periodically snapshots the working drawing to IndexedDB and surfaces a
+ * previous snapshot on mount so it can be restored after a reload or tab crash
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { AutosaveSnapshot, DrawingDocument } from '@/types/geometry'
+import { GEOMETRY_CONSTANTS } from '@/types/geometry'
+import { saveAutosave, loadAutosave, clearAutosave, getLibraryDrawing } from '@/io/storage'
+
+type AutosaveStatus = 'checking' | 'recovery-pending' | 'active'
+
+/**
+ * Fingerprint of the drawing content of a document
+ * View state and timestamps are excluded so it can be compared with a library copy
+ */
+function getDocumentFingerprint(document: DrawingDocument): string {
+  return JSON.stringify([
+    document.elements,
+    document.canvasSettings,
+    document.layers,
+    document.metadata.name
+  ])
+}
+
+/**
+ * Fingerprint of the parts of a snapshot that represent user changes
+ * Timestamps are excluded so an unchanged drawing is not rewritten
+ */
+function getSnapshotFingerprint(snapshot: Omit<AutosaveSnapshot, 'savedAt'>): string {
+  return JSON.stringify([
+    getDocumentFingerprint(snapshot.document),
+    snapshot.document.viewport,
+    snapshot.historyIndex
+  ])
+}
+
+/**
+ * Whether the snapshot holds nothing that is not already in the library
+ */
+async function isSnapshotInLibrary(snapshot: AutosaveSnapshot): Promise<boolean> {
+  const stored = await getLibraryDrawing(snapshot.document.metadata.id)
+  return stored !== null && getDocumentFingerprint(stored) === getDocumentFingerprint(snapshot.document)
+}
+
+/**
+ * Hook for autosaving the current drawing
+ * @param getSnapshot Builds the snapshot to save from the latest state
+ * @param intervalMs How often to check for changes and save
+ * @param enabled Pause saving, e.g. while viewing a drawing that must not replace the working one
+ */
+export function useAutosave(
+  getSnapshot: () => Omit<AutosaveSnapshot, 'savedAt'>,
+  intervalMs: number = GEOMETRY_CONSTANTS.AUTOSAVE_INTERVAL_MS,
+  enabled: boolean = true
+) {
+  const [status, setStatus] = useState<AutosaveStatus>('checking')
+  const [recoveredSnapshot, setRecoveredSnapshot] = useState<AutosaveSnapshot | null>(null)
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null)
+
+  // Keep the latest snapshot builder without restarting the interval on every render
+  const getSnapshotRef = useRef(getSnapshot)
+  useEffect(() => {
+    getSnapshotRef.current = getSnapshot
+  }, [getSnapshot])
+
+  const lastFingerprintRef = useRef<string | null>(null)
+
+  // Look for a snapshot left behind by a previous session
+  useEffect(() => {
+    let cancelled = false
+
+    loadAutosave()
+      .then(async snapshot => {
+        if (cancelled) return
+        if (!snapshot || snapshot.document.elements.length === 0) {
+          setStatus('active')
+          return
+        }
+        if (await isSnapshotInLibrary(snapshot)) {
+          await clearAutosave()
+          if (!cancelled) setStatus('active')
+          return
+        }
+        if (cancelled) return
+        setRecoveredSnapshot(snapshot)
+        setStatus('recovery-pending')
+      })
+      .catch(error => {
+        console.warn('Autosave unavailable:', error)
+        if (!cancelled) setStatus('active')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  /**
+   * Save the current drawing if it changed since the last save
+   */
+  const saveNow = useCallback(async () => {
+    const snapshot = getSnapshotRef.current()
+    const fingerprint = getSnapshotFingerprint(snapshot)
+    if (fingerprint === lastFingerprintRef.current) return
+
+    const savedAt = new Date().toISOString()
+    try {
+      await saveAutosave({ ...snapshot, savedAt })
+      lastFingerprintRef.current = fingerprint
+      setLastSavedAt(savedAt)
+    } catch (error) {
+      console.warn('Autosave failed:', error)
+    }
+  }, [])
+
+  /**
+   * Record that the drawing was saved elsewhere, so the snapshot is no longer needed
+   * @param document The document as it was written to the library or downloaded
+   */
+  const markSaved = useCallback((document: DrawingDocument) => {
+    lastFingerprintRef.current = getSnapshotFingerprint({ ...getSnapshotRef.current(), document })
+    clearAutosave().catch(error => console.warn('Failed to clear autosave:', error))
+  }, [])
+
+  // Periodic saving, plus a final save when the tab is hidden
+  useEffect(() => {
+    if (status !== 'active' || !enabled) return
+
+    const intervalId = setInterval(saveNow, intervalMs)
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        saveNow()
+      }
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      clearInterval(intervalId)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [status, intervalMs, enabled, saveNow])
+
+  /**
+   * Accept the recovered snapshot; the caller is responsible for loading it
+   */
+  const acceptRecovery = useCallback(() => {
+    setRecoveredSnapshot(null)
+    setStatus('active')
+  }, [])
+
+  /**
+   * Discard the recovered snapshot and start autosaving the current drawing
+   */
+  const discardRecovery = useCallback(() => {
+    setRecoveredSnapshot(null)
+    clearAutosave()
+      .catch(error => console.warn('Failed to clear autosave:', error))
+      .finally(() => setStatus('active'))
+  }, [])
+
+  return {
+    recoveredSnapshot,
+    lastSavedAt,
+    acceptRecovery,
+    discardRecovery,
+    saveNow,
+    markSaved
+  }
+}
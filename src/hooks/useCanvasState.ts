@@ -4,27 +4,28 @@
  */
 
 import { useState, useCallback, useMemo } from 'react'
-import { Point2D, Line2D, Circle2D, Vector2D, GeometryUtils, CogWheel } from '@/lib/geometry'
+import { Point2D, Line2D, Circle2D, Arc2D, Ellipse2D, EllipticalArc2D, Polyline2D, Polygon2D, CubicBezier2D, Spline2D, Vector2D, Matrix2D, GeometryUtils } from '@/lib/geometry'
 import type { 
   GeometricElement, 
   GeometricElementType,
+  GeometricData,
   IntersectionInfo, 
   CanvasSettings, 
   DynamicInputState, 
   MeasurementState, 
   SelectionState, 
   DragState, 
-  HoverState,
-  RectangleData,
-  TriangleData
+  HoverState
 } from '@/types/geometry'
 import { GEOMETRY_CONSTANTS, GEOMETRY_COLORS } from '@/types/geometry'
 import { 
   generateElementId, 
   findElementAtPoint, 
   cloneElement, 
-  getSelectedElements 
+  getSelectedElements,
+  transformElement
 } from '@/utils/elementUtils'
+import { placeElementsAt } from '@/io/clipboard'
 
 /**
  * Hook for managing geometric elements
@@ -38,7 +39,7 @@ export function useGeometricElements() {
    */
   const addElement = useCallback((
     type: GeometricElementType, 
-    data: Point2D | Line2D | Circle2D | RectangleData | TriangleData | CogWheel, 
+    data: GeometricData, 
     color?: string
   ): GeometricElement => {
     const element: GeometricElement = {
@@ -111,7 +112,29 @@ export function useDynamicInput() {
   const [dynamicInput, setDynamicInput] = useState<DynamicInputState>({
     showDynamicInput: false,
     dynamicDistance: GEOMETRY_CONSTANTS.DEFAULT_DYNAMIC_DISTANCE,
-    dynamicAngle: 0
+    dynamicAngle: 0,
+    polygonSides: GEOMETRY_CONSTANTS.DEFAULT_POLYGON_SIDES,
+    polygonCircumscribed: false,
+    scaleFactor: 1,
+    scaleFactorY: 1,
+    nonUniformScale: false,
+    useReference: false,
+    keepOriginal: false,
+    offsetJoin: 'miter',
+    filletRadius: GEOMETRY_CONSTANTS.DEFAULT_FILLET_RADIUS,
+    chamferDistance1: GEOMETRY_CONSTANTS.DEFAULT_CHAMFER_DISTANCE,
+    chamferDistance2: GEOMETRY_CONSTANTS.DEFAULT_CHAMFER_DISTANCE,
+    chamferAngle: GEOMETRY_CONSTANTS.DEFAULT_CHAMFER_ANGLE,
+    chamferUseAngle: false,
+    arrayKind: 'rectangular',
+    arrayRows: GEOMETRY_CONSTANTS.DEFAULT_ARRAY_ROWS,
+    arrayColumns: GEOMETRY_CONSTANTS.DEFAULT_ARRAY_COLUMNS,
+    arrayRowSpacing: GEOMETRY_CONSTANTS.DEFAULT_ARRAY_SPACING,
+    arrayColumnSpacing: GEOMETRY_CONSTANTS.DEFAULT_ARRAY_SPACING,
+    arrayAngle: 0,
+    arrayCount: GEOMETRY_CONSTANTS.DEFAULT_ARRAY_COUNT,
+    arrayFillAngle: 360,
+    arrayRotateItems: true
   })
 
   const updateDynamicInput = useCallback((updates: Partial<DynamicInputState>) => {
@@ -158,12 +181,12 @@ export function useMeasurement() {
 }
 
 /**
- * Hook for managing selection and clipboard operations
+ * Hook for managing selection and copy/paste operations
+ * The clipboard itself is the system clipboard, see io/clipboard
  */
 export function useSelection(elements: GeometricElement[]) {
   const [selection, setSelection] = useState<SelectionState>({
     selectedElements: [],
-    clipboard: [],
     showHidden: false
   })
 
@@ -184,19 +207,30 @@ export function useSelection(elements: GeometricElement[]) {
     setSelection(prev => ({ ...prev, selectedElements: elementIds }))
   }, [])
 
+  /**
+   * Elements to write to the clipboard
+   */
   const copySelected = useCallback(() => {
-    const selectedElements = getSelectedElements(elements, selection.selectedElements)
-    setSelection(prev => ({ ...prev, clipboard: selectedElements }))
+    return getSelectedElements(elements, selection.selectedElements)
   }, [elements, selection.selectedElements])
 
-  const pasteElements = useCallback((addElement: (type: GeometricElement['type'], data: Point2D | Line2D | Circle2D | RectangleData | TriangleData | CogWheel, color: string) => void) => {
+  /**
+   * Add copies of clipboard elements centered on the cursor, or offset by PASTE_OFFSET
+   * when the cursor position is unknown, and select them
+   */
+  const pasteElements = useCallback((
+    clipboardElements: GeometricElement[],
+    addElement: (element: GeometricElement) => void,
+    position?: Point2D | null
+  ) => {
     const offset = new Vector2D(GEOMETRY_CONSTANTS.PASTE_OFFSET, GEOMETRY_CONSTANTS.PASTE_OFFSET)
-    
-    selection.clipboard.forEach(element => {
-      const clonedElement = cloneElement(element, offset)
-      addElement(clonedElement.type, clonedElement.data, clonedElement.color)
-    })
-  }, [selection.clipboard])
+    const pasted = position
+      ? placeElementsAt(clipboardElements, position)
+      : clipboardElements.map(element => cloneElement(element, offset))
+
+    pasted.forEach(addElement)
+    setSelection(prev => ({ ...prev, selectedElements: pasted.map(element => element.id) }))
+  }, [])
 
   const hideSelected = useCallback((updateElement: (id: string, updates: Partial<GeometricElement>) => void) => {
     selection.selectedElements.forEach(elementId => {
@@ -308,11 +342,11 @@ export function useIntersections(elements: GeometricElement[], showIntersections
     
     // Filter elements to only include basic geometric shapes that can intersect
     const basicElements = elements.filter(el => 
-      el.type === 'point' || el.type === 'line' || el.type === 'circle' || el.type === 'perpendicular'
+      el.type === 'point' || el.type === 'line' || el.type === 'circle' || el.type === 'arc' || el.type === 'ellipse' || el.type === 'elliptical-arc' || el.type === 'polyline' || el.type === 'polygon' || el.type === 'bezier' || el.type === 'spline' || el.type === 'perpendicular'
     ).map(el => ({
       id: el.id,
       type: el.type,
-      data: el.data as Point2D | Line2D | Circle2D
+      data: el.data as Point2D | Line2D | Circle2D | Arc2D | Ellipse2D | EllipticalArc2D | Polyline2D | Polygon2D | CubicBezier2D | Spline2D
     }))
     
     return GeometryUtils.findAllIntersections(basicElements)
@@ -339,41 +373,28 @@ export function useCanvasState(showIntersections: boolean = true) {
     return findElementAtPoint(point, geometricElements.elements, canvasSettings.settings.tolerance)
   }, [geometricElements.elements, canvasSettings.settings.tolerance])
 
-  const moveSelectedElements = useCallback((offset: Vector2D) => {
-    selection.selection.selectedElements.forEach(elementId => {
-      const element = geometricElements.elements.find(el => el.id === elementId)
-      if (!element) return
-
-      let newData = element.data
-      if (element.type === 'point') {
-        newData = (element.data as Point2D).add(offset)
-      } else if (element.type === 'line' || element.type === 'perpendicular') {
-        const line = element.data as Line2D
-        newData = new Line2D(line.start.add(offset), line.end.add(offset))
-      } else if (element.type === 'circle') {
-        const circle = element.data as Circle2D
-        newData = new Circle2D(circle.center.add(offset), circle.radius)
-      } else if (element.type === 'rectangle') {
-        const rect = element.data as RectangleData
-        newData = {
-          topLeft: rect.topLeft.add(offset),
-          bottomRight: rect.bottomRight.add(offset),
-          width: rect.width,
-          height: rect.height
-        }
-      } else if (element.type === 'triangle') {
-        const triangle = element.data as TriangleData
-        newData = {
-          pointA: triangle.pointA.add(offset),
-          pointB: triangle.pointB.add(offset),
-          pointC: triangle.pointC.add(offset)
-        }
-      }
-
-      geometricElements.updateElement(elementId, { data: newData })
+  /**
+   * Apply a transform to every selected element
+   * All elements are transformed before any is updated, so a failure leaves the selection unchanged
+   * @returns The updated elements, for reporting to the parent
+   * @throws Error if an element cannot take the transform
+   */
+  const transformSelectedElements = useCallback((matrix: Matrix2D): GeometricElement[] => {
+    const selected = new Set(selection.selection.selectedElements)
+    const updated = geometricElements.elements
+      .filter(element => selected.has(element.id))
+      .map(element => transformElement(element, matrix))
+
+    updated.forEach(element => {
+      geometricElements.updateElement(element.id, { type: element.type, data: element.data })
     })
+    return updated
   }, [selection.selection.selectedElements, geometricElements])
 
+  const moveSelectedElements = useCallback((offset: Vector2D): GeometricElement[] => {
+    return transformSelectedElements(Matrix2D.translation(offset))
+  }, [transformSelectedElements])
+
   const deleteSelectedElements = useCallback(() => {
     selection.selection.selectedElements.forEach(elementId => {
       geometricElements.deleteElement(elementId)
@@ -424,6 +445,7 @@ export function useCanvasState(showIntersections: boolean = true) {
 
     // Helper functions
     findElementAt,
+    transformSelectedElements,
     moveSelectedElements,
     deleteSelectedElements
   }
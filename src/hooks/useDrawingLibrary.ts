@@ -0,0 +1,94 @@
+/**
+ * Custom hook for the local drawing library
+ * Lists drawings stored in IndexedDB and provides rename, duplicate and delete operations
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import type { DrawingDocument } from '@/types/geometry'
+import { generateDocumentId } from '@/io/document'
+import {
+  deleteLibraryDrawing,
+  listLibraryDrawings,
+  putLibraryDrawing
+} from '@/io/storage'
+
+/**
+ * Hook for managing the drawing library
+ */
+export function useDrawingLibrary() {
+  const [drawings, setDrawings] = useState<DrawingDocument[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setDrawings(await listLibraryDrawings())
+      setError(null)
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const renameDrawing = useCallback(async (id: string, name: string) => {
+    const drawing = drawings.find(d => d.metadata.id === id)
+    const trimmedName = name.trim()
+    if (!drawing || !trimmedName || trimmedName === drawing.metadata.name) return
+
+    try {
+      await putLibraryDrawing({
+        ...drawing,
+        metadata: { ...drawing.metadata, name: trimmedName, modifiedAt: new Date().toISOString() }
+      })
+      await refresh()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [drawings, refresh])
+
+  const duplicateDrawing = useCallback(async (id: string) => {
+    const drawing = drawings.find(d => d.metadata.id === id)
+    if (!drawing) return
+
+    const now = new Date().toISOString()
+    try {
+      await putLibraryDrawing({
+        ...drawing,
+        metadata: {
+          ...drawing.metadata,
+          id: generateDocumentId(),
+          name: `${drawing.metadata.name} (copy)`,
+          createdAt: now,
+          modifiedAt: now
+        }
+      })
+      await refresh()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [drawings, refresh])
+
+  const deleteDrawing = useCallback(async (id: string) => {
+    try {
+      await deleteLibraryDrawing(id)
+      await refresh()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }, [refresh])
+
+  return {
+    drawings,
+    isLoading,
+    error,
+    refresh,
+    renameDrawing,
+    duplicateDrawing,
+    deleteDrawing
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * System clipboard interop
+ * Copied elements are written as our own JSON payload (exact geometry, readable by
+ * any tab of this app) and as SVG (for other applications). Pasting accepts that
+ * JSON, raw SVG markup or plain coordinate text such as "10,20 30 40".
+ *
+ * Works on the DataTransfer of native copy/paste events, which needs no clipboard
+ * permission and allows custom MIME types.
+ */
+
+import { Point2D, Polygon2D, Polyline2D, Vector2D } from '@/lib/geometry'
+import type { GeometricElement } from '@/types/geometry'
+import { DOCUMENT_FORMAT, DOCUMENT_VERSION } from '@/types/geometry'
+import { deserializeElementList, serializeElement } from '@/io/document'
+import { exportToSvg } from '@/io/svgExport'
+import { importSvg } from '@/io/svgImport'
+import { cloneElement, createElement, getDefaultElementColor, getElementsBounds } from '@/utils/elementUtils'
+
+export const ELEMENTS_MIME_TYPE = `application/x-${DOCUMENT_FORMAT}-elements+json`
+const ELEMENTS_FORMAT = `${DOCUMENT_FORMAT}-elements`
+const SVG_MIME_TYPE = 'image/svg+xml'
+const TEXT_MIME_TYPE = 'text/plain'
+
+/** Where pasted elements came from; coordinate text is placed at its own coordinates */
+export type ClipboardSource = 'elements' | 'svg' | 'coordinates'
+
+export interface ClipboardContent {
+  elements: GeometricElement[]
+  source: ClipboardSource
+}
+
+/**
+ * Write elements to the clipboard of a copy or cut event
+ */
+export function writeElementsToClipboard(data: DataTransfer, elements: GeometricElement[]): void {
+  const payload = {
+    format: ELEMENTS_FORMAT,
+    version: DOCUMENT_VERSION,
+    elements: elements.map(serializeElement)
+  }
+  const svg = exportToSvg(elements, { fitToContent: true })
+
+  data.setData(ELEMENTS_MIME_TYPE, JSON.stringify(payload))
+  data.setData(SVG_MIME_TYPE, svg)
+  data.setData(TEXT_MIME_TYPE, svg)
+}
+
+function parseElementsPayload(text: string): GeometricElement[] | null {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (typeof parsed !== 'object' || parsed === null) return null
+
+  const { format, version, elements } = parsed as Record<string, unknown>
+  if (format !== ELEMENTS_FORMAT || !Array.isArray(elements)) return null
+  if (typeof version !== 'number' || version > DOCUMENT_VERSION) {
+    throw new Error('Copied elements come from a newer version of this app')
+  }
+  return deserializeElementList(elements)
+}
+
+function looksLikeSvg(text: string): boolean {
+  return /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE[^>]*>\s*)?<svg[\s>]/i.test(text)
+}
+
+/**
+ * Parse plain text made of x,y pairs
+ * Numbers may be separated by commas, whitespace or semicolons and pairs may be
+ * wrapped in parentheses, so "(0, 0) (10, 0)" and one "x<tab>y" row per line both work.
+ * One pair becomes a point; more pairs become a polyline, or a polygon if the last pair repeats the first.
+ * @returns null if the text is not a list of coordinates
+ */
+export function parseCoordinateText(text: string): GeometricElement[] | null {
+  const tokens = text.trim().split(/[\s,;()[\]]+/).filter(Boolean)
+  if (tokens.length < 2 || tokens.length % 2 !== 0) return null
+
+  const values = tokens.map(Number)
+  if (values.some(value => !Number.isFinite(value))) return null
+
+  const points: Point2D[] = []
+  for (let i = 0; i < values.length; i += 2) {
+    points.push(new Point2D(values[i], values[i + 1]))
+  }
+
+  if (points.length === 1) {
+    return [createElement('point', points[0], getDefaultElementColor('point'))]
+  }
+
+  const vertices = points.filter((point, i) => i === 0 || !point.equals(points[i - 1]))
+  if (vertices.length < 2) {
+    return [createElement('point', points[0], getDefaultElementColor('point'))]
+  }
+  // A list that returns to its first pair describes a closed outline
+  if (vertices.length > 3 && vertices[vertices.length - 1].equals(vertices[0])) {
+    return [createElement('polygon', new Polygon2D(vertices.slice(0, -1)), getDefaultElementColor('polygon'))]
+  }
+  return [createElement('polyline', new Polyline2D(vertices), getDefaultElementColor('polyline'))]
+}
+
+/**
+ * Read pasteable elements from the clipboard of a paste event
+ * @returns null if the clipboard holds nothing we can paste
+ * @throws Error if the clipboard holds our payload or SVG that cannot be read
+ */
+export function readElementsFromClipboard(data: DataTransfer): ClipboardContent | null {
+  const payload = data.getData(ELEMENTS_MIME_TYPE)
+  if (payload) {
+    const elements = parseElementsPayload(payload)
+    if (elements) return { elements, source: 'elements' }
+  }
+
+  const text = data.getData(TEXT_MIME_TYPE)
+  // Some platforms only keep plain text, so our payload may arrive there
+  if (text.trimStart().startsWith('{')) {
+    const elements = parseElementsPayload(text)
+    if (elements) return { elements, source: 'elements' }
+  }
+
+  const svg = [data.getData(SVG_MIME_TYPE), text].find(looksLikeSvg)
+  if (svg) {
+    return { elements: importSvg(svg, 'Clipboard').elements, source: 'svg' }
+  }
+
+  const elements = parseCoordinateText(text)
+  return elements ? { elements, source: 'coordinates' } : null
+}
+
+/**
+ * Copy elements so that the center of their bounds lands on the target point
+ */
+export function placeElementsAt(elements: GeometricElement[], target: Point2D): GeometricElement[] {
+  const bounds = getElementsBounds(elements)
+  if (!bounds) return elements.map(element => cloneElement(element))
+
+  const offset = new Vector2D(
+    target.x - (bounds.min.x + bounds.max.x) / 2,
+    target.y - (bounds.min.y + bounds.max.y) / 2
+  )
+  return elements.map(element => cloneElement(element, offset))
+}
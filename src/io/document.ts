@@ -0,0 +1,656 @@
+/**
+ * Drawing document format
+ * Versioned JSON schema for saving and loading drawings, with serialization
+ * of geometry class instances and migrations from older schema versions
+ *
+ * Schema (version 1):
+ * {
+ *   format: 'drawing-bored',
+ *   version: 1,
+ *   metadata: { id, name, createdAt, modifiedAt, description? },
+ *   canvasSettings: CanvasSettings,
+ *   viewport: { x, y, scale },
+ *   layers: [{ name, color, visible, locked }],
+ *   elements: [{ id, type, color, data, hidden?, layer?, metadata? }]
+ * }
+ *
+ * Element data is stored with the same field names as the geometry classes:
+ * - point:                { x, y }
+ * - line / perpendicular: { start, end }
+ * - circle:               { center, radius }
+ * - arc:                  { center, radius, startAngle, endAngle, clockwise } (angles in radians)
+ * - ellipse:              { center, radiusX, radiusY, rotation } (rotation in radians)
+ * - elliptical-arc:       { center, radiusX, radiusY, rotation, startAngle, endAngle, clockwise } (parametric angles in radians)
+ * - polyline:             { vertices, bulges, closed } (bulge per vertex for the segment starting there)
+ * - polygon:              { vertices }
+ * - bezier:               { start, control1, control2, end }
+ * - spline:               { controlPoints, kind, closed } (kind is 'catmull-rom', 'b-spline' or 'bezier')
+ * - rectangle:            { topLeft, bottomRight, width, height }
+ * - triangle:             { pointA, pointB, pointC }
+ * - cogwheel:             { center, outerRadius, innerRadius, teethCount, rotation } (rotation in radians, optional)
+ * - text:                 { position, text, height, rotation } (position is the baseline start, rotation in radians)
+ *
+ * Version 0 is the legacy form: a bare JSON array of elements as produced by
+ * JSON.stringify on the in-memory element list.
+ */
+
+import { Point2D, Line2D, Circle2D, Arc2D, Ellipse2D, EllipticalArc2D, Polyline2D, Polygon2D, CubicBezier2D, Spline2D, CogWheel } from '@/lib/geometry'
+import type {
+  CanvasSettings,
+  DocumentMetadata,
+  DrawingDocument,
+  DrawingState,
+  GeometricElement,
+  GeometricElementType,
+  LayerDefinition,
+  RectangleData,
+  SerializedElement,
+  TextData,
+  TriangleData,
+  ViewportState
+} from '@/types/geometry'
+import {
+  DEFAULT_LAYER_NAME,
+  DOCUMENT_FORMAT,
+  DOCUMENT_VERSION,
+  GEOMETRY_CONSTANTS
+} from '@/types/geometry'
+import { generateElementId, validateGeometricData } from '@/utils/elementUtils'
+
+/**
+ * Result of reading a document
+ * Elements that fail validation are skipped and reported in warnings
+ */
+export interface DeserializeResult {
+  drawing: DrawingState
+  warnings: string[]
+}
+
+/**
+ * Default canvas settings used for new drawings and documents missing them
+ */
+export const DEFAULT_CANVAS_SETTINGS: CanvasSettings = {
+  gridSize: GEOMETRY_CONSTANTS.DEFAULT_GRID_SIZE,
+  scale: 1,
+  showGrid: true,
+  showScale: true,
+  snapDistance: GEOMETRY_CONSTANTS.DEFAULT_SNAP_DISTANCE,
+  tolerance: GEOMETRY_CONSTANTS.DEFAULT_TOLERANCE,
+  snapToGrid: true
+}
+
+/**
+ * Default viewport (no pan, 100% zoom)
+ */
+export const DEFAULT_VIEWPORT: ViewportState = { x: 0, y: 0, scale: 1 }
+
+/**
+ * Default layer list containing only the base layer
+ */
+export const DEFAULT_LAYERS: LayerDefinition[] = [
+  { name: DEFAULT_LAYER_NAME, color: '#000000', visible: true, locked: false }
+]
+
+/**
+ * Add definitions for layer names that are not in the layer table yet
+ * Used when merging imported elements that reference their own layers; definitions
+ * read from the imported file are preferred over the defaults
+ */
+export function ensureLayers(
+  layers: LayerDefinition[],
+  layerNames: Iterable<string>,
+  importedLayers: LayerDefinition[] = []
+): LayerDefinition[] {
+  const known = new Set(layers.map(layer => layer.name))
+  const added: LayerDefinition[] = []
+  for (const name of layerNames) {
+    if (known.has(name)) continue
+    known.add(name)
+    added.push(
+      importedLayers.find(layer => layer.name === name) ?? { name, color: '#000000', visible: true, locked: false }
+    )
+  }
+  return added.length > 0 ? [...layers, ...added] : layers
+}
+
+type RawObject = Record<string, unknown>
+
+/**
+ * Schema migrations keyed by the version they upgrade from
+ * Each migration receives the parsed document of version N and returns version N + 1
+ */
+const MIGRATIONS: Record<number, (document: unknown) => unknown> = {
+  // 0 -> 1: wrap a bare element array into a full document
+  0: (document) => {
+    const now = new Date().toISOString()
+    return {
+      format: DOCUMENT_FORMAT,
+      version: 1,
+      metadata: { id: generateDocumentId(), name: 'Untitled drawing', createdAt: now, modifiedAt: now },
+      canvasSettings: DEFAULT_CANVAS_SETTINGS,
+      viewport: DEFAULT_VIEWPORT,
+      layers: DEFAULT_LAYERS,
+      elements: document
+    }
+  }
+}
+
+/**
+ * Generate a unique ID for drawing documents
+ */
+export function generateDocumentId(): string {
+  return `drawing-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Create an empty drawing with default settings
+ */
+export function createEmptyDrawing(name: string = 'Untitled drawing'): DrawingState {
+  const now = new Date().toISOString()
+  return {
+    metadata: { id: generateDocumentId(), name, createdAt: now, modifiedAt: now },
+    canvasSettings: { ...DEFAULT_CANVAS_SETTINGS },
+    viewport: { ...DEFAULT_VIEWPORT },
+    layers: DEFAULT_LAYERS.map(layer => ({ ...layer })),
+    elements: []
+  }
+}
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readNumber(raw: RawObject, field: string): number {
+  const value = raw[field]
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Expected a finite number for "${field}", got: ${JSON.stringify(value)}`)
+  }
+  return value
+}
+
+function readPoint(raw: RawObject, field: string): Point2D {
+  const value = raw[field]
+  if (!isObject(value)) {
+    throw new Error(`Expected a point for "${field}"`)
+  }
+  return new Point2D(readNumber(value, 'x'), readNumber(value, 'y'))
+}
+
+function readPointArray(raw: RawObject, field: string): Point2D[] {
+  const value = raw[field]
+  if (!Array.isArray(value)) {
+    throw new Error(`Expected an array of points for "${field}"`)
+  }
+  return value.map(point => {
+    if (!isObject(point)) throw new Error(`Expected a point in "${field}"`)
+    return new Point2D(readNumber(point, 'x'), readNumber(point, 'y'))
+  })
+}
+
+function serializePoint(point: Point2D): { x: number; y: number } {
+  return { x: point.x, y: point.y }
+}
+
+/**
+ * Convert geometry class instances into plain JSON-safe objects
+ */
+export function serializeElementData(
+  type: GeometricElementType,
+  data: GeometricElement['data']
+): RawObject {
+  switch (type) {
+    case 'point':
+      return serializePoint(data as Point2D)
+    case 'line':
+    case 'perpendicular': {
+      const line = data as Line2D
+      return { start: serializePoint(line.start), end: serializePoint(line.end) }
+    }
+    case 'circle': {
+      const circle = data as Circle2D
+      return { center: serializePoint(circle.center), radius: circle.radius }
+    }
+    case 'arc': {
+      const arc = data as Arc2D
+      return {
+        center: serializePoint(arc.center),
+        radius: arc.radius,
+        startAngle: arc.startAngle,
+        endAngle: arc.endAngle,
+        clockwise: arc.clockwise
+      }
+    }
+    case 'polyline': {
+      const polyline = data as Polyline2D
+      return {
+        vertices: polyline.vertices.map(serializePoint),
+        bulges: [...polyline.bulges],
+        closed: polyline.closed
+      }
+    }
+    case 'polygon':
+      return { vertices: (data as Polygon2D).vertices.map(serializePoint) }
+    case 'bezier': {
+      const curve = data as CubicBezier2D
+      return {
+        start: serializePoint(curve.start),
+        control1: serializePoint(curve.control1),
+        control2: serializePoint(curve.control2),
+        end: serializePoint(curve.end)
+      }
+    }
+    case 'spline': {
+      const spline = data as Spline2D
+      return {
+        controlPoints: spline.controlPoints.map(serializePoint),
+        kind: spline.kind,
+        closed: spline.closed
+      }
+    }
+    case 'ellipse': {
+      const ellipse = data as Ellipse2D
+      return {
+        center: serializePoint(ellipse.center),
+        radiusX: ellipse.radiusX,
+        radiusY: ellipse.radiusY,
+        rotation: ellipse.rotation
+      }
+    }
+    case 'elliptical-arc': {
+      const arc = data as EllipticalArc2D
+      return {
+        center: serializePoint(arc.center),
+        radiusX: arc.radiusX,
+        radiusY: arc.radiusY,
+        rotation: arc.rotation,
+        startAngle: arc.startAngle,
+        endAngle: arc.endAngle,
+        clockwise: arc.clockwise
+      }
+    }
+    case 'rectangle': {
+      const rect = data as RectangleData
+      return {
+        topLeft: serializePoint(rect.topLeft),
+        bottomRight: serializePoint(rect.bottomRight),
+        width: rect.width,
+        height: rect.height
+      }
+    }
+    case 'triangle': {
+      const triangle = data as TriangleData
+      return {
+        pointA: serializePoint(triangle.pointA),
+        pointB: serializePoint(triangle.pointB),
+        pointC: serializePoint(triangle.pointC)
+      }
+    }
+    case 'cogwheel': {
+      const cogWheel = data as CogWheel
+      return {
+        center: serializePoint(cogWheel.center),
+        outerRadius: cogWheel.outerRadius,
+        innerRadius: cogWheel.innerRadius,
+        teethCount: cogWheel.teethCount,
+        rotation: cogWheel.rotation
+      }
+    }
+    case 'text': {
+      const text = data as TextData
+      return {
+        position: serializePoint(text.position),
+        text: text.text,
+        height: text.height,
+        rotation: text.rotation
+      }
+    }
+    default:
+      throw new Error(`Cannot serialize unknown element type: ${type}`)
+  }
+}
+
+/**
+ * Rebuild geometry class instances from plain objects
+ * @throws Error if the data is malformed for the given element type
+ */
+export function deserializeElementData(
+  type: GeometricElementType,
+  raw: unknown
+): GeometricElement['data'] {
+  if (!isObject(raw)) {
+    throw new Error(`Expected an object for ${type} data`)
+  }
+
+  switch (type) {
+    case 'point':
+      return new Point2D(readNumber(raw, 'x'), readNumber(raw, 'y'))
+    case 'line':
+    case 'perpendicular':
+      return new Line2D(readPoint(raw, 'start'), readPoint(raw, 'end'))
+    case 'circle':
+      return new Circle2D(readPoint(raw, 'center'), readNumber(raw, 'radius'))
+    case 'arc':
+      return new Arc2D(
+        readPoint(raw, 'center'),
+        readNumber(raw, 'radius'),
+        readNumber(raw, 'startAngle'),
+        readNumber(raw, 'endAngle'),
+        raw.clockwise === true
+      )
+    case 'polyline': {
+      const { bulges } = raw
+      if (!Array.isArray(bulges)) {
+        throw new Error('Expected a "bulges" array for polyline data')
+      }
+      return new Polyline2D(
+        readPointArray(raw, 'vertices'),
+        bulges.map(bulge => {
+          if (typeof bulge !== 'number' || !Number.isFinite(bulge)) {
+            throw new Error(`Expected a finite number in "bulges", got: ${JSON.stringify(bulge)}`)
+          }
+          return bulge
+        }),
+        raw.closed === true
+      )
+    }
+    case 'polygon':
+      return new Polygon2D(readPointArray(raw, 'vertices'))
+    case 'bezier':
+      return new CubicBezier2D(
+        readPoint(raw, 'start'),
+        readPoint(raw, 'control1'),
+        readPoint(raw, 'control2'),
+        readPoint(raw, 'end')
+      )
+    case 'spline': {
+      const { kind } = raw
+      if (kind !== 'catmull-rom' && kind !== 'b-spline' && kind !== 'bezier') {
+        throw new Error(`Unknown spline kind: ${JSON.stringify(kind)}`)
+      }
+      return new Spline2D(readPointArray(raw, 'controlPoints'), kind, raw.closed === true)
+    }
+    case 'ellipse':
+      return new Ellipse2D(
+        readPoint(raw, 'center'),
+        readNumber(raw, 'radiusX'),
+        readNumber(raw, 'radiusY'),
+        readNumber(raw, 'rotation')
+      )
+    case 'elliptical-arc':
+      return new EllipticalArc2D(
+        readPoint(raw, 'center'),
+        readNumber(raw, 'radiusX'),
+        readNumber(raw, 'radiusY'),
+        readNumber(raw, 'rotation'),
+        readNumber(raw, 'startAngle'),
+        readNumber(raw, 'endAngle'),
+        raw.clockwise === true
+      )
+    case 'rectangle': {
+      const topLeft = readPoint(raw, 'topLeft')
+      const bottomRight = readPoint(raw, 'bottomRight')
+      return {
+        topLeft,
+        bottomRight,
+        width: Math.abs(bottomRight.x - topLeft.x),
+        height: Math.abs(bottomRight.y - topLeft.y)
+      }
+    }
+    case 'triangle':
+      return {
+        pointA: readPoint(raw, 'pointA'),
+        pointB: readPoint(raw, 'pointB'),
+        pointC: readPoint(raw, 'pointC')
+      }
+    case 'cogwheel':
+      return new CogWheel(
+        readPoint(raw, 'center'),
+        readNumber(raw, 'outerRadius'),
+        readNumber(raw, 'innerRadius'),
+        readNumber(raw, 'teethCount'),
+        raw.rotation === undefined ? 0 : readNumber(raw, 'rotation')
+      )
+    case 'text': {
+      if (typeof raw.text !== 'string') {
+        throw new Error(`Expected a string for "text", got: ${JSON.stringify(raw.text)}`)
+      }
+      return {
+        position: readPoint(raw, 'position'),
+        text: raw.text,
+        height: readNumber(raw, 'height'),
+        rotation: readNumber(raw, 'rotation')
+      }
+    }
+    default:
+      throw new Error(`Unknown element type: ${type}`)
+  }
+}
+
+/**
+ * Convert an element into its JSON-safe form
+ */
+export function serializeElement(element: GeometricElement): SerializedElement {
+  const serialized: SerializedElement = {
+    id: element.id,
+    type: element.type,
+    color: element.color,
+    data: serializeElementData(element.type, element.data)
+  }
+
+  if (element.hidden) serialized.hidden = true
+  if (element.layer && element.layer !== DEFAULT_LAYER_NAME) serialized.layer = element.layer
+  if (element.metadata) serialized.metadata = element.metadata
+
+  return serialized
+}
+
+/**
+ * Rebuild an element from its JSON-safe form
+ * @throws Error if the element is malformed or fails validateGeometricData
+ */
+export function deserializeElement(raw: unknown): GeometricElement {
+  if (!isObject(raw)) {
+    throw new Error('Expected an element object')
+  }
+
+  const type = raw.type as GeometricElementType
+  if (typeof type !== 'string') {
+    throw new Error('Element is missing its type')
+  }
+
+  const data = deserializeElementData(type, raw.data)
+  if (!validateGeometricData(type, data)) {
+    throw new Error(`Invalid ${type} geometry`)
+  }
+
+  const element: GeometricElement = {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generateElementId(),
+    type,
+    color: typeof raw.color === 'string' ? raw.color : '#000000',
+    data
+  }
+
+  if (raw.hidden === true) element.hidden = true
+  if (typeof raw.layer === 'string' && raw.layer !== DEFAULT_LAYER_NAME) element.layer = raw.layer
+  if (isObject(raw.metadata)) element.metadata = raw.metadata
+
+  return element
+}
+
+/**
+ * Rebuild a list of elements, skipping any that are malformed or invalid
+ */
+export function deserializeElementList(rawElements: unknown[]): GeometricElement[] {
+  const elements: GeometricElement[] = []
+  rawElements.forEach(rawElement => {
+    try {
+      elements.push(deserializeElement(rawElement))
+    } catch {
+      // Invalid elements are dropped
+    }
+  })
+  return elements
+}
+
+/**
+ * Convert an in-memory drawing into a versioned document
+ */
+export function serializeDocument(drawing: DrawingState): DrawingDocument {
+  return {
+    format: DOCUMENT_FORMAT,
+    version: DOCUMENT_VERSION,
+    metadata: { ...drawing.metadata },
+    canvasSettings: { ...drawing.canvasSettings },
+    viewport: { ...drawing.viewport },
+    layers: drawing.layers.map(layer => ({ ...layer })),
+    elements: drawing.elements.map(serializeElement)
+  }
+}
+
+/**
+ * Detect the schema version of a parsed document
+ */
+function getDocumentVersion(document: unknown): number {
+  if (Array.isArray(document)) return 0
+  if (!isObject(document) || document.format !== DOCUMENT_FORMAT) {
+    throw new Error('Not a Drawing Bored document')
+  }
+  if (typeof document.version !== 'number' || !Number.isInteger(document.version) || document.version < 1) {
+    throw new Error(`Invalid document version: ${JSON.stringify(document.version)}`)
+  }
+  return document.version
+}
+
+/**
+ * Upgrade a parsed document to the current schema version
+ * @throws Error if the document is newer than this application supports
+ */
+export function migrateDocument(document: unknown): DrawingDocument {
+  let version = getDocumentVersion(document)
+
+  if (version > DOCUMENT_VERSION) {
+    throw new Error(`Document version ${version} is newer than the supported version ${DOCUMENT_VERSION}`)
+  }
+
+  let migrated = document
+  while (version < DOCUMENT_VERSION) {
+    const migration = MIGRATIONS[version]
+    if (!migration) {
+      throw new Error(`No migration available from document version ${version}`)
+    }
+    migrated = migration(migrated)
+    version++
+  }
+
+  return migrated as DrawingDocument
+}
+
+function readMetadata(raw: unknown): DocumentMetadata {
+  const now = new Date().toISOString()
+  const metadata = isObject(raw) ? raw : {}
+  return {
+    id: typeof metadata.id === 'string' && metadata.id ? metadata.id : generateDocumentId(),
+    name: typeof metadata.name === 'string' && metadata.name ? metadata.name : 'Untitled drawing',
+    createdAt: typeof metadata.createdAt === 'string' ? metadata.createdAt : now,
+    modifiedAt: typeof metadata.modifiedAt === 'string' ? metadata.modifiedAt : now,
+    ...(typeof metadata.description === 'string' ? { description: metadata.description } : {})
+  }
+}
+
+function readCanvasSettings(raw: unknown): CanvasSettings {
+  const settings = isObject(raw) ? raw : {}
+  const result = { ...DEFAULT_CANVAS_SETTINGS }
+  for (const key of Object.keys(result) as Array<keyof CanvasSettings>) {
+    if (typeof settings[key] === typeof result[key]) {
+      (result as Record<string, unknown>)[key] = settings[key]
+    }
+  }
+  return result
+}
+
+function readViewport(raw: unknown): ViewportState {
+  if (!isObject(raw)) return { ...DEFAULT_VIEWPORT }
+  try {
+    const scale = readNumber(raw, 'scale')
+    return { x: readNumber(raw, 'x'), y: readNumber(raw, 'y'), scale: scale > 0 ? scale : 1 }
+  } catch {
+    return { ...DEFAULT_VIEWPORT }
+  }
+}
+
+function readLayers(raw: unknown): LayerDefinition[] {
+  const layers = Array.isArray(raw)
+    ? raw.filter(isObject).filter(layer => typeof layer.name === 'string').map(layer => ({
+        name: layer.name as string,
+        color: typeof layer.color === 'string' ? layer.color : '#000000',
+        visible: layer.visible !== false,
+        locked: layer.locked === true
+      }))
+    : []
+
+  if (!layers.some(layer => layer.name === DEFAULT_LAYER_NAME)) {
+    layers.unshift({ ...DEFAULT_LAYERS[0] })
+  }
+  return layers
+}
+
+/**
+ * Read a parsed document of any supported version into an in-memory drawing
+ * Geometry instances are rehydrated and validated; invalid elements are skipped
+ * @throws Error if the input is not a document or has an unsupported version
+ */
+export function deserializeDocument(input: unknown): DeserializeResult {
+  const document = migrateDocument(input)
+  const warnings: string[] = []
+
+  if (!Array.isArray(document.elements)) {
+    throw new Error('Document elements must be an array')
+  }
+
+  const elements: GeometricElement[] = []
+  const seenIds = new Set<string>()
+  document.elements.forEach((rawElement, index) => {
+    try {
+      const element = deserializeElement(rawElement)
+      if (seenIds.has(element.id)) {
+        element.id = generateElementId()
+      }
+      seenIds.add(element.id)
+      elements.push(element)
+    } catch (error) {
+      warnings.push(`Skipped element ${index}: ${(error as Error).message}`)
+    }
+  })
+
+  return {
+    drawing: {
+      metadata: readMetadata(document.metadata),
+      canvasSettings: readCanvasSettings(document.canvasSettings),
+      viewport: readViewport(document.viewport),
+      layers: readLayers(document.layers),
+      elements
+    },
+    warnings
+  }
+}
+
+/**
+ * Serialize a drawing to JSON text
+ */
+export function stringifyDocument(drawing: DrawingState): string {
+  return JSON.stringify(serializeDocument(drawing), null, 2)
+}
+
+/**
+ * Parse JSON text into an in-memory drawing
+ * @throws Error if the text is not valid JSON or not a supported document
+ */
+export function parseDocument(text: string): DeserializeResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('Document is not valid JSON')
+  }
+  return deserializeDocument(parsed)
+}
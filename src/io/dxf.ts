@@ -0,0 +1,844 @@
+/**
+ * DXF import and export
+ * Reads and writes ASCII DXF (AutoCAD R2000 / AC1015 entity layout) so drawings
+ * can be exchanged with CAD software.
+ *
+ * Covers LINE, CIRCLE, ARC, ELLIPSE, LWPOLYLINE, SPLINE, POINT and TEXT entities plus the
+ * LAYER table. DXF uses a Y-up coordinate system while the canvas is Y-down,
+ * so Y coordinates are negated in both directions.
+ *
+ * Mapping on import:
+ * - LINE → line, CIRCLE → circle, ARC → arc, POINT → point
+ * - ELLIPSE → ellipse when it is a full ellipse, else elliptical-arc
+ * - LWPOLYLINE → triangle or rectangle when closed with 3 or 4 axis-aligned vertices,
+ *   polygon when otherwise closed and straight, else polyline, keeping bulged segments as arcs
+ * - SPLINE → one bezier per knot span (degree 2 and 3) or a polyline (degree 1);
+ *   splines given only by fit points become a spline through them, listed as approximated.
+ *   Rational and higher degree splines are listed in the import summary
+ * - TEXT → text at its first alignment point, keeping height and rotation; the special
+ *   characters %%d, %%p and %%c and \U+ escapes are decoded and underline/overline toggles dropped
+ * - MTEXT and anything else → listed in the import summary
+ *
+ * Bezier curves and splines are exported as cubic SPLINE entities made of Bezier
+ * segments (every inner knot repeated three times), so they come back as bezier elements.
+ *
+ * Negating Y mirrors angles: a counter-clockwise DXF arc from a to b is an arc from
+ * -a to -b through decreasing canvas angles. For the same reason polyline bulges
+ * change sign in both directions.
+ *
+ * Colors use true color (group 420) with the nearest ACI index (group 62) as a fallback
+ * for older readers. Elements whose color matches their layer are written BYLAYER.
+ */
+
+import { Point2D, Line2D, Circle2D, Arc2D, Ellipse2D, EllipticalArc2D, Polyline2D, Polygon2D, CubicBezier2D, Spline2D, Vector2D, CogWheel, GeometryUtils, ZERO_TOLERANCE } from '@/lib/geometry'
+import type {
+  GeometricElement,
+  GeometricElementType,
+  ImportSummary,
+  LayerDefinition,
+  RectangleData,
+  TextData,
+  TriangleData
+} from '@/types/geometry'
+import { DEFAULT_LAYER_NAME } from '@/types/geometry'
+import { createElement, getDefaultElementColor } from '@/utils/elementUtils'
+import { ImportIssueLog } from '@/io/importIssues'
+
+export interface DxfImportResult {
+  elements: GeometricElement[]
+  layers: LayerDefinition[]
+  summary: ImportSummary
+}
+
+interface GroupPair {
+  code: number
+  value: string
+}
+
+// AutoCAD Color Index entries for the standard colors (index 7 is black/white depending on background)
+const ACI_COLORS: Record<number, string> = {
+  1: '#ff0000',
+  2: '#ffff00',
+  3: '#00ff00',
+  4: '#00ffff',
+  5: '#0000ff',
+  6: '#ff00ff',
+  7: '#000000',
+  8: '#808080',
+  9: '#c0c0c0'
+}
+
+const COLOR_BY_BLOCK = 0
+const COLOR_BY_LAYER = 256
+
+// Layer table flags
+const LAYER_FROZEN = 1
+const LAYER_LOCKED = 4
+
+// SPLINE flag bits (group 70)
+const SPLINE_CLOSED = 1
+const SPLINE_RATIONAL = 4
+const SPLINE_PLANAR = 8
+
+function hexToRgb(color: string): [number, number, number] | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim())
+  if (!match) return null
+  const hex = match[1].length === 3 ? match[1].replace(/./g, c => c + c) : match[1]
+  const value = parseInt(hex, 16)
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+}
+
+function rgbToHex(value: number): string {
+  return `#${(value & 0xffffff).toString(16).padStart(6, '0')}`
+}
+
+function nearestAciColor(color: string): number {
+  const rgb = hexToRgb(color)
+  if (!rgb) return 7
+
+  let best = 7
+  let bestDistance = Infinity
+  for (const [index, hex] of Object.entries(ACI_COLORS)) {
+    const candidate = hexToRgb(hex)!
+    const distance = candidate.reduce((sum, channel, i) => sum + (channel - rgb[i]) ** 2, 0)
+    if (distance < bestDistance) {
+      bestDistance = distance
+      best = Number(index)
+    }
+  }
+  return best
+}
+
+/**
+ * Group codes describing a color: ACI index followed by true color
+ */
+function colorPairs(color: string): GroupPair[] {
+  const rgb = hexToRgb(color)
+  const pairs: GroupPair[] = [{ code: 62, value: String(nearestAciColor(color)) }]
+  if (rgb) {
+    pairs.push({ code: 420, value: String((rgb[0] << 16) | (rgb[1] << 8) | rgb[2]) })
+  }
+  return pairs
+}
+
+function formatNumber(value: number): string {
+  const rounded = Math.round(value * 1e6) / 1e6
+  return Object.is(rounded, -0) ? '0' : String(rounded)
+}
+
+/**
+ * Accumulates group code/value pairs and hands out entity handles
+ */
+class DxfWriter {
+  private readonly lines: string[] = []
+  private nextHandle = 0x100
+
+  pair(code: number, value: string | number) {
+    this.lines.push(String(code).padStart(3, ' '), typeof value === 'number' ? formatNumber(value) : value)
+  }
+
+  pairs(pairs: GroupPair[]) {
+    for (const { code, value } of pairs) this.pair(code, value)
+  }
+
+  handle() {
+    this.pair(5, (this.nextHandle++).toString(16).toUpperCase())
+  }
+
+  point(x: number, y: number, baseCode: number = 10) {
+    this.pair(baseCode, x)
+    this.pair(baseCode + 10, -y)
+  }
+
+  toString(): string {
+    return this.lines.join('\n') + '\n'
+  }
+}
+
+function writeEntityStart(writer: DxfWriter, type: string, subclass: string, element: GeometricElement, layer: LayerDefinition | undefined) {
+  writer.pair(0, type)
+  writer.handle()
+  writer.pair(100, 'AcDbEntity')
+  writer.pair(8, element.layer ?? DEFAULT_LAYER_NAME)
+  if (layer && layer.color.toLowerCase() === element.color.toLowerCase()) {
+    writer.pair(62, COLOR_BY_LAYER)
+  } else {
+    writer.pairs(colorPairs(element.color))
+  }
+  writer.pair(100, subclass)
+}
+
+function writeLine(writer: DxfWriter, element: GeometricElement, layer: LayerDefinition | undefined, line: Line2D) {
+  writeEntityStart(writer, 'LINE', 'AcDbLine', element, layer)
+  writer.point(line.start.x, line.start.y, 10)
+  writer.point(line.end.x, line.end.y, 11)
+}
+
+function writeCircle(writer: DxfWriter, element: GeometricElement, layer: LayerDefinition | undefined, circle: Circle2D) {
+  writeEntityStart(writer, 'CIRCLE', 'AcDbCircle', element, layer)
+  writer.point(circle.center.x, circle.center.y)
+  writer.pair(40, circle.radius)
+}
+
+function writeArc(writer: DxfWriter, element: GeometricElement, layer: LayerDefinition | undefined, arc: Arc2D) {
+  // DXF arcs always run counter-clockwise in Y-up space, so swap the ends of arcs through increasing canvas angles
+  const [from, to] = arc.clockwise ? [arc.startAngle, arc.endAngle] : [arc.endAngle, arc.startAngle]
+  const toDegrees = (angle: number) => {
+    const normalized = GeometryUtils.normalizeAngle(-angle)
+    // Rounding noise just below zero would otherwise be written as 360
+    return GeometryUtils.radiansToDegrees(2 * Math.PI - normalized < ZERO_TOLERANCE ? 0 : normalized)
+  }
+  writeEntityStart(writer, 'ARC', 'AcDbCircle', element, layer)
+  writer.point(arc.center.x, arc.center.y)
+  writer.pair(40, arc.radius)
+  writer.pair(100, 'AcDbArc')
+  writer.pair(50, toDegrees(from))
+  writer.pair(51, toDegrees(to))
+}
+
+/**
+ * Write an ellipse, or the part of it an elliptical arc covers
+ */
+function writeEllipse(writer: DxfWriter, element: GeometricElement, layer: LayerDefinition | undefined, ellipse: Ellipse2D, arc: EllipticalArc2D | null = null) {
+  // DXF stores the major axis as a vector from the center plus the minor/major ratio
+  const majorAlongX = ellipse.radiusX >= ellipse.radiusY
+  const majorAngle = majorAlongX ? ellipse.rotation : ellipse.rotation + Math.PI / 2
+  const majorAxis = new Vector2D(Math.cos(majorAngle), Math.sin(majorAngle)).scale(ellipse.semiMajorAxis)
+  writeEntityStart(writer, 'ELLIPSE', 'AcDbEllipse', element, layer)
+  writer.point(ellipse.center.x, ellipse.center.y)
+  writer.point(majorAxis.x, majorAxis.y, 11)
+  writer.pair(40, ellipse.semiMinorAxis / ellipse.semiMajorAxis)
+  if (!arc) {
+    writer.pair(41, 0)
+    writer.pair(42, 2 * Math.PI)
+    return
+  }
+  // Like ARC, DXF parameters run counter-clockwise in Y-up space and are measured from the major axis
+  const [from, to] = arc.clockwise ? [arc.startAngle, arc.endAngle] : [arc.endAngle, arc.startAngle]
+  const toParameter = (angle: number) => {
+    const normalized = GeometryUtils.normalizeAngle(-(majorAlongX ? angle : angle - Math.PI / 2))
+    return 2 * Math.PI - normalized < ZERO_TOLERANCE ? 0 : normalized
+  }
+  writer.pair(41, toParameter(from))
+  writer.pair(42, toParameter(to))
+}
+
+/**
+ * Encode a text value as one line; characters outside ASCII are written as \U+ escapes
+ * of their UTF-16 code units, as R2000 readers expect, and %% is protected from being read as a control code
+ */
+function encodeDxfText(text: string): string {
+  return text
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/%%/g, '%%%%%%')
+    .replace(/[\u0080-\uffff]/g, char => `\\U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}`)
+}
+
+function writeText(writer: DxfWriter, element: GeometricElement, layer: LayerDefinition | undefined, text: TextData) {
+  writeEntityStart(writer, 'TEXT', 'AcDbText', element, layer)
+  writer.point(text.position.x, text.position.y)
+  writer.pair(40, text.height)
+  writer.pair(1, encodeDxfText(text.text))
+  const angle = GeometryUtils.normalizeAngle(-text.rotation)
+  if (angle > ZERO_TOLERANCE && 2 * Math.PI - angle > ZERO_TOLERANCE) {
+    writer.pair(50, GeometryUtils.radiansToDegrees(angle))
+  }
+  // TEXT repeats its subclass marker before the alignment groups
+  writer.pair(100, 'AcDbText')
+}
+
+function writePolyline(writer: DxfWriter, element: GeometricElement, layer: LayerDefinition | undefined, vertices: readonly Point2D[], closed: boolean, bulges: readonly number[] = []) {
+  writeEntityStart(writer, 'LWPOLYLINE', 'AcDbPolyline', element, layer)
+  writer.pair(90, vertices.length)
+  writer.pair(70, closed ? 1 : 0)
+  vertices.forEach((vertex, index) => {
+    writer.point(vertex.x, vertex.y)
+    const bulge = bulges[index] ?? 0
+    if (bulge !== 0) writer.pair(42, -bulge)
+  })
+}
+
+/**
+ * Write a chain of cubic Bezier segments as one clamped cubic SPLINE
+ */
+function writeBezierChain(writer: DxfWriter, element: GeometricElement, layer: LayerDefinition | undefined, curves: readonly CubicBezier2D[]) {
+  const controlPoints = [curves[0].start, ...curves.flatMap(curve => [curve.control1, curve.control2, curve.end])]
+  const knots = [0, ...curves.flatMap((_, index) => [index, index, index]), curves.length, curves.length, curves.length, curves.length]
+  writeEntityStart(writer, 'SPLINE', 'AcDbSpline', element, layer)
+  writer.pair(70, SPLINE_PLANAR)
+  writer.pair(71, 3)
+  writer.pair(72, knots.length)
+  writer.pair(73, controlPoints.length)
+  writer.pair(74, 0)
+  for (const knot of knots) writer.pair(40, knot)
+  for (const point of controlPoints) writer.point(point.x, point.y)
+}
+
+function writeElement(writer: DxfWriter, element: GeometricElement, layer: LayerDefinition | undefined) {
+  switch (element.type) {
+    case 'point': {
+      const point = element.data as Point2D
+      writeEntityStart(writer, 'POINT', 'AcDbPoint', element, layer)
+      writer.point(point.x, point.y)
+      break
+    }
+    case 'line':
+    case 'perpendicular':
+      writeLine(writer, element, layer, element.data as Line2D)
+      break
+    case 'circle':
+      writeCircle(writer, element, layer, element.data as Circle2D)
+      break
+    case 'arc':
+      writeArc(writer, element, layer, element.data as Arc2D)
+      break
+    case 'ellipse':
+      writeEllipse(writer, element, layer, element.data as Ellipse2D)
+      break
+    case 'elliptical-arc': {
+      const arc = element.data as EllipticalArc2D
+      writeEllipse(writer, element, layer, arc.ellipse, arc)
+      break
+    }
+    case 'polyline': {
+      const polyline = element.data as Polyline2D
+      writePolyline(writer, element, layer, polyline.vertices, polyline.closed, polyline.bulges)
+      break
+    }
+    case 'polygon':
+      writePolyline(writer, element, layer, (element.data as Polygon2D).vertices, true)
+      break
+    case 'bezier':
+      writeBezierChain(writer, element, layer, [element.data as CubicBezier2D])
+      break
+    case 'spline':
+      writeBezierChain(writer, element, layer, (element.data as Spline2D).segments)
+      break
+    case 'rectangle': {
+      const { topLeft, bottomRight } = element.data as RectangleData
+      writePolyline(writer, element, layer, [
+        topLeft,
+        new Point2D(bottomRight.x, topLeft.y),
+        bottomRight,
+        new Point2D(topLeft.x, bottomRight.y)
+      ], true)
+      break
+    }
+    case 'triangle': {
+      const { pointA, pointB, pointC } = element.data as TriangleData
+      writePolyline(writer, element, layer, [pointA, pointB, pointC], true)
+      break
+    }
+    case 'cogwheel': {
+      const cogWheel = element.data as CogWheel
+      writePolyline(writer, element, layer, cogWheel.generatePoints(), true)
+      writeCircle(writer, element, layer, cogWheel.getCenterHole())
+      break
+    }
+    case 'text':
+      writeText(writer, element, layer, element.data as TextData)
+      break
+  }
+}
+
+function writeLayerTable(writer: DxfWriter, layers: LayerDefinition[]) {
+  writer.pair(0, 'TABLE')
+  writer.pair(2, 'LAYER')
+  writer.handle()
+  writer.pair(100, 'AcDbSymbolTable')
+  writer.pair(70, layers.length)
+  for (const layer of layers) {
+    writer.pair(0, 'LAYER')
+    writer.handle()
+    writer.pair(100, 'AcDbSymbolTableRecord')
+    writer.pair(100, 'AcDbLayerTableRecord')
+    writer.pair(2, layer.name)
+    writer.pair(70, layer.locked ? LAYER_LOCKED : 0)
+    // A negative color index marks the layer as off
+    const [aci, ...trueColor] = colorPairs(layer.color)
+    writer.pair(62, layer.visible ? aci.value : `-${aci.value}`)
+    writer.pairs(trueColor)
+    writer.pair(6, 'CONTINUOUS')
+  }
+  writer.pair(0, 'ENDTAB')
+}
+
+/**
+ * Export elements as an ASCII DXF document
+ * Hidden elements are skipped; every layer is written, with hidden layers turned off
+ */
+export function exportToDxf(elements: GeometricElement[], layers: LayerDefinition[]): string {
+  const exported = elements.filter(element => !element.hidden)
+
+  // Make sure every layer referenced by an element is in the table
+  const layerTable = [...layers]
+  for (const element of exported) {
+    const name = element.layer ?? DEFAULT_LAYER_NAME
+    if (!layerTable.some(layer => layer.name === name)) {
+      layerTable.push({ name, color: '#000000', visible: true, locked: false })
+    }
+  }
+  const layersByName = new Map(layerTable.map(layer => [layer.name, layer]))
+
+  const writer = new DxfWriter()
+
+  writer.pair(0, 'SECTION')
+  writer.pair(2, 'HEADER')
+  writer.pair(9, '$ACADVER')
+  writer.pair(1, 'AC1015')
+  writer.pair(9, '$INSUNITS')
+  writer.pair(70, 0)
+  writer.pair(0, 'ENDSEC')
+
+  writer.pair(0, 'SECTION')
+  writer.pair(2, 'TABLES')
+  writeLayerTable(writer, layerTable)
+  writer.pair(0, 'ENDSEC')
+
+  writer.pair(0, 'SECTION')
+  writer.pair(2, 'ENTITIES')
+  for (const element of exported) {
+    writeElement(writer, element, layersByName.get(element.layer ?? DEFAULT_LAYER_NAME))
+  }
+  writer.pair(0, 'ENDSEC')
+
+  writer.pair(0, 'EOF')
+  return writer.toString()
+}
+
+/**
+ * Split DXF text into group code/value pairs
+ */
+function readPairs(text: string): GroupPair[] {
+  const lines = text.split(/\r\n|\r|\n/)
+  const pairs: GroupPair[] = []
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10)
+    if (Number.isNaN(code)) {
+      throw new Error(`Invalid group code on line ${i + 1}`)
+    }
+    pairs.push({ code, value: lines[i + 1].trim() })
+  }
+  return pairs
+}
+
+/**
+ * A DXF record (entity or table entry) as its type and group pairs
+ */
+interface DxfRecord {
+  type: string
+  pairs: GroupPair[]
+}
+
+function recordNumber(record: DxfRecord, code: number, fallback: number = 0): number {
+  const pair = record.pairs.find(p => p.code === code)
+  const value = pair ? parseFloat(pair.value) : NaN
+  return Number.isNaN(value) ? fallback : value
+}
+
+function recordString(record: DxfRecord, code: number): string | null {
+  return record.pairs.find(p => p.code === code)?.value ?? null
+}
+
+// Control codes in TEXT values: %%d degree, %%p plus/minus, %%c diameter, %%% percent
+const DXF_SPECIAL_CHARACTERS: Record<string, string> = { d: '°', p: '±', c: '⌀', '%': '%' }
+
+/**
+ * Decode a TEXT value: \U+ escapes and %% control codes, dropping underline and overline toggles
+ */
+function decodeDxfText(value: string): string {
+  return value
+    .replace(/\\U\+([0-9a-f]{4})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/%%(\d{3}|.)/g, (match, code: string) => {
+      if (/^\d{3}$/.test(code)) return String.fromCharCode(Number(code))
+      const lower = code.toLowerCase()
+      if (lower === 'u' || lower === 'o') return ''
+      return DXF_SPECIAL_CHARACTERS[lower] ?? match
+    })
+}
+
+/**
+ * Group pairs into sections, each a list of records started by code 0
+ */
+function readSections(pairs: GroupPair[]): Map<string, DxfRecord[]> {
+  const sections = new Map<string, DxfRecord[]>()
+  let current: DxfRecord[] | null = null
+
+  for (let i = 0; i < pairs.length; i++) {
+    const { code, value } = pairs[i]
+    if (code !== 0) {
+      current?.[current.length - 1]?.pairs.push(pairs[i])
+      continue
+    }
+    if (value === 'SECTION') {
+      const name = pairs[i + 1]?.code === 2 ? pairs[++i].value : ''
+      current = []
+      sections.set(name, current)
+    } else if (value === 'ENDSEC') {
+      current = null
+    } else if (value === 'EOF') {
+      break
+    } else {
+      current?.push({ type: value, pairs: [] })
+    }
+  }
+  return sections
+}
+
+/**
+ * Resolve the display color of a record from true color, ACI index or its layer
+ */
+function resolveRecordColor(record: DxfRecord, layerColor: string | undefined, fallback: string): string {
+  const trueColor = recordString(record, 420)
+  if (trueColor !== null) return rgbToHex(parseInt(trueColor, 10))
+
+  const index = Math.abs(recordNumber(record, 62, COLOR_BY_LAYER))
+  if (index === COLOR_BY_LAYER || index === COLOR_BY_BLOCK) return layerColor ?? fallback
+  return ACI_COLORS[index] ?? layerColor ?? fallback
+}
+
+function readLayerTable(records: DxfRecord[]): LayerDefinition[] {
+  return records
+    .filter(record => record.type === 'LAYER' && recordString(record, 2) !== null)
+    .map(record => {
+      const flags = recordNumber(record, 70)
+      const aci = recordNumber(record, 62, 7)
+      return {
+        name: recordString(record, 2)!,
+        color: resolveRecordColor(record, undefined, ACI_COLORS[7]),
+        visible: aci >= 0 && (flags & LAYER_FROZEN) === 0,
+        locked: (flags & LAYER_LOCKED) !== 0
+      }
+    })
+}
+
+/**
+ * Collects elements and issues while reading entities
+ */
+class DxfImporter {
+  readonly elements: GeometricElement[] = []
+  readonly issues = new ImportIssueLog()
+  private readonly layerColors: Map<string, string>
+
+  constructor(layers: LayerDefinition[]) {
+    this.layerColors = new Map(layers.map(layer => [layer.name, layer.color]))
+  }
+
+  private add(
+    record: DxfRecord,
+    type: GeometricElementType,
+    data: Point2D | Line2D | Circle2D | Arc2D | Ellipse2D | EllipticalArc2D | Polyline2D | Polygon2D | CubicBezier2D | Spline2D | RectangleData | TriangleData | TextData
+  ) {
+    const layer = recordString(record, 8) ?? DEFAULT_LAYER_NAME
+    const color = resolveRecordColor(record, this.layerColors.get(layer), getDefaultElementColor(type))
+    const element = createElement(type, data, color)
+    element.layer = layer
+    this.elements.push(element)
+  }
+
+  /**
+   * Convert a DXF-space point to canvas space
+   */
+  private toCanvas(point: { x: number; y: number }): Point2D {
+    return new Point2D(point.x, -point.y)
+  }
+
+  private addLines(record: DxfRecord, dxfPoints: Point2D[]) {
+    for (let i = 1; i < dxfPoints.length; i++) {
+      const start = this.toCanvas(dxfPoints[i - 1])
+      const end = this.toCanvas(dxfPoints[i])
+      if (!start.equals(end)) this.add(record, 'line', new Line2D(start, end))
+    }
+  }
+
+  readEntity(record: DxfRecord) {
+    switch (record.type) {
+      case 'LINE':
+        this.addLines(record, [
+          new Point2D(recordNumber(record, 10), recordNumber(record, 20)),
+          new Point2D(recordNumber(record, 11), recordNumber(record, 21))
+        ])
+        break
+      case 'POINT':
+        this.add(record, 'point', this.toCanvas({ x: recordNumber(record, 10), y: recordNumber(record, 20) }))
+        break
+      case 'CIRCLE': {
+        const radius = recordNumber(record, 40)
+        if (radius <= 0) break
+        const center = this.toCanvas({ x: recordNumber(record, 10), y: recordNumber(record, 20) })
+        this.add(record, 'circle', new Circle2D(center, radius))
+        break
+      }
+      case 'ARC': {
+        const radius = recordNumber(record, 40)
+        if (radius <= 0) break
+        const center = this.toCanvas({ x: recordNumber(record, 10), y: recordNumber(record, 20) })
+        const startAngle = GeometryUtils.degreesToRadians(recordNumber(record, 50))
+        const endAngle = GeometryUtils.degreesToRadians(recordNumber(record, 51))
+        if (GeometryUtils.normalizeAngle(endAngle - startAngle) < ZERO_TOLERANCE) {
+          // Equal angles describe a full turn
+          this.add(record, 'circle', new Circle2D(center, radius))
+          break
+        }
+        this.add(record, 'arc', new Arc2D(center, radius, -startAngle, -endAngle, true))
+        break
+      }
+      case 'ELLIPSE': {
+        const ratio = recordNumber(record, 40, 1)
+        const majorAxis = this.toCanvas({ x: recordNumber(record, 11), y: recordNumber(record, 21) })
+        const majorRadius = Math.hypot(majorAxis.x, majorAxis.y)
+        if (majorRadius <= 0 || ratio <= 0) break
+        const startParameter = recordNumber(record, 41)
+        const endParameter = recordNumber(record, 42, 2 * Math.PI)
+        const center = this.toCanvas({ x: recordNumber(record, 10), y: recordNumber(record, 20) })
+        const rotation = Math.atan2(majorAxis.y, majorAxis.x)
+        const ellipse = new Ellipse2D(center, majorRadius, majorRadius * ratio, rotation)
+        const sweep = endParameter - startParameter
+        if (Math.abs(Math.abs(sweep) - 2 * Math.PI) < 1e-6 || Math.abs(sweep) < 1e-6) {
+          this.add(record, 'ellipse', ellipse)
+          break
+        }
+        // Negating Y mirrors the parametric angles too, as for ARC
+        this.add(record, 'elliptical-arc', EllipticalArc2D.fromEllipse(ellipse, -startParameter, -endParameter, true))
+        break
+      }
+      case 'LWPOLYLINE':
+        this.readPolyline(record)
+        break
+      case 'SPLINE':
+        this.readSpline(record)
+        break
+      case 'TEXT':
+        this.readText(record)
+        break
+      case 'MTEXT':
+        this.issues.report(record.type, 'multiline text is not supported yet')
+        break
+      default:
+        this.issues.report(record.type, 'entity type is not supported')
+    }
+  }
+
+  private readText(record: DxfRecord) {
+    // Readers keep the first alignment point (10/20) at the baseline start whatever the justification
+    const text = decodeDxfText(recordString(record, 1) ?? '')
+    const height = recordNumber(record, 40)
+    if (text.trim() === '' || height <= 0) {
+      this.issues.report('TEXT', 'text is empty or has no height')
+      return
+    }
+    this.add(record, 'text', {
+      position: this.toCanvas({ x: recordNumber(record, 10), y: recordNumber(record, 20) }),
+      text,
+      height,
+      rotation: -GeometryUtils.degreesToRadians(recordNumber(record, 50))
+    })
+  }
+
+  private readPolyline(record: DxfRecord) {
+    // Vertices are repeated 10/20 pairs; a 42 bulge applies to the segment after the preceding vertex
+    const vertices: { point: Point2D; bulge: number }[] = []
+    for (const pair of record.pairs) {
+      if (pair.code === 10) {
+        vertices.push({ point: new Point2D(parseFloat(pair.value), 0), bulge: 0 })
+      } else if (pair.code === 20 && vertices.length > 0) {
+        const last = vertices[vertices.length - 1]
+        last.point = new Point2D(last.point.x, parseFloat(pair.value))
+      } else if (pair.code === 42 && vertices.length > 0) {
+        vertices[vertices.length - 1].bulge = parseFloat(pair.value) || 0
+      }
+    }
+    if (vertices.length < 2) return
+
+    const closed = (recordNumber(record, 70) & 1) === 1
+    const hasBulges = vertices.some((vertex, index) => vertex.bulge !== 0 && (closed || index < vertices.length - 1))
+
+    if (closed && !hasBulges) {
+      const canvasPoints = vertices.map(vertex => this.toCanvas(vertex.point))
+      if (canvasPoints.length === 3) {
+        const [pointA, pointB, pointC] = canvasPoints
+        this.add(record, 'triangle', { pointA, pointB, pointC })
+        return
+      }
+      const rectangle = canvasPoints.length === 4 ? asRectangle(canvasPoints) : null
+      if (rectangle) {
+        this.add(record, 'rectangle', rectangle)
+        return
+      }
+    }
+
+    // Repeated vertices would make zero-length segments, and a closing vertex repeating the first is implied by the closed flag
+    const distinct = vertices.filter((vertex, index) => index === 0 || !vertex.point.equals(vertices[index - 1].point))
+    if (closed && distinct.length > 1 && distinct[0].point.equals(distinct[distinct.length - 1].point)) distinct.pop()
+    if (distinct.length < 2) {
+      this.issues.report(record.type, 'polyline has fewer than two distinct vertices')
+      return
+    }
+    if (closed && !hasBulges && distinct.length > 2) {
+      this.add(record, 'polygon', new Polygon2D(distinct.map(vertex => this.toCanvas(vertex.point))))
+      return
+    }
+    const polyline = new Polyline2D(
+      distinct.map(vertex => this.toCanvas(vertex.point)),
+      distinct.map(vertex => -vertex.bulge),
+      closed && distinct.length > 2
+    )
+    this.add(record, 'polyline', polyline)
+  }
+
+  private readSpline(record: DxfRecord) {
+    const degree = recordNumber(record, 71, 3)
+    const flags = recordNumber(record, 70)
+    const knots = recordNumbers(record, 40)
+    const weights = recordNumbers(record, 41)
+    const controlPoints = recordPoints(record, 10)
+    const fitPoints = recordPoints(record, 11)
+
+    if (controlPoints.length === 0) {
+      // Fit points lie on the curve; AutoCAD's own interpolation also depends on end tangents we don't model
+      const points = fitPoints
+        .map(point => this.toCanvas(point))
+        .filter((point, index, all) => index === 0 || !point.equals(all[index - 1]))
+      const closed = (flags & SPLINE_CLOSED) !== 0 && points.length > 2
+      if (closed && points[0].equals(points[points.length - 1])) points.pop()
+      if (points.length < (closed ? 3 : 2)) {
+        this.issues.report('SPLINE', 'spline has fewer than two distinct points')
+        return
+      }
+      this.add(record, 'spline', new Spline2D(points, 'catmull-rom', closed))
+      this.issues.report('SPLINE', 'fit point spline approximated by a curve through the fit points')
+      return
+    }
+    if ((flags & SPLINE_RATIONAL) !== 0 && weights.some(weight => weight !== 1)) {
+      this.issues.report('SPLINE', 'rational splines are not supported')
+      return
+    }
+    if (degree < 1 || degree > 3) {
+      this.issues.report('SPLINE', `degree ${degree} splines are not supported`)
+      return
+    }
+    if (knots.length !== controlPoints.length + degree + 1) {
+      this.issues.report('SPLINE', 'knot count does not match the control points')
+      return
+    }
+
+    const pieces = splineBezierPieces(degree, knots, controlPoints)
+      .map(piece => piece.map(point => this.toCanvas(point)))
+    if (degree === 1) {
+      const vertices = [pieces[0][0], ...pieces.map(piece => piece[1])]
+        .filter((point, index, all) => index === 0 || !point.equals(all[index - 1]))
+      if (vertices.length < 2) {
+        this.issues.report('SPLINE', 'spline has fewer than two distinct points')
+        return
+      }
+      this.add(record, 'polyline', new Polyline2D(vertices))
+      return
+    }
+    for (const piece of pieces) {
+      const curve = degree === 2
+        ? CubicBezier2D.fromQuadratic(piece[0], piece[1], piece[2])
+        : new CubicBezier2D(piece[0], piece[1], piece[2], piece[3])
+      this.add(record, 'bezier', curve)
+    }
+  }
+}
+
+function recordNumbers(record: DxfRecord, code: number): number[] {
+  return record.pairs
+    .filter(pair => pair.code === code)
+    .map(pair => parseFloat(pair.value))
+    .filter(value => !Number.isNaN(value))
+}
+
+/**
+ * Read repeated x/y pairs whose x group code is baseCode and y group code baseCode + 10
+ */
+function recordPoints(record: DxfRecord, baseCode: number): Point2D[] {
+  const points: Point2D[] = []
+  for (const pair of record.pairs) {
+    if (pair.code === baseCode) {
+      points.push(new Point2D(parseFloat(pair.value) || 0, 0))
+    } else if (pair.code === baseCode + 10 && points.length > 0) {
+      points[points.length - 1] = new Point2D(points[points.length - 1].x, parseFloat(pair.value) || 0)
+    }
+  }
+  return points
+}
+
+/**
+ * Split a non-rational B-spline into Bezier control polygons, one per non-empty knot span
+ * Each Bezier control point is a blossom of the span's polynomial evaluated with the
+ * span ends as arguments, computed with de Boor's recurrence.
+ */
+function splineBezierPieces(degree: number, knots: number[], controlPoints: Point2D[]): Point2D[][] {
+  const pieces: Point2D[][] = []
+  for (let span = degree; span < controlPoints.length; span++) {
+    const from = knots[span]
+    const to = knots[span + 1]
+    if (!(to > from)) continue
+    const piece: Point2D[] = []
+    for (let j = 0; j <= degree; j++) {
+      const args = [...Array(degree - j).fill(from), ...Array(j).fill(to)]
+      const points = controlPoints.slice(span - degree, span + 1)
+      for (let r = 1; r <= degree; r++) {
+        for (let i = degree; i >= r; i--) {
+          const knotIndex = span - degree + i
+          const left = knots[knotIndex]
+          const right = knots[knotIndex + degree + 1 - r]
+          const alpha = right > left ? (args[r - 1] - left) / (right - left) : 0
+          points[i] = points[i - 1].add(points[i].subtract(points[i - 1]).scale(alpha))
+        }
+      }
+      piece.push(points[degree])
+    }
+    pieces.push(piece)
+  }
+  return pieces
+}
+
+/**
+ * Recognize four vertices forming an axis-aligned rectangle
+ */
+function asRectangle(points: Point2D[]): RectangleData | null {
+  const xs = new Set(points.map(point => point.x))
+  const ys = new Set(points.map(point => point.y))
+  if (xs.size !== 2 || ys.size !== 2) return null
+  // Consecutive vertices must share an x or a y coordinate
+  for (let i = 0; i < 4; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % 4]
+    if (a.x !== b.x && a.y !== b.y) return null
+  }
+  const topLeft = new Point2D(Math.min(...xs), Math.min(...ys))
+  const bottomRight = new Point2D(Math.max(...xs), Math.max(...ys))
+  return { topLeft, bottomRight, width: bottomRight.x - topLeft.x, height: bottomRight.y - topLeft.y }
+}
+
+
+/**
+ * Parse an ASCII DXF document into elements and layer definitions
+ * Throws if the text is not a DXF file
+ */
+export function importDxf(text: string, source: string = 'DXF file'): DxfImportResult {
+  const sections = readSections(readPairs(text))
+  const entities = sections.get('ENTITIES')
+  if (!entities) {
+    throw new Error('File has no ENTITIES section; is it an ASCII DXF file?')
+  }
+
+  const layers = readLayerTable(sections.get('TABLES') ?? [])
+  const importer = new DxfImporter(layers)
+  for (const record of entities) {
+    importer.readEntity(record)
+  }
+
+  return {
+    elements: importer.elements,
+    layers,
+    summary: {
+      source,
+      importedCount: importer.elements.length,
+      issues: importer.issues.toArray()
+    }
+  }
+}
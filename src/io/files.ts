@@ -0,0 +1,78 @@
+/**
+ * Browser file helpers
+ * Thin wrappers around Blob downloads and file pickers used by import/export features
+ */
+
+/**
+ * Trigger a browser download for the given content
+ */
+export function downloadFile(content: Blob | string, filename: string, mimeType: string = 'application/octet-stream'): void {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // Revoke on the next tick so the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * Open a file picker and resolve with the chosen file, or null if cancelled
+ */
+export function pickFile(accept: string): Promise<File | null> {
+  return new Promise(resolve => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = accept
+    input.onchange = () => resolve(input.files?.[0] ?? null)
+    input.oncancel = () => resolve(null)
+    input.click()
+  })
+}
+
+/**
+ * Turn a drawing name into a safe file name with the given extension
+ */
+export function toFileName(name: string, extension: string): string {
+  const base = name.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-') || 'drawing'
+  return `${base}.${extension}`
+}
+
+/**
+ * Print an SVG page through a hidden frame so the browser's print dialog can save it as PDF
+ * Page dimensions are in millimetres and set the printed paper size
+ */
+export function printSvgPage(svg: string, pageWidth: number, pageHeight: number): void {
+  const frame = document.createElement('iframe')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  document.body.appendChild(frame)
+
+  const frameDocument = frame.contentDocument
+  const frameWindow = frame.contentWindow
+  if (!frameDocument || !frameWindow) {
+    frame.remove()
+    throw new Error('Printing is not available in this browser')
+  }
+
+  frameDocument.open()
+  frameDocument.write(
+    '<!DOCTYPE html><html><head><title></title><style>' +
+      `@page { size: ${pageWidth}mm ${pageHeight}mm; margin: 0 }` +
+      'html, body { margin: 0; padding: 0 } svg { display: block }' +
+      '</style></head><body>' +
+      svg.replace(/^<\?xml[^>]*>\s*/, '') +
+      '</body></html>'
+  )
+  frameDocument.close()
+
+  // Remove the frame once the print dialog has been dismissed
+  frameWindow.addEventListener('afterprint', () => frame.remove())
+  frameWindow.focus()
+  frameWindow.print()
+}
@@ -0,0 +1,25 @@
+/**
+ * Import issue log
+ * Shared by the file importers to collect dropped or approximated constructs,
+ * counting repeats instead of listing every occurrence
+ */
+
+import type { ImportIssue } from '@/types/geometry'
+
+export class ImportIssueLog {
+  private readonly issues = new Map<string, ImportIssue>()
+
+  report(construct: string, reason: string) {
+    const key = `${construct}\u0000${reason}`
+    const issue = this.issues.get(key)
+    if (issue) {
+      issue.count++
+    } else {
+      this.issues.set(key, { construct, reason, count: 1 })
+    }
+  }
+
+  toArray(): ImportIssue[] {
+    return Array.from(this.issues.values())
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Plot layout
+ * Lays out a drawing on a sheet of paper at a fixed drawing scale, independent of the
+ * on-screen viewport, and renders the sheet as an SVG page measured in millimetres.
+ *
+ * One world unit is treated as one millimetre of the real object, so at 1:10 a
+ * 1000 unit line is plotted 100 mm long.
+ */
+
+import type { GeometricElement, LayerDefinition } from '@/types/geometry'
+import { getElementsBounds } from '@/utils/elementUtils'
+import { escapeXml, formatNumber, getExportableElements, renderLayerGroups, type ExportArea } from '@/io/svgExport'
+
+export type PaperSize = 'A4' | 'A3' | 'Letter'
+export type PaperOrientation = 'portrait' | 'landscape'
+
+// Portrait sheet sizes in millimetres
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+  Letter: { width: 215.9, height: 279.4 }
+}
+
+// Standard scale denominators; values below 1 are enlargements (0.5 is 2:1)
+export const STANDARD_SCALES = [0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 25, 50, 100, 200, 250, 500, 1000, 2000, 5000]
+
+export interface PlotOptions {
+  paper: PaperSize
+  orientation: PaperOrientation
+  /** Margin on every side in millimetres */
+  margin: number
+  /** Scale denominator (10 means 1:10), or 'fit' for the largest standard scale that fits */
+  scale: number | 'fit'
+  titleBlock?: {
+    name: string
+    date: string
+  }
+  layers?: LayerDefinition[]
+}
+
+export interface PlotLayout {
+  pageWidth: number
+  pageHeight: number
+  /** Region of the page reserved for the drawing, in millimetres */
+  drawingArea: ExportArea
+  /** Region of the page holding the title block, if any */
+  titleBlockArea: ExportArea | null
+  /** Scale denominator actually used */
+  scale: number
+  /** Whether the whole drawing fits inside the drawing area at this scale */
+  fits: boolean
+}
+
+const TITLE_BLOCK_WIDTH = 100
+const TITLE_BLOCK_HEIGHT = 24
+// Plotted line weights in millimetres
+const ELEMENT_LINE_WEIGHT = 0.35
+const FRAME_LINE_WEIGHT = 0.5
+const TITLE_BLOCK_LINE_WEIGHT = 0.25
+
+/**
+ * Format a scale denominator as a drawing scale label, e.g. 1:10 or 2:1
+ */
+export function formatScale(scale: number): string {
+  return scale >= 1 ? `1:${formatNumber(scale)}` : `${formatNumber(1 / scale)}:1`
+}
+
+/**
+ * Compute where the drawing goes on the sheet and at which scale
+ */
+export function computePlotLayout(elements: GeometricElement[], options: PlotOptions): PlotLayout {
+  const paper = PAPER_SIZES[options.paper]
+  const landscape = options.orientation === 'landscape'
+  const pageWidth = landscape ? paper.height : paper.width
+  const pageHeight = landscape ? paper.width : paper.height
+  const margin = Math.max(0, options.margin)
+
+  const frameWidth = Math.max(0, pageWidth - margin * 2)
+  const frameHeight = Math.max(0, pageHeight - margin * 2)
+  const titleBlockArea = options.titleBlock
+    ? {
+        x: margin + frameWidth - Math.min(TITLE_BLOCK_WIDTH, frameWidth),
+        y: margin + frameHeight - Math.min(TITLE_BLOCK_HEIGHT, frameHeight),
+        width: Math.min(TITLE_BLOCK_WIDTH, frameWidth),
+        height: Math.min(TITLE_BLOCK_HEIGHT, frameHeight)
+      }
+    : null
+  const drawingArea = {
+    x: margin,
+    y: margin,
+    width: frameWidth,
+    height: frameHeight - (titleBlockArea?.height ?? 0)
+  }
+
+  const bounds = getElementsBounds(getExportableElements(elements, { layers: options.layers }))
+  const contentWidth = bounds ? bounds.max.x - bounds.min.x : 0
+  const contentHeight = bounds ? bounds.max.y - bounds.min.y : 0
+  const requiredScale = Math.max(
+    drawingArea.width > 0 ? contentWidth / drawingArea.width : Infinity,
+    drawingArea.height > 0 ? contentHeight / drawingArea.height : Infinity
+  )
+
+  const scale = options.scale === 'fit'
+    ? STANDARD_SCALES.find(candidate => candidate >= requiredScale) ?? STANDARD_SCALES[STANDARD_SCALES.length - 1]
+    : options.scale
+
+  return {
+    pageWidth,
+    pageHeight,
+    drawingArea,
+    titleBlockArea,
+    scale,
+    fits: requiredScale <= scale
+  }
+}
+
+function titleBlockToSvg(area: ExportArea, name: string, date: string, scale: number): string[] {
+  const { x, y, width, height } = area
+  const rowHeight = height / 2
+  const splitX = x + width * 0.6
+  const text = (textX: number, textY: number, size: number, content: string) =>
+    `    <text x="${formatNumber(textX)}" y="${formatNumber(textY)}" font-size="${size}">${escapeXml(content)}</text>`
+  const label = (textX: number, textY: number, content: string) =>
+    `    <text x="${formatNumber(textX)}" y="${formatNumber(textY)}" font-size="2" fill="#555555">${content}</text>`
+
+  return [
+    `  <g data-title-block="true" font-family="Helvetica, Arial, sans-serif" fill="#000000">`,
+    `    <rect x="${formatNumber(x)}" y="${formatNumber(y)}" width="${formatNumber(width)}" height="${formatNumber(height)}" ` +
+      `fill="none" stroke="#000000" stroke-width="${TITLE_BLOCK_LINE_WEIGHT}"/>`,
+    `    <line x1="${formatNumber(x)}" y1="${formatNumber(y + rowHeight)}" x2="${formatNumber(x + width)}" y2="${formatNumber(y + rowHeight)}" ` +
+      `stroke="#000000" stroke-width="${TITLE_BLOCK_LINE_WEIGHT}"/>`,
+    `    <line x1="${formatNumber(splitX)}" y1="${formatNumber(y + rowHeight)}" x2="${formatNumber(splitX)}" y2="${formatNumber(y + height)}" ` +
+      `stroke="#000000" stroke-width="${TITLE_BLOCK_LINE_WEIGHT}"/>`,
+    label(x + 2, y + 3, 'NAME'),
+    text(x + 2, y + rowHeight - 2.5, 5, name),
+    label(x + 2, y + rowHeight + 3, 'DATE'),
+    text(x + 2, y + height - 2.5, 3.5, date),
+    label(splitX + 2, y + rowHeight + 3, 'SCALE'),
+    text(splitX + 2, y + height - 2.5, 3.5, formatScale(scale)),
+    '  </g>'
+  ]
+}
+
+/**
+ * Render the plot sheet as an SVG document sized in millimetres
+ * The drawing is centered in the drawing area and clipped to it
+ */
+export function renderPlotSvg(elements: GeometricElement[], options: PlotOptions): { svg: string; layout: PlotLayout } {
+  const layout = computePlotLayout(elements, options)
+  const { pageWidth, pageHeight, drawingArea, titleBlockArea, scale } = layout
+  const exported = getExportableElements(elements, { layers: options.layers })
+
+  // World-space window that maps onto the drawing area, centered on the content
+  const bounds = getElementsBounds(exported)
+  const centerX = bounds ? (bounds.min.x + bounds.max.x) / 2 : 0
+  const centerY = bounds ? (bounds.min.y + bounds.max.y) / 2 : 0
+  const worldWidth = drawingArea.width * scale
+  const worldHeight = drawingArea.height * scale
+  const worldX = centerX - worldWidth / 2
+  const worldY = centerY - worldHeight / 2
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${formatNumber(pageWidth)}mm" height="${formatNumber(pageHeight)}mm" ` +
+      `viewBox="0 0 ${formatNumber(pageWidth)} ${formatNumber(pageHeight)}">`
+  ]
+  if (options.titleBlock) {
+    lines.push(`  <title>${escapeXml(options.titleBlock.name)}</title>`)
+  }
+  lines.push(
+    `  <rect width="${formatNumber(pageWidth)}" height="${formatNumber(pageHeight)}" fill="#ffffff"/>`,
+    `  <rect x="${formatNumber(options.margin)}" y="${formatNumber(options.margin)}" ` +
+      `width="${formatNumber(pageWidth - options.margin * 2)}" height="${formatNumber(pageHeight - options.margin * 2)}" ` +
+      `fill="none" stroke="#000000" stroke-width="${FRAME_LINE_WEIGHT}"/>`,
+    // A nested viewport maps world units onto paper millimetres and clips to the drawing area
+    `  <svg x="${formatNumber(drawingArea.x)}" y="${formatNumber(drawingArea.y)}" ` +
+      `width="${formatNumber(drawingArea.width)}" height="${formatNumber(drawingArea.height)}" ` +
+      `viewBox="${formatNumber(worldX)} ${formatNumber(worldY)} ${formatNumber(worldWidth)} ${formatNumber(worldHeight)}" overflow="hidden">`,
+    ...renderLayerGroups(exported, options.layers ?? [], ELEMENT_LINE_WEIGHT * scale, '    '),
+    '  </svg>'
+  )
+  if (options.titleBlock && titleBlockArea) {
+    lines.push(...titleBlockToSvg(titleBlockArea, options.titleBlock.name, options.titleBlock.date, scale))
+  }
+  lines.push('</svg>')
+
+  return { svg: lines.join('\n') + '\n', layout }
+}
@@ -0,0 +1,97 @@
+/**
+ * Raster export
+ * Renders elements to PNG or JPEG off-screen: the SVG export is drawn into a
+ * detached canvas, so the output never contains the on-screen UI, hover or
+ * selection state.
+ */
+
+import type { GeometricElement, LayerDefinition } from '@/types/geometry'
+import { exportToSvg, getExportArea, type ExportArea } from '@/io/svgExport'
+
+export type RasterFormat = 'png' | 'jpeg'
+
+export interface RasterExportOptions {
+  format: RasterFormat
+  /** Output resolution; world units are CSS pixels, so 96 DPI renders at 1:1 */
+  dpi: number
+  /** Area to render; the drawing extents when not given */
+  area?: ExportArea
+  /** Background fill; transparent when not given (JPEG falls back to white) */
+  background?: string
+  /** Draw the grid with this spacing in world units */
+  gridSize?: number
+  layers?: LayerDefinition[]
+  /** JPEG quality between 0 and 1 */
+  quality?: number
+}
+
+export const SCREEN_DPI = 96
+
+// Conservative limits that all major browsers can allocate for a canvas
+const MAX_CANVAS_SIDE = 16384
+const MAX_CANVAS_PIXELS = 16384 * 8192
+
+const MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg'
+}
+
+/**
+ * Pixel size of the output image for the given area and resolution
+ */
+export function getRasterSize(area: ExportArea, dpi: number): { width: number; height: number } {
+  const scale = dpi / SCREEN_DPI
+  return {
+    width: Math.max(1, Math.round(area.width * scale)),
+    height: Math.max(1, Math.round(area.height * scale))
+  }
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('Could not render the drawing'))
+    image.src = url
+  })
+}
+
+/**
+ * Render elements to a PNG or JPEG blob
+ */
+export async function exportToRaster(elements: GeometricElement[], options: RasterExportOptions): Promise<Blob> {
+  const { format, dpi, area, gridSize, layers, quality = 0.92 } = options
+  const scale = dpi / SCREEN_DPI
+  const background = options.background ?? (format === 'jpeg' ? '#ffffff' : undefined)
+
+  const exportArea = getExportArea(elements, { area, layers })
+  const { width, height } = getRasterSize(exportArea, dpi)
+
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_PIXELS) {
+    throw new Error(`Image would be ${width} × ${height} pixels; lower the DPI or export a smaller area`)
+  }
+
+  const svg = exportToSvg(elements, { area: exportArea, scale, gridSize, layers, background })
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+  try {
+    const image = await loadImage(url)
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext('2d')
+    if (!context) {
+      throw new Error('Canvas rendering is not available in this browser')
+    }
+    context.drawImage(image, 0, 0, width, height)
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error('Could not encode the image'))),
+        MIME_TYPES[format],
+        quality
+      )
+    })
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
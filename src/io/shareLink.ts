@@ -0,0 +1,154 @@
+/**
+ * Shareable links
+ * Encodes a drawing into the URL fragment so it can be sent without a backend.
+ * The serialized document is deflate-compressed and base64url-encoded:
+ *
+ *   /#share=z<base64url>&ro=1
+ *
+ * The leading "z" names the codec so other encodings can be added later. The
+ * fragment never reaches a server, and both the encoded and the decompressed
+ * size are capped to reject oversized or hostile payloads.
+ */
+
+import type { DrawingState } from '@/types/geometry'
+import { deserializeDocument, serializeDocument, type DeserializeResult } from '@/io/document'
+
+const SHARE_PARAM = 'share'
+const READ_ONLY_PARAM = 'ro'
+const DEFLATE_CODEC = 'z'
+
+/** Longest fragment payload we create or accept, in characters */
+export const MAX_SHARE_PAYLOAD_LENGTH = 16000
+
+// Upper bound for the decompressed JSON, guarding against compression bombs
+const MAX_DECOMPRESSED_BYTES = 2 * 1024 * 1024
+
+export interface ShareFragment {
+  payload: string
+  readOnly: boolean
+}
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function base64UrlToBytes(value: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) {
+    throw new Error('Shared link contains invalid characters')
+  }
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Read a stream fully, or resolve with null once it exceeds the byte limit
+ */
+async function readLimited(stream: ReadableStream<Uint8Array>, limit: number): Promise<Uint8Array | null> {
+  const reader = stream.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.length
+    if (total > limit) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+
+  const result = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array | null> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return readLimited(stream, MAX_DECOMPRESSED_BYTES)
+}
+
+/**
+ * Compress a drawing into a fragment payload
+ * Throws if the result would be longer than MAX_SHARE_PAYLOAD_LENGTH
+ */
+export async function encodeSharePayload(drawing: DrawingState): Promise<string> {
+  const json = JSON.stringify(serializeDocument(drawing))
+  const payload = DEFLATE_CODEC + bytesToBase64Url(await deflate(new TextEncoder().encode(json)))
+  if (payload.length > MAX_SHARE_PAYLOAD_LENGTH) {
+    throw new Error(
+      `Drawing is too large to share as a link (${payload.length} of ${MAX_SHARE_PAYLOAD_LENGTH} characters); save it to a file instead`
+    )
+  }
+  return payload
+}
+
+/**
+ * Decode a fragment payload back into a drawing
+ * Throws a descriptive error for oversized, truncated or corrupt payloads
+ */
+export async function decodeSharePayload(payload: string): Promise<DeserializeResult> {
+  if (payload.length > MAX_SHARE_PAYLOAD_LENGTH) {
+    throw new Error('Shared link is too long')
+  }
+  if (!payload.startsWith(DEFLATE_CODEC)) {
+    throw new Error('Shared link uses an unknown encoding')
+  }
+
+  let bytes: Uint8Array | null
+  try {
+    bytes = await inflate(base64UrlToBytes(payload.slice(DEFLATE_CODEC.length)))
+  } catch {
+    throw new Error('Shared link is corrupt or incomplete')
+  }
+  if (!bytes) {
+    throw new Error('Shared drawing is too large')
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes))
+  } catch {
+    throw new Error('Shared link is corrupt or incomplete')
+  }
+  return deserializeDocument(parsed)
+}
+
+/**
+ * Build a full share URL for the drawing
+ */
+export async function createShareUrl(drawing: DrawingState, readOnly: boolean, baseUrl: string): Promise<string> {
+  const params = new URLSearchParams()
+  params.set(SHARE_PARAM, await encodeSharePayload(drawing))
+  if (readOnly) params.set(READ_ONLY_PARAM, '1')
+  return `${baseUrl}#${params.toString()}`
+}
+
+/**
+ * Extract a share payload from a location hash, or null if the hash is not a share link
+ */
+export function parseShareFragment(hash: string): ShareFragment | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  const payload = params.get(SHARE_PARAM)
+  if (!payload) return null
+  return { payload, readOnly: params.get(READ_ONLY_PARAM) === '1' }
+}
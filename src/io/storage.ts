@@ -0,0 +1,134 @@
+/**
+ * Browser storage for drawings
+ * Promise-based wrapper around IndexedDB used for autosave snapshots
+ * and the local drawing library
+ */
+
+import type { AutosaveSnapshot, DrawingDocument } from '@/types/geometry'
+
+const DATABASE_NAME = 'drawing-bored'
+const DATABASE_VERSION = 2
+
+const AUTOSAVE_STORE = 'autosave'
+const AUTOSAVE_KEY = 'current'
+
+// Library documents are keyed by their metadata id
+const DRAWINGS_STORE = 'drawings'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Open (and create or upgrade if needed) the application database
+ * The connection is shared across calls
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise
+
+  databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'))
+      return
+    }
+
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+
+    request.onupgradeneeded = () => {
+      const database = request.result
+      if (!database.objectStoreNames.contains(AUTOSAVE_STORE)) {
+        database.createObjectStore(AUTOSAVE_STORE)
+      }
+      // Version 2: drawing library
+      if (!database.objectStoreNames.contains(DRAWINGS_STORE)) {
+        database.createObjectStore(DRAWINGS_STORE, { keyPath: 'metadata.id' })
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('Failed to open database'))
+  })
+
+  // Allow a retry on the next call if opening failed
+  databasePromise.catch(() => {
+    databasePromise = null
+  })
+
+  return databasePromise
+}
+
+/**
+ * Run a single request against an object store and resolve with its result
+ */
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode)
+    const request = createRequest(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error ?? request.error ?? new Error('Storage request failed'))
+    transaction.onabort = () => reject(transaction.error ?? new Error('Storage transaction aborted'))
+  })
+}
+
+/**
+ * Write the autosave snapshot, replacing any previous one
+ */
+export async function saveAutosave(snapshot: AutosaveSnapshot): Promise<void> {
+  await runRequest(AUTOSAVE_STORE, 'readwrite', store => store.put(snapshot, AUTOSAVE_KEY))
+}
+
+/**
+ * Read the autosave snapshot, or null if there is none
+ */
+export async function loadAutosave(): Promise<AutosaveSnapshot | null> {
+  const snapshot = await runRequest<AutosaveSnapshot | undefined>(
+    AUTOSAVE_STORE,
+    'readonly',
+    store => store.get(AUTOSAVE_KEY)
+  )
+  return snapshot ?? null
+}
+
+/**
+ * Remove the autosave snapshot
+ */
+export async function clearAutosave(): Promise<void> {
+  await runRequest(AUTOSAVE_STORE, 'readwrite', store => store.delete(AUTOSAVE_KEY))
+}
+
+/**
+ * Insert or replace a drawing in the library
+ */
+export async function putLibraryDrawing(document: DrawingDocument): Promise<void> {
+  await runRequest(DRAWINGS_STORE, 'readwrite', store => store.put(document))
+}
+
+/**
+ * Read a drawing from the library, or null if no drawing has that id
+ */
+export async function getLibraryDrawing(id: string): Promise<DrawingDocument | null> {
+  const document = await runRequest<DrawingDocument | undefined>(
+    DRAWINGS_STORE,
+    'readonly',
+    store => store.get(id)
+  )
+  return document ?? null
+}
+
+/**
+ * List all drawings in the library, most recently modified first
+ */
+export async function listLibraryDrawings(): Promise<DrawingDocument[]> {
+  const documents = await runRequest<DrawingDocument[]>(DRAWINGS_STORE, 'readonly', store => store.getAll())
+  return documents.sort((a, b) => b.metadata.modifiedAt.localeCompare(a.metadata.modifiedAt))
+}
+
+/**
+ * Remove a drawing from the library
+ */
+export async function deleteLibraryDrawing(id: string): Promise<void> {
+  await runRequest(DRAWINGS_STORE, 'readwrite', store => store.delete(id))
+}
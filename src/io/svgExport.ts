@@ -0,0 +1,276 @@
+/**
+ * SVG export
+ * Builds a standalone SVG file from the element list in world coordinates.
+ * Only the geometry is written: no grid, hover or selection styling and no
+ * viewport transform. Elements are grouped per layer and keep their id, type
+ * and color as attributes.
+ */
+
+import type { GeometricElement, LayerDefinition } from '@/types/geometry'
+import { DEFAULT_LAYER_NAME, GEOMETRY_COLORS } from '@/types/geometry'
+import { getElementsBounds } from '@/utils/elementUtils'
+import { type SvgShape, getElementShapes, isFilledElement } from '@/utils/elementShapes'
+
+/**
+ * Rectangle in world coordinates
+ */
+export interface ExportArea {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface SvgExportOptions {
+  /** Only export elements whose ids are listed here */
+  selectedElementIds?: string[]
+  /** Crop the document to the content bounds instead of including the world origin */
+  fitToContent?: boolean
+  /** Export exactly this area (e.g. the current view), ignoring fitToContent and padding */
+  area?: ExportArea
+  /** Space around the content in world units */
+  padding?: number
+  /** Document width and height per world unit */
+  scale?: number
+  /** Draw grid lines with this spacing in world units */
+  gridSize?: number
+  /** Stroke width in world units */
+  strokeWidth?: number
+  /** Background fill, omitted when not given */
+  background?: string
+  /** Layer definitions; elements on hidden layers are skipped */
+  layers?: LayerDefinition[]
+  /** Written to the document <title> */
+  title?: string
+}
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg'
+const DEFAULT_PADDING = 10
+const DEFAULT_STROKE_WIDTH = 2
+
+/**
+ * Format a number for SVG output without float noise
+ */
+export function formatNumber(value: number): string {
+  const rounded = Math.round(value * 1e4) / 1e4
+  return Object.is(rounded, -0) ? '0' : String(rounded)
+}
+
+/**
+ * Round the numbers inside path data produced by the geometry classes
+ */
+function formatPathData(d: string): string {
+  return d.replace(/-?\d*\.?\d+(?:e[-+]?\d+)?/gi, match => formatNumber(Number(match)))
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function shapeToSvg(shape: SvgShape, attributes: string): string {
+  switch (shape.kind) {
+    case 'line':
+      return `<line x1="${formatNumber(shape.x1)}" y1="${formatNumber(shape.y1)}" x2="${formatNumber(shape.x2)}" y2="${formatNumber(shape.y2)}"${attributes}/>`
+    case 'circle':
+      return `<circle cx="${formatNumber(shape.cx)}" cy="${formatNumber(shape.cy)}" r="${formatNumber(shape.r)}"${attributes}/>`
+    case 'ellipse': {
+      const rotation = shape.rotation === 0
+        ? ''
+        : ` transform="rotate(${formatNumber(shape.rotation)} ${formatNumber(shape.cx)} ${formatNumber(shape.cy)})"`
+      return `<ellipse cx="${formatNumber(shape.cx)}" cy="${formatNumber(shape.cy)}" rx="${formatNumber(shape.rx)}" ry="${formatNumber(shape.ry)}"${rotation}${attributes}/>`
+    }
+    case 'rect':
+      return `<rect x="${formatNumber(shape.x)}" y="${formatNumber(shape.y)}" width="${formatNumber(shape.width)}" height="${formatNumber(shape.height)}"${attributes}/>`
+    case 'path':
+      return `<path d="${formatPathData(shape.d)}"${attributes}/>`
+    case 'text': {
+      const rotation = shape.rotation === 0
+        ? ''
+        : ` transform="rotate(${formatNumber(shape.rotation)} ${formatNumber(shape.x)} ${formatNumber(shape.y)})"`
+      return `<text x="${formatNumber(shape.x)}" y="${formatNumber(shape.y)}" font-size="${formatNumber(shape.size)}"${rotation}${attributes}>${escapeXml(shape.text)}</text>`
+    }
+  }
+}
+
+/**
+ * Serialize one element; multi-shape elements are wrapped in a group that carries the id
+ */
+function elementToSvg(element: GeometricElement, indent: string): string {
+  const shapes = getElementShapes(element)
+  if (shapes.length === 0) return ''
+
+  const color = escapeXml(element.color)
+  const paint = isFilledElement(element)
+    ? ` fill="${color}" stroke="none"`
+    : ` fill="none" stroke="${color}"`
+  const identity = ` id="${escapeXml(element.id)}" data-type="${element.type}"`
+
+  if (shapes.length === 1) {
+    return `${indent}${shapeToSvg(shapes[0], identity + paint)}`
+  }
+
+  return [
+    `${indent}<g${identity + paint}>`,
+    ...shapes.map(shape => `${indent}  ${shapeToSvg(shape, '')}`),
+    `${indent}</g>`
+  ].join('\n')
+}
+
+/**
+ * Pick the elements to export: visible, on a visible layer and, if requested, selected
+ */
+export function getExportableElements(
+  elements: GeometricElement[],
+  options: Pick<SvgExportOptions, 'selectedElementIds' | 'layers'> = {}
+): GeometricElement[] {
+  const hiddenLayers = new Set((options.layers ?? []).filter(layer => !layer.visible).map(layer => layer.name))
+  const selected = options.selectedElementIds ? new Set(options.selectedElementIds) : null
+
+  return elements.filter(element =>
+    !element.hidden &&
+    !hiddenLayers.has(element.layer ?? DEFAULT_LAYER_NAME) &&
+    (!selected || selected.has(element.id))
+  )
+}
+
+/**
+ * Area around the exportable elements, optionally extended to include the world origin
+ */
+function getContentArea(elements: GeometricElement[], fitToContent: boolean, padding: number): ExportArea {
+  const content = getElementsBounds(elements)
+  let minX = content?.min.x ?? 0
+  let minY = content?.min.y ?? 0
+  let maxX = content?.max.x ?? 0
+  let maxY = content?.max.y ?? 0
+
+  if (!fitToContent) {
+    minX = Math.min(0, minX)
+    minY = Math.min(0, minY)
+    maxX = Math.max(0, maxX)
+    maxY = Math.max(0, maxY)
+  }
+
+  return {
+    x: minX - padding,
+    y: minY - padding,
+    width: maxX - minX + padding * 2,
+    height: maxY - minY + padding * 2
+  }
+}
+
+/**
+ * The area in world coordinates that exportToSvg will write for these options
+ */
+export function getExportArea(elements: GeometricElement[], options: SvgExportOptions = {}): ExportArea {
+  const { fitToContent = true, padding = DEFAULT_PADDING } = options
+  return options.area ?? getContentArea(getExportableElements(elements, options), fitToContent, padding)
+}
+
+/**
+ * Grid lines covering the area, aligned to multiples of the grid size like the canvas grid
+ */
+function gridToSvg(area: ExportArea, gridSize: number, strokeWidth: number): string[] {
+  const lines: string[] = []
+  const endX = area.x + area.width
+  const endY = area.y + area.height
+  for (let x = Math.ceil(area.x / gridSize) * gridSize; x <= endX; x += gridSize) {
+    lines.push(`    <line x1="${formatNumber(x)}" y1="${formatNumber(area.y)}" x2="${formatNumber(x)}" y2="${formatNumber(endY)}"/>`)
+  }
+  for (let y = Math.ceil(area.y / gridSize) * gridSize; y <= endY; y += gridSize) {
+    lines.push(`    <line x1="${formatNumber(area.x)}" y1="${formatNumber(y)}" x2="${formatNumber(endX)}" y2="${formatNumber(y)}"/>`)
+  }
+  return [
+    `  <g data-grid="${formatNumber(gridSize)}" stroke="${GEOMETRY_COLORS.GRID}" stroke-width="${formatNumber(strokeWidth)}" opacity="0.6">`,
+    ...lines,
+    '  </g>'
+  ]
+}
+
+/**
+ * SVG groups holding the elements of each layer, in layer-table order followed by any unknown layers
+ * Expects elements already filtered with getExportableElements
+ */
+export function renderLayerGroups(
+  elements: GeometricElement[],
+  layers: LayerDefinition[],
+  strokeWidth: number,
+  indent: string = ''
+): string[] {
+  const layerOrder = layers.map(layer => layer.name)
+  const byLayer = new Map<string, GeometricElement[]>()
+  for (const element of elements) {
+    const layerName = element.layer ?? DEFAULT_LAYER_NAME
+    if (!byLayer.has(layerName)) {
+      byLayer.set(layerName, [])
+      if (!layerOrder.includes(layerName)) layerOrder.push(layerName)
+    }
+    byLayer.get(layerName)!.push(element)
+  }
+
+  const lines: string[] = []
+  for (const layerName of layerOrder) {
+    const layerElements = byLayer.get(layerName)
+    if (!layerElements) continue
+
+    lines.push(
+      `${indent}<g data-layer="${escapeXml(layerName)}" stroke-width="${formatNumber(strokeWidth)}" ` +
+        'stroke-linecap="round" stroke-linejoin="round">'
+    )
+    for (const element of layerElements) {
+      const markup = elementToSvg(element, `${indent}  `)
+      if (markup) lines.push(markup)
+    }
+    lines.push(`${indent}</g>`)
+  }
+  return lines
+}
+
+/**
+ * Export elements as a standalone SVG document string
+ */
+export function exportToSvg(elements: GeometricElement[], options: SvgExportOptions = {}): string {
+  const {
+    fitToContent = true,
+    padding = DEFAULT_PADDING,
+    scale = 1,
+    gridSize,
+    strokeWidth = DEFAULT_STROKE_WIDTH,
+    background,
+    layers = [],
+    title
+  } = options
+
+  const exported = getExportableElements(elements, options)
+  const area = options.area ?? getContentArea(exported, fitToContent, padding)
+  const { x, y, width, height } = area
+
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="${SVG_NAMESPACE}" width="${formatNumber(width * scale)}" height="${formatNumber(height * scale)}" ` +
+      `viewBox="${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)}">`
+  ]
+
+  if (title) {
+    lines.push(`  <title>${escapeXml(title)}</title>`)
+  }
+  if (background) {
+    lines.push(
+      `  <rect x="${formatNumber(x)}" y="${formatNumber(y)}" ` +
+        `width="${formatNumber(width)}" height="${formatNumber(height)}" fill="${escapeXml(background)}"/>`
+    )
+  }
+  if (gridSize && gridSize > 0) {
+    // Hairline grid: one output pixel wide regardless of scale
+    lines.push(...gridToSvg(area, gridSize, 1 / scale))
+  }
+
+  lines.push(...renderLayerGroups(exported, layers, strokeWidth, '  '))
+
+  lines.push('</svg>')
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,610 @@
+/**
+ * SVG import
+ * Converts the basic shapes of an SVG file into native geometric elements.
+ * Supported: <line>, <circle>, <ellipse>, <rect>, <polygon>, <polyline> and
+ * <path> with straight segments (M, L, H, V, Z), arcs (A) and cubic and
+ * quadratic Bezier curves (C, S, Q, T), all under nested transform attributes.
+ * Circles scaled non-uniformly become ellipses. Text and other constructs are
+ * listed in the import summary.
+ *
+ * Polylines, polygons and path subpaths become polyline elements, keeping
+ * circular arc segments as bulges; each Bezier segment becomes a bezier element and
+ * each elliptical arc segment (unequal radii, or a circular arc under a non-uniform
+ * transform) an elliptical-arc element, splitting the subpath around it.
+ * Single segments become lines or arcs, closed straight outlines become triangles
+ * (three vertices) or polygons, and axis-aligned rects become rectangles.
+ */
+
+import { Point2D, Line2D, Circle2D, Arc2D, Ellipse2D, EllipticalArc2D, Polyline2D, Polygon2D, CubicBezier2D, Vector2D, GeometryUtils } from '@/lib/geometry'
+import type { GeometricElement, GeometricElementType, ImportSummary, RectangleData, TriangleData } from '@/types/geometry'
+import { createElement, getDefaultElementColor } from '@/utils/elementUtils'
+import { ImportIssueLog } from '@/io/importIssues'
+
+export interface SvgImportResult {
+  elements: GeometricElement[]
+  summary: ImportSummary
+}
+
+/**
+ * Affine transform [a, b, c, d, e, f] as used by the SVG matrix() function:
+ * x' = a * x + c * y + e, y' = b * x + d * y + f
+ */
+type Affine = [number, number, number, number, number, number]
+
+const IDENTITY: Affine = [1, 0, 0, 1, 0, 0]
+
+// Structural elements that carry no geometry of their own
+const CONTAINER_TAGS = new Set(['svg', 'g', 'a'])
+const IGNORED_TAGS = new Set(['title', 'desc', 'metadata', 'defs', 'style', 'script', 'symbol', 'clipPath', 'mask'])
+
+const NUMBER_PATTERN = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g
+const PATH_TOKEN_PATTERN = /[MmLlHhVvZzCcSsQqTtAa]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g
+
+// Parameter counts for path commands we step over without importing
+const CURVE_PARAMETER_COUNTS: Record<string, number> = { C: 6, S: 4, Q: 4, T: 2, A: 7 }
+
+function multiply(m: Affine, n: Affine): Affine {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+  ]
+}
+
+function applyAffine(m: Affine, x: number, y: number): Point2D {
+  return new Point2D(m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5])
+}
+
+/**
+ * A transform is a similarity when it scales both axes equally (circles stay circles)
+ */
+function isSimilarity(m: Affine): boolean {
+  const tolerance = 1e-9
+  const scaleX = m[0] * m[0] + m[1] * m[1]
+  const scaleY = m[2] * m[2] + m[3] * m[3]
+  return Math.abs(scaleX - scaleY) < tolerance * Math.max(1, scaleX) && Math.abs(m[0] * m[2] + m[1] * m[3]) < tolerance
+}
+
+function isAxisAligned(m: Affine): boolean {
+  return m[1] === 0 && m[2] === 0
+}
+
+function parseNumbers(value: string | null): number[] {
+  return (value?.match(NUMBER_PATTERN) ?? []).map(Number)
+}
+
+/**
+ * Parse an SVG transform attribute into a single affine matrix
+ */
+function parseTransform(value: string | null): Affine {
+  let result = IDENTITY
+  if (!value) return result
+
+  const functionPattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g
+  let match: RegExpExecArray | null
+  while ((match = functionPattern.exec(value)) !== null) {
+    const args = parseNumbers(match[2])
+    let step: Affine
+    switch (match[1]) {
+      case 'matrix':
+        step = args.length === 6 ? (args as Affine) : IDENTITY
+        break
+      case 'translate':
+        step = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0]
+        break
+      case 'scale':
+        step = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0]
+        break
+      case 'rotate': {
+        const angle = ((args[0] ?? 0) * Math.PI) / 180
+        const cos = Math.cos(angle)
+        const sin = Math.sin(angle)
+        const cx = args[1] ?? 0
+        const cy = args[2] ?? 0
+        step = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy]
+        break
+      }
+      case 'skewX':
+        step = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0]
+        break
+      default:
+        step = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0]
+    }
+    result = multiply(result, step)
+  }
+  return result
+}
+
+/**
+ * Read a presentation property from the attribute or the inline style
+ */
+function readStyleProperty(node: Element, property: string): string | null {
+  const style = node.getAttribute('style')
+  if (style) {
+    for (const declaration of style.split(';')) {
+      const [name, ...rest] = declaration.split(':')
+      if (name?.trim() === property) return rest.join(':').trim()
+    }
+  }
+  return node.getAttribute(property)
+}
+
+/**
+ * Collects elements and issues while walking the document
+ */
+class SvgImporter {
+  readonly elements: GeometricElement[] = []
+  readonly issues = new ImportIssueLog()
+
+  private add(
+    type: GeometricElementType,
+    data: Point2D | Line2D | Circle2D | Arc2D | Ellipse2D | EllipticalArc2D | Polyline2D | Polygon2D | CubicBezier2D | RectangleData | TriangleData,
+    color: string | null,
+    layer: string | null
+  ) {
+    const element = createElement(type, data, color ?? getDefaultElementColor(type))
+    if (layer) element.layer = layer
+    this.elements.push(element)
+  }
+
+  private addLine(start: Point2D, end: Point2D, color: string | null, layer: string | null) {
+    if (start.equals(end)) return
+    this.add('line', new Line2D(start, end), color, layer)
+  }
+
+  /**
+   * Add a chain of vertices, where bulges[i] describes the segment leaving vertex i
+   * Single segments become lines or arcs and closed straight three-vertex outlines become triangles
+   */
+  private addOutline(vertices: Point2D[], bulges: number[], closed: boolean, color: string | null, layer: string | null) {
+    // Merge repeated vertices, which would make zero-length segments
+    const distinct: Point2D[] = []
+    const distinctBulges: number[] = []
+    vertices.forEach((vertex, index) => {
+      if (distinct.length > 0 && vertex.equals(distinct[distinct.length - 1])) return
+      distinct.push(vertex)
+      distinctBulges.push(bulges[index] ?? 0)
+    })
+    if (closed && distinct.length > 1 && distinct[0].equals(distinct[distinct.length - 1])) {
+      // The segment into the repeated vertex becomes the closing segment
+      distinct.pop()
+      distinctBulges.pop()
+    }
+    if (distinct.length < 2) return
+
+    const straight = distinctBulges.every((bulge, index) => bulge === 0 || (!closed && index === distinct.length - 1))
+    // Two straight segments back and forth are just a line
+    const isClosed = closed && (distinct.length > 2 || !straight)
+    if (isClosed && straight && distinct.length === 3) {
+      const [pointA, pointB, pointC] = distinct
+      this.add('triangle', { pointA, pointB, pointC }, color, layer)
+      return
+    }
+    if (isClosed && straight) {
+      this.add('polygon', new Polygon2D(distinct), color, layer)
+      return
+    }
+    const polyline = new Polyline2D(distinct, distinctBulges, isClosed)
+    if (polyline.segmentCount === 1) {
+      this.add(straight ? 'line' : 'arc', polyline.segmentAt(0), color, layer)
+      return
+    }
+    this.add('polyline', polyline, color, layer)
+  }
+
+  /**
+   * Convert an SVG arc segment (endpoint parameterization) to an arc
+   * Only circular arcs under similarity transforms can be represented
+   * @returns null if the segment is elliptical
+   */
+  private arcSegment(
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    parameters: number[],
+    transform: Affine
+  ): Arc2D | null {
+    const [rx, ry, , largeArcFlag, sweepFlag] = parameters
+    if (Math.abs(Math.abs(rx) - Math.abs(ry)) > 1e-9 * Math.abs(rx) || !isSimilarity(transform)) {
+      return null
+    }
+
+    // Center from the SVG implementation notes (F.6.5) for equal radii and no rotation
+    const halfX = (from.x - to.x) / 2
+    const halfY = (from.y - to.y) / 2
+    const halfChordSquared = halfX * halfX + halfY * halfY
+    // Radii that are too small are scaled up until the arc just fits (F.6.6)
+    const radius = Math.max(Math.abs(rx), Math.sqrt(halfChordSquared))
+    const sign = (largeArcFlag !== 0) !== (sweepFlag !== 0) ? 1 : -1
+    const coefficient = sign * Math.sqrt(Math.max(0, (radius * radius - halfChordSquared) / halfChordSquared))
+    const centerX = coefficient * halfY + (from.x + to.x) / 2
+    const centerY = -coefficient * halfX + (from.y + to.y) / 2
+
+    const center = applyAffine(transform, centerX, centerY)
+    const start = applyAffine(transform, from.x, from.y)
+    const end = applyAffine(transform, to.x, to.y)
+    const determinant = transform[0] * transform[3] - transform[1] * transform[2]
+    // A mirroring transform reverses the sweep direction
+    const clockwise = (sweepFlag === 0) !== (determinant < 0)
+    const angleOf = (point: Point2D) => GeometryUtils.vectorAngle(point.subtract(center))
+    return new Arc2D(center, radius * Math.sqrt(Math.abs(determinant)), angleOf(start), angleOf(end), clockwise)
+  }
+
+  /**
+   * Convert any SVG arc segment (endpoint parameterization) to an elliptical arc
+   * Follows the center conversion of the SVG implementation notes (F.6.5), then maps the
+   * ellipse through the transform, as any affine image of an elliptical arc is one
+   */
+  private ellipticalArcSegment(
+    from: { x: number; y: number },
+    to: { x: number; y: number },
+    parameters: number[],
+    transform: Affine
+  ): EllipticalArc2D | null {
+    const [, , xAxisRotation, largeArcFlag, sweepFlag] = parameters
+    let rx = Math.abs(parameters[0])
+    let ry = Math.abs(parameters[1])
+    const phi = (xAxisRotation * Math.PI) / 180
+    const cos = Math.cos(phi)
+    const sin = Math.sin(phi)
+
+    // Half chord in the ellipse's own axes
+    const halfX = (from.x - to.x) / 2
+    const halfY = (from.y - to.y) / 2
+    const x1 = cos * halfX + sin * halfY
+    const y1 = -sin * halfX + cos * halfY
+    // Radii that are too small are scaled up until the arc just fits (F.6.6)
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry)
+    if (lambda > 1) {
+      rx *= Math.sqrt(lambda)
+      ry *= Math.sqrt(lambda)
+    }
+    const sign = (largeArcFlag !== 0) !== (sweepFlag !== 0) ? 1 : -1
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1
+    const coefficient = sign * Math.sqrt(Math.max(0, numerator / (rx * rx * y1 * y1 + ry * ry * x1 * x1)))
+    const centerX1 = (coefficient * rx * y1) / ry
+    const centerY1 = (-coefficient * ry * x1) / rx
+    const centerX = cos * centerX1 - sin * centerY1 + (from.x + to.x) / 2
+    const centerY = sin * centerX1 + cos * centerY1 + (from.y + to.y) / 2
+
+    const [a, b, c, d] = transform
+    const ellipse = Ellipse2D.fromConjugateDiameters(
+      applyAffine(transform, centerX, centerY),
+      new Vector2D((a * cos + c * sin) * rx, (b * cos + d * sin) * rx),
+      new Vector2D((-a * sin + c * cos) * ry, (-b * sin + d * cos) * ry)
+    )
+    if (!ellipse) return null
+    const angleOf = (point: { x: number; y: number }) => ellipse.parametricAngleOf(applyAffine(transform, point.x, point.y))
+    // A mirroring transform reverses the sweep direction
+    const clockwise = (sweepFlag === 0) !== (a * d - b * c < 0)
+    return EllipticalArc2D.fromEllipse(ellipse, angleOf(from), angleOf(to), clockwise)
+  }
+
+  /**
+   * Add an axis-aligned ellipse after transforming it; any affine image of an ellipse is an ellipse
+   */
+  private addEllipse(cx: number, cy: number, rx: number, ry: number, transform: Affine, color: string | null, layer: string | null) {
+    const [a, b, c, d] = transform
+    const ellipse = Ellipse2D.fromConjugateDiameters(
+      applyAffine(transform, cx, cy),
+      new Vector2D(a * rx, b * rx),
+      new Vector2D(c * ry, d * ry)
+    )
+    if (ellipse) this.add('ellipse', ellipse, color, layer)
+  }
+
+  /**
+   * Walk a node and its children, accumulating transforms, stroke color and layer
+   */
+  visit(node: Element, parentTransform: Affine, parentColor: string | null, parentLayer: string | null) {
+    const tag = node.localName
+    if (IGNORED_TAGS.has(tag)) return
+    if (readStyleProperty(node, 'display') === 'none' || readStyleProperty(node, 'visibility') === 'hidden') return
+
+    const transform = multiply(parentTransform, parseTransform(node.getAttribute('transform')))
+    const color = resolveColor(node) ?? parentColor
+    const layer = node.getAttribute('data-layer') ?? parentLayer
+
+    if (CONTAINER_TAGS.has(tag)) {
+      for (const child of Array.from(node.children)) {
+        this.visit(child, transform, color, layer)
+      }
+      return
+    }
+
+    const number = (name: string) => parseFloat(node.getAttribute(name) ?? '0') || 0
+
+    switch (tag) {
+      case 'line':
+        this.addLine(
+          applyAffine(transform, number('x1'), number('y1')),
+          applyAffine(transform, number('x2'), number('y2')),
+          color,
+          layer
+        )
+        break
+      case 'circle': {
+        const center = applyAffine(transform, number('cx'), number('cy'))
+        // Our own SVG export writes points as small filled circles
+        if (node.getAttribute('data-type') === 'point') {
+          this.add('point', center, color, layer)
+          break
+        }
+        if (!isSimilarity(transform)) {
+          if (number('r') > 0) this.addEllipse(number('cx'), number('cy'), number('r'), number('r'), transform, color, layer)
+          break
+        }
+        const radius = number('r') * Math.sqrt(Math.abs(transform[0] * transform[3] - transform[1] * transform[2]))
+        if (radius > 0) this.add('circle', new Circle2D(center, radius), color, layer)
+        break
+      }
+      case 'ellipse': {
+        const rx = number('rx')
+        const ry = number('ry')
+        if (rx > 0 && ry > 0) this.addEllipse(number('cx'), number('cy'), rx, ry, transform, color, layer)
+        break
+      }
+      case 'rect': {
+        const x = number('x')
+        const y = number('y')
+        const width = number('width')
+        const height = number('height')
+        if (width <= 0 || height <= 0) break
+        if (number('rx') > 0 || number('ry') > 0) {
+          this.issues.report('<rect>', 'rounded corners were imported as square corners')
+        }
+        const corners = [
+          applyAffine(transform, x, y),
+          applyAffine(transform, x + width, y),
+          applyAffine(transform, x + width, y + height),
+          applyAffine(transform, x, y + height)
+        ]
+        if (isAxisAligned(transform)) {
+          const topLeft = new Point2D(Math.min(corners[0].x, corners[2].x), Math.min(corners[0].y, corners[2].y))
+          const bottomRight = new Point2D(Math.max(corners[0].x, corners[2].x), Math.max(corners[0].y, corners[2].y))
+          this.add('rectangle', {
+            topLeft,
+            bottomRight,
+            width: bottomRight.x - topLeft.x,
+            height: bottomRight.y - topLeft.y
+          }, color, layer)
+        } else {
+          this.addOutline(corners, [], true, color, layer)
+        }
+        break
+      }
+      case 'polygon':
+      case 'polyline': {
+        const values = parseNumbers(node.getAttribute('points'))
+        const vertices: Point2D[] = []
+        for (let i = 0; i + 1 < values.length; i += 2) {
+          vertices.push(applyAffine(transform, values[i], values[i + 1]))
+        }
+        this.addOutline(vertices, [], tag === 'polygon', color, layer)
+        break
+      }
+      case 'path':
+        this.importPath(node.getAttribute('d') ?? '', transform, color, layer)
+        break
+      default:
+        this.issues.report(`<${tag}>`, 'element type is not supported')
+    }
+  }
+
+  /**
+   * Import path data
+   */
+  private importPath(d: string, transform: Affine, color: string | null, layer: string | null) {
+    const tokens = d.match(PATH_TOKEN_PATTERN) ?? []
+    let index = 0
+    let command = ''
+    let current = { x: 0, y: 0 }
+    let subpathStart = { x: 0, y: 0 }
+    // Vertices of the current run, with bulges[i] describing the segment leaving vertex i
+    let vertices: Point2D[] = []
+    let bulges: number[] = []
+    // Set when the subpath was split by a curve or a skipped segment, so it can no longer close as one outline
+    let subpathHasCurves = false
+    // Control point of the previous cubic or quadratic segment, reflected by S and T
+    let lastCubicControl: { x: number; y: number } | null = null
+    let lastQuadraticControl: { x: number; y: number } | null = null
+
+    const isCommand = (token: string | undefined) => token !== undefined && /^[A-Za-z]$/.test(token)
+    const nextNumber = () => Number(tokens[index++])
+
+    const flushOpen = () => {
+      this.addOutline(vertices, bulges, false, color, layer)
+      vertices = []
+      bulges = []
+    }
+    const restartAt = (x: number, y: number) => {
+      current = { x, y }
+      vertices = [applyAffine(transform, x, y)]
+      bulges = [0]
+    }
+    const moveTo = (x: number, y: number) => {
+      flushOpen()
+      subpathStart = { x, y }
+      subpathHasCurves = false
+      restartAt(x, y)
+    }
+    const segmentTo = (x: number, y: number, bulge: number = 0) => {
+      current = { x, y }
+      bulges[vertices.length - 1] = bulge
+      vertices.push(applyAffine(transform, x, y))
+      bulges.push(0)
+    }
+
+    while (index < tokens.length) {
+      if (isCommand(tokens[index])) {
+        command = tokens[index++]
+      } else if (!command) {
+        this.issues.report('<path>', 'path data is malformed')
+        return
+      }
+
+      const upper = command.toUpperCase()
+      const relative = command !== upper
+
+      if (upper === 'Z') {
+        if (subpathHasCurves) {
+          // Skipped segments broke the outline, so it can only be drawn open
+          segmentTo(subpathStart.x, subpathStart.y)
+          flushOpen()
+        } else {
+          if (!vertices[vertices.length - 1]?.equals(applyAffine(transform, subpathStart.x, subpathStart.y))) {
+            segmentTo(subpathStart.x, subpathStart.y)
+          }
+          this.addOutline(vertices, bulges, true, color, layer)
+        }
+        subpathHasCurves = false
+        lastCubicControl = null
+        lastQuadraticControl = null
+        restartAt(subpathStart.x, subpathStart.y)
+        command = ''
+        continue
+      }
+
+      const parameterCount = upper === 'H' || upper === 'V' ? 1 : upper in CURVE_PARAMETER_COUNTS ? CURVE_PARAMETER_COUNTS[upper] : 2
+      const parameters: number[] = []
+      while (parameters.length < parameterCount && index < tokens.length && !isCommand(tokens[index])) {
+        parameters.push(nextNumber())
+      }
+      if (parameters.length < parameterCount) {
+        this.issues.report('<path>', 'path data is malformed')
+        flushOpen()
+        return
+      }
+
+      const offsetX = relative ? current.x : 0
+      const offsetY = relative ? current.y : 0
+      const previousCubicControl: { x: number; y: number } | null = lastCubicControl
+      const previousQuadraticControl: { x: number; y: number } | null = lastQuadraticControl
+      lastCubicControl = null
+      lastQuadraticControl = null
+
+      switch (upper) {
+        case 'M':
+          moveTo(parameters[0] + offsetX, parameters[1] + offsetY)
+          // Further coordinate pairs after a moveto are implicit linetos
+          command = relative ? 'l' : 'L'
+          break
+        case 'L':
+          segmentTo(parameters[0] + offsetX, parameters[1] + offsetY)
+          break
+        case 'H':
+          segmentTo(parameters[0] + offsetX, current.y)
+          break
+        case 'V':
+          segmentTo(current.x, parameters[0] + offsetY)
+          break
+        default: {
+          const end = {
+            x: parameters[parameterCount - 2] + offsetX,
+            y: parameters[parameterCount - 1] + offsetY
+          }
+          if (upper === 'A') {
+            if (end.x === current.x && end.y === current.y) break
+            // Zero radii make the segment a straight line
+            if (parameters[0] === 0 || parameters[1] === 0) {
+              segmentTo(end.x, end.y)
+              break
+            }
+            const arc = this.arcSegment(current, end, parameters, transform)
+            if (arc) {
+              segmentTo(end.x, end.y, arc.bulge)
+              break
+            }
+            const ellipticalArc = this.ellipticalArcSegment(current, end, parameters, transform)
+            if (ellipticalArc) {
+              flushOpen()
+              this.add('elliptical-arc', ellipticalArc, color, layer)
+              subpathHasCurves = true
+              restartAt(end.x, end.y)
+              break
+            }
+            this.issues.report('<path>', 'arc segment collapses under its transform')
+          } else {
+            // Smooth segments reflect the previous control point about the current point, or start at it
+            const reflect = (control: { x: number; y: number } | null) =>
+              control ? { x: 2 * current.x - control.x, y: 2 * current.y - control.y } : current
+            const point = (i: number) => ({ x: parameters[i] + offsetX, y: parameters[i + 1] + offsetY })
+            let curve: CubicBezier2D
+            if (upper === 'C' || upper === 'S') {
+              const control1 = upper === 'C' ? point(0) : reflect(previousCubicControl)
+              const control2 = upper === 'C' ? point(2) : point(0)
+              lastCubicControl = control2
+              curve = new CubicBezier2D(
+                applyAffine(transform, current.x, current.y),
+                applyAffine(transform, control1.x, control1.y),
+                applyAffine(transform, control2.x, control2.y),
+                applyAffine(transform, end.x, end.y)
+              )
+            } else {
+              const control: { x: number; y: number } = upper === 'Q' ? point(0) : reflect(previousQuadraticControl)
+              lastQuadraticControl = control
+              curve = CubicBezier2D.fromQuadratic(
+                applyAffine(transform, current.x, current.y),
+                applyAffine(transform, control.x, control.y),
+                applyAffine(transform, end.x, end.y)
+              )
+            }
+            flushOpen()
+            if (curve.controlPoints.some(controlPoint => !controlPoint.equals(curve.start))) {
+              this.add('bezier', curve, color, layer)
+            }
+            subpathHasCurves = true
+            restartAt(end.x, end.y)
+            break
+          }
+          // Skipped segment: keep what we have as an open outline and continue from the segment's end point
+          subpathHasCurves = true
+          flushOpen()
+          restartAt(end.x, end.y)
+        }
+      }
+    }
+
+    flushOpen()
+  }
+}
+
+
+/**
+ * Stroke color of a node, falling back to its fill for filled-only shapes
+ */
+function resolveColor(node: Element): string | null {
+  for (const property of ['stroke', 'fill']) {
+    const value = readStyleProperty(node, property)
+    if (value && value !== 'none' && value !== 'inherit' && value !== 'currentColor' && !value.startsWith('url(')) {
+      return value
+    }
+  }
+  return null
+}
+
+/**
+ * Parse SVG markup and convert its shapes into geometric elements
+ * Throws if the text is not a well-formed SVG document
+ */
+export function importSvg(text: string, source: string = 'SVG file'): SvgImportResult {
+  const document = new DOMParser().parseFromString(text, 'image/svg+xml')
+  const root = document.documentElement
+  if (document.getElementsByTagName('parsererror').length > 0 || root.localName !== 'svg') {
+    throw new Error('File is not a valid SVG document')
+  }
+
+  const importer = new SvgImporter()
+  importer.visit(root, IDENTITY, null, null)
+
+  return {
+    elements: importer.elements,
+    summary: {
+      source,
+      importedCount: importer.elements.length,
+      issues: importer.issues.toArray()
+    }
+  }
+}
@@ -10,6 +10,55 @@
  */
 export const ZERO_TOLERANCE = 1e-9;
 
+/**
+ * Parametric samples per ellipse when searching for ellipse intersections
+ * Enough to separate the up to four crossings of any two ellipses that are not nearly tangent
+ */
+const ELLIPSE_INTERSECTION_SAMPLES = 256;
+
+/**
+ * Largest implicit equation value accepted as a touching point between two ellipses
+ */
+const ELLIPSE_TANGENCY_TOLERANCE = 1e-8;
+
+/**
+ * Largest distance of a cubic Bezier's inner control points from its chord for the
+ * curve to be treated as straight when subdividing it to find intersections
+ */
+const CURVE_FLATNESS_TOLERANCE = 1e-7;
+
+/**
+ * Deepest subdivision when searching for curve intersections; each level halves the
+ * parameter interval, so pieces this small are far below drawing precision
+ */
+const CURVE_MAX_SUBDIVISION_DEPTH = 40;
+
+/**
+ * Parametric samples used to bracket the closest point on a cubic Bezier before refining it
+ */
+const CURVE_CLOSEST_POINT_SAMPLES = 32;
+
+/**
+ * Longest miter join, relative to the offset distance, before it is cut off square (the SVG default)
+ */
+const OFFSET_MITER_LIMIT = 4;
+
+/**
+ * Curve pieces shorter than this are dropped when offsetting or cutting, and ends this close are treated as joined
+ */
+const PIECE_TOLERANCE = 1e-7;
+
+/**
+ * Five-point Gauss-Legendre nodes and weights on [-1, 1], used to integrate curve length
+ */
+const GAUSS_LEGENDRE_NODES = [0, -0.5384693101056831, 0.5384693101056831, -0.906179845938664, 0.906179845938664];
+const GAUSS_LEGENDRE_WEIGHTS = [0.5688888888888889, 0.47862867049936647, 0.47862867049936647, 0.23692688505618908, 0.23692688505618908];
+
+/**
+ * Intervals the parameter range is split into before applying the Gauss-Legendre rule
+ */
+const CURVE_LENGTH_INTERVALS = 16;
+
 /**
  * Represents a 2D point with X and Y coordinates
  * Immutable data structure for representing positions in 2D space
@@ -270,6 +319,207 @@ export class Vector2D {
   static readonly UNIT_Y = new Vector2D(0, 1);
 }
 
+/**
+ * Represents a 2D affine transform
+ * Uses the same [a, b, c, d, e, f] layout as the SVG matrix() function:
+ * x' = a * x + c * y + e, y' = b * x + d * y + f
+ */
+export class Matrix2D {
+  constructor(
+    public readonly a: number,
+    public readonly b: number,
+    public readonly c: number,
+    public readonly d: number,
+    public readonly e: number,
+    public readonly f: number
+  ) {}
+
+  static readonly IDENTITY = new Matrix2D(1, 0, 0, 1, 0, 0);
+
+  /**
+   * Create a transform that moves every point by an offset
+   */
+  static translation(offset: Vector2D): Matrix2D {
+    return new Matrix2D(1, 0, 0, 1, offset.x, offset.y);
+  }
+
+  /**
+   * Create a rotation through increasing angles (clockwise on screen, where Y points down)
+   * @param angle Rotation angle in radians
+   * @param center Fixed point of the rotation
+   */
+  static rotation(angle: number, center: Point2D = Point2D.ORIGIN): Matrix2D {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return Matrix2D.about(cos, sin, -sin, cos, center);
+  }
+
+  /**
+   * Create a scaling along the X and Y axes
+   * @param scaleX Factor along X; negative factors mirror
+   * @param scaleY Factor along Y, defaults to scaleX for uniform scaling
+   * @param center Fixed point of the scaling
+   */
+  static scaling(scaleX: number, scaleY: number = scaleX, center: Point2D = Point2D.ORIGIN): Matrix2D {
+    return Matrix2D.about(scaleX, 0, 0, scaleY, center);
+  }
+
+  /**
+   * Create a skew (shear) like the SVG skewX/skewY functions
+   * @param angleX Angle in radians by which vertical lines lean
+   * @param angleY Angle in radians by which horizontal lines lean
+   * @param center Fixed point of the skew
+   */
+  static skewing(angleX: number, angleY: number = 0, center: Point2D = Point2D.ORIGIN): Matrix2D {
+    return Matrix2D.about(1, Math.tan(angleY), Math.tan(angleX), 1, center);
+  }
+
+  /**
+   * Create a reflection across the infinite line through a segment
+   * @param axis Mirror axis
+   */
+  static reflection(axis: Line2D): Matrix2D {
+    const angle = 2 * GeometryUtils.vectorAngle(axis.direction);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return Matrix2D.about(cos, sin, sin, -cos, axis.start);
+  }
+
+  /**
+   * Build the linear map [a, b, c, d] applied around a fixed point
+   */
+  private static about(a: number, b: number, c: number, d: number, center: Point2D): Matrix2D {
+    return new Matrix2D(a, b, c, d, center.x - a * center.x - c * center.y, center.y - b * center.x - d * center.y);
+  }
+
+  /**
+   * Combine with a transform applied after this one
+   * @param next Transform to apply to the result of this one
+   * @returns Transform equivalent to applying this, then next
+   */
+  then(next: Matrix2D): Matrix2D {
+    return new Matrix2D(
+      next.a * this.a + next.c * this.b,
+      next.b * this.a + next.d * this.b,
+      next.a * this.c + next.c * this.d,
+      next.b * this.c + next.d * this.d,
+      next.a * this.e + next.c * this.f + next.e,
+      next.b * this.e + next.d * this.f + next.f
+    );
+  }
+
+  /**
+   * Get the area scale factor; negative when the transform mirrors
+   */
+  get determinant(): number {
+    return this.a * this.d - this.b * this.c;
+  }
+
+  /**
+   * Check whether the transform collapses the plane onto a line or point
+   */
+  get isSingular(): boolean {
+    const size = this.a * this.a + this.b * this.b + this.c * this.c + this.d * this.d;
+    return Math.abs(this.determinant) <= ZERO_TOLERANCE * size;
+  }
+
+  /**
+   * Check whether the transform mirrors, reversing the direction of turning
+   */
+  get isReflection(): boolean {
+    return this.determinant < 0;
+  }
+
+  /**
+   * Check whether the transform keeps shapes, only moving, rotating, mirroring
+   * and uniformly scaling them, so circles stay circles
+   */
+  get isSimilarity(): boolean {
+    const columnX = this.a * this.a + this.b * this.b;
+    const columnY = this.c * this.c + this.d * this.d;
+    const tolerance = ZERO_TOLERANCE * (columnX + columnY);
+    return !this.isSingular &&
+           Math.abs(this.a * this.c + this.b * this.d) <= tolerance &&
+           Math.abs(columnX - columnY) <= tolerance;
+  }
+
+  /**
+   * Check whether the transform keeps horizontal and vertical lines axis-aligned
+   */
+  get preservesAxes(): boolean {
+    const tolerance = ZERO_TOLERANCE * (Math.abs(this.a) + Math.abs(this.b) + Math.abs(this.c) + Math.abs(this.d));
+    return (Math.abs(this.b) <= tolerance && Math.abs(this.c) <= tolerance) ||
+           (Math.abs(this.a) <= tolerance && Math.abs(this.d) <= tolerance);
+  }
+
+  /**
+   * Get the factor by which lengths change; exact for similarities, the
+   * geometric mean of the axis scales otherwise
+   */
+  get scaleFactor(): number {
+    return Math.sqrt(Math.abs(this.determinant));
+  }
+
+  /**
+   * Get the inverse transform
+   * @returns Inverse, or null if the transform is singular
+   */
+  inverse(): Matrix2D | null {
+    if (this.isSingular) {
+      return null;
+    }
+    const det = this.determinant;
+    const a = this.d / det;
+    const b = -this.b / det;
+    const c = -this.c / det;
+    const d = this.a / det;
+    return new Matrix2D(a, b, c, d, -(a * this.e + c * this.f), -(b * this.e + d * this.f));
+  }
+
+  /**
+   * Apply the transform to a point
+   */
+  transformPoint(point: Point2D): Point2D {
+    return new Point2D(this.a * point.x + this.c * point.y + this.e, this.b * point.x + this.d * point.y + this.f);
+  }
+
+  /**
+   * Apply the linear part of the transform to a vector; translation does not move vectors
+   */
+  transformVector(vector: Vector2D): Vector2D {
+    return new Vector2D(this.a * vector.x + this.c * vector.y, this.b * vector.x + this.d * vector.y);
+  }
+
+  /**
+   * Apply the transform to a direction given as an angle
+   * @param angle Angle in radians
+   * @returns Angle in radians of the transformed direction
+   */
+  transformAngle(angle: number): number {
+    return GeometryUtils.vectorAngle(this.transformVector(new Vector2D(Math.cos(angle), Math.sin(angle))));
+  }
+
+  /**
+   * Check if two transforms are equal within tolerance
+   */
+  equals(other: Matrix2D, tolerance: number = ZERO_TOLERANCE): boolean {
+    return Math.abs(this.a - other.a) < tolerance &&
+           Math.abs(this.b - other.b) < tolerance &&
+           Math.abs(this.c - other.c) < tolerance &&
+           Math.abs(this.d - other.d) < tolerance &&
+           Math.abs(this.e - other.e) < tolerance &&
+           Math.abs(this.f - other.f) < tolerance;
+  }
+
+  /**
+   * Convert matrix to string representation
+   * @returns String representation in SVG matrix() notation
+   */
+  toString(): string {
+    return `Matrix2D(${[this.a, this.b, this.c, this.d, this.e, this.f].map(value => value.toFixed(3)).join(', ')})`;
+  }
+}
+
 /**
  * Represents a 2D line segment with start and end points
  * Immutable data structure for representing finite line segments
@@ -369,6 +619,37 @@ export class Line2D {
     return this.evaluateAt(t);
   }
 
+  /**
+   * Get the parameter of the closest point on this line segment to a given point
+   * @param point Point to project onto the segment
+   * @returns Parameter t in [0, 1]
+   */
+  closestParameterTo(point: Point2D): number {
+    const lengthSquared = this.direction.magnitudeSquared;
+    if (lengthSquared < ZERO_TOLERANCE) return 0;
+    return Math.max(0, Math.min(1, point.subtract(this.start).dot(this.direction) / lengthSquared));
+  }
+
+  /**
+   * Get the part of the line between two parameters
+   * @param t0 Parameter where the part starts
+   * @param t1 Parameter where the part ends
+   * @returns Line from t0 to t1
+   */
+  slice(t0: number, t1: number): Line2D {
+    return new Line2D(this.evaluateAt(t0), this.evaluateAt(t1));
+  }
+
+  /**
+   * Get the parallel line at a signed distance
+   * @param distance Positive distances move toward the left of the direction of travel
+   * @returns Offset line
+   */
+  offset(distance: number): Line2D {
+    const shift = this.unitDirection.perpendicular.scale(distance);
+    return new Line2D(this.start.add(shift), this.end.add(shift));
+  }
+
   /**
    * Convert line to string representation
    * @returns String representation of the line
@@ -440,6 +721,16 @@ export class Circle2D {
     );
   }
 
+  /**
+   * Get the concentric circle at a signed distance
+   * @param distance Positive distances grow the circle, negative ones shrink it
+   * @returns Offset circle, or null if it shrinks to nothing
+   */
+  offset(distance: number): Circle2D | null {
+    const radius = this.radius + distance;
+    return radius > ZERO_TOLERANCE ? new Circle2D(this.center, radius) : null;
+  }
+
   /**
    * Convert circle to string representation
    * @returns String representation of the circle
@@ -450,143 +741,1874 @@ export class Circle2D {
 }
 
 /**
- * Utility functions for geometric calculations
- * Collection of common geometric algorithms and operations
+ * Represents a 2D circular arc
+ * Angles are in radians from the positive X-axis. The arc runs from startAngle to
+ * endAngle through increasing angles, or through decreasing angles when clockwise
+ * is set. World Y points down on screen, so increasing angles turn clockwise there.
  */
-export class GeometryUtils {
+export class Arc2D {
+  constructor(
+    public readonly center: Point2D,
+    public readonly radius: number,
+    public readonly startAngle: number,
+    public readonly endAngle: number,
+    public readonly clockwise: boolean = false
+  ) {
+    if (radius <= 0) {
+      throw new Error(`Arc radius must be positive, got: ${radius}`);
+    }
+    if (this.sweep < ZERO_TOLERANCE) {
+      throw new Error('Arc start and end angles cannot be the same');
+    }
+  }
+
   /**
-   * Calculate the angle of a vector from the positive X-axis
-   * @param vector Vector to calculate angle for
-   * @returns Angle in radians from positive X-axis
+   * Create the arc between two points described by a bulge, as used by polylines
+   * The bulge is tan(θ/4) for the included angle θ; positive bulges run through
+   * increasing angles and negative ones through decreasing angles
+   * @param start Start point
+   * @param end End point
+   * @param bulge Nonzero bulge factor
+   * @returns Arc from start to end
    */
-  static vectorAngle(vector: Vector2D): number {
-    return Math.atan2(vector.y, vector.x);
+  static fromBulge(start: Point2D, end: Point2D, bulge: number): Arc2D {
+    const chord = end.subtract(start);
+    const chordLength = chord.magnitude;
+    if (chordLength < ZERO_TOLERANCE || Math.abs(bulge) < ZERO_TOLERANCE) {
+      throw new Error('A bulged segment needs distinct end points and a nonzero bulge');
+    }
+    const halfAngle = 2 * Math.atan(bulge);
+    const radius = Math.abs(chordLength / (2 * Math.sin(halfAngle)));
+    // Signed distance from the chord midpoint to the center, on the left of the chord for positive bulges
+    const offset = chordLength / (2 * Math.tan(halfAngle));
+    const midpoint = new Line2D(start, end).midpoint;
+    const center = midpoint.add(chord.perpendicular.scale(offset / chordLength));
+    const angleOf = (point: Point2D) => GeometryUtils.vectorAngle(point.subtract(center));
+    return new Arc2D(center, radius, angleOf(start), angleOf(end), bulge < 0);
   }
 
   /**
-   * Convert degrees to radians
-   * @param degrees Angle in degrees
-   * @returns Angle in radians
+   * Get the angle swept by this arc
+   * @returns Sweep in radians, between 0 and 2π
    */
-  static degreesToRadians(degrees: number): number {
-    return degrees * Math.PI / 180;
+  get sweep(): number {
+    const difference = this.clockwise
+      ? this.startAngle - this.endAngle
+      : this.endAngle - this.startAngle;
+    return GeometryUtils.normalizeAngle(difference);
   }
 
   /**
-   * Convert radians to degrees
-   * @param radians Angle in radians
-   * @returns Angle in degrees
+   * Get the length of this arc
+   * @returns Arc length
    */
-  static radiansToDegrees(radians: number): number {
-    return radians * 180 / Math.PI;
+  get length(): number {
+    return this.radius * this.sweep;
   }
 
   /**
-   * Find the intersection point of two infinite lines (if they intersect)
-   * @param line1 First line
-   * @param line2 Second line
-   * @returns Intersection point or null if lines are parallel
+   * Get the first point of the arc
    */
-  static lineIntersection(line1: Line2D, line2: Line2D): Point2D | null {
-    const d1 = line1.direction;
-    const d2 = line2.direction;
-    const denominator = d1.cross(d2);
-    
-    if (Math.abs(denominator) < ZERO_TOLERANCE) {
-      return null; // Lines are parallel
-    }
+  get startPoint(): Point2D {
+    return this.pointAtAngle(this.startAngle);
+  }
 
-    const startDiff = line2.start.subtract(line1.start);
-    const t = startDiff.cross(d2) / denominator;
-    
-    return line1.evaluateAt(t);
+  /**
+   * Get the last point of the arc
+   */
+  get endPoint(): Point2D {
+    return this.pointAtAngle(this.endAngle);
   }
 
   /**
-   * Find the intersection point of two line segments (if they intersect within their bounds)
-   * @param line1 First line segment
-   * @param line2 Second line segment
-   * @returns Intersection point or null if segments don't intersect
+   * Get the point halfway along the arc
    */
-  static lineSegmentIntersection(line1: Line2D, line2: Line2D): Point2D | null {
-    const intersection = GeometryUtils.lineIntersection(line1, line2);
-    if (!intersection) return null;
+  get midpoint(): Point2D {
+    return this.evaluateAt(0.5);
+  }
 
-    // Check if intersection point is within both line segments
-    const t1 = GeometryUtils.getParameterOnLine(line1, intersection);
-    const t2 = GeometryUtils.getParameterOnLine(line2, intersection);
-    
-    if (t1 >= 0 && t1 <= 1 && t2 >= 0 && t2 <= 1) {
-      return intersection;
-    }
-    
-    return null;
+  /**
+   * Get the full circle this arc lies on
+   */
+  get circle(): Circle2D {
+    return new Circle2D(this.center, this.radius);
   }
 
   /**
-   * Find intersection points between a line and a circle
-   * @param line Line to intersect with circle
-   * @param circle Circle to intersect with line
-   * @returns Array of intersection points (0, 1, or 2 points)
+   * Get the angle at a parameter along the arc
+   * @param t Parameter value (0 = start, 1 = end)
+   * @returns Angle in radians, not normalized
    */
-  static lineCircleIntersection(line: Line2D, circle: Circle2D): Point2D[] {
-    const intersections: Point2D[] = [];
-    
-    // Vector from line start to circle center
-    const startToCenter = circle.center.subtract(line.start);
-    const lineDirection = line.direction;
-    const lineLength = lineDirection.magnitude;
-    const unitDirection = lineDirection.unitized;
-    
-    // Project circle center onto the line
-    const projectionLength = startToCenter.dot(unitDirection.toVector());
-    const projectionPoint = line.start.add(unitDirection.scale(projectionLength));
-    
-    // Distance from circle center to the line
-    const distanceToLine = circle.center.distanceTo(projectionPoint);
-    
-    // No intersection if circle is too far from line
-    if (distanceToLine > circle.radius + ZERO_TOLERANCE) {
-      return intersections;
-    }
-    
-    // Tangent case (one intersection)
-    if (Math.abs(distanceToLine - circle.radius) < ZERO_TOLERANCE) {
-      // Check if intersection is within line segment bounds
-      const t = projectionLength / lineLength;
-      if (t >= 0 && t <= 1) {
-        intersections.push(projectionPoint);
-      }
-      return intersections;
-    }
-    
-    // Two intersections case
-    const halfChordLength = Math.sqrt(circle.radius * circle.radius - distanceToLine * distanceToLine);
-    
-    const intersection1 = projectionPoint.add(unitDirection.scale(-halfChordLength));
-    const intersection2 = projectionPoint.add(unitDirection.scale(halfChordLength));
-    
-    // Check if intersections are within line segment bounds
-    const t1 = (projectionLength - halfChordLength) / lineLength;
-    const t2 = (projectionLength + halfChordLength) / lineLength;
-    
-    if (t1 >= 0 && t1 <= 1) {
-      intersections.push(intersection1);
-    }
-    if (t2 >= 0 && t2 <= 1) {
-      intersections.push(intersection2);
-    }
-    
-    return intersections;
+  angleAt(t: number): number {
+    return this.startAngle + (this.clockwise ? -1 : 1) * this.sweep * t;
   }
 
   /**
-   * Find intersection points between two circles
-   * @param circle1 First circle
-   * @param circle2 Second circle
-   * @returns Array of intersection points (0, 1, or 2 points)
+   * Evaluate a point along the arc using a parameter t
+   * @param t Parameter value (0 = start, 1 = end)
+   * @returns Point at parameter t along the arc
    */
-  static circleCircleIntersection(circle1: Circle2D, circle2: Circle2D): Point2D[] {
+  evaluateAt(t: number): Point2D {
+    return this.pointAtAngle(this.angleAt(t));
+  }
+
+  /**
+   * Get the unit direction of travel along the arc at a parameter
+   * @param t Parameter value (0 = start, 1 = end)
+   * @returns Unit tangent vector
+   */
+  tangentAt(t: number): Vector2D {
+    const angle = this.angleAt(t);
+    const direction = this.clockwise ? -1 : 1;
+    return new Vector2D(-Math.sin(angle) * direction, Math.cos(angle) * direction);
+  }
+
+  /**
+   * Get the bulge factor describing this arc, as used by polylines
+   * @returns tan(sweep / 4), negative for arcs through decreasing angles
+   */
+  get bulge(): number {
+    return Math.tan(this.sweep / 4) * (this.clockwise ? -1 : 1);
+  }
+
+  /**
+   * Get the point on the arc's circle at a given angle
+   * @param angleRadians Angle in radians from positive X-axis
+   * @returns Point on the circle at the specified angle
+   */
+  pointAtAngle(angleRadians: number): Point2D {
+    return new Point2D(
+      this.center.x + this.radius * Math.cos(angleRadians),
+      this.center.y + this.radius * Math.sin(angleRadians)
+    );
+  }
+
+  /**
+   * Get the parameter of the point on the arc's circle closest to a given point
+   * @param point Point to project onto the circle
+   * @returns Parameter t, in [0, 1] when the projection lies on the arc and above 1 otherwise
+   */
+  parameterOf(point: Point2D): number {
+    const angle = GeometryUtils.vectorAngle(point.subtract(this.center));
+    const difference = this.clockwise ? this.startAngle - angle : angle - this.startAngle;
+    return GeometryUtils.normalizeAngle(difference) / this.sweep;
+  }
+
+  /**
+   * Get the parameter of the point on the arc closest to a given point
+   * @param point Point to project onto the arc
+   * @returns Parameter t in [0, 1]; the nearer end when the projection falls outside the arc
+   */
+  closestParameterTo(point: Point2D): number {
+    const t = this.parameterOf(point);
+    if (t <= 1) return t;
+    return point.distanceTo(this.startPoint) <= point.distanceTo(this.endPoint) ? 0 : 1;
+  }
+
+  /**
+   * Get the part of the arc between two parameters
+   * @param t0 Parameter where the part starts
+   * @param t1 Parameter where the part ends, above t0
+   * @returns Arc from t0 to t1 in the same direction
+   */
+  slice(t0: number, t1: number): Arc2D {
+    return new Arc2D(this.center, this.radius, this.angleAt(t0), this.angleAt(t1), this.clockwise);
+  }
+
+  /**
+   * Check if an angle falls within the arc's sweep
+   * @param angleRadians Angle in radians from positive X-axis
+   * @param tolerance Angular tolerance in radians
+   * @returns True if the angle is within the sweep
+   */
+  containsAngle(angleRadians: number, tolerance: number = ZERO_TOLERANCE): boolean {
+    const difference = this.clockwise
+      ? this.startAngle - angleRadians
+      : angleRadians - this.startAngle;
+    const offset = GeometryUtils.normalizeAngle(difference);
+    return offset <= this.sweep + tolerance || offset >= 2 * Math.PI - tolerance;
+  }
+
+  /**
+   * Check if a point lies on this arc
+   * @param point Point to check
+   * @param tolerance Distance tolerance for comparison
+   * @returns True if point is on the arc
+   */
+  containsPoint(point: Point2D, tolerance: number = ZERO_TOLERANCE): boolean {
+    const distance = this.center.distanceTo(point);
+    if (Math.abs(distance - this.radius) > tolerance) return false;
+    if (distance < ZERO_TOLERANCE) return false;
+    return this.containsAngle(
+      GeometryUtils.vectorAngle(point.subtract(this.center)),
+      tolerance / this.radius
+    );
+  }
+
+  /**
+   * Calculate the shortest distance from a point to this arc
+   * @param point Point to measure distance from
+   * @returns Shortest distance to the arc
+   */
+  distanceToPoint(point: Point2D): number {
+    const distanceToCenter = this.center.distanceTo(point);
+    if (distanceToCenter > ZERO_TOLERANCE &&
+        this.containsAngle(GeometryUtils.vectorAngle(point.subtract(this.center)))) {
+      return Math.abs(distanceToCenter - this.radius);
+    }
+    return Math.min(point.distanceTo(this.startPoint), point.distanceTo(this.endPoint));
+  }
+
+  /**
+   * Get the bounding box of this arc
+   * Includes the end points and every axis extreme the arc passes through
+   */
+  getBounds(): { min: Point2D; max: Point2D } {
+    const points = [this.startPoint, this.endPoint];
+    for (let quadrant = 0; quadrant < 4; quadrant++) {
+      const angle = quadrant * Math.PI / 2;
+      if (this.containsAngle(angle)) {
+        points.push(this.pointAtAngle(angle));
+      }
+    }
+
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    return {
+      min: new Point2D(Math.min(...xs), Math.min(...ys)),
+      max: new Point2D(Math.max(...xs), Math.max(...ys))
+    };
+  }
+
+  /**
+   * Get the same arc traversed in the opposite direction
+   */
+  reversed(): Arc2D {
+    return new Arc2D(this.center, this.radius, this.endAngle, this.startAngle, !this.clockwise);
+  }
+
+  /**
+   * Get the concentric arc over the same angles at a signed distance
+   * @param distance Positive distances move away from the center, negative ones toward it
+   * @returns Offset arc, or null if it shrinks to nothing
+   */
+  offset(distance: number): Arc2D | null {
+    const radius = this.radius + distance;
+    return radius > ZERO_TOLERANCE
+      ? new Arc2D(this.center, radius, this.startAngle, this.endAngle, this.clockwise)
+      : null;
+  }
+
+  /**
+   * Convert arc to string representation
+   * @returns String representation of the arc
+   */
+  toString(): string {
+    const start = GeometryUtils.radiansToDegrees(this.startAngle).toFixed(1);
+    const end = GeometryUtils.radiansToDegrees(this.endAngle).toFixed(1);
+    return `Arc2D(center: ${this.center.toString()}, radius: ${this.radius.toFixed(3)}, ${start}° -> ${end}°${this.clockwise ? ' cw' : ''})`;
+  }
+}
+
+/**
+ * Represents a 2D ellipse with center, semi-axes and rotation
+ * radiusX lies along the rotated X-axis and radiusY along the rotated Y-axis;
+ * rotation is in radians from the positive X-axis. Points on the ellipse are
+ * addressed by their parametric (eccentric) angle.
+ */
+export class Ellipse2D {
+  constructor(
+    public readonly center: Point2D,
+    public readonly radiusX: number,
+    public readonly radiusY: number,
+    public readonly rotation: number = 0
+  ) {
+    if (radiusX <= 0 || radiusY <= 0) {
+      throw new Error(`Ellipse radii must be positive, got: ${radiusX}, ${radiusY}`);
+    }
+  }
+
+  /**
+   * Create the ellipse traced by center + u·cos(t) + v·sin(t)
+   * Any affine image of an ellipse can be written this way, so this recovers the
+   * axes of a transformed ellipse from the images of its own axes
+   * @param center Ellipse center
+   * @param u First conjugate semi-diameter
+   * @param v Second conjugate semi-diameter
+   * @returns Ellipse, or null if the semi-diameters are parallel
+   */
+  static fromConjugateDiameters(center: Point2D, u: Vector2D, v: Vector2D): Ellipse2D | null {
+    if (Math.abs(u.cross(v)) < ZERO_TOLERANCE) {
+      return null;
+    }
+    // Parameter at which the radius vector is extremal
+    const t = Math.atan2(2 * u.dot(v), u.magnitudeSquared - v.magnitudeSquared) / 2;
+    const axisX = u.scale(Math.cos(t)).add(v.scale(Math.sin(t)));
+    const axisY = v.scale(Math.cos(t)).subtract(u.scale(Math.sin(t)));
+    return new Ellipse2D(center, axisX.magnitude, axisY.magnitude, GeometryUtils.vectorAngle(axisX));
+  }
+
+  /**
+   * Get the larger of the two semi-axes
+   */
+  get semiMajorAxis(): number {
+    return Math.max(this.radiusX, this.radiusY);
+  }
+
+  /**
+   * Get the smaller of the two semi-axes
+   */
+  get semiMinorAxis(): number {
+    return Math.min(this.radiusX, this.radiusY);
+  }
+
+  /**
+   * Get the area of this ellipse
+   * @returns Area of the ellipse
+   */
+  get area(): number {
+    return Math.PI * this.radiusX * this.radiusY;
+  }
+
+  /**
+   * Get the perimeter of this ellipse
+   * Uses Ramanujan's second approximation, exact for circles and within
+   * a few parts per million even for very flat ellipses
+   * @returns Approximate perimeter of the ellipse
+   */
+  get perimeter(): number {
+    const a = this.radiusX;
+    const b = this.radiusY;
+    const h = ((a - b) * (a - b)) / ((a + b) * (a + b));
+    return Math.PI * (a + b) * (1 + (3 * h) / (10 + Math.sqrt(4 - 3 * h)));
+  }
+
+  /**
+   * Get the eccentricity of this ellipse
+   * @returns 0 for a circle, approaching 1 as the ellipse flattens
+   */
+  get eccentricity(): number {
+    const ratio = this.semiMinorAxis / this.semiMajorAxis;
+    return Math.sqrt(1 - ratio * ratio);
+  }
+
+  /**
+   * Get the two foci of this ellipse, which lie on the major axis
+   * @returns Both foci; they coincide with the center for a circle
+   */
+  get foci(): [Point2D, Point2D] {
+    const focalDistance = Math.sqrt(Math.abs(this.radiusX * this.radiusX - this.radiusY * this.radiusY));
+    const majorAngle = this.radiusX >= this.radiusY ? this.rotation : this.rotation + Math.PI / 2;
+    const offset = new Vector2D(Math.cos(majorAngle), Math.sin(majorAngle)).scale(focalDistance);
+    return [this.center.add(offset.scale(-1)), this.center.add(offset)];
+  }
+
+  /**
+   * Get a point on the ellipse at a given parametric angle
+   * @param angleRadians Parametric angle in radians, measured in the ellipse's own axes
+   * @returns Point on the ellipse
+   */
+  pointAt(angleRadians: number): Point2D {
+    return this.fromLocal(this.radiusX * Math.cos(angleRadians), this.radiusY * Math.sin(angleRadians));
+  }
+
+  /**
+   * Get the parametric angle of a point, as seen from the center in the ellipse's own axes
+   * @param point Point on or near the ellipse
+   * @returns Parametric angle in radians; pointAt of it is the point for points on the ellipse
+   */
+  parametricAngleOf(point: Point2D): number {
+    const local = this.toLocal(point);
+    return GeometryUtils.vectorAngle(new Vector2D(local.x / this.radiusX, local.y / this.radiusY));
+  }
+
+  /**
+   * Express a point in the ellipse's own frame (origin at the center, X along radiusX)
+   * @param point Point in world coordinates
+   * @returns Offset of the point in the ellipse frame
+   */
+  toLocal(point: Point2D): Vector2D {
+    return point.subtract(this.center).rotate(-this.rotation);
+  }
+
+  /**
+   * Convert ellipse frame coordinates back to world coordinates
+   */
+  private fromLocal(x: number, y: number): Point2D {
+    return this.center.add(new Vector2D(x, y).rotate(this.rotation));
+  }
+
+  /**
+   * Evaluate the ellipse's implicit equation (x/a)² + (y/b)² - 1 at a point
+   * @param point Point to evaluate
+   * @returns Negative inside, zero on and positive outside the ellipse
+   */
+  implicitValue(point: Point2D): number {
+    const local = this.toLocal(point);
+    const x = local.x / this.radiusX;
+    const y = local.y / this.radiusY;
+    return x * x + y * y - 1;
+  }
+
+  /**
+   * Check if a point is inside this ellipse
+   * @param point Point to check
+   * @returns True if point is inside the ellipse
+   */
+  contains(point: Point2D): boolean {
+    return this.implicitValue(point) <= 0;
+  }
+
+  /**
+   * Get the closest point on the ellipse to a given point
+   * Iterates on the first quadrant using the local circle of curvature, which
+   * converges to machine precision in a handful of steps from any start point
+   * @param point Point to find closest point to
+   * @returns Closest point on the ellipse
+   */
+  closestPointTo(point: Point2D): Point2D {
+    const local = this.toLocal(point);
+    const a = this.radiusX;
+    const b = this.radiusY;
+    const px = Math.abs(local.x);
+    const py = Math.abs(local.y);
+
+    let tx = Math.SQRT1_2;
+    let ty = Math.SQRT1_2;
+    for (let iteration = 0; iteration < 6; iteration++) {
+      const x = a * tx;
+      const y = b * ty;
+      // Center of curvature of the ellipse at (x, y)
+      const ex = ((a * a - b * b) * tx * tx * tx) / a;
+      const ey = ((b * b - a * a) * ty * ty * ty) / b;
+      const curvatureRadius = Math.hypot(x - ex, y - ey);
+      const distance = Math.hypot(px - ex, py - ey);
+      if (distance < ZERO_TOLERANCE) break;
+
+      tx = Math.min(1, Math.max(0, ((px - ex) * curvatureRadius / distance + ex) / a));
+      ty = Math.min(1, Math.max(0, ((py - ey) * curvatureRadius / distance + ey) / b));
+      const length = Math.hypot(tx, ty);
+      tx /= length;
+      ty /= length;
+    }
+
+    return this.fromLocal(Math.sign(local.x || 1) * a * tx, Math.sign(local.y || 1) * b * ty);
+  }
+
+  /**
+   * Calculate the shortest distance from a point to this ellipse's outline
+   * @param point Point to measure distance from
+   * @returns Shortest distance to the ellipse
+   */
+  distanceToPoint(point: Point2D): number {
+    return point.distanceTo(this.closestPointTo(point));
+  }
+
+  /**
+   * Check if a point is on the outline of this ellipse
+   * @param point Point to check
+   * @param tolerance Tolerance for comparison
+   * @returns True if point is on the ellipse
+   */
+  isOnBoundary(point: Point2D, tolerance: number = ZERO_TOLERANCE): boolean {
+    return this.distanceToPoint(point) < tolerance;
+  }
+
+  /**
+   * Get the bounding box of this ellipse
+   */
+  getBounds(): { min: Point2D; max: Point2D } {
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+    const halfWidth = Math.hypot(this.radiusX * cos, this.radiusY * sin);
+    const halfHeight = Math.hypot(this.radiusX * sin, this.radiusY * cos);
+    return {
+      min: new Point2D(this.center.x - halfWidth, this.center.y - halfHeight),
+      max: new Point2D(this.center.x + halfWidth, this.center.y + halfHeight)
+    };
+  }
+
+  /**
+   * Convert ellipse to string representation
+   * @returns String representation of the ellipse
+   */
+  toString(): string {
+    const rotation = GeometryUtils.radiansToDegrees(this.rotation).toFixed(1);
+    return `Ellipse2D(center: ${this.center.toString()}, radii: ${this.radiusX.toFixed(3)} x ${this.radiusY.toFixed(3)}, rotation: ${rotation}°)`;
+  }
+}
+
+/**
+ * Represents a part of an ellipse
+ * Addressed by parametric angles like Ellipse2D.pointAt. The arc runs from startAngle
+ * to endAngle through increasing angles, or through decreasing angles when clockwise
+ * is set, the same convention as Arc2D.
+ */
+export class EllipticalArc2D {
+  constructor(
+    public readonly center: Point2D,
+    public readonly radiusX: number,
+    public readonly radiusY: number,
+    public readonly rotation: number,
+    public readonly startAngle: number,
+    public readonly endAngle: number,
+    public readonly clockwise: boolean = false
+  ) {
+    if (radiusX <= 0 || radiusY <= 0) {
+      throw new Error(`Elliptical arc radii must be positive, got: ${radiusX}, ${radiusY}`);
+    }
+    if (this.sweep < ZERO_TOLERANCE) {
+      throw new Error('Elliptical arc start and end angles cannot be the same');
+    }
+  }
+
+  /**
+   * Create the part of an ellipse between two parametric angles
+   * @param ellipse Ellipse the arc lies on
+   * @param startAngle Parametric angle where the arc starts
+   * @param endAngle Parametric angle where the arc ends
+   * @param clockwise Run through decreasing angles
+   */
+  static fromEllipse(ellipse: Ellipse2D, startAngle: number, endAngle: number, clockwise: boolean = false): EllipticalArc2D {
+    return new EllipticalArc2D(ellipse.center, ellipse.radiusX, ellipse.radiusY, ellipse.rotation, startAngle, endAngle, clockwise);
+  }
+
+  /**
+   * Get the full ellipse this arc lies on
+   */
+  get ellipse(): Ellipse2D {
+    return new Ellipse2D(this.center, this.radiusX, this.radiusY, this.rotation);
+  }
+
+  /**
+   * Get the parametric angle swept by this arc
+   * @returns Sweep in radians, between 0 and 2π
+   */
+  get sweep(): number {
+    const difference = this.clockwise
+      ? this.startAngle - this.endAngle
+      : this.endAngle - this.startAngle;
+    return GeometryUtils.normalizeAngle(difference);
+  }
+
+  /**
+   * Get the length of this arc
+   * Integrated numerically with Simpson's rule over the parametric angle
+   * @returns Arc length
+   */
+  get length(): number {
+    const intervals = 64;
+    const step = this.sweep / intervals;
+    const speed = (angle: number) => Math.hypot(this.radiusX * Math.sin(angle), this.radiusY * Math.cos(angle));
+    let total = 0;
+    for (let i = 0; i <= intervals; i++) {
+      const weight = i === 0 || i === intervals ? 1 : i % 2 === 1 ? 4 : 2;
+      total += weight * speed(this.startAngle + i * step);
+    }
+    return total * step / 3;
+  }
+
+  /**
+   * Get the first point of the arc
+   */
+  get startPoint(): Point2D {
+    return this.pointAtAngle(this.startAngle);
+  }
+
+  /**
+   * Get the last point of the arc
+   */
+  get endPoint(): Point2D {
+    return this.pointAtAngle(this.endAngle);
+  }
+
+  /**
+   * Get the point halfway along the arc's parametric angle
+   */
+  get midpoint(): Point2D {
+    return this.evaluateAt(0.5);
+  }
+
+  /**
+   * Get the parametric angle at a parameter along the arc
+   * @param t Parameter value (0 = start, 1 = end)
+   * @returns Angle in radians, not normalized
+   */
+  angleAt(t: number): number {
+    return this.startAngle + (this.clockwise ? -1 : 1) * this.sweep * t;
+  }
+
+  /**
+   * Evaluate a point along the arc using a parameter t
+   * @param t Parameter value (0 = start, 1 = end), linear in the parametric angle
+   * @returns Point at parameter t along the arc
+   */
+  evaluateAt(t: number): Point2D {
+    return this.pointAtAngle(this.angleAt(t));
+  }
+
+  /**
+   * Get the unit direction of travel along the arc at a parameter
+   * @param t Parameter value (0 = start, 1 = end)
+   * @returns Unit tangent vector
+   */
+  tangentAt(t: number): Vector2D {
+    const angle = this.angleAt(t);
+    const direction = this.clockwise ? -1 : 1;
+    return new Vector2D(-this.radiusX * Math.sin(angle) * direction, this.radiusY * Math.cos(angle) * direction)
+      .rotate(this.rotation)
+      .unitVector;
+  }
+
+  /**
+   * Get the point on the arc's ellipse at a given parametric angle
+   * @param angleRadians Parametric angle in radians
+   * @returns Point on the ellipse
+   */
+  pointAtAngle(angleRadians: number): Point2D {
+    return this.ellipse.pointAt(angleRadians);
+  }
+
+  /**
+   * Get the parameter of the point on the arc's ellipse closest to a given point
+   * @param point Point to project onto the ellipse
+   * @returns Parameter t, in [0, 1] when the projection lies on the arc and above 1 otherwise
+   */
+  parameterOf(point: Point2D): number {
+    const { ellipse } = this;
+    const angle = ellipse.parametricAngleOf(ellipse.closestPointTo(point));
+    const difference = this.clockwise ? this.startAngle - angle : angle - this.startAngle;
+    return GeometryUtils.normalizeAngle(difference) / this.sweep;
+  }
+
+  /**
+   * Get the parameter of the point on the arc closest to a given point
+   * @param point Point to project onto the arc
+   * @returns Parameter t in [0, 1]; the nearer end when the projection falls outside the arc
+   */
+  closestParameterTo(point: Point2D): number {
+    const t = this.parameterOf(point);
+    if (t <= 1) return t;
+    return point.distanceTo(this.startPoint) <= point.distanceTo(this.endPoint) ? 0 : 1;
+  }
+
+  /**
+   * Get the part of the arc between two parameters
+   * @param t0 Parameter where the part starts
+   * @param t1 Parameter where the part ends, above t0
+   * @returns Elliptical arc from t0 to t1 in the same direction
+   */
+  slice(t0: number, t1: number): EllipticalArc2D {
+    return new EllipticalArc2D(
+      this.center, this.radiusX, this.radiusY, this.rotation,
+      this.angleAt(t0), this.angleAt(t1), this.clockwise
+    );
+  }
+
+  /**
+   * Check if a parametric angle falls within the arc's sweep
+   * @param angleRadians Parametric angle in radians
+   * @param tolerance Angular tolerance in radians
+   * @returns True if the angle is within the sweep
+   */
+  containsAngle(angleRadians: number, tolerance: number = ZERO_TOLERANCE): boolean {
+    const difference = this.clockwise
+      ? this.startAngle - angleRadians
+      : angleRadians - this.startAngle;
+    const offset = GeometryUtils.normalizeAngle(difference);
+    return offset <= this.sweep + tolerance || offset >= 2 * Math.PI - tolerance;
+  }
+
+  /**
+   * Check if a point lies on this arc
+   * @param point Point to check
+   * @param tolerance Distance tolerance for comparison
+   * @returns True if point is on the arc
+   */
+  containsPoint(point: Point2D, tolerance: number = ZERO_TOLERANCE): boolean {
+    const { ellipse } = this;
+    if (ellipse.distanceToPoint(point) > tolerance) return false;
+    return this.containsAngle(ellipse.parametricAngleOf(point), tolerance / ellipse.semiMinorAxis);
+  }
+
+  /**
+   * Calculate the shortest distance from a point to this arc
+   * @param point Point to measure distance from
+   * @returns Shortest distance to the arc
+   */
+  distanceToPoint(point: Point2D): number {
+    const { ellipse } = this;
+    const closest = ellipse.closestPointTo(point);
+    if (this.containsAngle(ellipse.parametricAngleOf(closest))) {
+      return point.distanceTo(closest);
+    }
+    return Math.min(point.distanceTo(this.startPoint), point.distanceTo(this.endPoint));
+  }
+
+  /**
+   * Get the bounding box of this arc
+   * Includes the end points and every axis extreme the arc passes through
+   */
+  getBounds(): { min: Point2D; max: Point2D } {
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+    // Parametric angles where x and y are extremal
+    const extremeX = Math.atan2(-this.radiusY * sin, this.radiusX * cos);
+    const extremeY = Math.atan2(this.radiusY * cos, this.radiusX * sin);
+    const points = [this.startPoint, this.endPoint];
+    for (const angle of [extremeX, extremeX + Math.PI, extremeY, extremeY + Math.PI]) {
+      if (this.containsAngle(angle)) {
+        points.push(this.pointAtAngle(angle));
+      }
+    }
+
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    return {
+      min: new Point2D(Math.min(...xs), Math.min(...ys)),
+      max: new Point2D(Math.max(...xs), Math.max(...ys))
+    };
+  }
+
+  /**
+   * Get the same arc traversed in the opposite direction
+   */
+  reversed(): EllipticalArc2D {
+    return new EllipticalArc2D(
+      this.center, this.radiusX, this.radiusY, this.rotation,
+      this.endAngle, this.startAngle, !this.clockwise
+    );
+  }
+
+  /**
+   * Convert elliptical arc to string representation
+   * @returns String representation of the elliptical arc
+   */
+  toString(): string {
+    const start = GeometryUtils.radiansToDegrees(this.startAngle).toFixed(1);
+    const end = GeometryUtils.radiansToDegrees(this.endAngle).toFixed(1);
+    const rotation = GeometryUtils.radiansToDegrees(this.rotation).toFixed(1);
+    return `EllipticalArc2D(center: ${this.center.toString()}, radii: ${this.radiusX.toFixed(3)} x ${this.radiusY.toFixed(3)}, rotation: ${rotation}°, ${start}° -> ${end}°${this.clockwise ? ' cw' : ''})`;
+  }
+}
+
+/**
+ * A segment of a polyline: straight or circular
+ */
+export type PolylineSegment = Line2D | Arc2D;
+
+/**
+ * How offset curves are joined around the outside of a corner
+ * - 'miter': extend both sides until they meet, cut off square when the point gets too long
+ * - 'round': an arc around the corner at the offset distance
+ */
+export type OffsetJoin = 'miter' | 'round';
+
+/**
+ * Curve a fillet can round off: lines are trimmed or extended to the fillet, circles are kept whole
+ */
+export type FilletCurve = Line2D | Circle2D;
+
+/**
+ * Size of a chamfer: the distances from the corner along the first and second line,
+ * or the distance along the first line and the angle in radians between it and the bevel
+ */
+export type ChamferSize = { distance1: number; distance2: number } | { distance: number; angle: number };
+
+/**
+ * Represents a 2D polyline made of straight and circular arc segments
+ * Each vertex carries the bulge of the segment that starts at it (0 for a straight
+ * segment, see Arc2D.fromBulge), the same representation DXF uses. The bulge of the
+ * last vertex is only used when the polyline is closed.
+ */
+export class Polyline2D {
+  public readonly bulges: readonly number[];
+
+  constructor(
+    public readonly vertices: readonly Point2D[],
+    bulges: readonly number[] = [],
+    public readonly closed: boolean = false
+  ) {
+    if (vertices.length < 2) {
+      throw new Error(`Polyline needs at least 2 vertices, got: ${vertices.length}`);
+    }
+    this.bulges = vertices.map((_, index) => bulges[index] ?? 0);
+    if (this.bulges.some(bulge => !Number.isFinite(bulge))) {
+      throw new Error('Polyline bulges must be finite');
+    }
+    for (let i = 0; i < this.segmentCount; i++) {
+      if (vertices[i].equals(vertices[(i + 1) % vertices.length])) {
+        throw new Error(`Polyline segment ${i} has zero length`);
+      }
+    }
+  }
+
+  /**
+   * Get the number of segments (one more than the open count when closed)
+   */
+  get segmentCount(): number {
+    return this.closed ? this.vertices.length : this.vertices.length - 1;
+  }
+
+  /**
+   * Get a single segment
+   * @param index Segment index; segment i starts at vertex i
+   * @returns Line or arc for the segment
+   */
+  segmentAt(index: number): PolylineSegment {
+    const start = this.vertices[index];
+    const end = this.vertices[(index + 1) % this.vertices.length];
+    const bulge = this.bulges[index];
+    return Math.abs(bulge) < ZERO_TOLERANCE ? new Line2D(start, end) : Arc2D.fromBulge(start, end, bulge);
+  }
+
+  /**
+   * Get all segments in order
+   */
+  get segments(): PolylineSegment[] {
+    return Array.from({ length: this.segmentCount }, (_, index) => this.segmentAt(index));
+  }
+
+  /**
+   * Get the total length of all segments
+   */
+  get length(): number {
+    return this.segments.reduce((total, segment) => total + segment.length, 0);
+  }
+
+  /**
+   * Get the first vertex
+   */
+  get startPoint(): Point2D {
+    return this.vertices[0];
+  }
+
+  /**
+   * Get the last point of the outline (the first vertex again when closed)
+   */
+  get endPoint(): Point2D {
+    return this.closed ? this.vertices[0] : this.vertices[this.vertices.length - 1];
+  }
+
+  /**
+   * Calculate the shortest distance from a point to any segment
+   * @param point Point to measure distance from
+   * @returns Shortest distance to the polyline
+   */
+  distanceToPoint(point: Point2D): number {
+    return Math.min(...this.segments.map(segment => segment.distanceToPoint(point)));
+  }
+
+  /**
+   * Get the position of the closest point on the polyline to a given point
+   * @param point Point to project onto the polyline
+   * @returns Segment index plus the parameter within that segment, from 0 to segmentCount
+   */
+  closestParameterTo(point: Point2D): number {
+    let closest = { distance: Infinity, position: 0 };
+    this.segments.forEach((segment, index) => {
+      const t = segment.closestParameterTo(point);
+      const distance = segment.evaluateAt(t).distanceTo(point);
+      if (distance < closest.distance) {
+        closest = { distance, position: index + t };
+      }
+    });
+    return closest.position;
+  }
+
+  /**
+   * Get the position reached after running a given length along the polyline
+   * @param length Distance along the polyline from its first vertex, clamped to its length
+   * @returns Segment index plus the parameter within that segment, as used by evaluateAt and slice
+   */
+  positionAtLength(length: number): number {
+    const segments = this.segments;
+    let remaining = Math.max(0, length);
+    for (let index = 0; index < segments.length; index++) {
+      const segmentLength = segments[index].length;
+      if (remaining <= segmentLength) {
+        return index + remaining / segmentLength;
+      }
+      remaining -= segmentLength;
+    }
+    return segments.length;
+  }
+
+  /**
+   * Get the point at a position along the polyline
+   * @param position Segment index plus the parameter within that segment
+   * @returns Point on the polyline
+   */
+  evaluateAt(position: number): Point2D {
+    const index = Math.max(0, Math.min(Math.floor(position), this.segmentCount - 1));
+    return this.segmentAt(index).evaluateAt(position - index);
+  }
+
+  /**
+   * Get the unit direction of travel at a position along the polyline
+   * @param position Segment index plus the parameter within that segment
+   * @returns Unit tangent vector
+   */
+  tangentAt(position: number): Vector2D {
+    const index = Math.max(0, Math.min(Math.floor(position), this.segmentCount - 1));
+    const segment = this.segmentAt(index);
+    return segment instanceof Arc2D ? segment.tangentAt(position - index) : segment.unitDirection;
+  }
+
+  /**
+   * Get the part of the polyline between two positions, as returned by closestParameterTo
+   * On a closed polyline `to` may come before `from` to run on past the first vertex.
+   * @param from Position where the part starts
+   * @param to Position where the part ends
+   * @returns Open polyline, or null if the part has no length
+   */
+  slice(from: number, to: number): Polyline2D | null {
+    const count = this.segmentCount;
+    const end = this.closed && to < from ? to + count : to;
+    const pieces: PolylineSegment[] = [];
+    for (let index = Math.floor(from); index < end; index++) {
+      const segment = this.segmentAt(index % count);
+      const t0 = Math.max(from - index, 0);
+      const t1 = Math.min(end - index, 1);
+      // Arcs also need a sweep the Arc2D constructor accepts
+      const tooShort = (t1 - t0) * segment.length < PIECE_TOLERANCE ||
+        (segment instanceof Arc2D && (t1 - t0) * segment.sweep < ZERO_TOLERANCE * 10);
+      if (!tooShort) pieces.push(segment.slice(t0, t1));
+    }
+    if (pieces.length === 0) return null;
+
+    const last = pieces[pieces.length - 1];
+    const vertices = pieces.map(piece => piece instanceof Arc2D ? piece.startPoint : piece.start);
+    vertices.push(last instanceof Arc2D ? last.endPoint : last.end);
+    return new Polyline2D(vertices, pieces.map(piece => piece instanceof Arc2D ? piece.bulge : 0));
+  }
+
+  /**
+   * Get the bounding box of all segments
+   */
+  getBounds(): { min: Point2D; max: Point2D } {
+    const corners = this.segments.flatMap(segment => {
+      if (segment instanceof Arc2D) {
+        const bounds = segment.getBounds();
+        return [bounds.min, bounds.max];
+      }
+      return [segment.start, segment.end];
+    });
+    const xs = corners.map(point => point.x);
+    const ys = corners.map(point => point.y);
+    return {
+      min: new Point2D(Math.min(...xs), Math.min(...ys)),
+      max: new Point2D(Math.max(...xs), Math.max(...ys))
+    };
+  }
+
+  /**
+   * Get the same polyline running the other way; a closed polyline still starts at its first vertex
+   * @returns New polyline
+   */
+  reversed(): Polyline2D {
+    const count = this.vertices.length;
+    if (this.closed) {
+      const vertices = [this.vertices[0], ...this.vertices.slice(1).reverse()];
+      return new Polyline2D(vertices, this.bulges.map((_, index) => -this.bulges[count - 1 - index]), true);
+    }
+    return new Polyline2D([...this.vertices].reverse(), this.bulges.slice(0, count - 1).reverse().map(bulge => -bulge));
+  }
+
+  /**
+   * Get a copy with one vertex moved; bulges are kept
+   * @param index Vertex index
+   * @param point New vertex position
+   * @returns New polyline
+   */
+  withVertex(index: number, point: Point2D): Polyline2D {
+    const vertices = this.vertices.map((vertex, i) => i === index ? point : vertex);
+    return new Polyline2D(vertices, this.bulges, this.closed);
+  }
+
+  /**
+   * Get a copy with every vertex moved by an offset
+   * @param offset Translation to apply
+   * @returns New polyline
+   */
+  translate(offset: Vector2D): Polyline2D {
+    return new Polyline2D(this.vertices.map(vertex => vertex.add(offset)), this.bulges, this.closed);
+  }
+
+  /**
+   * Get the curves parallel to this polyline at a signed distance
+   * Where the offset curve would cross itself, the parts that come closer to this
+   * polyline than the distance are removed.
+   * @param distance Positive distances move toward the left of the direction of travel
+   * @param join How corners on the outside of a turn are joined
+   * @returns Offset polylines; a closed polyline may split into several outlines or vanish
+   */
+  offset(distance: number, join: OffsetJoin = 'miter'): Polyline2D[] {
+    return GeometryUtils.offsetPath(this.segments, this.closed, distance, join);
+  }
+
+  /**
+   * Convert polyline to string representation
+   * @returns String representation of the polyline
+   */
+  toString(): string {
+    const arcs = this.bulges.slice(0, this.segmentCount).filter(bulge => Math.abs(bulge) >= ZERO_TOLERANCE).length;
+    return `Polyline2D(${this.vertices.length} vertices, ${arcs} arcs${this.closed ? ', closed' : ''})`;
+  }
+}
+
+/**
+ * Direction in which a closed outline visits its vertices
+ * Counter-clockwise follows increasing angles, like Arc2D; world Y points down on
+ * screen, so a counter-clockwise outline appears clockwise there.
+ */
+export type PolygonWinding = 'clockwise' | 'counter-clockwise';
+
+/**
+ * Represents a closed 2D polygon with straight edges
+ * Edge i runs from vertex i to the next vertex, the last edge back to the first vertex.
+ */
+export class Polygon2D {
+  constructor(public readonly vertices: readonly Point2D[]) {
+    if (vertices.length < 3) {
+      throw new Error(`Polygon needs at least 3 vertices, got: ${vertices.length}`);
+    }
+    vertices.forEach((vertex, index) => {
+      if (vertex.equals(vertices[(index + 1) % vertices.length])) {
+        throw new Error(`Polygon edge ${index} has zero length`);
+      }
+    });
+  }
+
+  /**
+   * Create a regular polygon
+   * @param center Center of the polygon
+   * @param point A vertex, or the midpoint of an edge when circumscribed
+   * @param sides Number of sides, at least 3
+   * @param circumscribed Whether the polygon is drawn around the circle through point
+   * rather than inscribed in it
+   * @returns Regular polygon, or null if point coincides with the center
+   */
+  static regular(center: Point2D, point: Point2D, sides: number, circumscribed: boolean = false): Polygon2D | null {
+    if (!Number.isInteger(sides) || sides < 3) {
+      throw new Error(`Regular polygon needs a whole number of at least 3 sides, got: ${sides}`);
+    }
+    const radius = center.distanceTo(point);
+    if (radius < ZERO_TOLERANCE) {
+      return null;
+    }
+    const step = (2 * Math.PI) / sides;
+    // An edge midpoint sits half a step away from the vertices, at the apothem
+    const vertexRadius = circumscribed ? radius / Math.cos(step / 2) : radius;
+    const firstAngle = GeometryUtils.vectorAngle(point.subtract(center)) - (circumscribed ? step / 2 : 0);
+    return new Polygon2D(Array.from({ length: sides }, (_, index) => {
+      const angle = firstAngle + index * step;
+      return new Point2D(center.x + vertexRadius * Math.cos(angle), center.y + vertexRadius * Math.sin(angle));
+    }));
+  }
+
+  /**
+   * Get all edges in order
+   */
+  get edges(): Line2D[] {
+    return this.vertices.map((vertex, index) => new Line2D(vertex, this.vertices[(index + 1) % this.vertices.length]));
+  }
+
+  /**
+   * Get the enclosed area, positive for counter-clockwise vertices
+   */
+  get signedArea(): number {
+    return GeometryUtils.polygonSignedArea(this.vertices);
+  }
+
+  /**
+   * Get the enclosed area
+   */
+  get area(): number {
+    return GeometryUtils.polygonArea(this.vertices);
+  }
+
+  /**
+   * Get the total length of all edges
+   */
+  get perimeter(): number {
+    return GeometryUtils.polygonPerimeter(this.vertices);
+  }
+
+  /**
+   * Get the center of mass of the enclosed area
+   */
+  get centroid(): Point2D {
+    return GeometryUtils.polygonCentroid(this.vertices);
+  }
+
+  /**
+   * Check whether the polygon is convex and not self-intersecting
+   */
+  get isConvex(): boolean {
+    return GeometryUtils.isConvexPolygon(this.vertices);
+  }
+
+  /**
+   * Get the direction in which the vertices run
+   */
+  get winding(): PolygonWinding {
+    return GeometryUtils.polygonWinding(this.vertices);
+  }
+
+  /**
+   * Check if a point lies inside the polygon or on its boundary
+   * @param point Point to test
+   * @returns True if the point is inside or on an edge
+   */
+  containsPoint(point: Point2D): boolean {
+    return GeometryUtils.pointInPolygon(point, this.vertices);
+  }
+
+  /**
+   * Calculate the shortest distance from a point to the outline
+   * @param point Point to measure distance from
+   * @returns Shortest distance to any edge
+   */
+  distanceToPoint(point: Point2D): number {
+    return Math.min(...this.edges.map(edge => edge.distanceToPoint(point)));
+  }
+
+  /**
+   * Get the bounding box of the vertices
+   */
+  getBounds(): { min: Point2D; max: Point2D } {
+    const xs = this.vertices.map(vertex => vertex.x);
+    const ys = this.vertices.map(vertex => vertex.y);
+    return {
+      min: new Point2D(Math.min(...xs), Math.min(...ys)),
+      max: new Point2D(Math.max(...xs), Math.max(...ys))
+    };
+  }
+
+  /**
+   * Get a copy with one vertex moved
+   * @param index Vertex index
+   * @param point New vertex position
+   * @returns New polygon
+   */
+  withVertex(index: number, point: Point2D): Polygon2D {
+    return new Polygon2D(this.vertices.map((vertex, i) => i === index ? point : vertex));
+  }
+
+  /**
+   * Get a copy with every vertex moved by an offset
+   * @param offset Translation to apply
+   * @returns New polygon
+   */
+  translate(offset: Vector2D): Polygon2D {
+    return new Polygon2D(this.vertices.map(vertex => vertex.add(offset)));
+  }
+
+  /**
+   * Get the same outline as a closed polyline
+   */
+  toPolyline(): Polyline2D {
+    return new Polyline2D(this.vertices, [], true);
+  }
+
+  /**
+   * Get the outlines parallel to this polygon at a signed distance
+   * @param distance Positive distances grow the polygon, negative ones shrink it
+   * @param join How corners on the outside of the offset are joined
+   * @returns Closed polylines, with arcs at round joins; a shrunk polygon may split or vanish
+   */
+  offset(distance: number, join: OffsetJoin = 'miter'): Polyline2D[] {
+    // The left of travel is the inside of a counter-clockwise outline
+    const leftDistance = this.winding === 'counter-clockwise' ? -distance : distance;
+    return this.toPolyline().offset(leftDistance, join);
+  }
+
+  /**
+   * Convert polygon to string representation
+   * @returns String representation of the polygon
+   */
+  toString(): string {
+    return `Polygon2D(${this.vertices.length} vertices, area: ${this.area.toFixed(2)})`;
+  }
+}
+
+/**
+ * Represents a cubic Bezier curve from start to end shaped by two control points
+ * Parameterized by t from 0 (start) to 1 (end)
+ */
+export class CubicBezier2D {
+  constructor(
+    public readonly start: Point2D,
+    public readonly control1: Point2D,
+    public readonly control2: Point2D,
+    public readonly end: Point2D
+  ) {}
+
+  /**
+   * Create the cubic Bezier tracing the same curve as a quadratic one (degree elevation)
+   * @param start Start point
+   * @param control Quadratic control point
+   * @param end End point
+   * @returns Equivalent cubic Bezier
+   */
+  static fromQuadratic(start: Point2D, control: Point2D, end: Point2D): CubicBezier2D {
+    return new CubicBezier2D(
+      start,
+      start.add(control.subtract(start).scale(2 / 3)),
+      end.add(control.subtract(end).scale(2 / 3)),
+      end
+    );
+  }
+
+  /**
+   * Create cubic Beziers approximating an arc, one per quarter turn or less
+   * Each piece uses the standard tangent length 4/3·tan(θ/4), accurate to
+   * a few parts in ten thousand of the radius for a quarter turn
+   * @param arc Arc to approximate
+   * @returns Curves from the arc's start point to its end point
+   */
+  static fromArc(arc: Arc2D): CubicBezier2D[] {
+    const pieceCount = Math.max(1, Math.ceil(arc.sweep / (Math.PI / 2) - ZERO_TOLERANCE));
+    const step = (arc.clockwise ? -arc.sweep : arc.sweep) / pieceCount;
+    const handle = (4 / 3) * Math.tan(step / 4) * arc.radius;
+    const curves: CubicBezier2D[] = [];
+    for (let i = 0; i < pieceCount; i++) {
+      const angle0 = arc.startAngle + i * step;
+      const angle1 = angle0 + step;
+      const start = arc.pointAtAngle(angle0);
+      const end = i === pieceCount - 1 ? arc.endPoint : arc.pointAtAngle(angle1);
+      curves.push(new CubicBezier2D(
+        start,
+        start.add(new Vector2D(-Math.sin(angle0), Math.cos(angle0)).scale(handle)),
+        end.add(new Vector2D(Math.sin(angle1), -Math.cos(angle1)).scale(handle)),
+        end
+      ));
+    }
+    return curves;
+  }
+
+  /**
+   * Get the four control points in order
+   */
+  get controlPoints(): [Point2D, Point2D, Point2D, Point2D] {
+    return [this.start, this.control1, this.control2, this.end];
+  }
+
+  /**
+   * Get the point at a parameter
+   * @param t Parameter from 0 (start) to 1 (end)
+   * @returns Point on the curve
+   */
+  pointAt(t: number): Point2D {
+    const u = 1 - t;
+    const [b0, b1, b2, b3] = [u * u * u, 3 * u * u * t, 3 * u * t * t, t * t * t];
+    return new Point2D(
+      b0 * this.start.x + b1 * this.control1.x + b2 * this.control2.x + b3 * this.end.x,
+      b0 * this.start.y + b1 * this.control1.y + b2 * this.control2.y + b3 * this.end.y
+    );
+  }
+
+  /**
+   * Get the first derivative with respect to t
+   * @param t Parameter from 0 to 1
+   * @returns Derivative vector (velocity)
+   */
+  derivativeAt(t: number): Vector2D {
+    const u = 1 - t;
+    const d0 = this.control1.subtract(this.start);
+    const d1 = this.control2.subtract(this.control1);
+    const d2 = this.end.subtract(this.control2);
+    return d0.scale(3 * u * u).add(d1.scale(6 * u * t)).add(d2.scale(3 * t * t));
+  }
+
+  /**
+   * Get the second derivative with respect to t
+   * @param t Parameter from 0 to 1
+   * @returns Second derivative vector (acceleration)
+   */
+  secondDerivativeAt(t: number): Vector2D {
+    const a = this.control2.subtract(this.control1).subtract(this.control1.subtract(this.start));
+    const b = this.end.subtract(this.control2).subtract(this.control2.subtract(this.control1));
+    return a.scale(6 * (1 - t)).add(b.scale(6 * t));
+  }
+
+  /**
+   * Get the unit tangent direction at a parameter
+   * Where a control point coincides with an end point the derivative vanishes, so the
+   * direction towards the next distinct control point is used instead
+   * @param t Parameter from 0 to 1
+   * @returns Unit tangent vector
+   */
+  tangentAt(t: number): Vector2D {
+    const derivative = this.derivativeAt(t);
+    if (derivative.magnitude > ZERO_TOLERANCE) return derivative.unitVector;
+    const points = t < 0.5 ? this.controlPoints : [...this.controlPoints].reverse();
+    const next = points.find(point => !point.equals(points[0]));
+    if (!next) return Vector2D.ZERO;
+    const direction = next.subtract(points[0]).unitVector;
+    return t < 0.5 ? direction : direction.scale(-1);
+  }
+
+  /**
+   * Split the curve in two at a parameter (de Casteljau subdivision)
+   * @param t Parameter from 0 to 1
+   * @returns The curves from start to t and from t to end
+   */
+  split(t: number): [CubicBezier2D, CubicBezier2D] {
+    const lerp = (a: Point2D, b: Point2D) => a.add(b.subtract(a).scale(t));
+    const p01 = lerp(this.start, this.control1);
+    const p12 = lerp(this.control1, this.control2);
+    const p23 = lerp(this.control2, this.end);
+    const p012 = lerp(p01, p12);
+    const p123 = lerp(p12, p23);
+    const middle = lerp(p012, p123);
+    return [
+      new CubicBezier2D(this.start, p01, p012, middle),
+      new CubicBezier2D(middle, p123, p23, this.end)
+    ];
+  }
+
+  /**
+   * Get the length of the curve from the start up to a parameter
+   * @param t Parameter from 0 to 1
+   * @returns Arc length
+   */
+  lengthAt(t: number): number {
+    let length = 0;
+    const step = t / CURVE_LENGTH_INTERVALS;
+    for (let interval = 0; interval < CURVE_LENGTH_INTERVALS; interval++) {
+      const middle = (interval + 0.5) * step;
+      GAUSS_LEGENDRE_NODES.forEach((node, index) => {
+        length += GAUSS_LEGENDRE_WEIGHTS[index] * this.derivativeAt(middle + node * step / 2).magnitude * step / 2;
+      });
+    }
+    return length;
+  }
+
+  /**
+   * Get the total length of the curve
+   */
+  get length(): number {
+    return this.lengthAt(1);
+  }
+
+  /**
+   * Find the parameter at a distance along the curve (arc-length parameterization)
+   * @param distance Distance from the start, clamped to the curve length
+   * @returns Parameter from 0 to 1
+   */
+  parameterAtLength(distance: number): number {
+    const total = this.length;
+    if (total < ZERO_TOLERANCE || distance <= 0) return 0;
+    if (distance >= total) return 1;
+
+    // Newton's method on length(t) - distance, kept inside a shrinking bracket
+    let low = 0;
+    let high = 1;
+    let t = distance / total;
+    for (let iteration = 0; iteration < 50; iteration++) {
+      const error = this.lengthAt(t) - distance;
+      if (Math.abs(error) < ZERO_TOLERANCE * Math.max(1, total)) break;
+      if (error > 0) high = t; else low = t;
+      const speed = this.derivativeAt(t).magnitude;
+      const next = speed > ZERO_TOLERANCE ? t - error / speed : (low + high) / 2;
+      t = next > low && next < high ? next : (low + high) / 2;
+    }
+    return t;
+  }
+
+  /**
+   * Get the point at a distance along the curve
+   * @param distance Distance from the start, clamped to the curve length
+   * @returns Point on the curve
+   */
+  pointAtLength(distance: number): Point2D {
+    return this.pointAt(this.parameterAtLength(distance));
+  }
+
+  /**
+   * Find the parameter of the point on the curve closest to a given point
+   * @param point Point to project onto the curve
+   * @returns Parameter from 0 to 1
+   */
+  closestParameterTo(point: Point2D): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let i = 0; i <= CURVE_CLOSEST_POINT_SAMPLES; i++) {
+      const t = i / CURVE_CLOSEST_POINT_SAMPLES;
+      const distance = this.pointAt(t).distanceSquaredTo(point);
+      if (distance < bestDistance) {
+        best = t;
+        bestDistance = distance;
+      }
+    }
+
+    // Newton's method on (B(t) - P) · B'(t) = 0 from the best sample
+    let t = best;
+    for (let iteration = 0; iteration < 20; iteration++) {
+      const offset = this.pointAt(t).subtract(point);
+      const derivative = this.derivativeAt(t);
+      const slope = derivative.dot(derivative) + offset.dot(this.secondDerivativeAt(t));
+      if (Math.abs(slope) < ZERO_TOLERANCE) break;
+      const next = Math.min(1, Math.max(0, t - offset.dot(derivative) / slope));
+      if (Math.abs(next - t) < ZERO_TOLERANCE) {
+        t = next;
+        break;
+      }
+      t = next;
+    }
+    return this.pointAt(t).distanceSquaredTo(point) <= bestDistance ? t : best;
+  }
+
+  /**
+   * Find the point on the curve closest to a given point
+   * @param point Point to project onto the curve
+   * @returns Closest point on the curve
+   */
+  closestPointTo(point: Point2D): Point2D {
+    return this.pointAt(this.closestParameterTo(point));
+  }
+
+  /**
+   * Calculate the shortest distance from a point to the curve
+   * @param point Point to measure distance from
+   * @returns Shortest distance to the curve
+   */
+  distanceToPoint(point: Point2D): number {
+    return this.closestPointTo(point).distanceTo(point);
+  }
+
+  /**
+   * Whether the inner control points lie within a distance of the chord, so the
+   * curve deviates from a straight line by no more than that distance
+   * @param tolerance Largest allowed deviation
+   */
+  isFlat(tolerance: number = CURVE_FLATNESS_TOLERANCE): boolean {
+    const chord = new Line2D(this.start, this.end);
+    if (chord.length < ZERO_TOLERANCE) {
+      return this.control1.distanceTo(this.start) <= tolerance && this.control2.distanceTo(this.start) <= tolerance;
+    }
+    return chord.distanceToPoint(this.control1) <= tolerance && chord.distanceToPoint(this.control2) <= tolerance;
+  }
+
+  /**
+   * Get the bounding box from the end points and the axis extremes of the curve
+   */
+  getBounds(): { min: Point2D; max: Point2D } {
+    const parameters = [0, 1];
+    for (const axis of ['x', 'y'] as const) {
+      // The derivative divided by 3 is a t² + b t + c on each axis
+      const [p0, p1, p2, p3] = this.controlPoints.map(point => point[axis]);
+      const a = -p0 + 3 * p1 - 3 * p2 + p3;
+      const b = 2 * (p0 - 2 * p1 + p2);
+      const c = p1 - p0;
+      if (Math.abs(a) < ZERO_TOLERANCE) {
+        if (Math.abs(b) > ZERO_TOLERANCE) parameters.push(-c / b);
+        continue;
+      }
+      const discriminant = b * b - 4 * a * c;
+      if (discriminant < 0) continue;
+      const root = Math.sqrt(discriminant);
+      parameters.push((-b - root) / (2 * a), (-b + root) / (2 * a));
+    }
+    const points = parameters.filter(t => t >= 0 && t <= 1).map(t => this.pointAt(t));
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    return {
+      min: new Point2D(Math.min(...xs), Math.min(...ys)),
+      max: new Point2D(Math.max(...xs), Math.max(...ys))
+    };
+  }
+
+  /**
+   * Get the bounding box of the control points, which contains the curve
+   */
+  getControlBounds(): { min: Point2D; max: Point2D } {
+    const xs = this.controlPoints.map(point => point.x);
+    const ys = this.controlPoints.map(point => point.y);
+    return {
+      min: new Point2D(Math.min(...xs), Math.min(...ys)),
+      max: new Point2D(Math.max(...xs), Math.max(...ys))
+    };
+  }
+
+  /**
+   * Get a copy with one control point moved
+   * @param index Control point index: 0 start, 1 and 2 inner control points, 3 end
+   * @param point New control point position
+   * @returns New curve
+   */
+  withControlPoint(index: number, point: Point2D): CubicBezier2D {
+    const points = this.controlPoints.map((controlPoint, i) => i === index ? point : controlPoint);
+    return new CubicBezier2D(points[0], points[1], points[2], points[3]);
+  }
+
+  /**
+   * Get a copy moved by an offset
+   * @param offset Translation to apply
+   * @returns New curve
+   */
+  translate(offset: Vector2D): CubicBezier2D {
+    return new CubicBezier2D(
+      this.start.add(offset),
+      this.control1.add(offset),
+      this.control2.add(offset),
+      this.end.add(offset)
+    );
+  }
+
+  /**
+   * Convert curve to string representation
+   * @returns String representation of the curve
+   */
+  toString(): string {
+    return `CubicBezier2D(${this.controlPoints.map(point => point.toString()).join(', ')})`;
+  }
+}
+
+/**
+ * How a spline's control points shape the curve
+ * - 'catmull-rom': passes through every control point
+ * - 'b-spline': uniform cubic B-spline, smoother and only passing through the end points of an open curve
+ * - 'bezier': a chain of cubic Beziers sharing end points, given as start, control, control, end, control, ...
+ *   An open chain of n curves has 3n + 1 control points; a closed one has 3n and its last curve ends at the first point
+ */
+export type SplineKind = 'catmull-rom' | 'b-spline' | 'bezier';
+
+/**
+ * Represents a smooth curve defined by a sequence of control points
+ * The curve is evaluated as a chain of cubic Bezier segments. Open Catmull-Rom
+ * splines extend their ends by reflecting the neighbouring control point, and open
+ * B-splines repeat their end points so the curve starts and ends on them.
+ */
+export class Spline2D {
+  constructor(
+    public readonly controlPoints: readonly Point2D[],
+    public readonly kind: SplineKind = 'catmull-rom',
+    public readonly closed: boolean = false
+  ) {
+    if (controlPoints.length < (closed ? 3 : 2)) {
+      throw new Error(`${closed ? 'Closed' : 'Open'} spline needs at least ${closed ? 3 : 2} control points, got: ${controlPoints.length}`);
+    }
+    if (kind === 'bezier' && controlPoints.length % 3 !== (closed ? 0 : 1)) {
+      throw new Error(`${closed ? 'Closed' : 'Open'} Bezier chain needs ${closed ? '3n' : '3n + 1'} control points, got: ${controlPoints.length}`);
+    }
+  }
+
+  /**
+   * Create a spline tracing a chain of cubic Beziers exactly
+   * @param curves Curves in order, each starting where the previous one ends
+   * @param closed Whether the last curve ends at the start of the first
+   * @returns Spline of kind 'bezier'
+   */
+  static fromBeziers(curves: readonly CubicBezier2D[], closed: boolean = false): Spline2D {
+    if (curves.length === 0) {
+      throw new Error('Bezier chain needs at least one curve');
+    }
+    const controlPoints = [curves[0].start, ...curves.flatMap(curve => [curve.control1, curve.control2, curve.end])];
+    return new Spline2D(closed ? controlPoints.slice(0, -1) : controlPoints, 'bezier', closed);
+  }
+
+  /**
+   * Get the cubic Bezier segments tracing the curve, in order
+   */
+  get segments(): CubicBezier2D[] {
+    const points = this.controlPoints;
+    const count = points.length;
+    const segments: CubicBezier2D[] = [];
+    const combine = (weights: [Point2D, number][]) => new Point2D(
+      weights.reduce((sum, [point, weight]) => sum + point.x * weight, 0),
+      weights.reduce((sum, [point, weight]) => sum + point.y * weight, 0)
+    );
+
+    if (this.kind === 'catmull-rom') {
+      const at = (index: number): Point2D => {
+        if (this.closed) return points[(index + count) % count];
+        if (index < 0) return combine([[points[0], 2], [points[1], -1]]);
+        if (index >= count) return combine([[points[count - 1], 2], [points[count - 2], -1]]);
+        return points[index];
+      };
+      const segmentCount = this.closed ? count : count - 1;
+      for (let i = 0; i < segmentCount; i++) {
+        const [a, b, c, d] = [at(i - 1), at(i), at(i + 1), at(i + 2)];
+        segments.push(new CubicBezier2D(
+          b,
+          combine([[b, 1], [c, 1 / 6], [a, -1 / 6]]),
+          combine([[c, 1], [d, -1 / 6], [b, 1 / 6]]),
+          c
+        ));
+      }
+      return segments;
+    }
+
+    if (this.kind === 'bezier') {
+      for (let i = 0; i + 1 < count; i += 3) {
+        segments.push(new CubicBezier2D(points[i], points[i + 1], points[i + 2], points[(i + 3) % count]));
+      }
+      return segments;
+    }
+
+    const padded = this.closed
+      ? [...points, points[0], points[1], points[2]]
+      : [points[0], points[0], ...points, points[count - 1], points[count - 1]];
+    for (let i = 0; i + 3 < padded.length; i++) {
+      const [a, b, c, d] = padded.slice(i, i + 4);
+      segments.push(new CubicBezier2D(
+        combine([[a, 1 / 6], [b, 4 / 6], [c, 1 / 6]]),
+        combine([[b, 2 / 3], [c, 1 / 3]]),
+        combine([[b, 1 / 3], [c, 2 / 3]]),
+        combine([[b, 1 / 6], [c, 4 / 6], [d, 1 / 6]])
+      ));
+    }
+    return segments;
+  }
+
+  /**
+   * Get the total length of the curve
+   */
+  get length(): number {
+    return this.segments.reduce((total, segment) => total + segment.length, 0);
+  }
+
+  /**
+   * Get the point at a distance along the curve
+   * @param distance Distance from the start, clamped to the curve length
+   * @returns Point on the curve
+   */
+  pointAtLength(distance: number): Point2D {
+    const segments = this.segments;
+    let remaining = Math.max(0, distance);
+    for (const segment of segments) {
+      const length = segment.length;
+      if (remaining <= length) return segment.pointAtLength(remaining);
+      remaining -= length;
+    }
+    return segments[segments.length - 1].end;
+  }
+
+  /**
+   * Find the point on the curve closest to a given point
+   * @param point Point to project onto the curve
+   * @returns Closest point on the curve
+   */
+  closestPointTo(point: Point2D): Point2D {
+    let best = this.controlPoints[0];
+    let bestDistance = Infinity;
+    for (const segment of this.segments) {
+      const candidate = segment.closestPointTo(point);
+      const distance = candidate.distanceSquaredTo(point);
+      if (distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Calculate the shortest distance from a point to the curve
+   * @param point Point to measure distance from
+   * @returns Shortest distance to the curve
+   */
+  distanceToPoint(point: Point2D): number {
+    return this.closestPointTo(point).distanceTo(point);
+  }
+
+  /**
+   * Get the bounding box of all segments
+   */
+  getBounds(): { min: Point2D; max: Point2D } {
+    const corners = this.segments.flatMap(segment => {
+      const bounds = segment.getBounds();
+      return [bounds.min, bounds.max];
+    });
+    const xs = corners.map(point => point.x);
+    const ys = corners.map(point => point.y);
+    return {
+      min: new Point2D(Math.min(...xs), Math.min(...ys)),
+      max: new Point2D(Math.max(...xs), Math.max(...ys))
+    };
+  }
+
+  /**
+   * Get a copy with one control point moved
+   * @param index Control point index
+   * @param point New control point position
+   * @returns New spline
+   */
+  withControlPoint(index: number, point: Point2D): Spline2D {
+    const controlPoints = this.controlPoints.map((controlPoint, i) => i === index ? point : controlPoint);
+    return new Spline2D(controlPoints, this.kind, this.closed);
+  }
+
+  /**
+   * Get a copy with every control point moved by an offset
+   * @param offset Translation to apply
+   * @returns New spline
+   */
+  translate(offset: Vector2D): Spline2D {
+    return new Spline2D(this.controlPoints.map(point => point.add(offset)), this.kind, this.closed);
+  }
+
+  /**
+   * Convert spline to string representation
+   * @returns String representation of the spline
+   */
+  toString(): string {
+    return `Spline2D(${this.kind}, ${this.controlPoints.length} control points${this.closed ? ', closed' : ''})`;
+  }
+}
+
+/**
+ * Utility functions for geometric calculations
+ * Collection of common geometric algorithms and operations
+ */
+export class GeometryUtils {
+  /**
+   * Calculate the angle of a vector from the positive X-axis
+   * @param vector Vector to calculate angle for
+   * @returns Angle in radians from positive X-axis
+   */
+  static vectorAngle(vector: Vector2D): number {
+    return Math.atan2(vector.y, vector.x);
+  }
+
+  /**
+   * Convert degrees to radians
+   * @param degrees Angle in degrees
+   * @returns Angle in radians
+   */
+  static degreesToRadians(degrees: number): number {
+    return degrees * Math.PI / 180;
+  }
+
+  /**
+   * Convert radians to degrees
+   * @param radians Angle in radians
+   * @returns Angle in degrees
+   */
+  static radiansToDegrees(radians: number): number {
+    return radians * 180 / Math.PI;
+  }
+
+  /**
+   * Normalize an angle into the range [0, 2π)
+   * @param radians Angle in radians
+   * @returns Equivalent angle between 0 (inclusive) and 2π (exclusive)
+   */
+  static normalizeAngle(radians: number): number {
+    const fullTurn = 2 * Math.PI;
+    const normalized = radians % fullTurn;
+    return normalized < 0 ? normalized + fullTurn : normalized;
+  }
+
+  /**
+   * Find the intersection point of two infinite lines (if they intersect)
+   * @param line1 First line
+   * @param line2 Second line
+   * @returns Intersection point or null if lines are parallel
+   */
+  static lineIntersection(line1: Line2D, line2: Line2D): Point2D | null {
+    const d1 = line1.direction;
+    const d2 = line2.direction;
+    const denominator = d1.cross(d2);
+    
+    if (Math.abs(denominator) < ZERO_TOLERANCE) {
+      return null; // Lines are parallel
+    }
+
+    const startDiff = line2.start.subtract(line1.start);
+    const t = startDiff.cross(d2) / denominator;
+    
+    return line1.evaluateAt(t);
+  }
+
+  /**
+   * Find the intersection point of two line segments (if they intersect within their bounds)
+   * @param line1 First line segment
+   * @param line2 Second line segment
+   * @returns Intersection point or null if segments don't intersect
+   */
+  static lineSegmentIntersection(line1: Line2D, line2: Line2D): Point2D | null {
+    const intersection = GeometryUtils.lineIntersection(line1, line2);
+    if (!intersection) return null;
+
+    // Check if intersection point is within both line segments
+    const t1 = GeometryUtils.getParameterOnLine(line1, intersection);
+    const t2 = GeometryUtils.getParameterOnLine(line2, intersection);
+    
+    if (t1 >= 0 && t1 <= 1 && t2 >= 0 && t2 <= 1) {
+      return intersection;
+    }
+    
+    return null;
+  }
+
+  /**
+   * Find intersection points between a line and a circle
+   * @param line Line to intersect with circle
+   * @param circle Circle to intersect with line
+   * @returns Array of intersection points (0, 1, or 2 points)
+   */
+  static lineCircleIntersection(line: Line2D, circle: Circle2D): Point2D[] {
+    const intersections: Point2D[] = [];
+    
+    // Vector from line start to circle center
+    const startToCenter = circle.center.subtract(line.start);
+    const lineDirection = line.direction;
+    const lineLength = lineDirection.magnitude;
+    const unitDirection = lineDirection.unitized;
+    
+    // Project circle center onto the line
+    const projectionLength = startToCenter.dot(unitDirection.toVector());
+    const projectionPoint = line.start.add(unitDirection.scale(projectionLength));
+    
+    // Distance from circle center to the line
+    const distanceToLine = circle.center.distanceTo(projectionPoint);
+    
+    // No intersection if circle is too far from line
+    if (distanceToLine > circle.radius + ZERO_TOLERANCE) {
+      return intersections;
+    }
+    
+    // Tangent case (one intersection)
+    if (Math.abs(distanceToLine - circle.radius) < ZERO_TOLERANCE) {
+      // Check if intersection is within line segment bounds
+      const t = projectionLength / lineLength;
+      if (t >= 0 && t <= 1) {
+        intersections.push(projectionPoint);
+      }
+      return intersections;
+    }
+    
+    // Two intersections case
+    const halfChordLength = Math.sqrt(circle.radius * circle.radius - distanceToLine * distanceToLine);
+    
+    const intersection1 = projectionPoint.add(unitDirection.scale(-halfChordLength));
+    const intersection2 = projectionPoint.add(unitDirection.scale(halfChordLength));
+    
+    // Check if intersections are within line segment bounds
+    const t1 = (projectionLength - halfChordLength) / lineLength;
+    const t2 = (projectionLength + halfChordLength) / lineLength;
+    
+    if (t1 >= 0 && t1 <= 1) {
+      intersections.push(intersection1);
+    }
+    if (t2 >= 0 && t2 <= 1) {
+      intersections.push(intersection2);
+    }
+    
+    return intersections;
+  }
+
+  /**
+   * Find intersection points between two circles
+   * @param circle1 First circle
+   * @param circle2 Second circle
+   * @returns Array of intersection points (0, 1, or 2 points)
+   */
+  static circleCircleIntersection(circle1: Circle2D, circle2: Circle2D): Point2D[] {
     const intersections: Point2D[] = [];
     
     const centerDistance = circle1.center.distanceTo(circle2.center);
@@ -628,6 +2650,435 @@ export class GeometryUtils {
     return intersections;
   }
 
+  /**
+   * Find intersection points between a line segment and an arc
+   * @param line Line segment to intersect with the arc
+   * @param arc Arc to intersect with the line
+   * @returns Array of intersection points (0, 1, or 2 points)
+   */
+  static lineArcIntersection(line: Line2D, arc: Arc2D): Point2D[] {
+    return GeometryUtils.lineCircleIntersection(line, arc.circle)
+      .filter(point => arc.containsPoint(point, GeometryUtils.intersectionTolerance(arc)));
+  }
+
+  /**
+   * Find intersection points between a circle and an arc
+   * @param circle Circle to intersect with the arc
+   * @param arc Arc to intersect with the circle
+   * @returns Array of intersection points (0, 1, or 2 points)
+   */
+  static circleArcIntersection(circle: Circle2D, arc: Arc2D): Point2D[] {
+    return GeometryUtils.circleCircleIntersection(circle, arc.circle)
+      .filter(point => arc.containsPoint(point, GeometryUtils.intersectionTolerance(arc)));
+  }
+
+  /**
+   * Find intersection points between two arcs
+   * Arcs on the same circle overlap rather than intersect and return no points
+   * @param arc1 First arc
+   * @param arc2 Second arc
+   * @returns Array of intersection points (0, 1, or 2 points)
+   */
+  static arcArcIntersection(arc1: Arc2D, arc2: Arc2D): Point2D[] {
+    return GeometryUtils.circleCircleIntersection(arc1.circle, arc2.circle)
+      .filter(point =>
+        arc1.containsPoint(point, GeometryUtils.intersectionTolerance(arc1)) &&
+        arc2.containsPoint(point, GeometryUtils.intersectionTolerance(arc2))
+      );
+  }
+
+  /**
+   * Find intersection points between a line segment and an ellipse
+   * Solved exactly by mapping the ellipse onto the unit circle
+   * @param line Line segment to intersect with the ellipse
+   * @param ellipse Ellipse to intersect with the line
+   * @returns Array of intersection points (0, 1, or 2 points)
+   */
+  static lineEllipseIntersection(line: Line2D, ellipse: Ellipse2D): Point2D[] {
+    const start = ellipse.toLocal(line.start);
+    const direction = line.direction.rotate(-ellipse.rotation);
+    const px = start.x / ellipse.radiusX;
+    const py = start.y / ellipse.radiusY;
+    const dx = direction.x / ellipse.radiusX;
+    const dy = direction.y / ellipse.radiusY;
+
+    // |p + t·d|² = 1
+    const a = dx * dx + dy * dy;
+    const b = 2 * (px * dx + py * dy);
+    const c = px * px + py * py - 1;
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < -ZERO_TOLERANCE) {
+      return [];
+    }
+
+    const root = Math.sqrt(Math.max(0, discriminant));
+    const parameters = root < ZERO_TOLERANCE
+      ? [-b / (2 * a)]
+      : [(-b - root) / (2 * a), (-b + root) / (2 * a)];
+    return parameters
+      .filter(t => t >= -ZERO_TOLERANCE && t <= 1 + ZERO_TOLERANCE)
+      .map(t => line.evaluateAt(t));
+  }
+
+  /**
+   * Find intersection points between a circle and an ellipse
+   * @param circle Circle to intersect with the ellipse
+   * @param ellipse Ellipse to intersect with the circle
+   * @returns Array of intersection points (up to 4 points)
+   */
+  static circleEllipseIntersection(circle: Circle2D, ellipse: Ellipse2D): Point2D[] {
+    return GeometryUtils.ellipseEllipseIntersection(new Ellipse2D(circle.center, circle.radius, circle.radius), ellipse);
+  }
+
+  /**
+   * Find intersection points between an arc and an ellipse
+   * @param arc Arc to intersect with the ellipse
+   * @param ellipse Ellipse to intersect with the arc
+   * @returns Array of intersection points (up to 4 points)
+   */
+  static arcEllipseIntersection(arc: Arc2D, ellipse: Ellipse2D): Point2D[] {
+    return GeometryUtils.circleEllipseIntersection(arc.circle, ellipse)
+      .filter(point => arc.containsPoint(point, GeometryUtils.intersectionTolerance(arc) * 1e3));
+  }
+
+  /**
+   * Find intersection points between two ellipses
+   * Solved numerically: the first ellipse is sampled by parametric angle and
+   * sign changes of the second ellipse's implicit equation are refined by
+   * bisection. Touching points show up as near-zero minima and are refined by
+   * golden-section search. Coincident ellipses return no points.
+   * @param ellipse1 First ellipse
+   * @param ellipse2 Second ellipse
+   * @returns Array of intersection points (up to 4 points)
+   */
+  static ellipseEllipseIntersection(ellipse1: Ellipse2D, ellipse2: Ellipse2D): Point2D[] {
+    const value = (angle: number) => ellipse2.implicitValue(ellipse1.pointAt(angle));
+    const step = (2 * Math.PI) / ELLIPSE_INTERSECTION_SAMPLES;
+    const samples: number[] = [];
+    for (let i = 0; i <= ELLIPSE_INTERSECTION_SAMPLES; i++) {
+      samples.push(value(i * step));
+    }
+    if (samples.every(sample => Math.abs(sample) < ZERO_TOLERANCE)) {
+      return [];
+    }
+
+    const angles: number[] = [];
+    for (let i = 0; i < ELLIPSE_INTERSECTION_SAMPLES; i++) {
+      let low = i * step;
+      let high = low + step;
+      if (samples[i] === 0) {
+        angles.push(low);
+      } else if (samples[i] * samples[i + 1] < 0) {
+        let lowValue = samples[i];
+        for (let iteration = 0; iteration < 60; iteration++) {
+          const middle = (low + high) / 2;
+          const middleValue = value(middle);
+          if (lowValue * middleValue <= 0) {
+            high = middle;
+          } else {
+            low = middle;
+            lowValue = middleValue;
+          }
+        }
+        angles.push((low + high) / 2);
+      } else {
+        // Possible tangency: |value| has a local minimum around this sample
+        const previous = samples[i === 0 ? ELLIPSE_INTERSECTION_SAMPLES - 1 : i - 1];
+        const current = Math.abs(samples[i]);
+        if (current <= Math.abs(previous) && current < Math.abs(samples[i + 1]) &&
+            Math.sign(previous) === Math.sign(samples[i])) {
+          const angle = GeometryUtils.minimizeAbsolute(value, low - step, high);
+          if (Math.abs(value(angle)) < ELLIPSE_TANGENCY_TOLERANCE) {
+            angles.push(angle);
+          }
+        }
+      }
+    }
+
+    const intersections: Point2D[] = [];
+    const mergeDistance = Math.max(ellipse1.radiusX, ellipse1.radiusY) * 1e-7;
+    for (const angle of angles) {
+      const point = ellipse1.pointAt(angle);
+      if (!intersections.some(existing => existing.equals(point, mergeDistance))) {
+        intersections.push(point);
+      }
+    }
+    return intersections;
+  }
+
+  /**
+   * Find intersection points between a line segment and a cubic Bezier curve
+   * The curve is subdivided until its pieces are flat, skipping pieces whose control
+   * points all lie on one side of the line, and each crossing is refined with Newton's method
+   * @param line Line segment to intersect with the curve
+   * @param curve Curve to intersect with the line
+   * @returns Array of intersection points (up to 3)
+   */
+  static lineBezierIntersection(line: Line2D, curve: CubicBezier2D): Point2D[] {
+    const direction = line.direction;
+    if (direction.magnitude < ZERO_TOLERANCE) return [];
+    // Signed distance from the infinite line, scaled by the line length
+    const side = (point: Point2D) => direction.cross(point.subtract(line.start));
+    const lineBounds = {
+      min: new Point2D(Math.min(line.start.x, line.end.x), Math.min(line.start.y, line.end.y)),
+      max: new Point2D(Math.max(line.start.x, line.end.x), Math.max(line.start.y, line.end.y))
+    };
+
+    const parameters = GeometryUtils.subdivideCurve(
+      curve,
+      piece => {
+        const sides = piece.controlPoints.map(side);
+        return Math.min(...sides) <= 0 && Math.max(...sides) >= 0 &&
+          GeometryUtils.boundsOverlap(piece.getControlBounds(), lineBounds);
+      },
+      piece => {
+        const startSide = side(piece.start);
+        const endSide = side(piece.end);
+        // A piece lying along the line overlaps it rather than crossing it
+        if (startSide === endSide) return [];
+        const u = startSide / (startSide - endSide);
+        return u >= 0 && u <= 1 ? [u] : [];
+      }
+    );
+
+    return GeometryUtils.uniquePoints(parameters
+      .map(t => GeometryUtils.refineCurveRoot(t, u => side(curve.pointAt(u)), u => direction.cross(curve.derivativeAt(u))))
+      .map(t => curve.pointAt(t))
+      .filter(point => {
+        const t = GeometryUtils.getParameterOnLine(line, point);
+        return t >= -ZERO_TOLERANCE && t <= 1 + ZERO_TOLERANCE;
+      }));
+  }
+
+  /**
+   * Find intersection points between a circle and a cubic Bezier curve
+   * Pieces of the curve whose control points are all inside or all outside the circle's
+   * reach are skipped, so touching points that do not cross the circle may be missed
+   * @param circle Circle to intersect with the curve
+   * @param curve Curve to intersect with the circle
+   * @returns Array of intersection points (up to 6)
+   */
+  static circleBezierIntersection(circle: Circle2D, curve: CubicBezier2D): Point2D[] {
+    const { center, radius } = circle;
+    const power = (point: Point2D) => point.distanceSquaredTo(center) - radius * radius;
+
+    const parameters = GeometryUtils.subdivideCurve(
+      curve,
+      piece => {
+        const { min, max } = piece.getControlBounds();
+        const nearest = new Point2D(Math.min(Math.max(center.x, min.x), max.x), Math.min(Math.max(center.y, min.y), max.y));
+        const farthest = new Point2D(
+          center.x - min.x > max.x - center.x ? min.x : max.x,
+          center.y - min.y > max.y - center.y ? min.y : max.y
+        );
+        return nearest.distanceTo(center) <= radius + CURVE_FLATNESS_TOLERANCE &&
+          farthest.distanceTo(center) >= radius - CURVE_FLATNESS_TOLERANCE;
+      },
+      piece => {
+        // Solve |start + u (end - start) - center|² = radius² along the chord
+        const chord = piece.end.subtract(piece.start);
+        const offset = piece.start.subtract(center);
+        const a = chord.dot(chord);
+        if (a < ZERO_TOLERANCE * ZERO_TOLERANCE) return [];
+        const b = 2 * chord.dot(offset);
+        const c = offset.dot(offset) - radius * radius;
+        const discriminant = b * b - 4 * a * c;
+        if (discriminant < 0) return [];
+        const root = Math.sqrt(discriminant);
+        return [(-b - root) / (2 * a), (-b + root) / (2 * a)].filter(u => u >= 0 && u <= 1);
+      }
+    );
+
+    return GeometryUtils.uniquePoints(parameters
+      .map(t => GeometryUtils.refineCurveRoot(
+        t,
+        u => power(curve.pointAt(u)),
+        u => 2 * curve.pointAt(u).subtract(center).dot(curve.derivativeAt(u))
+      ))
+      .map(t => curve.pointAt(t)));
+  }
+
+  /**
+   * Find intersection points between an arc and a cubic Bezier curve
+   * @param arc Arc to intersect with the curve
+   * @param curve Curve to intersect with the arc
+   * @returns Array of intersection points
+   */
+  static arcBezierIntersection(arc: Arc2D, curve: CubicBezier2D): Point2D[] {
+    return GeometryUtils.circleBezierIntersection(arc.circle, curve)
+      .filter(point => arc.containsPoint(point, GeometryUtils.intersectionTolerance(arc)));
+  }
+
+  /**
+   * Find intersection points between two cubic Bezier curves
+   * Pairs of pieces with overlapping control bounds are subdivided until both are flat,
+   * then their chords are intersected and each crossing is refined with Newton's method.
+   * Overlapping curves return no points.
+   * @param curve1 First curve
+   * @param curve2 Second curve
+   * @returns Array of intersection points (up to 9)
+   */
+  static bezierBezierIntersection(curve1: CubicBezier2D, curve2: CubicBezier2D): Point2D[] {
+    type Piece = { curve: CubicBezier2D; t0: number; t1: number };
+    const halves = ({ curve, t0, t1 }: Piece): Piece[] => {
+      const [first, second] = curve.split(0.5);
+      const middle = (t0 + t1) / 2;
+      return [{ curve: first, t0, t1: middle }, { curve: second, t0: middle, t1 }];
+    };
+
+    const points: Point2D[] = [];
+    const stack = [{ first: { curve: curve1, t0: 0, t1: 1 }, second: { curve: curve2, t0: 0, t1: 1 }, depth: 0 }];
+    while (stack.length > 0) {
+      const { first, second, depth } = stack.pop()!;
+      if (!GeometryUtils.boundsOverlap(first.curve.getControlBounds(), second.curve.getControlBounds())) continue;
+
+      const firstFlat = first.curve.isFlat();
+      const secondFlat = second.curve.isFlat();
+      if ((firstFlat && secondFlat) || depth >= CURVE_MAX_SUBDIVISION_DEPTH) {
+        const chord1 = new Line2D(first.curve.start, first.curve.end);
+        const chord2 = new Line2D(second.curve.start, second.curve.end);
+        if (chord1.length < ZERO_TOLERANCE || chord2.length < ZERO_TOLERANCE) continue;
+        const point = GeometryUtils.lineSegmentIntersection(chord1, chord2);
+        if (!point) continue;
+        const s = first.t0 + GeometryUtils.getParameterOnLine(chord1, point) * (first.t1 - first.t0);
+        const t = second.t0 + GeometryUtils.getParameterOnLine(chord2, point) * (second.t1 - second.t0);
+        points.push(GeometryUtils.refineCurveCrossing(curve1, curve2, s, t));
+        continue;
+      }
+
+      for (const a of firstFlat ? [first] : halves(first)) {
+        for (const b of secondFlat ? [second] : halves(second)) {
+          stack.push({ first: a, second: b, depth: depth + 1 });
+        }
+      }
+    }
+
+    const unique = GeometryUtils.uniquePoints(points);
+    // Two distinct cubics cross at most 9 times; more means the curves run along each other
+    return unique.length > 9 ? [] : unique;
+  }
+
+  /**
+   * Collect parameters on a curve by recursive subdivision
+   * @param curve Curve to search
+   * @param mayContain Whether a piece can contain what is searched for; other pieces are skipped
+   * @param solveFlat Parameters from 0 to 1 along a piece flat enough to stand in for its chord
+   * @returns Parameters on the whole curve
+   */
+  private static subdivideCurve(
+    curve: CubicBezier2D,
+    mayContain: (piece: CubicBezier2D) => boolean,
+    solveFlat: (piece: CubicBezier2D) => number[]
+  ): number[] {
+    const parameters: number[] = [];
+    const stack = [{ piece: curve, t0: 0, t1: 1, depth: 0 }];
+    while (stack.length > 0) {
+      const { piece, t0, t1, depth } = stack.pop()!;
+      if (!mayContain(piece)) continue;
+      if (piece.isFlat() || depth >= CURVE_MAX_SUBDIVISION_DEPTH) {
+        parameters.push(...solveFlat(piece).map(u => t0 + u * (t1 - t0)));
+        continue;
+      }
+      const [first, second] = piece.split(0.5);
+      const middle = (t0 + t1) / 2;
+      stack.push(
+        { piece: first, t0, t1: middle, depth: depth + 1 },
+        { piece: second, t0: middle, t1, depth: depth + 1 }
+      );
+    }
+    return parameters;
+  }
+
+  /**
+   * Polish a root of f near t with Newton's method, keeping t if the iteration wanders off
+   */
+  private static refineCurveRoot(t: number, f: (t: number) => number, slope: (t: number) => number): number {
+    let current = t;
+    for (let iteration = 0; iteration < 8; iteration++) {
+      const derivative = slope(current);
+      if (Math.abs(derivative) < ZERO_TOLERANCE) break;
+      const next = Math.min(1, Math.max(0, current - f(current) / derivative));
+      if (next === current) break;
+      current = next;
+    }
+    return Math.abs(current - t) < 1e-3 ? current : t;
+  }
+
+  /**
+   * Polish a crossing of two curves near parameters s and t with Newton's method on
+   * curve1(s) - curve2(t) = 0, keeping the estimate if the iteration wanders off
+   */
+  private static refineCurveCrossing(curve1: CubicBezier2D, curve2: CubicBezier2D, s: number, t: number): Point2D {
+    let [currentS, currentT] = [s, t];
+    for (let iteration = 0; iteration < 8; iteration++) {
+      const difference = curve1.pointAt(currentS).subtract(curve2.pointAt(currentT));
+      const d1 = curve1.derivativeAt(currentS);
+      const d2 = curve2.derivativeAt(currentT);
+      // Solve [d1 -d2] [ds dt]ᵀ = -difference by Cramer's rule
+      const determinant = d1.cross(d2);
+      if (Math.abs(determinant) < ZERO_TOLERANCE) break;
+      currentS = Math.min(1, Math.max(0, currentS + d2.cross(difference) / determinant));
+      currentT = Math.min(1, Math.max(0, currentT + d1.cross(difference) / determinant));
+    }
+    const refined = curve1.pointAt(currentS);
+    const estimate = curve1.pointAt(s);
+    const isCloser = refined.distanceTo(curve2.pointAt(currentT)) <= estimate.distanceTo(curve2.pointAt(t));
+    return isCloser && Math.abs(currentS - s) < 1e-3 && Math.abs(currentT - t) < 1e-3 ? refined : estimate;
+  }
+
+  /**
+   * Whether two bounding boxes overlap, allowing for the curve flatness tolerance
+   */
+  private static boundsOverlap(a: { min: Point2D; max: Point2D }, b: { min: Point2D; max: Point2D }): boolean {
+    return a.min.x <= b.max.x + CURVE_FLATNESS_TOLERANCE && b.min.x <= a.max.x + CURVE_FLATNESS_TOLERANCE &&
+      a.min.y <= b.max.y + CURVE_FLATNESS_TOLERANCE && b.min.y <= a.max.y + CURVE_FLATNESS_TOLERANCE;
+  }
+
+  /**
+   * Drop points that repeat an earlier one, as found where subdivided pieces meet
+   */
+  private static uniquePoints(points: Point2D[]): Point2D[] {
+    return points.filter((point, index) =>
+      points.findIndex(other => other.equals(point, CURVE_FLATNESS_TOLERANCE * 10)) === index
+    );
+  }
+
+  /**
+   * Cubic Bezier pieces of a curve element, or null for other elements
+   */
+  private static curvePieces(element: { type: string; data: unknown }): CubicBezier2D[] | null {
+    if (element.type === 'bezier') return [element.data as CubicBezier2D];
+    if (element.type === 'spline') return (element.data as Spline2D).segments;
+    return null;
+  }
+
+  /**
+   * Find where |f| is smallest on an interval by golden-section search
+   */
+  private static minimizeAbsolute(f: (x: number) => number, low: number, high: number): number {
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    let a = low;
+    let b = high;
+    for (let iteration = 0; iteration < 80; iteration++) {
+      const c = b - ratio * (b - a);
+      const d = a + ratio * (b - a);
+      if (Math.abs(f(c)) < Math.abs(f(d))) {
+        b = d;
+      } else {
+        a = c;
+      }
+    }
+    return (a + b) / 2;
+  }
+
+  /**
+   * Distance tolerance for accepting computed intersection points on an arc,
+   * scaled so round-off in the circle intersection does not drop end points
+   */
+  private static intersectionTolerance(arc: Arc2D): number {
+    return Math.max(ZERO_TOLERANCE, arc.radius * 1e-9);
+  }
+
   /**
    * Find all intersection points between geometric elements
    * @param element1 First geometric element
@@ -635,9 +3086,59 @@ export class GeometryUtils {
    * @returns Array of intersection points
    */
   static findIntersections(
-    element1: { type: string; data: Point2D | Line2D | Circle2D },
-    element2: { type: string; data: Point2D | Line2D | Circle2D }
+    element1: { type: string; data: Point2D | Line2D | Circle2D | Arc2D | Ellipse2D | EllipticalArc2D | Polyline2D | Polygon2D | CubicBezier2D | Spline2D },
+    element2: { type: string; data: Point2D | Line2D | Circle2D | Arc2D | Ellipse2D | EllipticalArc2D | Polyline2D | Polygon2D | CubicBezier2D | Spline2D }
   ): Point2D[] {
+    // Polylines intersect through their individual segments
+    if (element1.type === 'polyline' || element2.type === 'polyline') {
+      const [polylineElement, other] = element1.type === 'polyline' ? [element1, element2] : [element2, element1];
+      return (polylineElement.data as Polyline2D).segments.flatMap(segment =>
+        GeometryUtils.findIntersections({ type: segment instanceof Arc2D ? 'arc' : 'line', data: segment }, other)
+      );
+    }
+
+    // Polygons intersect through their edges
+    if (element1.type === 'polygon' || element2.type === 'polygon') {
+      const [polygonElement, other] = element1.type === 'polygon' ? [element1, element2] : [element2, element1];
+      return (polygonElement.data as Polygon2D).edges.flatMap(edge =>
+        GeometryUtils.findIntersections({ type: 'line', data: edge }, other)
+      );
+    }
+
+    // Elliptical arcs intersect through their ellipse, keeping the points that lie on every arc
+    if (element1.type === 'elliptical-arc' || element2.type === 'elliptical-arc') {
+      const arcs = [element1, element2]
+        .filter(element => element.type === 'elliptical-arc')
+        .map(element => element.data as EllipticalArc2D);
+      const asEllipse = (element: typeof element1) => element.type === 'elliptical-arc'
+        ? { type: 'ellipse', data: (element.data as EllipticalArc2D).ellipse }
+        : element;
+      return GeometryUtils.findIntersections(asEllipse(element1), asEllipse(element2))
+        .filter(point => arcs.every(arc => arc.containsPoint(point, Math.max(ZERO_TOLERANCE, arc.ellipse.semiMajorAxis * 1e-6))));
+    }
+    
+    // Curves intersect through their cubic Bezier pieces, against lines, circles, arcs and other curves
+    const pieces1 = GeometryUtils.curvePieces(element1);
+    const pieces2 = GeometryUtils.curvePieces(element2);
+    if (pieces1 || pieces2) {
+      const [curves, other, otherCurves] = pieces1 ? [pieces1, element2, pieces2] : [pieces2!, element1, pieces1];
+      return GeometryUtils.uniquePoints(curves.flatMap(curve => {
+        if (otherCurves) {
+          return otherCurves.flatMap(otherCurve => GeometryUtils.bezierBezierIntersection(curve, otherCurve));
+        }
+        switch (other.type) {
+          case 'line':
+            return GeometryUtils.lineBezierIntersection(other.data as Line2D, curve);
+          case 'circle':
+            return GeometryUtils.circleBezierIntersection(other.data as Circle2D, curve);
+          case 'arc':
+            return GeometryUtils.arcBezierIntersection(other.data as Arc2D, curve);
+          default:
+            return [];
+        }
+      }));
+    }
+    
     if (element1.type === 'line' && element2.type === 'line') {
       const intersection = GeometryUtils.lineSegmentIntersection(
         element1.data as Line2D, 
@@ -667,6 +3168,48 @@ export class GeometryUtils {
       );
     }
     
+    if (element1.type === 'arc' && element2.type === 'arc') {
+      return GeometryUtils.arcArcIntersection(
+        element1.data as Arc2D, 
+        element2.data as Arc2D
+      );
+    }
+    
+    if (element1.type === 'ellipse' && element2.type === 'ellipse') {
+      return GeometryUtils.ellipseEllipseIntersection(
+        element1.data as Ellipse2D, 
+        element2.data as Ellipse2D
+      );
+    }
+    
+    // Ellipse against a line, circle or arc, in either order
+    if (element1.type === 'ellipse' || element2.type === 'ellipse') {
+      const [ellipseElement, other] = element1.type === 'ellipse' ? [element1, element2] : [element2, element1];
+      const ellipse = ellipseElement.data as Ellipse2D;
+      if (other.type === 'line') {
+        return GeometryUtils.lineEllipseIntersection(other.data as Line2D, ellipse);
+      }
+      if (other.type === 'circle') {
+        return GeometryUtils.circleEllipseIntersection(other.data as Circle2D, ellipse);
+      }
+      if (other.type === 'arc') {
+        return GeometryUtils.arcEllipseIntersection(other.data as Arc2D, ellipse);
+      }
+      return [];
+    }
+    
+    // Arc against a line or circle, in either order
+    if (element1.type === 'arc' || element2.type === 'arc') {
+      const [arcElement, other] = element1.type === 'arc' ? [element1, element2] : [element2, element1];
+      const arc = arcElement.data as Arc2D;
+      if (other.type === 'line') {
+        return GeometryUtils.lineArcIntersection(other.data as Line2D, arc);
+      }
+      if (other.type === 'circle') {
+        return GeometryUtils.circleArcIntersection(other.data as Circle2D, arc);
+      }
+    }
+    
     return [];
   }
 
@@ -710,6 +3253,894 @@ export class GeometryUtils {
     return new Circle2D(center, radius);
   }
 
+  /**
+   * Create an arc that starts at p1, passes through p2 and ends at p3
+   * @param p1 Start point
+   * @param p2 Point the arc passes through
+   * @param p3 End point
+   * @returns Arc through the three points or null if points are collinear or coincide
+   */
+  static arcThrough3Points(p1: Point2D, p2: Point2D, p3: Point2D): Arc2D | null {
+    if (p1.equals(p2) || p2.equals(p3) || p1.equals(p3)) {
+      return null;
+    }
+    const circle = GeometryUtils.circleThrough3Points(p1, p2, p3);
+    if (!circle) {
+      return null;
+    }
+
+    const angleOf = (point: Point2D) => GeometryUtils.vectorAngle(point.subtract(circle.center));
+    const startAngle = angleOf(p1);
+    const throughAngle = angleOf(p2);
+    const endAngle = angleOf(p3);
+    // Go the way that passes through p2
+    const clockwise = GeometryUtils.normalizeAngle(throughAngle - startAngle) >
+      GeometryUtils.normalizeAngle(endAngle - startAngle);
+    return new Arc2D(circle.center, circle.radius, startAngle, endAngle, clockwise);
+  }
+
+  /**
+   * Create an arc around a center from a start point to the direction of an end point
+   * The radius is taken from the start point; the end point only sets the end angle
+   * @param center Arc center
+   * @param start Start point
+   * @param end Point giving the end angle
+   * @param clockwise Sweep through decreasing angles
+   * @returns Arc, or null if a point coincides with the center or the angles match
+   */
+  static arcFromCenter(center: Point2D, start: Point2D, end: Point2D, clockwise: boolean = false): Arc2D | null {
+    const radius = center.distanceTo(start);
+    if (radius < ZERO_TOLERANCE || center.distanceTo(end) < ZERO_TOLERANCE) {
+      return null;
+    }
+    const startAngle = GeometryUtils.vectorAngle(start.subtract(center));
+    const endAngle = GeometryUtils.vectorAngle(end.subtract(center));
+    if (GeometryUtils.normalizeAngle(endAngle - startAngle) < ZERO_TOLERANCE) {
+      return null;
+    }
+    return new Arc2D(center, radius, startAngle, endAngle, clockwise);
+  }
+
+  /**
+   * Create an ellipse from its center, the end of one axis and a point giving the other axis
+   * @param center Ellipse center
+   * @param axisEnd End of the first axis; sets radiusX and the rotation
+   * @param sidePoint Its distance from the first axis sets radiusY
+   * @returns Ellipse, or null if either radius would be zero
+   */
+  static ellipseFromAxes(center: Point2D, axisEnd: Point2D, sidePoint: Point2D): Ellipse2D | null {
+    const axis = axisEnd.subtract(center);
+    const radiusX = axis.magnitude;
+    if (radiusX < ZERO_TOLERANCE) {
+      return null;
+    }
+    const radiusY = Math.abs(axis.cross(sidePoint.subtract(center))) / radiusX;
+    if (radiusY < ZERO_TOLERANCE) {
+      return null;
+    }
+    return new Ellipse2D(center, radiusX, radiusY, GeometryUtils.vectorAngle(axis));
+  }
+
+  /**
+   * Create the axis-aligned ellipse inscribed in the box spanned by two corners
+   * @param corner1 First corner
+   * @param corner2 Opposite corner
+   * @returns Ellipse, or null if the box has no width or height
+   */
+  static ellipseFromBox(corner1: Point2D, corner2: Point2D): Ellipse2D | null {
+    const radiusX = Math.abs(corner2.x - corner1.x) / 2;
+    const radiusY = Math.abs(corner2.y - corner1.y) / 2;
+    if (radiusX < ZERO_TOLERANCE || radiusY < ZERO_TOLERANCE) {
+      return null;
+    }
+    const center = new Point2D((corner1.x + corner2.x) / 2, (corner1.y + corner2.y) / 2);
+    return new Ellipse2D(center, radiusX, radiusY);
+  }
+
+  /**
+   * Get the bulge of an arc from start to end that leaves start along a tangent
+   * Used to continue a polyline with an arc that joins the previous segment smoothly
+   * @param tangent Direction of travel at the start point
+   * @param start Arc start point
+   * @param end Arc end point
+   * @returns Bulge factor; 0 when the end lies straight ahead, and null when it lies
+   * straight behind, where no tangent arc exists
+   */
+  static tangentArcBulge(tangent: Vector2D, start: Point2D, end: Point2D): number | null {
+    const chord = end.subtract(start);
+    // The included angle is twice the angle between the tangent and the chord
+    const turn = Math.atan2(tangent.cross(chord), tangent.dot(chord));
+    if (Math.PI - Math.abs(turn) < 1e-6) {
+      return null;
+    }
+    return Math.tan(turn / 2);
+  }
+
+  /**
+   * Offset a chain of connected line and arc segments, as used by Polyline2D.offset
+   * Every segment is moved sideways and the gaps at corners on the outside of a turn are
+   * bridged by the join; inside corners are routed through the original vertex. That raw
+   * path is split where it crosses itself, pieces closer to the original than the distance
+   * are dropped and the remaining pieces are stitched back together.
+   * @param segments Segments in order, each starting where the previous one ends
+   * @param closed Whether the last segment connects back to the first
+   * @param distance Positive distances move toward the left of the direction of travel
+   * @param join How corners on the outside of a turn are joined
+   * @returns Offset polylines, none for a zero distance
+   */
+  static offsetPath(segments: readonly PolylineSegment[], closed: boolean, distance: number, join: OffsetJoin): Polyline2D[] {
+    const size = Math.abs(distance);
+    if (segments.length === 0 || size < PIECE_TOLERANCE) {
+      return [];
+    }
+
+    // Arcs that shrink to nothing are represented by their center
+    const offsets = segments.map(segment => segment instanceof Arc2D
+      ? segment.offset(segment.clockwise ? distance : -distance)
+      : segment.offset(distance)
+    );
+    const raw: PolylineSegment[] = [];
+    segments.forEach((segment, index) => {
+      const offset = offsets[index];
+      if (offset) raw.push(offset);
+      if (index < segments.length - 1 || closed) {
+        const nextIndex = (index + 1) % segments.length;
+        raw.push(...GeometryUtils.offsetJoin(segment, segments[nextIndex], offset, offsets[nextIndex], distance, join));
+      }
+    });
+
+    const pieces = GeometryUtils.splitAtCrossings(raw, closed)
+      .filter(piece => {
+        const clearance = Math.min(...segments.map(segment => segment.distanceToPoint(piece.midpoint)));
+        return clearance > size - PIECE_TOLERANCE;
+      });
+    return GeometryUtils.chainPieces(pieces).flatMap(chain => {
+      const first = GeometryUtils.segmentStart(chain[0]);
+      const isClosed = GeometryUtils.segmentEnd(chain[chain.length - 1]).equals(first, PIECE_TOLERANCE);
+      // Open scraps of a closed outline are left where miter points poke past each other
+      if (closed && !isClosed) {
+        return [];
+      }
+      const merged = GeometryUtils.mergeContinuingPieces(chain, isClosed);
+      if (isClosed && merged.length < 3 && merged.every(piece => piece instanceof Line2D)) {
+        return [];
+      }
+      return [GeometryUtils.pathFromPieces(merged, isClosed)];
+    });
+  }
+
+  /**
+   * Bridge the gap between the offsets of two consecutive segments at their shared vertex
+   * @param current Segment ending at the vertex
+   * @param next Segment starting at the vertex
+   * @param currentOffset Offset of current, or null if it collapsed onto its center
+   * @param nextOffset Offset of next, or null if it collapsed onto its center
+   */
+  private static offsetJoin(
+    current: PolylineSegment,
+    next: PolylineSegment,
+    currentOffset: PolylineSegment | null,
+    nextOffset: PolylineSegment | null,
+    distance: number,
+    join: OffsetJoin
+  ): PolylineSegment[] {
+    const vertex = GeometryUtils.segmentEnd(current);
+    const from = currentOffset ? GeometryUtils.segmentEnd(currentOffset) : (current as Arc2D).center;
+    const to = nextOffset ? GeometryUtils.segmentStart(nextOffset) : (next as Arc2D).center;
+    if (from.equals(to, PIECE_TOLERANCE)) {
+      return [];
+    }
+
+    const incoming = GeometryUtils.segmentTangent(current, 1);
+    const outgoing = GeometryUtils.segmentTangent(next, 0);
+    // Offsetting to the left puts right turns on the outside, and the other way round
+    const outside = currentOffset && nextOffset && incoming.cross(outgoing) * distance <= 0;
+    if (outside && join === 'round') {
+      const arc = GeometryUtils.arcFromCenter(vertex, from, to, distance > 0);
+      if (arc) return [arc];
+    } else if (outside) {
+      const limit = OFFSET_MITER_LIMIT * Math.abs(distance);
+      const miter = GeometryUtils.lineIntersection(new Line2D(from, from.add(incoming)), new Line2D(to, to.add(outgoing)));
+      if (miter && miter.subtract(from).dot(incoming) > PIECE_TOLERANCE && miter.distanceTo(vertex) <= limit) {
+        return [new Line2D(from, miter), new Line2D(miter, to)];
+      }
+      // Cut the point off square at the limit; a bevel straight across would pass closer
+      // to a sharp corner than the offset distance
+      const outward = incoming.subtract(outgoing).unitVector;
+      const cut1 = from.add(incoming.scale((limit - from.subtract(vertex).dot(outward)) / incoming.dot(outward)));
+      const cut2 = to.add(outgoing.scale((limit - to.subtract(vertex).dot(outward)) / outgoing.dot(outward)));
+      return [new Line2D(from, cut1), new Line2D(cut1, cut2), new Line2D(cut2, to)];
+    }
+    if (outside) {
+      return [new Line2D(from, to)];
+    }
+    // The offsets cross before reaching here, so this detour is cut away with the overlap
+    const route = [from, vertex, to];
+    return route.slice(1)
+      .map((end, index) => ({ start: route[index], end }))
+      .filter(({ start, end }) => !start.equals(end, PIECE_TOLERANCE))
+      .map(({ start, end }) => new Line2D(start, end));
+  }
+
+  /**
+   * Split the pieces of a raw offset path wherever two of them cross
+   * Neighbouring pieces only touch at their shared end, so they are not compared.
+   */
+  private static splitAtCrossings(raw: readonly PolylineSegment[], closed: boolean): PolylineSegment[] {
+    const cuts: Point2D[][] = raw.map(() => []);
+    for (let i = 0; i < raw.length; i++) {
+      for (let j = i + 2; j < raw.length; j++) {
+        if (closed && i === 0 && j === raw.length - 1) continue;
+        const first = raw[i];
+        const second = raw[j];
+        let points: Point2D[];
+        if (first instanceof Line2D && second instanceof Line2D) {
+          const point = GeometryUtils.lineSegmentIntersection(first, second);
+          points = point ? [point] : [];
+        } else if (first instanceof Line2D) {
+          points = GeometryUtils.lineArcIntersection(first, second as Arc2D);
+        } else if (second instanceof Line2D) {
+          points = GeometryUtils.lineArcIntersection(second, first);
+        } else {
+          points = GeometryUtils.arcArcIntersection(first, second);
+        }
+        cuts[i].push(...points);
+        cuts[j].push(...points);
+      }
+    }
+
+    return raw.flatMap((piece, index) => {
+      const margin = PIECE_TOLERANCE / piece.length;
+      const parameters = cuts[index]
+        .map(point => piece instanceof Arc2D ? piece.parameterOf(point) : GeometryUtils.getParameterOnLine(piece, point))
+        .filter(t => t > margin && t < 1 - margin)
+        .sort((a, b) => a - b);
+      const bounds = [0, ...parameters, 1];
+      const parts: PolylineSegment[] = [];
+      for (let k = 1; k < bounds.length; k++) {
+        const [t0, t1] = [bounds[k - 1], bounds[k]];
+        if ((t1 - t0) * piece.length < PIECE_TOLERANCE) continue;
+        parts.push(piece.slice(t0, t1));
+      }
+      return parts;
+    });
+  }
+
+  /**
+   * Stitch pieces into chains that run end to start, preferring the next piece in order
+   * Chains that end where another begins are joined, so a closed outline whose first
+   * piece was removed still comes back as one chain.
+   */
+  private static chainPieces(pieces: readonly PolylineSegment[]): PolylineSegment[][] {
+    const used = pieces.map(() => false);
+    const chains: PolylineSegment[][] = [];
+    pieces.forEach((piece, index) => {
+      if (used[index]) return;
+      used[index] = true;
+      const chain = [piece];
+      let last = index;
+      const start = GeometryUtils.segmentStart(piece);
+      while (!(chain.length > 1 && GeometryUtils.segmentEnd(chain[chain.length - 1]).equals(start, PIECE_TOLERANCE))) {
+        const end = GeometryUtils.segmentEnd(pieces[last]);
+        const order = pieces.map((_, step) => (last + 1 + step) % pieces.length);
+        const next = order.find(candidate => !used[candidate] && GeometryUtils.segmentStart(pieces[candidate]).equals(end, PIECE_TOLERANCE));
+        if (next === undefined) break;
+        used[next] = true;
+        chain.push(pieces[next]);
+        last = next;
+      }
+      chains.push(chain);
+    });
+
+    const isOpen = (chain: PolylineSegment[]) =>
+      !GeometryUtils.segmentEnd(chain[chain.length - 1]).equals(GeometryUtils.segmentStart(chain[0]), PIECE_TOLERANCE);
+    for (let i = 0; i < chains.length; i++) {
+      const following = chains.findIndex((other, j) => j !== i && isOpen(chains[i]) && isOpen(other) &&
+        GeometryUtils.segmentStart(other[0]).equals(GeometryUtils.segmentEnd(chains[i][chains[i].length - 1]), PIECE_TOLERANCE));
+      if (following >= 0) {
+        chains[i] = chains[i].concat(chains[following]);
+        chains.splice(following, 1);
+        i = -1;
+      }
+    }
+    return chains;
+  }
+
+  /**
+   * Combine consecutive pieces that continue the same line or circle, including the
+   * last and first pieces of a closed chain
+   */
+  private static mergeContinuingPieces(chain: readonly PolylineSegment[], closed: boolean): PolylineSegment[] {
+    const merged: PolylineSegment[] = [];
+    chain.forEach(piece => {
+      const combined = merged.length > 0 ? GeometryUtils.mergeContinuingPair(merged[merged.length - 1], piece) : null;
+      if (combined) {
+        merged[merged.length - 1] = combined;
+      } else {
+        merged.push(piece);
+      }
+    });
+    if (closed && merged.length > 2) {
+      const combined = GeometryUtils.mergeContinuingPair(merged[merged.length - 1], merged[0]);
+      if (combined) {
+        merged.pop();
+        merged[0] = combined;
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Get the single segment covering two consecutive pieces of the same line or circle
+   * @returns Combined segment, or null if the pieces do not continue each other
+   */
+  private static mergeContinuingPair(first: PolylineSegment, second: PolylineSegment): PolylineSegment | null {
+    if (first instanceof Line2D && second instanceof Line2D) {
+      const direction = first.unitDirection;
+      const continues = Math.abs(direction.cross(second.unitDirection)) < 1e-9 && direction.dot(second.unitDirection) > 0;
+      return continues ? new Line2D(first.start, second.end) : null;
+    }
+    if (first instanceof Arc2D && second instanceof Arc2D &&
+        first.clockwise === second.clockwise &&
+        first.center.equals(second.center, PIECE_TOLERANCE) &&
+        Math.abs(first.radius - second.radius) < PIECE_TOLERANCE &&
+        first.sweep + second.sweep < 2 * Math.PI - 1e-6) {
+      const sweep = first.clockwise ? -(first.sweep + second.sweep) : first.sweep + second.sweep;
+      return new Arc2D(first.center, first.radius, first.startAngle, first.startAngle + sweep, first.clockwise);
+    }
+    return null;
+  }
+
+  /**
+   * Build the polyline running through consecutive segments
+   */
+  private static pathFromPieces(pieces: readonly PolylineSegment[], closed: boolean): Polyline2D {
+    const vertices = pieces.map(GeometryUtils.segmentStart);
+    if (!closed) vertices.push(GeometryUtils.segmentEnd(pieces[pieces.length - 1]));
+    return new Polyline2D(vertices, pieces.map(piece => piece instanceof Arc2D ? piece.bulge : 0), closed);
+  }
+
+  private static segmentStart(segment: PolylineSegment): Point2D {
+    return segment instanceof Arc2D ? segment.startPoint : segment.start;
+  }
+
+  private static segmentEnd(segment: PolylineSegment): Point2D {
+    return segment instanceof Arc2D ? segment.endPoint : segment.end;
+  }
+
+  /**
+   * Unit direction of travel along a line or arc at a parameter
+   */
+  private static segmentTangent(segment: PolylineSegment, t: number): Vector2D {
+    return segment instanceof Arc2D ? segment.tangentAt(t) : segment.unitDirection;
+  }
+
+  /**
+   * Round off the corner between two lines or circles with a tangent arc
+   * Of the arcs touching both curves, the one whose tangent points lie closest to the
+   * picked points is used. Lines are trimmed or extended to their tangent point, keeping
+   * the end on the side of the picked point; circles are returned as they are.
+   * @param first First line or circle
+   * @param firstPick Point picked on the first curve
+   * @param second Second line or circle
+   * @param secondPick Point picked on the second curve
+   * @param radius Fillet radius; 0 meets the curves in a sharp corner without an arc
+   * @returns The curves and the arc running from the first to the second, or null if no fillet fits
+   */
+  static fillet(
+    first: FilletCurve,
+    firstPick: Point2D,
+    second: FilletCurve,
+    secondPick: Point2D,
+    radius: number
+  ): { first: FilletCurve; second: FilletCurve; arc: Arc2D | null } | null {
+    if (radius < 0) {
+      throw new Error(`Fillet radius cannot be negative, got: ${radius}`);
+    }
+    let best: { center: Point2D; tangent1: Point2D; tangent2: Point2D; score: number } | null = null;
+    for (const center of GeometryUtils.filletCenters(first, second, radius)) {
+      const tangent1 = GeometryUtils.filletTangentPoint(first, center, radius);
+      const tangent2 = GeometryUtils.filletTangentPoint(second, center, radius);
+      const score = tangent1.distanceTo(firstPick) + tangent2.distanceTo(secondPick);
+      if (!best || score < best.score) {
+        best = { center, tangent1, tangent2, score };
+      }
+    }
+    if (!best) {
+      return null;
+    }
+
+    const { center, tangent1, tangent2 } = best;
+    // A line keeps the part running away from the arc, or toward the pick at a sharp corner
+    const sharp = radius < ZERO_TOLERANCE;
+    const trimmed1 = first instanceof Line2D
+      ? GeometryUtils.trimLineTo(first, tangent1, sharp ? firstPick.subtract(tangent1) : tangent1.subtract(tangent2))
+      : first;
+    const trimmed2 = second instanceof Line2D
+      ? GeometryUtils.trimLineTo(second, tangent2, sharp ? secondPick.subtract(tangent2) : tangent2.subtract(tangent1))
+      : second;
+    if (!trimmed1 || !trimmed2) {
+      return null;
+    }
+    if (sharp) {
+      return { first: trimmed1, second: trimmed2, arc: null };
+    }
+
+    // The arc continues a line in its direction of travel; between circles it takes the short way
+    let clockwise: boolean;
+    if (trimmed1 instanceof Line2D) {
+      const kept = trimmed1.start.equals(tangent1) ? trimmed1.end : trimmed1.start;
+      clockwise = tangent1.subtract(kept).cross(center.subtract(tangent1)) < 0;
+    } else if (trimmed2 instanceof Line2D) {
+      const kept = trimmed2.start.equals(tangent2) ? trimmed2.end : trimmed2.start;
+      clockwise = kept.subtract(tangent2).cross(center.subtract(tangent2)) < 0;
+    } else {
+      clockwise = tangent1.subtract(center).cross(tangent2.subtract(center)) < 0;
+    }
+    const arc = GeometryUtils.arcFromCenter(center, tangent1, tangent2, clockwise);
+    return arc ? { first: trimmed1, second: trimmed2, arc } : null;
+  }
+
+  /**
+   * Get the placements of a rectangular array, the first leaving the items in place
+   * @param rows Number of rows, stepping along the grid's Y axis
+   * @param columns Number of columns, stepping along the grid's X axis
+   * @param rowSpacing Distance between rows
+   * @param columnSpacing Distance between columns
+   * @param angle Rotation of the grid axes in radians
+   * @returns One translation per item, row by row
+   */
+  static rectangularArray(rows: number, columns: number, rowSpacing: number, columnSpacing: number, angle: number): Matrix2D[] {
+    const columnStep = new Vector2D(columnSpacing, 0).rotate(angle);
+    const rowStep = new Vector2D(0, rowSpacing).rotate(angle);
+    const placements: Matrix2D[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        placements.push(Matrix2D.translation(columnStep.scale(column).add(rowStep.scale(row))));
+      }
+    }
+    return placements;
+  }
+
+  /**
+   * Get the placements of a polar array around a center, the first leaving the items in place
+   * @param center Center of the array
+   * @param count Number of items
+   * @param fillAngle Angle in radians from the first item to the last; a full turn spaces
+   *   the items evenly without repeating the first
+   * @param rotateItems Turn the items with the array, or only move them around it
+   * @param basePoint Point of the items that moves around the circle when they are not turned
+   * @returns One transform per item
+   */
+  static polarArray(center: Point2D, count: number, fillAngle: number, rotateItems: boolean, basePoint: Point2D): Matrix2D[] {
+    const fullTurn = Math.abs(fillAngle) >= 2 * Math.PI - ZERO_TOLERANCE;
+    const step = count > 1 ? fillAngle / (fullTurn ? count : count - 1) : 0;
+    return Array.from({ length: count }, (_, index) => {
+      const rotation = Matrix2D.rotation(step * index, center);
+      return rotateItems ? rotation : Matrix2D.translation(rotation.transformPoint(basePoint).subtract(basePoint));
+    });
+  }
+
+  /**
+   * Get the placements of a path array, carrying the items from the start of a path to places
+   * spaced evenly along it, the first leaving the items in place; a closed path does not repeat
+   * its start at the end
+   * @param path Path to follow
+   * @param count Number of items
+   * @param rotateItems Turn the items as the path turns, relative to its direction at the start
+   * @returns One transform per item
+   */
+  static pathArray(path: Polyline2D, count: number, rotateItems: boolean): Matrix2D[] {
+    const spacing = path.length / (path.closed ? count : Math.max(1, count - 1));
+    const start = path.evaluateAt(0);
+    const startAngle = GeometryUtils.vectorAngle(path.tangentAt(0));
+    return Array.from({ length: count }, (_, index) => {
+      const position = path.positionAtLength(spacing * index);
+      const place = path.evaluateAt(position);
+      const move = Matrix2D.translation(place.subtract(start));
+      if (!rotateItems) return move;
+      const turn = GeometryUtils.vectorAngle(path.tangentAt(position)) - startAngle;
+      return move.then(Matrix2D.rotation(turn, place));
+    });
+  }
+
+  /**
+   * Cut off the corner between two lines with a straight bevel
+   * The corner is where the infinite lines meet. Each line is trimmed or extended to the
+   * bevel, keeping the end on the side of the picked point.
+   * @param first First line
+   * @param firstPick Point picked on the first line
+   * @param second Second line
+   * @param secondPick Point picked on the second line
+   * @param size Chamfer distances, or a distance and angle; zero distances meet the lines in a sharp corner
+   * @returns The lines and the bevel from the first to the second, or null if the lines are
+   *   parallel, only one distance is zero or the bevel does not fit on a line
+   * @throws Error if a distance is negative
+   */
+  static chamfer(
+    first: Line2D,
+    firstPick: Point2D,
+    second: Line2D,
+    secondPick: Point2D,
+    size: ChamferSize
+  ): { first: Line2D; second: Line2D; bevel: Line2D | null } | null {
+    const corner = GeometryUtils.lineIntersection(first, second);
+    if (!corner) {
+      return null;
+    }
+    // Unit direction from the corner toward the kept part; a pick on the corner keeps the longer part
+    const sideOf = (line: Line2D, pick: Point2D): Vector2D => {
+      const along = pick.subtract(corner).dot(line.unitDirection);
+      if (Math.abs(along) > ZERO_TOLERANCE) {
+        return line.unitDirection.scale(Math.sign(along));
+      }
+      const far = line.start.distanceTo(corner) > line.end.distanceTo(corner) ? line.start : line.end;
+      return far.subtract(corner).unitVector;
+    };
+    const side1 = sideOf(first, firstPick);
+    const side2 = sideOf(second, secondPick);
+
+    let distance1: number;
+    let distance2: number;
+    if ('angle' in size) {
+      // Law of sines in the triangle cut off the corner
+      const remaining = Math.PI - side1.angleTo(side2) - size.angle;
+      if (size.angle <= 0 || remaining < ZERO_TOLERANCE) {
+        return null;
+      }
+      distance1 = size.distance;
+      distance2 = size.distance * Math.sin(size.angle) / Math.sin(remaining);
+    } else {
+      distance1 = size.distance1;
+      distance2 = size.distance2;
+    }
+    if (distance1 < 0 || distance2 < 0) {
+      throw new Error(`Chamfer distances cannot be negative, got: ${distance1}, ${distance2}`);
+    }
+    const sharp1 = distance1 < ZERO_TOLERANCE;
+    const sharp2 = distance2 < ZERO_TOLERANCE;
+    if (sharp1 !== sharp2) {
+      return null;
+    }
+
+    const point1 = corner.add(side1.scale(distance1));
+    const point2 = corner.add(side2.scale(distance2));
+    const trimmed1 = GeometryUtils.trimLineTo(first, point1, side1);
+    const trimmed2 = GeometryUtils.trimLineTo(second, point2, side2);
+    if (!trimmed1 || !trimmed2) {
+      return null;
+    }
+    return { first: trimmed1, second: trimmed2, bevel: sharp1 ? null : new Line2D(point1, point2) };
+  }
+
+  /**
+   * Join lines on the same infinite line into one line from end to end, bridging any gaps
+   * @param lines Lines to join; the result runs in the direction of the first
+   * @returns Joined line, or null if there are no lines or they are not all collinear
+   */
+  static joinCollinearLines(lines: readonly Line2D[]): Line2D | null {
+    if (lines.length === 0) {
+      return null;
+    }
+    const origin = lines[0].start;
+    const direction = lines[0].unitDirection;
+    const ends = lines.flatMap(line => [line.start, line.end]);
+    if (ends.some(point => Math.abs(direction.cross(point.subtract(origin))) > PIECE_TOLERANCE)) {
+      return null;
+    }
+    const offsets = ends.map(point => direction.dot(point.subtract(origin)));
+    return new Line2D(origin.add(direction.scale(Math.min(...offsets))), origin.add(direction.scale(Math.max(...offsets))));
+  }
+
+  /**
+   * Join arcs on the same circle into the smallest arc covering them all, bridging every
+   * gap between them but the largest
+   * @param arcs Arcs to join; the result runs in the direction of the first
+   * @returns Joined arc, the whole circle if the arcs cover it, or null if there are no
+   *   arcs or they are not all on one circle
+   */
+  static joinCocircularArcs(arcs: readonly Arc2D[]): Arc2D | Circle2D | null {
+    if (arcs.length === 0) {
+      return null;
+    }
+    const { center, radius, clockwise } = arcs[0];
+    if (arcs.some(arc => !arc.center.equals(center, PIECE_TOLERANCE) || Math.abs(arc.radius - radius) >= PIECE_TOLERANCE)) {
+      return null;
+    }
+
+    // Spans through increasing angles, combined while any two overlap or touch
+    const fullTurn = 2 * Math.PI;
+    const tolerance = PIECE_TOLERANCE / radius;
+    const spans = arcs.map(arc => ({
+      start: GeometryUtils.normalizeAngle(arc.clockwise ? arc.endAngle : arc.startAngle),
+      sweep: arc.sweep
+    }));
+    const combine = (first: { start: number; sweep: number }, second: { start: number; sweep: number }) => {
+      const offset = GeometryUtils.normalizeAngle(second.start - first.start);
+      return offset <= first.sweep + tolerance
+        ? { start: first.start, sweep: Math.min(fullTurn, Math.max(first.sweep, offset + second.sweep)) }
+        : null;
+    };
+    let combining = true;
+    while (combining) {
+      combining = false;
+      for (let i = 0; i < spans.length && !combining; i++) {
+        for (let j = i + 1; j < spans.length && !combining; j++) {
+          const combined = combine(spans[i], spans[j]) ?? combine(spans[j], spans[i]);
+          if (combined) {
+            spans[i] = combined;
+            spans.splice(j, 1);
+            combining = true;
+          }
+        }
+      }
+    }
+    if (spans.some(span => span.sweep >= fullTurn - tolerance)) {
+      return new Circle2D(center, radius);
+    }
+
+    spans.sort((a, b) => a.start - b.start);
+    let largest = { gap: -1, start: 0, end: 0 };
+    spans.forEach((span, index) => {
+      const next = spans[(index + 1) % spans.length];
+      const end = span.start + span.sweep;
+      const gap = GeometryUtils.normalizeAngle(next.start - end);
+      if (gap > largest.gap) largest = { gap, start: next.start, end };
+    });
+    return clockwise
+      ? new Arc2D(center, radius, largest.end, largest.start, true)
+      : new Arc2D(center, radius, largest.start, largest.end, false);
+  }
+
+  /**
+   * Join paths that meet end to end into longer paths, turning them around where needed
+   * A chain whose ends meet is closed, and consecutive segments that continue the same
+   * line or circle become one segment. Closed paths are left as they are.
+   * @param paths Paths to join; each chain grows from the first path not yet used
+   * @returns Joined paths, each with the indices of the paths it was made from
+   */
+  static joinPaths(paths: readonly Polyline2D[]): Array<{ path: Polyline2D; sources: number[] }> {
+    const meets = (a: Point2D, b: Point2D) => a.equals(b, PIECE_TOLERANCE);
+    const used = paths.map(() => false);
+    const joined: Array<{ path: Polyline2D; sources: number[] }> = [];
+    paths.forEach((first, index) => {
+      if (used[index]) return;
+      used[index] = true;
+      const sources = [index];
+      let pieces = first.segments;
+      let closed = first.closed;
+      while (!closed) {
+        const start = GeometryUtils.segmentStart(pieces[0]);
+        const end = GeometryUtils.segmentEnd(pieces[pieces.length - 1]);
+        const next = paths.findIndex((path, candidate) => !used[candidate] && !path.closed &&
+          [path.startPoint, path.endPoint].some(point => meets(point, start) || meets(point, end)));
+        if (next < 0) break;
+        used[next] = true;
+        sources.push(next);
+        const path = paths[next];
+        if (meets(path.startPoint, end)) {
+          pieces = [...pieces, ...path.segments];
+        } else if (meets(path.endPoint, end)) {
+          pieces = [...pieces, ...path.reversed().segments];
+        } else if (meets(path.endPoint, start)) {
+          pieces = [...path.segments, ...pieces];
+        } else {
+          pieces = [...path.reversed().segments, ...pieces];
+        }
+        closed = meets(GeometryUtils.segmentEnd(pieces[pieces.length - 1]), GeometryUtils.segmentStart(pieces[0]));
+      }
+      joined.push({
+        path: sources.length > 1 ? GeometryUtils.pathFromPieces(GeometryUtils.mergeContinuingPieces(pieces, closed), closed) : first,
+        sources
+      });
+    });
+    return joined;
+  }
+
+  /**
+   * Possible centers of a fillet arc: where the curves' offsets by the radius meet
+   */
+  private static filletCenters(first: FilletCurve, second: FilletCurve, radius: number): Point2D[] {
+    // A circle is touched from outside, from inside, or wrapped by a larger fillet
+    const offsets = (curve: FilletCurve): FilletCurve[] => curve instanceof Line2D
+      ? [curve.offset(radius), curve.offset(-radius)]
+      : [curve.radius + radius, Math.abs(curve.radius - radius)]
+        .filter(offsetRadius => offsetRadius > ZERO_TOLERANCE)
+        .map(offsetRadius => new Circle2D(curve.center, offsetRadius));
+
+    return offsets(first).flatMap(offset1 => offsets(second).flatMap(offset2 => {
+      if (offset1 instanceof Line2D && offset2 instanceof Line2D) {
+        const point = GeometryUtils.lineIntersection(offset1, offset2);
+        return point ? [point] : [];
+      }
+      if (offset1 instanceof Line2D) {
+        return GeometryUtils.infiniteLineCircleIntersection(offset1, offset2 as Circle2D);
+      }
+      if (offset2 instanceof Line2D) {
+        return GeometryUtils.infiniteLineCircleIntersection(offset2, offset1);
+      }
+      return GeometryUtils.circleCircleIntersection(offset1, offset2);
+    }));
+  }
+
+  /**
+   * Point where a fillet arc around a center touches a line or circle
+   */
+  private static filletTangentPoint(curve: FilletCurve, center: Point2D, radius: number): Point2D {
+    if (curve instanceof Line2D) {
+      return GeometryUtils.projectOntoLine(curve, center);
+    }
+    const outward = center.subtract(curve.center);
+    const distance = outward.magnitude;
+    const wraps = radius > curve.radius &&
+      Math.abs(distance - (radius - curve.radius)) < Math.abs(distance - (radius + curve.radius));
+    return curve.center.add(outward.unitVector.scale(wraps ? -curve.radius : curve.radius));
+  }
+
+  /**
+   * Trim or extend a line so it ends at a point on its infinite line
+   * @param point New end point
+   * @param keep Direction from the point toward the part of the line to keep
+   * @returns Line from its farthest end in that direction to the point, or null if no part lies that way
+   */
+  private static trimLineTo(line: Line2D, point: Point2D, keep: Vector2D): Line2D | null {
+    const reachStart = line.start.subtract(point).dot(keep);
+    const reachEnd = line.end.subtract(point).dot(keep);
+    if (Math.max(reachStart, reachEnd) < PIECE_TOLERANCE * keep.magnitude) {
+      return null;
+    }
+    return reachEnd >= reachStart ? new Line2D(point, line.end) : new Line2D(line.start, point);
+  }
+
+  /**
+   * Get the foot of the perpendicular from a point to the infinite line through a segment
+   */
+  private static projectOntoLine(line: Line2D, point: Point2D): Point2D {
+    const direction = line.unitDirection;
+    return line.start.add(direction.scale(point.subtract(line.start).dot(direction)));
+  }
+
+  /**
+   * Find where the infinite line through a segment crosses a circle
+   */
+  private static infiniteLineCircleIntersection(line: Line2D, circle: Circle2D): Point2D[] {
+    const foot = GeometryUtils.projectOntoLine(line, circle.center);
+    const distance = foot.distanceTo(circle.center);
+    if (distance > circle.radius + ZERO_TOLERANCE) {
+      return [];
+    }
+    const halfChord = Math.sqrt(Math.max(0, circle.radius * circle.radius - distance * distance));
+    if (halfChord < ZERO_TOLERANCE) {
+      return [foot];
+    }
+    const direction = line.unitDirection;
+    return [foot.add(direction.scale(-halfChord)), foot.add(direction.scale(halfChord))];
+  }
+
+  /**
+   * Calculate the signed area enclosed by a closed outline (shoelace formula)
+   * @param vertices Outline vertices; the last connects back to the first
+   * @returns Area, positive when the vertices run counter-clockwise
+   */
+  static polygonSignedArea(vertices: readonly Point2D[]): number {
+    let twiceArea = 0;
+    vertices.forEach((vertex, index) => {
+      const next = vertices[(index + 1) % vertices.length];
+      twiceArea += vertex.x * next.y - next.x * vertex.y;
+    });
+    return twiceArea / 2;
+  }
+
+  /**
+   * Calculate the area enclosed by a closed outline
+   * @param vertices Outline vertices; the last connects back to the first
+   * @returns Non-negative area
+   */
+  static polygonArea(vertices: readonly Point2D[]): number {
+    return Math.abs(GeometryUtils.polygonSignedArea(vertices));
+  }
+
+  /**
+   * Calculate the length of a closed outline
+   * @param vertices Outline vertices; the last connects back to the first
+   * @returns Sum of all edge lengths
+   */
+  static polygonPerimeter(vertices: readonly Point2D[]): number {
+    return vertices.reduce((total, vertex, index) => total + vertex.distanceTo(vertices[(index + 1) % vertices.length]), 0);
+  }
+
+  /**
+   * Calculate the center of mass of the area enclosed by a closed outline
+   * @param vertices Outline vertices; the last connects back to the first
+   * @returns Centroid, or the average of the vertices when the area is zero
+   */
+  static polygonCentroid(vertices: readonly Point2D[]): Point2D {
+    const area = GeometryUtils.polygonSignedArea(vertices);
+    if (Math.abs(area) < ZERO_TOLERANCE) {
+      const sum = vertices.reduce((total, vertex) => new Point2D(total.x + vertex.x, total.y + vertex.y), Point2D.ORIGIN);
+      return sum.scale(1 / vertices.length);
+    }
+    // Measure from the first vertex to keep the products small for outlines far from the origin
+    const origin = vertices[0];
+    let x = 0;
+    let y = 0;
+    vertices.forEach((vertex, index) => {
+      const a = vertex.subtract(origin);
+      const b = vertices[(index + 1) % vertices.length].subtract(origin);
+      const cross = a.cross(b);
+      x += (a.x + b.x) * cross;
+      y += (a.y + b.y) * cross;
+    });
+    return new Point2D(origin.x + x / (6 * area), origin.y + y / (6 * area));
+  }
+
+  /**
+   * Get the direction in which a closed outline runs
+   * @param vertices Outline vertices; the last connects back to the first
+   * @returns Winding; degenerate outlines with zero area count as counter-clockwise
+   */
+  static polygonWinding(vertices: readonly Point2D[]): PolygonWinding {
+    return GeometryUtils.polygonSignedArea(vertices) < 0 ? 'clockwise' : 'counter-clockwise';
+  }
+
+  /**
+   * Check whether a closed outline is convex
+   * Every corner must turn the same way and the turns must add up to one full turn,
+   * which rules out self-intersecting outlines such as a pentagram. Straight corners are allowed.
+   * @param vertices Outline vertices; the last connects back to the first
+   * @returns True for a convex, simple outline
+   */
+  static isConvexPolygon(vertices: readonly Point2D[]): boolean {
+    if (vertices.length < 3) {
+      return false;
+    }
+    let sign = 0;
+    let totalTurn = 0;
+    for (let i = 0; i < vertices.length; i++) {
+      const incoming = vertices[i].subtract(vertices[(i + vertices.length - 1) % vertices.length]);
+      const outgoing = vertices[(i + 1) % vertices.length].subtract(vertices[i]);
+      const cross = incoming.cross(outgoing);
+      const turn = Math.atan2(cross, incoming.dot(outgoing));
+      // Doubling back along the same line is not a convex corner
+      if (Math.PI - Math.abs(turn) < 1e-9) {
+        return false;
+      }
+      if (Math.abs(cross) > ZERO_TOLERANCE * incoming.magnitude * outgoing.magnitude) {
+        if (sign !== 0 && Math.sign(cross) !== sign) {
+          return false;
+        }
+        sign = Math.sign(cross);
+      }
+      totalTurn += turn;
+    }
+    return sign !== 0 && Math.abs(Math.abs(totalTurn) - 2 * Math.PI) < 1e-6;
+  }
+
+  /**
+   * Check if a point lies inside a closed outline, using the even-odd rule
+   * @param point Point to test
+   * @param vertices Outline vertices; the last connects back to the first
+   * @returns True if the point is inside or within tolerance of an edge
+   */
+  static pointInPolygon(point: Point2D, vertices: readonly Point2D[]): boolean {
+    let inside = false;
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+      const a = vertices[i];
+      const b = vertices[j];
+      if (new Line2D(a, b).distanceToPoint(point) < ZERO_TOLERANCE) {
+        return true;
+      }
+      // Count crossings of a ray running in the +X direction
+      if ((a.y > point.y) !== (b.y > point.y)) {
+        const crossingX = a.x + ((point.y - a.y) / (b.y - a.y)) * (b.x - a.x);
+        if (crossingX > point.x) {
+          inside = !inside;
+        }
+      }
+    }
+    return inside;
+  }
+
   /**
    * Check if two line segments intersect
    * @param line1 First line segment
@@ -743,7 +4174,7 @@ export class GeometryUtils {
    * @returns Array of intersection points with metadata
    */
   static findAllIntersections(
-    elements: Array<{ id: string; type: string; data: Point2D | Line2D | Circle2D }>
+    elements: Array<{ id: string; type: string; data: Point2D | Line2D | Circle2D | Arc2D | Ellipse2D | EllipticalArc2D | Polyline2D | Polygon2D | CubicBezier2D | Spline2D }>
   ): Array<{ point: Point2D; elements: string[]; type: string }> {
     const intersections: Array<{ point: Point2D; elements: string[]; type: string }> = [];
     
@@ -925,7 +4356,8 @@ export class CogWheel {
     public readonly center: Point2D,
     public readonly outerRadius: number,
     public readonly innerRadius: number = outerRadius * 0.6,
-    public readonly teethCount: number = 12
+    public readonly teethCount: number = 12,
+    public readonly rotation: number = 0 // Angle in radians of the first tooth
   ) {}
 
   /**
@@ -937,7 +4369,7 @@ export class CogWheel {
     const angleStep = (2 * Math.PI) / this.teethCount
     
     for (let i = 0; i < this.teethCount; i++) {
-      const baseAngle = i * angleStep
+      const baseAngle = this.rotation + i * angleStep
       
       // Each tooth has 4 points: outer base, outer tip, outer base, inner valley
       const angles = [
@@ -1033,6 +4465,7 @@ export class CogWheel {
     return this.center.equals(other.center) && 
            Math.abs(this.outerRadius - other.outerRadius) < ZERO_TOLERANCE &&
            Math.abs(this.innerRadius - other.innerRadius) < ZERO_TOLERANCE &&
-           this.teethCount === other.teethCount
+           this.teethCount === other.teethCount &&
+           Math.abs(this.rotation - other.rotation) < ZERO_TOLERANCE
   }
 } 
\ No newline at end of file
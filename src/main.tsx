@@ -8,15 +8,20 @@ import { ThemeProvider } from './components/theme-provider'
 import './index.css'
 
 import { EuclidSandbox } from './pages/EuclidSandbox'
+import { DrawingLibrary } from './pages/DrawingLibrary'
 import { NotFound } from './pages/NotFound'
 
 /**
- * Simplified router configuration with EuclidSandbox as the single main page.
- * Clean structure focused on the 2D geometry application.
+ * Router configuration with EuclidSandbox as the main page.
+ * Saved drawings open at /d/:id and are listed in the library.
  */
 const router = createBrowserRouter([
-  // Main geometry application as root
+  // Main geometry application as root (new, unsaved drawing)
   { path: '/', element: <EuclidSandbox /> },
+  // Drawing from the local library
+  { path: '/d/:id', element: <EuclidSandbox /> },
+  // Library of saved drawings
+  { path: '/library', element: <DrawingLibrary /> },
   // Catch-all not found page
   { path: '*', element: <NotFound /> },
 ])
@@ -0,0 +1,158 @@
+/**
+ * DrawingLibrary - Local library of saved drawings
+ * Lists drawings stored in the browser with thumbnails and basic file management
+ */
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Copy, FilePlus, Pencil, Trash2 } from 'lucide-react'
+import type { DrawingDocument } from '@/types/geometry'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Logotype } from '@/components/ui/logotype'
+import { DrawingThumbnail } from '@/components/library/DrawingThumbnail'
+import { useDrawingLibrary } from '@/hooks/useDrawingLibrary'
+import { deserializeElementList } from '@/io/document'
+
+/**
+ * Format an ISO timestamp for display
+ */
+function formatDate(isoDate: string): string {
+  const date = new Date(isoDate)
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+}
+
+interface DrawingCardProps {
+  drawing: DrawingDocument
+  onRename: (id: string, name: string) => void
+  onDuplicate: (id: string) => void
+  onDelete: (id: string) => void
+}
+
+/**
+ * Card showing a single library drawing
+ */
+function DrawingCard({ drawing, onRename, onDuplicate, onDelete }: DrawingCardProps) {
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [draftName, setDraftName] = useState(drawing.metadata.name)
+  const elements = useMemo(() => deserializeElementList(drawing.elements), [drawing.elements])
+  const { id, name, createdAt, modifiedAt } = drawing.metadata
+
+  const commitRename = () => {
+    setIsRenaming(false)
+    onRename(id, draftName)
+  }
+
+  return (
+    <Card className="overflow-hidden">
+      <Link to={`/d/${id}`} className="block border-b bg-muted/30">
+        <DrawingThumbnail elements={elements} className="h-40 w-full" />
+      </Link>
+      <CardContent className="p-3 space-y-2">
+        {isRenaming ? (
+          <Input
+            autoFocus
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename()
+              if (e.key === 'Escape') {
+                setDraftName(name)
+                setIsRenaming(false)
+              }
+            }}
+            className="h-7 text-sm"
+          />
+        ) : (
+          <Link to={`/d/${id}`} className="block font-medium text-sm truncate hover:underline" title={name}>
+            {name}
+          </Link>
+        )}
+        <div className="text-xs text-muted-foreground space-y-0.5">
+          <div>Created {formatDate(createdAt)}</div>
+          <div>Modified {formatDate(modifiedAt)}</div>
+          <div>{elements.length} element{elements.length === 1 ? '' : 's'}</div>
+        </div>
+        <div className="flex gap-1">
+          <Button variant="outline" size="sm" className="h-7 px-2" title="Rename" onClick={() => {
+            setDraftName(name)
+            setIsRenaming(true)
+          }}>
+            <Pencil className="h-3 w-3" />
+          </Button>
+          <Button variant="outline" size="sm" className="h-7 px-2" title="Duplicate" onClick={() => onDuplicate(id)}>
+            <Copy className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 px-2 text-red-600 hover:text-red-700"
+            title="Delete"
+            onClick={() => {
+              if (confirm(`Delete "${name}"? This cannot be undone.`)) {
+                onDelete(id)
+              }
+            }}
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Main DrawingLibrary page component
+ */
+export function DrawingLibrary() {
+  const { drawings, isLoading, error, renameDrawing, duplicateDrawing, deleteDrawing } = useDrawingLibrary()
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="flex items-center justify-between border-b px-6 py-3">
+        <Link to="/" className="flex items-center gap-2">
+          <div className="flex aspect-square size-8 items-center justify-center rounded-lg bg-primary text-primary-foreground">
+            <Logotype />
+          </div>
+          <span className="font-semibold">Drawing Bored</span>
+          <span className="text-sm text-muted-foreground">Library</span>
+        </Link>
+        <Button asChild size="sm">
+          <Link to="/">
+            <FilePlus className="h-4 w-4" />
+            New Drawing
+          </Link>
+        </Button>
+      </header>
+
+      <main className="p-6">
+        {error && (
+          <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-700">
+            Library storage failed: {error}
+          </div>
+        )}
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading drawings...</div>
+        ) : drawings.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No saved drawings yet. Use File &rarr; Save to Library in the editor to keep a drawing here.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+            {drawings.map(drawing => (
+              <DrawingCard
+                key={drawing.metadata.id}
+                drawing={drawing}
+                onRename={renameDrawing}
+                onDuplicate={duplicateDrawing}
+                onDelete={deleteDrawing}
+              />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -3,13 +3,43 @@
  * CAD-style interface with full-size canvas and floating controls
  * Built with React and TypeScript for mathematical visualization
  */
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { useLocation, useNavigate, useParams } from 'react-router-dom'
 import { ModularGeometryCanvas } from '@/components/canvas/ModularGeometryCanvas'
-import type { GeometricElement, ToolType } from '@/types/geometry'
+import type { GeometricElement, ToolType, ViewportState, DynamicInputState, DocumentMetadata, LayerDefinition, DrawingState, AutosaveSnapshot, ImportSummary } from '@/types/geometry'
+import { GEOMETRY_CONSTANTS } from '@/types/geometry'
 import { Point2D, Line2D, Circle2D, GeometryUtils } from '@/lib/geometry'
 import { AppSidebar } from '@/components/layout/app-sidebar'
 import { SidebarProvider, SidebarInset, useSidebar } from '@/components/ui/sidebar'
 import { WelcomeDialog } from '@/components/WelcomeDialog'
+import { RecoveryDialog } from '@/components/RecoveryDialog'
+import { SvgExportDialog, type SvgExportChoices } from '@/components/SvgExportDialog'
+import { ImportSummaryDialog } from '@/components/ImportSummaryDialog'
+import { RasterExportDialog, type RasterExportChoices } from '@/components/RasterExportDialog'
+import { PlotDialog } from '@/components/PlotDialog'
+import { ShareDialog } from '@/components/ShareDialog'
+import { useAutosave } from '@/hooks/useAutosave'
+import {
+  createEmptyDrawing,
+  DEFAULT_VIEWPORT,
+  deserializeDocument,
+  ensureLayers,
+  deserializeElementList,
+  generateDocumentId,
+  parseDocument,
+  serializeDocument,
+  serializeElement,
+  stringifyDocument
+} from '@/io/document'
+import { downloadFile, pickFile, printSvgPage, toFileName } from '@/io/files'
+import { getLibraryDrawing, putLibraryDrawing } from '@/io/storage'
+import { exportToSvg, getExportArea, type ExportArea } from '@/io/svgExport'
+import { exportToRaster } from '@/io/rasterExport'
+import { importSvg } from '@/io/svgImport'
+import { exportToDxf, importDxf } from '@/io/dxf'
+import { decodeSharePayload, parseShareFragment } from '@/io/shareLink'
+import { Button } from '@/components/ui/button'
+import { Eye } from 'lucide-react'
 
 function EuclidSandboxContent() {
   const { toggleSidebar, open, openMobile } = useSidebar()
@@ -20,6 +50,36 @@ function EuclidSandboxContent() {
   const [currentConstruction, setCurrentConstruction] = useState<string | null>(null)
   const [showIntersections, setShowIntersections] = useState<boolean>(true)
   
+  // Document state - metadata and layers travel with the drawing when saved
+  const [documentMetadata, setDocumentMetadata] = useState<DocumentMetadata>(() => createEmptyDrawing().metadata)
+  const [layers, setLayers] = useState<LayerDefinition[]>(() => createEmptyDrawing().layers)
+  
+  // Library drawing from the URL (/d/:id); null while editing an unsaved drawing
+  const { id: drawingId } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const location = useLocation()
+  const libraryDrawingIdRef = useRef<string | null>(null)
+  
+  // Set while viewing a drawing opened from a read-only share link
+  const [readOnly, setReadOnly] = useState(false)
+  
+  // Viewport reported by the canvas, and a viewport to push into the canvas when a drawing is opened
+  const viewportRef = useRef<ViewportState>(DEFAULT_VIEWPORT)
+  const canvasSizeRef = useRef({ width: 0, height: 0 })
+  const [restoredViewport, setRestoredViewport] = useState<ViewportState | undefined>(undefined)
+  const handleViewportChange = useCallback((viewport: ViewportState, canvasSize: { width: number; height: number }) => {
+    viewportRef.current = viewport
+    canvasSizeRef.current = canvasSize
+  }, [])
+  
+  // Selection reported by the canvas, used by exports that can be limited to the selection
+  const [selectedElementIds, setSelectedElementIds] = useState<string[]>([])
+  const [isSvgExportOpen, setIsSvgExportOpen] = useState(false)
+  const [isRasterExportOpen, setIsRasterExportOpen] = useState(false)
+  const [isPlotOpen, setIsPlotOpen] = useState(false)
+  const [sharedDrawing, setSharedDrawing] = useState<DrawingState | null>(null)
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null)
+  
   // Canvas settings state
   const [canvasSettings, setCanvasSettings] = useState({
     showGrid: true,
@@ -32,10 +92,32 @@ function EuclidSandboxContent() {
   })
   
   // Dynamic input state
-  const [dynamicInput, setDynamicInput] = useState({
+  const [dynamicInput, setDynamicInput] = useState<DynamicInputState>({
     showDynamicInput: false,
-    dynamicDistance: 100,
-    dynamicAngle: 0
+    dynamicDistance: GEOMETRY_CONSTANTS.DEFAULT_DYNAMIC_DISTANCE,
+    dynamicAngle: 0,
+    polygonSides: GEOMETRY_CONSTANTS.DEFAULT_POLYGON_SIDES,
+    polygonCircumscribed: false,
+    scaleFactor: 1,
+    scaleFactorY: 1,
+    nonUniformScale: false,
+    useReference: false,
+    keepOriginal: false,
+    offsetJoin: 'miter',
+    filletRadius: GEOMETRY_CONSTANTS.DEFAULT_FILLET_RADIUS,
+    chamferDistance1: GEOMETRY_CONSTANTS.DEFAULT_CHAMFER_DISTANCE,
+    chamferDistance2: GEOMETRY_CONSTANTS.DEFAULT_CHAMFER_DISTANCE,
+    chamferAngle: GEOMETRY_CONSTANTS.DEFAULT_CHAMFER_ANGLE,
+    chamferUseAngle: false,
+    arrayKind: 'rectangular',
+    arrayRows: GEOMETRY_CONSTANTS.DEFAULT_ARRAY_ROWS,
+    arrayColumns: GEOMETRY_CONSTANTS.DEFAULT_ARRAY_COLUMNS,
+    arrayRowSpacing: GEOMETRY_CONSTANTS.DEFAULT_ARRAY_SPACING,
+    arrayColumnSpacing: GEOMETRY_CONSTANTS.DEFAULT_ARRAY_SPACING,
+    arrayAngle: 0,
+    arrayCount: GEOMETRY_CONSTANTS.DEFAULT_ARRAY_COUNT,
+    arrayFillAngle: 360,
+    arrayRotateItems: true
   })
   
   // Theme state
@@ -134,6 +216,7 @@ function EuclidSandboxContent() {
    * Demonstrate a construction by creating example elements
    */
   const demonstrateConstruction = (constructionId: string) => {
+    setReadOnly(false)
     setCurrentConstruction(constructionId)
     setElements([]) // Clear current elements
     
@@ -242,6 +325,294 @@ function EuclidSandboxContent() {
     }
   }
 
+  /**
+   * Snapshot the current drawing for saving
+   */
+  const getDrawingState = (): DrawingState => ({
+    metadata: { ...documentMetadata, modifiedAt: new Date().toISOString() },
+    canvasSettings,
+    viewport: viewportRef.current,
+    layers,
+    elements
+  })
+
+  /**
+   * Replace the current drawing with a loaded one and start a fresh undo history
+   * @param libraryId Library id the drawing was loaded from, or null for unsaved drawings
+   */
+  const loadDrawing = useCallback((drawing: DrawingState, libraryId: string | null) => {
+    libraryDrawingIdRef.current = libraryId
+    setReadOnly(false)
+    setCurrentConstruction(null)
+    setDocumentMetadata(drawing.metadata)
+    setLayers(drawing.layers)
+    setCanvasSettings(drawing.canvasSettings)
+    setRestoredViewport(drawing.viewport)
+    setElements(drawing.elements)
+    setHistory([[...drawing.elements]])
+    setHistoryIndex(0)
+  }, [])
+
+  // Load the drawing named in the URL, or start a new one when leaving a library drawing
+  useEffect(() => {
+    if (!drawingId) {
+      if (libraryDrawingIdRef.current !== null) {
+        loadDrawing(createEmptyDrawing(), null)
+      }
+      return
+    }
+    if (drawingId === libraryDrawingIdRef.current) return
+
+    let cancelled = false
+    getLibraryDrawing(drawingId)
+      .then(document => {
+        if (cancelled) return
+        if (!document) {
+          alert('This drawing was not found in your library.')
+          navigate('/', { replace: true })
+          return
+        }
+        const { drawing, warnings } = deserializeDocument(document)
+        loadDrawing(drawing, drawingId)
+        if (warnings.length > 0) {
+          console.warn('Drawing loaded with warnings:', warnings)
+          alert(`Loaded with ${warnings.length} skipped element(s):\n${warnings.join('\n')}`)
+        }
+      })
+      .catch(error => {
+        if (!cancelled) alert(`Could not load drawing: ${(error as Error).message}`)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [drawingId, loadDrawing, navigate])
+
+  // Open a drawing shared through the URL fragment (/#share=...), then drop the fragment
+  useEffect(() => {
+    const fragment = parseShareFragment(location.hash)
+    if (!fragment) return
+
+    let cancelled = false
+    decodeSharePayload(fragment.payload)
+      .then(({ drawing, warnings }) => {
+        if (cancelled) return
+        // The recipient gets a copy, so saving it never overwrites the sender's library entry
+        loadDrawing({ ...drawing, metadata: { ...drawing.metadata, id: generateDocumentId() } }, null)
+        setReadOnly(fragment.readOnly)
+        if (warnings.length > 0) {
+          console.warn('Shared drawing loaded with warnings:', warnings)
+          alert(`Shared drawing opened with ${warnings.length} skipped element(s):\n${warnings.join('\n')}`)
+        }
+      })
+      .catch(error => {
+        if (!cancelled) alert(`Could not open shared drawing: ${(error as Error).message}`)
+      })
+      .finally(() => {
+        if (!cancelled) navigate('/', { replace: true })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [location.hash, loadDrawing, navigate])
+
+  // Autosave the drawing together with the undo history up to its current head
+  // A read-only shared drawing is not autosaved so it never replaces the working drawing
+  const { recoveredSnapshot, acceptRecovery, discardRecovery, markSaved } = useAutosave(() => {
+    const historyStart = Math.max(0, historyIndex + 1 - GEOMETRY_CONSTANTS.AUTOSAVE_HISTORY_LIMIT)
+    return {
+      document: serializeDocument(getDrawingState()),
+      history: history.slice(historyStart, historyIndex + 1).map(entry => entry.map(serializeElement)),
+      historyIndex: historyIndex - historyStart
+    }
+  }, GEOMETRY_CONSTANTS.AUTOSAVE_INTERVAL_MS, !readOnly)
+
+  /**
+   * Restore an autosaved drawing and its undo history
+   */
+  const handleRestoreSnapshot = (snapshot: AutosaveSnapshot) => {
+    try {
+      const { drawing } = deserializeDocument(snapshot.document)
+      const restoredHistory = snapshot.history.map(entry => deserializeElementList(entry))
+      const restoredIndex = Math.min(snapshot.historyIndex, restoredHistory.length - 1)
+
+      const isCurrentDrawing = drawing.metadata.id === drawingId
+      loadDrawing(drawing, isCurrentDrawing ? drawingId : null)
+      if (!isCurrentDrawing && drawingId) {
+        navigate('/')
+      }
+      if (restoredIndex >= 0) {
+        setHistory(restoredHistory)
+        setHistoryIndex(restoredIndex)
+      }
+    } catch (error) {
+      alert(`Could not restore drawing: ${(error as Error).message}`)
+    }
+    acceptRecovery()
+  }
+
+  /**
+   * Handle File menu actions from the sidebar
+   */
+  const handleFileAction = async (actionId: string) => {
+    switch (actionId) {
+      case 'save': {
+        const drawing = getDrawingState()
+        if (libraryDrawingIdRef.current === null) {
+          const name = prompt('Save drawing as:', drawing.metadata.name)
+          if (name === null) return
+          drawing.metadata.name = name.trim() || drawing.metadata.name
+        }
+        const document = serializeDocument(drawing)
+        try {
+          await putLibraryDrawing(document)
+        } catch (error) {
+          alert(`Could not save drawing: ${(error as Error).message}`)
+          return
+        }
+        markSaved(document)
+        setDocumentMetadata(drawing.metadata)
+        if (libraryDrawingIdRef.current !== drawing.metadata.id) {
+          libraryDrawingIdRef.current = drawing.metadata.id
+          navigate(`/d/${drawing.metadata.id}`)
+        }
+        break
+      }
+      case 'library': {
+        navigate('/library')
+        break
+      }
+      case 'download': {
+        const drawing = getDrawingState()
+        setDocumentMetadata(drawing.metadata)
+        downloadFile(stringifyDocument(drawing), toFileName(drawing.metadata.name, 'json'), 'application/json')
+        markSaved(serializeDocument(drawing))
+        break
+      }
+      case 'import-svg': {
+        const file = await pickFile('.svg,image/svg+xml')
+        if (!file) return
+        try {
+          const { elements: imported, summary } = importSvg(await file.text(), file.name)
+          addImportedElements(imported)
+          setImportSummary(summary)
+        } catch (error) {
+          alert(`Could not import SVG: ${(error as Error).message}`)
+        }
+        break
+      }
+      case 'export-svg': {
+        setIsSvgExportOpen(true)
+        break
+      }
+      case 'export-image': {
+        setIsRasterExportOpen(true)
+        break
+      }
+      case 'plot': {
+        setIsPlotOpen(true)
+        break
+      }
+      case 'share': {
+        setSharedDrawing(getDrawingState())
+        break
+      }
+      case 'import-dxf': {
+        const file = await pickFile('.dxf')
+        if (!file) return
+        try {
+          const { elements: imported, layers: importedLayers, summary } = importDxf(await file.text(), file.name)
+          addImportedElements(imported, importedLayers)
+          setImportSummary(summary)
+        } catch (error) {
+          alert(`Could not import DXF: ${(error as Error).message}`)
+        }
+        break
+      }
+      case 'export-dxf': {
+        downloadFile(exportToDxf(elements, layers), toFileName(documentMetadata.name, 'dxf'), 'application/dxf')
+        break
+      }
+      case 'open': {
+        const file = await pickFile('.json,application/json')
+        if (!file) return
+        try {
+          const { drawing, warnings } = parseDocument(await file.text())
+          loadDrawing(drawing, null)
+          if (drawingId) {
+            navigate('/')
+          }
+          if (warnings.length > 0) {
+            console.warn('Drawing opened with warnings:', warnings)
+            alert(`Opened with ${warnings.length} skipped element(s):\n${warnings.join('\n')}`)
+          }
+        } catch (error) {
+          alert(`Could not open drawing: ${(error as Error).message}`)
+        }
+        break
+      }
+    }
+  }
+
+  /**
+   * Append elements from an imported file as a single undo step
+   * Layers referenced by the imported elements are added to the layer table
+   */
+  const addImportedElements = (imported: GeometricElement[], importedLayers: LayerDefinition[] = []) => {
+    if (imported.length === 0) return
+    setReadOnly(false)
+    const layerNames = [
+      ...importedLayers.map(layer => layer.name),
+      ...imported.flatMap(element => element.layer ? [element.layer] : [])
+    ]
+    setLayers(prev => ensureLayers(prev, layerNames, importedLayers))
+    setElements(prev => [...prev, ...imported])
+  }
+
+  /**
+   * Write the current drawing (or selection) to an SVG file
+   */
+  const handleSvgExport = ({ selectionOnly, fitToContent }: SvgExportChoices) => {
+    setIsSvgExportOpen(false)
+    const svg = exportToSvg(elements, {
+      selectedElementIds: selectionOnly ? selectedElementIds : undefined,
+      fitToContent,
+      layers,
+      title: documentMetadata.name
+    })
+    downloadFile(svg, toFileName(documentMetadata.name, 'svg'), 'image/svg+xml')
+  }
+
+  /**
+   * World-space area currently visible on the canvas
+   */
+  const getViewArea = (): ExportArea => {
+    const { x, y, scale } = viewportRef.current
+    const { width, height } = canvasSizeRef.current
+    return { x: -x / scale, y: -y / scale, width: width / scale, height: height / scale }
+  }
+
+  /**
+   * Render the drawing (or the current view) to a PNG or JPEG file
+   */
+  const handleRasterExport = async ({ format, area, dpi, background, showGrid }: RasterExportChoices) => {
+    setIsRasterExportOpen(false)
+    try {
+      const blob = await exportToRaster(elements, {
+        format,
+        dpi,
+        area: area === 'view' ? getViewArea() : undefined,
+        background: background === 'theme' ? getComputedStyle(document.body).backgroundColor : undefined,
+        gridSize: showGrid ? canvasSettings.gridSize : undefined,
+        layers
+      })
+      downloadFile(blob, toFileName(documentMetadata.name, format === 'jpeg' ? 'jpg' : 'png'), blob.type)
+    } catch (error) {
+      alert(`Could not export image: ${(error as Error).message}`)
+    }
+  }
+
   // Tool selection handler - now handles all tool groups
   const handleToolSelect = (toolId: string) => {
     // Handle all tool types including edit and measurement tools
@@ -250,11 +621,30 @@ function EuclidSandboxContent() {
 
   /**
    * Handle element addition from the canvas
+   * Elements pasted from another drawing may bring their own layer
    */
   const handleElementAdded = (element: GeometricElement) => {
+    const { layer } = element
+    if (layer) {
+      setLayers(prev => ensureLayers(prev, [layer]))
+    }
     setElements(prev => [...prev, element])
   }
 
+  /**
+   * Handle an element edited in place on the canvas, such as a dragged polyline vertex
+   */
+  const handleElementUpdated = (element: GeometricElement) => {
+    setElements(prev => prev.map(el => el.id === element.id ? element : el))
+  }
+
+  /**
+   * Handle an element removed on the canvas by an edit such as trimming
+   */
+  const handleElementDeleted = (elementId: string) => {
+    setElements(prev => prev.filter(el => el.id !== elementId))
+  }
+
   /**
    * Handle canvas click events
    */
@@ -279,9 +669,6 @@ function EuclidSandboxContent() {
       // Handle Ctrl combinations first
       if (event.ctrlKey || event.metaKey) {
         switch (event.key.toLowerCase()) {
-          case 'c':
-            setSelectedTool('copy')
-            break
           case 'z':
             if (event.shiftKey) {
               // Ctrl+Shift+Z = Redo
@@ -311,6 +698,9 @@ function EuclidSandboxContent() {
         return
       }
 
+      // The canvas already handled this key, e.g. C closing a polyline
+      if (event.defaultPrevented) return
+
       // Regular tool shortcuts (CAD-style)
       switch (event.key.toLowerCase()) {
         // Draw tools
@@ -318,26 +708,53 @@ function EuclidSandboxContent() {
           setSelectedTool('line')
           break
         case 'c':
-          setSelectedTool('circle')
+          if (event.shiftKey) {
+            setSelectedTool('arc-center') // CA shortcut
+          } else {
+            setSelectedTool('circle')
+          }
           break
         case 'p':
-          setSelectedTool('point')
+          if (event.shiftKey) {
+            setSelectedTool('polyline') // PL shortcut
+          } else {
+            setSelectedTool('point')
+          }
           break
         case 't':
           setSelectedTool('triangle')
           break
+        case 'n':
+          if (event.shiftKey) {
+            setSelectedTool('polygon') // PG shortcut
+          } else {
+            setSelectedTool('regular-polygon')
+          }
+          break
         case 'b':
-          setSelectedTool('perpendicular')
+          if (event.shiftKey) {
+            setSelectedTool('bezier') // BZ shortcut
+          } else {
+            setSelectedTool('perpendicular')
+          }
           break
         // Modify tools
         case 's':
-          setSelectedTool('select')
+          if (event.shiftKey) {
+            setSelectedTool('spline') // SPL shortcut
+          } else {
+            setSelectedTool('select')
+          }
           break
         case 'm':
           setSelectedTool('move')
           break
         case 'e':
-          setSelectedTool('delete')
+          if (event.shiftKey) {
+            setSelectedTool('ellipse') // EL shortcut
+          } else {
+            setSelectedTool('delete')
+          }
           break
         // Properties tools
         case 'r':
@@ -355,13 +772,32 @@ function EuclidSandboxContent() {
         case 'a':
           if (event.shiftKey) {
             setSelectedTool('angle') // AN shortcut
+          } else {
+            setSelectedTool('arc')
           }
           break
         case 'o':
           setSelectedTool('offset')
           break
         case 'f':
-          setSelectedTool('fillet')
+          if (event.shiftKey) {
+            setSelectedTool('chamfer') // CHA shortcut
+          } else {
+            setSelectedTool('fillet')
+          }
+          break
+        case 'x':
+          if (event.shiftKey) {
+            setSelectedTool('explode') // Shift+X
+          } else {
+            setSelectedTool('extend') // X
+          }
+          break
+        case 'k':
+          setSelectedTool('break') // K
+          break
+        case 'j':
+          setSelectedTool('join') // J
           break
         case 'g':
           if (event.shiftKey) {
@@ -381,6 +817,7 @@ function EuclidSandboxContent() {
         selectedTool={selectedTool} 
         onToolSelect={handleToolSelect}
         onConstructionSelect={demonstrateConstruction}
+        onFileAction={handleFileAction}
         showIntersections={showIntersections}
         onToggleIntersections={() => setShowIntersections(!showIntersections)}
         currentConstruction={currentConstruction}
@@ -394,25 +831,89 @@ function EuclidSandboxContent() {
         dynamicInput={dynamicInput}
         onDynamicInputChange={handleDynamicInputChange}
       />
-      <SidebarInset className="p-2">
+      <SidebarInset className="p-2 relative">
+        {readOnly && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10 flex items-center gap-3 rounded-md border bg-background/95 px-3 py-1.5 text-sm shadow-lg backdrop-blur-sm">
+            <Eye className="h-4 w-4 text-muted-foreground" />
+            Viewing a shared drawing (read-only)
+            <Button size="sm" variant="outline" onClick={() => setReadOnly(false)}>
+              Edit a copy
+            </Button>
+          </div>
+        )}
         <ModularGeometryCanvas
           selectedTool={selectedTool}
           elements={elements}
           onElementAdded={handleElementAdded}
+          onElementUpdated={handleElementUpdated}
+          onElementDeleted={handleElementDeleted}
           onCanvasClick={handleCanvasClick}
           onToolSelect={setSelectedTool}
           showIntersections={showIntersections}
           onSidebarToggle={toggleSidebar}
           canvasSettings={canvasSettings}
+          dynamicInput={dynamicInput}
           onUndo={handleUndo}
           onRedo={handleRedo}
           canUndo={historyIndex > 0}
           canRedo={historyIndex < history.length - 1}
           onClear={handleClear}
+          readOnly={readOnly}
+          viewport={restoredViewport}
+          onViewportChange={handleViewportChange}
+          onSelectionChange={setSelectedElementIds}
           sidebarOpen={open}
           sidebarOpenMobile={openMobile}
         />
       </SidebarInset>
+      <RecoveryDialog
+        snapshot={recoveredSnapshot}
+        onRestore={handleRestoreSnapshot}
+        onDiscard={discardRecovery}
+      />
+      <SvgExportDialog
+        open={isSvgExportOpen}
+        selectionCount={selectedElementIds.length}
+        onExport={handleSvgExport}
+        onCancel={() => setIsSvgExportOpen(false)}
+      />
+      {isRasterExportOpen && (
+        <RasterExportDialog
+          open={isRasterExportOpen}
+          extentsArea={getExportArea(elements, { layers })}
+          viewArea={getViewArea()}
+          onExport={handleRasterExport}
+          onCancel={() => setIsRasterExportOpen(false)}
+        />
+      )}
+      {isPlotOpen && (
+        <PlotDialog
+          open={isPlotOpen}
+          elements={elements}
+          layers={layers}
+          drawingName={documentMetadata.name}
+          onPrint={(svg, layout) => {
+            try {
+              printSvgPage(svg, layout.pageWidth, layout.pageHeight)
+            } catch (error) {
+              alert(`Could not print: ${(error as Error).message}`)
+            }
+          }}
+          onDownload={(svg) => downloadFile(svg, toFileName(`${documentMetadata.name} plot`, 'svg'), 'image/svg+xml')}
+          onCancel={() => setIsPlotOpen(false)}
+        />
+      )}
+      {sharedDrawing && (
+        <ShareDialog
+          open={sharedDrawing !== null}
+          drawing={sharedDrawing}
+          onClose={() => setSharedDrawing(null)}
+        />
+      )}
+      <ImportSummaryDialog
+        summary={importSummary}
+        onClose={() => setImportSummary(null)}
+      />
     </>
   )
 }
@@ -4,7 +4,8 @@
  * This provides a clean separation of concerns and makes tools easily extensible
  */
 
-import { Point2D, Line2D, Circle2D, Vector2D, GeometryUtils, CogWheel } from '@/lib/geometry'
+import { Point2D, Line2D, Circle2D, Arc2D, Polyline2D, Polygon2D, CubicBezier2D, Spline2D, Vector2D, GeometryUtils, CogWheel } from '@/lib/geometry'
+import type { SplineKind } from '@/lib/geometry'
 import type { ToolHandlerProps, ToolHandlerResult, RectangleData, TriangleData } from '@/types/geometry'
 import { GEOMETRY_COLORS } from '@/types/geometry'
 import { 
@@ -144,6 +145,247 @@ export class CircleToolHandler implements ToolHandler {
   }
 }
 
+/**
+ * Add an arc along with its center point
+ * A degenerate arc (repeated or collinear points) is rejected and the last click dropped
+ */
+function addArc(
+  arc: Arc2D | null,
+  { elements, selectedPoints, addElement }: ToolHandlerProps
+): ToolHandlerResult {
+  if (!arc) {
+    return { shouldContinue: true, newSelectedPoints: selectedPoints }
+  }
+
+  addElement('arc', arc, GEOMETRY_COLORS.ARC)
+
+  const centerResult = addPointIfNotExists(arc.center, elements, GEOMETRY_COLORS.POINT)
+  if (centerResult.isNew) {
+    addElement('point', centerResult.element.data, centerResult.element.color)
+  }
+
+  return { shouldContinue: false, newSelectedPoints: [] }
+}
+
+/**
+ * Arc tool handler - creates an arc from its start point, a point on the arc and its end point
+ */
+export class ArcToolHandler implements ToolHandler {
+  handle(props: ToolHandlerProps): ToolHandlerResult {
+    const newPoints = [...props.selectedPoints, props.canvasPoint]
+
+    if (newPoints.length === 3) {
+      return addArc(GeometryUtils.arcThrough3Points(newPoints[0], newPoints[1], newPoints[2]), props)
+    }
+
+    // Continue collecting points
+    return { shouldContinue: true, newSelectedPoints: newPoints }
+  }
+}
+
+/**
+ * Center arc tool handler - creates an arc from its center, start point and end angle
+ * The arc runs from the start point in the direction of increasing angles
+ */
+export class CenterArcToolHandler implements ToolHandler {
+  handle(props: ToolHandlerProps): ToolHandlerResult {
+    const newPoints = [...props.selectedPoints, props.canvasPoint]
+
+    if (newPoints.length === 3) {
+      return addArc(GeometryUtils.arcFromCenter(newPoints[0], newPoints[1], newPoints[2]), props)
+    }
+
+    // Continue collecting points
+    return { shouldContinue: true, newSelectedPoints: newPoints }
+  }
+}
+
+/**
+ * Ellipse tool handler - creates an ellipse from its center, the end of one axis
+ * and a point whose distance from that axis sets the other radius
+ */
+export class EllipseToolHandler implements ToolHandler {
+  handle({ canvasPoint, elements, selectedPoints, addElement }: ToolHandlerProps): ToolHandlerResult {
+    const newPoints = [...selectedPoints, canvasPoint]
+
+    if (newPoints.length === 3) {
+      const ellipse = GeometryUtils.ellipseFromAxes(newPoints[0], newPoints[1], newPoints[2])
+      if (!ellipse) {
+        // Degenerate ellipse - drop the last click
+        return { shouldContinue: true, newSelectedPoints: selectedPoints }
+      }
+
+      addElement('ellipse', ellipse, GEOMETRY_COLORS.ELLIPSE)
+
+      // Add center point if it doesn't exist
+      const centerResult = addPointIfNotExists(ellipse.center, elements, GEOMETRY_COLORS.POINT)
+      if (centerResult.isNew) {
+        addElement('point', centerResult.element.data, centerResult.element.color)
+      }
+
+      return { shouldContinue: false, newSelectedPoints: [] }
+    }
+
+    // Continue collecting points
+    return { shouldContinue: true, newSelectedPoints: newPoints }
+  }
+}
+
+/**
+ * Ellipse box tool handler - creates the axis-aligned ellipse inscribed in a box
+ */
+export class EllipseBoxToolHandler implements ToolHandler {
+  handle({ canvasPoint, selectedPoints, addElement }: ToolHandlerProps): ToolHandlerResult {
+    if (selectedPoints.length === 0) {
+      // First corner
+      return { shouldContinue: true, newSelectedPoints: [canvasPoint] }
+    }
+
+    const ellipse = GeometryUtils.ellipseFromBox(selectedPoints[0], canvasPoint)
+    if (!ellipse) {
+      // Box has no width or height - wait for another corner
+      return { shouldContinue: true, newSelectedPoints: selectedPoints }
+    }
+
+    addElement('ellipse', ellipse, GEOMETRY_COLORS.ELLIPSE)
+    return { shouldContinue: false, newSelectedPoints: [] }
+  }
+}
+
+/**
+ * Bezier tool handler - creates a cubic Bezier from its start point, two control points and end point
+ */
+export class BezierToolHandler implements ToolHandler {
+  handle({ canvasPoint, selectedPoints, addElement }: ToolHandlerProps): ToolHandlerResult {
+    const newPoints = [...selectedPoints, canvasPoint]
+
+    if (newPoints.length === 4) {
+      const [start, control1, control2, end] = newPoints
+      if (newPoints.every(point => point.equals(start))) {
+        // All four clicks on one spot - drop the last click
+        return { shouldContinue: true, newSelectedPoints: selectedPoints }
+      }
+
+      addElement('bezier', new CubicBezier2D(start, control1, control2, end), GEOMETRY_COLORS.CURVE)
+      return { shouldContinue: false, newSelectedPoints: [] }
+    }
+
+    // Continue collecting points
+    return { shouldContinue: true, newSelectedPoints: newPoints }
+  }
+}
+
+/**
+ * Polyline tool handler - collects vertices until the canvas finishes the polyline
+ * (Enter or double-click) or closes it ("C"); see buildPolyline.
+ * The spline and polygon tools collect their points the same way; see buildSpline and buildPolygon
+ */
+export class PolylineToolHandler implements ToolHandler {
+  handle({ canvasPoint, selectedPoints }: ToolHandlerProps): ToolHandlerResult {
+    // Ignore repeated clicks on the last vertex, such as the clicks of a double-click
+    const lastPoint = selectedPoints[selectedPoints.length - 1]
+    if (lastPoint && lastPoint.equals(canvasPoint)) {
+      return { shouldContinue: true, newSelectedPoints: selectedPoints }
+    }
+    return { shouldContinue: true, newSelectedPoints: [...selectedPoints, canvasPoint] }
+  }
+}
+
+/**
+ * Build a polyline from clicked vertices
+ * Arc segments are tangent arcs: each one leaves its start vertex in the direction the
+ * previous segment arrived, and the first segment, having no predecessor, is straight
+ * @param points Clicked vertices
+ * @param arcSegments Whether each segment, including the closing one, was drawn in arc mode
+ * @param closed Join the last vertex back to the first
+ * @returns Polyline, or null if there are too few distinct vertices
+ */
+export function buildPolyline(points: Point2D[], arcSegments: boolean[], closed: boolean): Polyline2D | null {
+  // Ending on the first vertex closes the polyline
+  if (points.length > 2 && points[0].equals(points[points.length - 1])) {
+    return buildPolyline(points.slice(0, -1), arcSegments, true)
+  }
+  if (points.length < (closed ? 3 : 2)) return null
+
+  const segmentCount = closed ? points.length : points.length - 1
+  const bulges: number[] = []
+  let tangent: Vector2D | null = null
+  for (let i = 0; i < segmentCount; i++) {
+    const start = points[i]
+    const end = points[(i + 1) % points.length]
+    const bulge: number = arcSegments[i] && tangent ? GeometryUtils.tangentArcBulge(tangent, start, end) ?? 0 : 0
+    bulges.push(bulge)
+    tangent = bulge === 0 ? end.subtract(start) : Arc2D.fromBulge(start, end, bulge).tangentAt(1)
+  }
+
+  try {
+    return new Polyline2D(points, bulges, closed)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Build a spline from clicked control points
+ * @param points Clicked control points
+ * @param kind How the control points shape the curve
+ * @param closed Join the curve back to its start
+ * @returns Spline, or null if there are too few distinct control points
+ */
+export function buildSpline(points: Point2D[], kind: SplineKind, closed: boolean): Spline2D | null {
+  // Ending on the first control point closes the spline
+  if (points.length > 2 && points[0].equals(points[points.length - 1])) {
+    return buildSpline(points.slice(0, -1), kind, true)
+  }
+  const distinct = points.filter((point, index) => index === 0 || !point.equals(points[index - 1]))
+  if (distinct.length < (closed ? 3 : 2)) return null
+  return new Spline2D(distinct, kind, closed)
+}
+
+/**
+ * Build a polygon from clicked vertices; the outline always closes
+ * @param points Clicked vertices, optionally ending on the first one
+ * @returns Polygon, or null if there are fewer than three distinct vertices
+ */
+export function buildPolygon(points: Point2D[]): Polygon2D | null {
+  const distinct = points.filter((point, index) => index === 0 || !point.equals(points[index - 1]))
+  if (distinct.length > 1 && distinct[0].equals(distinct[distinct.length - 1])) distinct.pop()
+  if (distinct.length < 3) return null
+  return new Polygon2D(distinct)
+}
+
+/**
+ * Regular polygon tool handler - creates a regular polygon from its center and a vertex,
+ * or the midpoint of an edge when drawing circumscribed polygons; the side count comes
+ * from the dynamic input
+ */
+export class RegularPolygonToolHandler implements ToolHandler {
+  handle({ canvasPoint, elements, selectedPoints, dynamicInput, addElement }: ToolHandlerProps): ToolHandlerResult {
+    if (selectedPoints.length === 0) {
+      // First click - center point
+      return { shouldContinue: true, newSelectedPoints: [canvasPoint] }
+    }
+
+    const center = selectedPoints[0]
+    const sides = Math.max(3, Math.round(dynamicInput.polygonSides))
+    const polygon = Polygon2D.regular(center, canvasPoint, sides, dynamicInput.polygonCircumscribed)
+    if (!polygon) {
+      // Second click on the center - wait for another point
+      return { shouldContinue: true, newSelectedPoints: selectedPoints }
+    }
+
+    addElement('polygon', polygon, GEOMETRY_COLORS.POLYGON)
+
+    // Add center point if it doesn't exist
+    const centerResult = addPointIfNotExists(center, elements, GEOMETRY_COLORS.POINT)
+    if (centerResult.isNew) {
+      addElement('point', centerResult.element.data, centerResult.element.color)
+    }
+
+    return { shouldContinue: false, newSelectedPoints: [] }
+  }
+}
+
 /**
  * Rectangle tool handler - creates a single rectangle entity
  */
@@ -266,67 +508,6 @@ export class CopyToolHandler implements ToolHandler {
   }
 }
 
-/**
- * Array tool handler - creates arrays of selected elements
- */
-export class ArrayToolHandler implements ToolHandler {
-  handle(): ToolHandlerResult {
-    // Array tool implementation would need more complex state management
-    // For now, return basic structure
-    return { shouldContinue: false, newSelectedPoints: [] }
-  }
-}
-
-/**
- * Trim tool handler - trims line segments between intersections
- */
-export class TrimToolHandler implements ToolHandler {
-  handle(): ToolHandlerResult {
-    // Find line at click point to trim
-    // Implementation would need intersection calculation and line segmentation
-    return { shouldContinue: false }
-  }
-}
-
-/**
- * Extend tool handler - extends lines to meet other elements
- */
-export class ExtendToolHandler implements ToolHandler {
-  handle(): ToolHandlerResult {
-    // Find line to extend and target element
-    // Implementation would need line extension calculation
-    return { shouldContinue: false }
-  }
-}
-
-/**
- * Fillet tool handler - creates rounded corners with specified radius
- */
-export class FilletToolHandler implements ToolHandler {
-  handle({ canvasPoint, selectedPoints, dynamicInput, addElement }: ToolHandlerProps): ToolHandlerResult {
-    // Fillet implementation would need arc creation between two lines
-    const newPoints = [...selectedPoints, canvasPoint]
-    
-    if (newPoints.length === 2) {
-      // Two points selected - potential fillet location
-      const radius = dynamicInput.dynamicDistance || 10
-      
-      // Basic fillet logic would go here
-      // For now, just create a small circle at the intersection
-      const center = new Point2D(
-        (newPoints[0].x + newPoints[1].x) / 2,
-        (newPoints[0].y + newPoints[1].y) / 2
-      )
-      const filletCircle = new Circle2D(center, radius)
-      addElement('circle', filletCircle, GEOMETRY_COLORS.CIRCLE)
-      
-      return { shouldContinue: false, newSelectedPoints: [] }
-    }
-    
-    return { shouldContinue: true, newSelectedPoints: newPoints }
-  }
-}
-
 /**
  * Mirror tool handler - mirrors elements across a line
  */
@@ -399,14 +580,20 @@ export class ToolHandlerFactory {
     ['point', new PointToolHandler()],
     ['line', new LineToolHandler()],
     ['circle', new CircleToolHandler()],
+    ['arc', new ArcToolHandler()],
+    ['arc-center', new CenterArcToolHandler()],
+    ['ellipse', new EllipseToolHandler()],
+    ['polyline', new PolylineToolHandler()],
+    ['bezier', new BezierToolHandler()],
+    ['spline', new PolylineToolHandler()],
+    ['bspline', new PolylineToolHandler()],
+    ['polygon', new PolylineToolHandler()],
+    ['regular-polygon', new RegularPolygonToolHandler()],
+    ['ellipse-box', new EllipseBoxToolHandler()],
     ['rectangle', new RectangleToolHandler()],
     ['perpendicular', new PerpendicularToolHandler()],
     ['triangle', new TriangleToolHandler()],
     ['copy', new CopyToolHandler()],
-    ['array', new ArrayToolHandler()],
-    ['trim', new TrimToolHandler()],
-    ['extend', new ExtendToolHandler()],
-    ['fillet', new FilletToolHandler()],
     ['mirror', new MirrorToolHandler()],
     ['cogwheel', new CogWheelToolHandler()],
   ])
@@ -3,18 +3,24 @@
  * Contains all interfaces, types, and enums used throughout the application
  */
 
-import { Point2D, Line2D, Circle2D, CogWheel } from '@/lib/geometry'
+import { Point2D, Line2D, Circle2D, Arc2D, Ellipse2D, EllipticalArc2D, Polyline2D, Polygon2D, CubicBezier2D, Spline2D, CogWheel } from '@/lib/geometry'
+import type { OffsetJoin } from '@/lib/geometry'
 import type { LucideIcon } from 'lucide-react'
 
 /**
  * Types of geometric elements that can be created
  */
-export type GeometricElementType = 'point' | 'line' | 'circle' | 'perpendicular' | 'triangle' | 'rectangle' | 'cogwheel'
+export type GeometricElementType = 'point' | 'line' | 'circle' | 'arc' | 'ellipse' | 'elliptical-arc' | 'polyline' | 'polygon' | 'bezier' | 'spline' | 'perpendicular' | 'triangle' | 'rectangle' | 'cogwheel' | 'text'
 
 /**
  * Supported tool types for the geometry board
  */
-export type ToolType = 'select' | 'point' | 'line' | 'circle' | 'rectangle' | 'perpendicular' | 'triangle' | 'polyline' | 'delete' | 'measure' | 'copy' | 'move' | 'angle' | 'rotate' | 'mirror' | 'trim' | 'offset' | 'fillet' | 'array' | 'layers' | 'properties' | 'cogwheel'
+export type ToolType = 'select' | 'point' | 'line' | 'circle' | 'arc' | 'arc-center' | 'ellipse' | 'ellipse-box' | 'rectangle' | 'perpendicular' | 'triangle' | 'polygon' | 'regular-polygon' | 'polyline' | 'bezier' | 'spline' | 'bspline' | 'delete' | 'measure' | 'copy' | 'move' | 'angle' | 'rotate' | 'scale' | 'mirror' | 'trim' | 'extend' | 'break' | 'join' | 'explode' | 'offset' | 'fillet' | 'chamfer' | 'array' | 'layers' | 'properties' | 'cogwheel'
+
+/**
+ * Layouts of the array tool: a grid, copies around a center, or copies along a path
+ */
+export type ArrayKind = 'rectangular' | 'polar' | 'path'
 
 /**
  * Rectangle data structure
@@ -35,6 +41,21 @@ export interface TriangleData {
   pointC: Point2D
 }
 
+/**
+ * Single line of text anchored at the left end of its baseline
+ */
+export interface TextData {
+  position: Point2D
+  text: string
+  height: number // Font size in world units
+  rotation: number // Radians, measured like Ellipse2D rotation
+}
+
+/**
+ * Geometry carried by an element; the concrete type follows GeometricElementType
+ */
+export type GeometricData = Point2D | Line2D | Circle2D | Arc2D | Ellipse2D | EllipticalArc2D | Polyline2D | Polygon2D | CubicBezier2D | Spline2D | RectangleData | TriangleData | CogWheel | TextData
+
 /**
  * Geometric element that can be drawn on the canvas
  */
@@ -42,9 +63,10 @@ export interface GeometricElement {
   id: string
   type: GeometricElementType
   color: string
-  data: Point2D | Line2D | Circle2D | RectangleData | TriangleData | CogWheel
+  data: GeometricData
   hidden?: boolean
   selected?: boolean
+  layer?: string // Layer name, defaults to DEFAULT_LAYER_NAME when omitted
   metadata?: Record<string, unknown> // For additional properties
 }
 
@@ -70,6 +92,103 @@ export interface CanvasSettings {
   snapToGrid: boolean
 }
 
+/**
+ * Canvas viewport state for pan/zoom
+ */
+export interface ViewportState {
+  x: number
+  y: number
+  scale: number
+}
+
+/**
+ * Drawing layer definition
+ */
+export interface LayerDefinition {
+  name: string
+  color: string
+  visible: boolean
+  locked: boolean
+}
+
+/**
+ * Descriptive information stored alongside a drawing
+ */
+export interface DocumentMetadata {
+  id: string
+  name: string
+  createdAt: string // ISO 8601 timestamp
+  modifiedAt: string // ISO 8601 timestamp
+  description?: string
+}
+
+/**
+ * In-memory drawing with live geometry instances
+ */
+export interface DrawingState {
+  metadata: DocumentMetadata
+  canvasSettings: CanvasSettings
+  viewport: ViewportState
+  layers: LayerDefinition[]
+  elements: GeometricElement[]
+}
+
+/**
+ * JSON-safe representation of a geometric element
+ * Geometry is stored as plain objects so it survives JSON.stringify/parse
+ */
+export interface SerializedElement {
+  id: string
+  type: GeometricElementType
+  color: string
+  data: Record<string, unknown>
+  hidden?: boolean
+  layer?: string
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Versioned drawing document as written to files and browser storage
+ */
+export interface DrawingDocument {
+  format: typeof DOCUMENT_FORMAT
+  version: number
+  metadata: DocumentMetadata
+  canvasSettings: CanvasSettings
+  viewport: ViewportState
+  layers: LayerDefinition[]
+  elements: SerializedElement[]
+}
+
+/**
+ * Periodic snapshot of the working drawing used for crash recovery
+ * Stores the undo history up to its current head so undo keeps working after a restore
+ */
+export interface AutosaveSnapshot {
+  savedAt: string // ISO 8601 timestamp
+  document: DrawingDocument
+  history: SerializedElement[][]
+  historyIndex: number
+}
+
+/**
+ * A construct in an imported file that was dropped or approximated
+ */
+export interface ImportIssue {
+  construct: string // e.g. '<ellipse>' or 'path arc segment'
+  reason: string
+  count: number
+}
+
+/**
+ * Result summary shown after importing a foreign file format
+ */
+export interface ImportSummary {
+  source: string // File name
+  importedCount: number
+  issues: ImportIssue[]
+}
+
 /**
  * Tool configuration for the geometry tools
  */
@@ -86,8 +205,30 @@ export interface ToolConfig {
  */
 export interface DynamicInputState {
   showDynamicInput: boolean
-  dynamicDistance: number
-  dynamicAngle?: number
+  dynamicDistance: number // Typed length for lines, circle radii and the new length when scaling by reference
+  dynamicAngle?: number // Degrees, counter-clockwise on screen; typed rotation angle
+  polygonSides: number // Side count for the regular polygon tool
+  polygonCircumscribed: boolean // Regular polygons drawn around the circle through the clicked point instead of inside it
+  scaleFactor: number // Typed scale factor, along X when scaling non-uniformly
+  scaleFactorY: number // Typed scale factor along Y when scaling non-uniformly
+  nonUniformScale: boolean // Scale X and Y separately
+  useReference: boolean // Rotate and scale measure against two picked reference points instead of the X axis or a unit length
+  keepOriginal: boolean // Rotate and scale add transformed copies and leave the selection in place
+  offsetJoin: OffsetJoin // How the offset tool joins outer corners of polylines and outlines
+  filletRadius: number // Radius of the fillet tool; 0 trims two lines to a sharp corner
+  chamferDistance1: number // Chamfer distance from the corner along the first picked line
+  chamferDistance2: number // Chamfer distance from the corner along the second picked line
+  chamferAngle: number // Degrees between the first picked line and the bevel
+  chamferUseAngle: boolean // Chamfer by the first distance and the angle instead of two distances
+  arrayKind: ArrayKind // Layout of the array tool
+  arrayRows: number // Rows of a rectangular array
+  arrayColumns: number // Columns of a rectangular array
+  arrayRowSpacing: number // Distance between rows of a rectangular array
+  arrayColumnSpacing: number // Distance between columns of a rectangular array
+  arrayAngle: number // Degrees, counter-clockwise on screen; rotation of a rectangular array's grid
+  arrayCount: number // Number of items in a polar or path array, including the original
+  arrayFillAngle: number // Degrees, counter-clockwise on screen; angle covered by a polar array
+  arrayRotateItems: boolean // Turn polar and path array items with the array instead of only moving them
 }
 
 /**
@@ -100,11 +241,10 @@ export interface MeasurementState {
 }
 
 /**
- * Selection and clipboard state
+ * Selection state
  */
 export interface SelectionState {
   selectedElements: string[]
-  clipboard: GeometricElement[]
   showHidden: boolean
 }
 
@@ -151,6 +291,8 @@ export interface GeometryCanvasProps {
   elements?: GeometricElement[] // Elements state from parent for undo/redo
   selectedTool: ToolType
   onElementAdded?: (element: GeometricElement) => void
+  onElementUpdated?: (element: GeometricElement) => void // An existing element was edited in place, e.g. by dragging a grip
+  onElementDeleted?: (elementId: string) => void // An element was removed by an edit, e.g. trimmed away entirely
   onCanvasClick?: (point: Point2D) => void
   onToolSelect?: (tool: ToolType) => void
   onClear?: () => void // Callback to clear all elements and update parent state
@@ -169,6 +311,11 @@ export interface GeometryCanvasProps {
   onRedo?: () => void
   canUndo?: boolean
   canRedo?: boolean
+  viewport?: ViewportState // Viewport from parent, e.g. restored from a saved document
+  onViewportChange?: (viewport: ViewportState, canvasSize: { width: number; height: number }) => void
+  onSelectionChange?: (selectedElementIds: string[]) => void
+  dynamicInput?: DynamicInputState // Dynamic input from parent, e.g. set in the sidebar
+  readOnly?: boolean // Disallow edits; selection, measuring and navigation still work
 }
 
 /**
@@ -180,7 +327,7 @@ export interface ToolHandlerProps {
   selectedPoints: Point2D[]
   settings: CanvasSettings
   dynamicInput: DynamicInputState
-  addElement: (type: GeometricElementType, data: Point2D | Line2D | Circle2D | RectangleData | TriangleData | CogWheel, color?: string) => void
+  addElement: (type: GeometricElementType, data: GeometricData, color?: string) => void
   setSelectedPoints: React.Dispatch<React.SetStateAction<Point2D[]>>
 }
 
@@ -227,10 +374,37 @@ export const GEOMETRY_CONSTANTS = {
   DEFAULT_TOLERANCE: 10,
   DEFAULT_GRID_SIZE: 20,
   DEFAULT_DYNAMIC_DISTANCE: 100,
+  DEFAULT_POLYGON_SIDES: 6,
+  DEFAULT_FILLET_RADIUS: 10,
+  DEFAULT_CHAMFER_DISTANCE: 10,
+  DEFAULT_CHAMFER_ANGLE: 45,
+  DEFAULT_ARRAY_ROWS: 3,
+  DEFAULT_ARRAY_COLUMNS: 4,
+  DEFAULT_ARRAY_SPACING: 50,
+  DEFAULT_ARRAY_COUNT: 6,
   DRAG_THRESHOLD: 5,
   PASTE_OFFSET: 20,
+  AUTOSAVE_INTERVAL_MS: 5000,
+  AUTOSAVE_HISTORY_LIMIT: 20,
+  TEXT_WIDTH_FACTOR: 0.6, // Estimated character width as a fraction of the text height
 } as const
 
+/**
+ * Identifier written into every saved drawing document
+ */
+export const DOCUMENT_FORMAT = 'drawing-bored'
+
+/**
+ * Current version of the drawing document schema
+ * Bump this and register a migration in io/document.ts when the schema changes
+ */
+export const DOCUMENT_VERSION = 1
+
+/**
+ * Layer used for elements that don't specify one (matches the DXF default layer)
+ */
+export const DEFAULT_LAYER_NAME = '0'
+
 /**
  * Color palette for geometric elements
  */
@@ -238,9 +412,15 @@ export const GEOMETRY_COLORS = {
   POINT: '#ef4444',
   LINE: '#2563eb',
   CIRCLE: '#10b981',
+  ARC: '#0d9488',
+  ELLIPSE: '#0891b2',
+  POLYLINE: '#4f46e5',
+  POLYGON: '#7c3aed',
+  CURVE: '#db2777',
   RECTANGLE: '#8b5cf6',
   PERPENDICULAR: '#f59e0b',
   TRIANGLE: '#8b5cf6',
+  TEXT: '#334155',
   INTERSECTION: '#ff6b6b',
   SELECTION: '#fbbf24',
   HOVER_DELETE: '#ef4444',
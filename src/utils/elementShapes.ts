@@ -0,0 +1,214 @@
+/**
+ * SVG shape descriptions for geometric elements
+ * Single source of truth for how each element type maps to SVG primitives,
+ * shared by the canvas renderers and the SVG exporter
+ */
+
+import { Point2D, Line2D, Circle2D, Arc2D, Ellipse2D, EllipticalArc2D, Polyline2D, Polygon2D, CubicBezier2D, Spline2D, CogWheel, GeometryUtils } from '@/lib/geometry'
+import type { GeometricElement, RectangleData, TextData, TriangleData } from '@/types/geometry'
+
+/**
+ * A single SVG primitive in world coordinates
+ */
+export type SvgShape =
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number }
+  | { kind: 'circle'; cx: number; cy: number; r: number }
+  | { kind: 'ellipse'; cx: number; cy: number; rx: number; ry: number; rotation: number } // rotation in degrees about the center
+  | { kind: 'rect'; x: number; y: number; width: number; height: number }
+  | { kind: 'path'; d: string }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; rotation: number } // (x, y) is the baseline start, rotation in degrees
+
+/**
+ * Default radius used to draw point elements
+ */
+export const POINT_RADIUS = 4
+
+/**
+ * Side length of the square grips drawn on selected outlines and curves
+ */
+export const GRIP_SIZE = 8
+
+export function pointToSvgShape(point: Point2D, radius: number = POINT_RADIUS): SvgShape {
+  return { kind: 'circle', cx: point.x, cy: point.y, r: radius }
+}
+
+export function lineToSvgShape(line: Line2D): SvgShape {
+  return { kind: 'line', x1: line.start.x, y1: line.start.y, x2: line.end.x, y2: line.end.y }
+}
+
+export function circleToSvgShape(circle: Circle2D): SvgShape {
+  return { kind: 'circle', cx: circle.center.x, cy: circle.center.y, r: circle.radius }
+}
+
+/**
+ * Arcs use the SVG elliptical arc command; SVG's positive sweep direction is
+ * the direction of increasing angles, matching Arc2D
+ */
+export function arcToSvgShape(arc: Arc2D): SvgShape {
+  const { startPoint } = arc
+  return { kind: 'path', d: `M ${startPoint.x} ${startPoint.y} ${arcPathCommand(arc)}` }
+}
+
+function arcPathCommand(arc: Arc2D): string {
+  const { endPoint } = arc
+  const largeArc = arc.sweep > Math.PI ? 1 : 0
+  const sweep = arc.clockwise ? 0 : 1
+  return `A ${arc.radius} ${arc.radius} 0 ${largeArc} ${sweep} ${endPoint.x} ${endPoint.y}`
+}
+
+/**
+ * Polylines become a single path of line and arc commands, closed with Z
+ */
+export function polylineToSvgShape(polyline: Polyline2D): SvgShape {
+  const { startPoint } = polyline
+  const commands = polyline.segments.map(segment =>
+    segment instanceof Arc2D ? arcPathCommand(segment) : `L ${segment.end.x} ${segment.end.y}`
+  )
+  if (polyline.closed) commands.push('Z')
+  return { kind: 'path', d: `M ${startPoint.x} ${startPoint.y} ${commands.join(' ')}` }
+}
+
+export function polygonToSvgShape(polygon: Polygon2D): SvgShape {
+  const [first, ...rest] = polygon.vertices
+  return { kind: 'path', d: `M ${first.x} ${first.y} ${rest.map(vertex => `L ${vertex.x} ${vertex.y}`).join(' ')} Z` }
+}
+
+/**
+ * Curves map directly onto the SVG cubic Bezier command
+ */
+export function bezierToSvgShape(curve: CubicBezier2D): SvgShape {
+  const { start } = curve
+  return { kind: 'path', d: `M ${start.x} ${start.y} ${bezierPathCommand(curve)}` }
+}
+
+function bezierPathCommand(curve: CubicBezier2D): string {
+  const { control1, control2, end } = curve
+  return `C ${control1.x} ${control1.y} ${control2.x} ${control2.y} ${end.x} ${end.y}`
+}
+
+/**
+ * Splines become one path through their Bezier segments
+ */
+export function splineToSvgShape(spline: Spline2D): SvgShape {
+  const segments = spline.segments
+  const { start } = segments[0]
+  const commands = segments.map(bezierPathCommand)
+  if (spline.closed) commands.push('Z')
+  return { kind: 'path', d: `M ${start.x} ${start.y} ${commands.join(' ')}` }
+}
+
+export function ellipseToSvgShape(ellipse: Ellipse2D): SvgShape {
+  return {
+    kind: 'ellipse',
+    cx: ellipse.center.x,
+    cy: ellipse.center.y,
+    rx: ellipse.radiusX,
+    ry: ellipse.radiusY,
+    rotation: GeometryUtils.radiansToDegrees(ellipse.rotation)
+  }
+}
+
+/**
+ * Elliptical arcs use the SVG elliptical arc command with the ellipse's own axes;
+ * the large arc flag follows the parametric sweep, which an affine image of a circle preserves
+ */
+export function ellipticalArcToSvgShape(arc: EllipticalArc2D): SvgShape {
+  const { startPoint, endPoint } = arc
+  const rotation = GeometryUtils.radiansToDegrees(arc.rotation)
+  const largeArc = arc.sweep > Math.PI ? 1 : 0
+  const sweep = arc.clockwise ? 0 : 1
+  return {
+    kind: 'path',
+    d: `M ${startPoint.x} ${startPoint.y} A ${arc.radiusX} ${arc.radiusY} ${rotation} ${largeArc} ${sweep} ${endPoint.x} ${endPoint.y}`
+  }
+}
+
+/**
+ * Rectangles may be drawn from any corner, so normalize to a positive width and height
+ */
+export function rectangleToSvgShape(rect: RectangleData): SvgShape {
+  return {
+    kind: 'rect',
+    x: Math.min(rect.topLeft.x, rect.bottomRight.x),
+    y: Math.min(rect.topLeft.y, rect.bottomRight.y),
+    width: Math.abs(rect.bottomRight.x - rect.topLeft.x),
+    height: Math.abs(rect.bottomRight.y - rect.topLeft.y)
+  }
+}
+
+export function triangleToSvgShape(triangle: TriangleData): SvgShape {
+  const { pointA, pointB, pointC } = triangle
+  return {
+    kind: 'path',
+    d: `M ${pointA.x} ${pointA.y} L ${pointB.x} ${pointB.y} L ${pointC.x} ${pointC.y} Z`
+  }
+}
+
+/**
+ * Cog wheels are drawn as the toothed outline plus the center hole
+ */
+export function cogWheelToSvgShapes(cogWheel: CogWheel): SvgShape[] {
+  return [
+    { kind: 'path', d: cogWheel.toSVGPath() },
+    circleToSvgShape(cogWheel.getCenterHole())
+  ]
+}
+/**
+ * Text is anchored at the start of its baseline and rotated about that point
+ */
+export function textToSvgShape(text: TextData): SvgShape {
+  return {
+    kind: 'text',
+    x: text.position.x,
+    y: text.position.y,
+    text: text.text,
+    size: text.height,
+    rotation: GeometryUtils.radiansToDegrees(text.rotation)
+  }
+}
+
+/**
+ * Get the SVG primitives that draw an element
+ */
+export function getElementShapes(element: GeometricElement): SvgShape[] {
+  switch (element.type) {
+    case 'point':
+      return [pointToSvgShape(element.data as Point2D)]
+    case 'line':
+    case 'perpendicular':
+      return [lineToSvgShape(element.data as Line2D)]
+    case 'circle':
+      return [circleToSvgShape(element.data as Circle2D)]
+    case 'arc':
+      return [arcToSvgShape(element.data as Arc2D)]
+    case 'ellipse':
+      return [ellipseToSvgShape(element.data as Ellipse2D)]
+    case 'elliptical-arc':
+      return [ellipticalArcToSvgShape(element.data as EllipticalArc2D)]
+    case 'polyline':
+      return [polylineToSvgShape(element.data as Polyline2D)]
+    case 'polygon':
+      return [polygonToSvgShape(element.data as Polygon2D)]
+    case 'bezier':
+      return [bezierToSvgShape(element.data as CubicBezier2D)]
+    case 'spline':
+      return [splineToSvgShape(element.data as Spline2D)]
+    case 'rectangle':
+      return [rectangleToSvgShape(element.data as RectangleData)]
+    case 'triangle':
+      return [triangleToSvgShape(element.data as TriangleData)]
+    case 'cogwheel':
+      return cogWheelToSvgShapes(element.data as CogWheel)
+    case 'text':
+      return [textToSvgShape(element.data as TextData)]
+    default:
+      return []
+  }
+}
+
+/**
+ * Whether an element is drawn filled (points and text) rather than stroked
+ */
+export function isFilledElement(element: GeometricElement): boolean {
+  return element.type === 'point' || element.type === 'text'
+}
@@ -3,9 +3,10 @@
  * Provides helpers for element creation, manipulation, and validation
  */
 
-import { Point2D, Line2D, Circle2D, Vector2D, CogWheel } from '@/lib/geometry'
-import type { GeometricElement, GeometricElementType, RectangleData, TriangleData } from '@/types/geometry'
-import { GEOMETRY_CONSTANTS } from '@/types/geometry'
+import { Point2D, Line2D, Circle2D, Arc2D, Ellipse2D, EllipticalArc2D, Polyline2D, Polygon2D, CubicBezier2D, Spline2D, Vector2D, Matrix2D, CogWheel, GeometryUtils, ZERO_TOLERANCE } from '@/lib/geometry'
+import type { ChamferSize, FilletCurve, OffsetJoin, PolylineSegment } from '@/lib/geometry'
+import type { GeometricData, GeometricElement, GeometricElementType, RectangleData, TextData, TriangleData } from '@/types/geometry'
+import { GEOMETRY_COLORS, GEOMETRY_CONSTANTS } from '@/types/geometry'
 
 /**
  * Generate a unique ID for geometric elements
@@ -15,6 +16,41 @@ export function generateElementId(): string {
   return `element-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 }
 
+/**
+ * Default color for a newly created element of the given type
+ */
+export function getDefaultElementColor(type: GeometricElementType): string {
+  switch (type) {
+    case 'point':
+      return GEOMETRY_COLORS.POINT
+    case 'circle':
+    case 'cogwheel':
+      return GEOMETRY_COLORS.CIRCLE
+    case 'arc':
+      return GEOMETRY_COLORS.ARC
+    case 'ellipse':
+    case 'elliptical-arc':
+      return GEOMETRY_COLORS.ELLIPSE
+    case 'polyline':
+      return GEOMETRY_COLORS.POLYLINE
+    case 'polygon':
+      return GEOMETRY_COLORS.POLYGON
+    case 'bezier':
+    case 'spline':
+      return GEOMETRY_COLORS.CURVE
+    case 'rectangle':
+      return GEOMETRY_COLORS.RECTANGLE
+    case 'triangle':
+      return GEOMETRY_COLORS.TRIANGLE
+    case 'perpendicular':
+      return GEOMETRY_COLORS.PERPENDICULAR
+    case 'text':
+      return GEOMETRY_COLORS.TEXT
+    default:
+      return GEOMETRY_COLORS.LINE
+  }
+}
+
 /**
  * Check if a point already exists in the elements array
  * Uses tolerance-based comparison to handle floating point precision
@@ -54,7 +90,7 @@ export function findExistingPoint(
  */
 export function createElement(
   type: GeometricElementType,
-  data: Point2D | Line2D | Circle2D | RectangleData | TriangleData | CogWheel,
+  data: GeometricData,
   color: string,
   metadata?: Record<string, unknown>
 ): GeometricElement {
@@ -115,6 +151,47 @@ export function extractPointsFromElements(elements: GeometricElement[]): Point2D
         points.push(circle.center)
         break
       }
+      case 'arc': {
+        const arc = element.data as Arc2D
+        points.push(arc.center, arc.startPoint, arc.endPoint)
+        break
+      }
+      case 'polyline': {
+        const polyline = element.data as Polyline2D
+        points.push(...polyline.vertices)
+        break
+      }
+      case 'polygon': {
+        const polygon = element.data as Polygon2D
+        points.push(...polygon.vertices, polygon.centroid)
+        break
+      }
+      case 'bezier': {
+        const curve = element.data as CubicBezier2D
+        points.push(curve.start, curve.end)
+        break
+      }
+      case 'spline': {
+        // Points where the curve's segments meet lie on the curve for both spline kinds
+        const spline = element.data as Spline2D
+        const segments = spline.segments
+        points.push(segments[0].start, ...segments.map(segment => segment.end))
+        break
+      }
+      case 'ellipse': {
+        const ellipse = element.data as Ellipse2D
+        // Center and the four axis ends (vertices and co-vertices)
+        points.push(ellipse.center)
+        for (let quadrant = 0; quadrant < 4; quadrant++) {
+          points.push(ellipse.pointAt(quadrant * Math.PI / 2))
+        }
+        break
+      }
+      case 'elliptical-arc': {
+        const arc = element.data as EllipticalArc2D
+        points.push(arc.center, arc.startPoint, arc.endPoint)
+        break
+      }
       case 'rectangle': {
         const rect = element.data as RectangleData
         // Add all four corners as snap points
@@ -131,6 +208,10 @@ export function extractPointsFromElements(elements: GeometricElement[]): Point2D
         points.push(triangle.pointA, triangle.pointB, triangle.pointC)
         break
       }
+      case 'text': {
+        points.push((element.data as TextData).position)
+        break
+      }
     }
   })
   
@@ -194,6 +275,55 @@ export function findElementAtPoint(
         }
         break
       }
+      case 'arc': {
+        const arc = element.data as Arc2D
+        if (arc.distanceToPoint(point) <= tolerance || point.distanceTo(arc.center) <= tolerance) {
+          return element
+        }
+        break
+      }
+      case 'polyline': {
+        const polyline = element.data as Polyline2D
+        if (polyline.distanceToPoint(point) <= tolerance) {
+          return element
+        }
+        break
+      }
+      case 'polygon': {
+        const polygon = element.data as Polygon2D
+        if (polygon.distanceToPoint(point) <= tolerance) {
+          return element
+        }
+        break
+      }
+      case 'bezier': {
+        const curve = element.data as CubicBezier2D
+        if (curve.distanceToPoint(point) <= tolerance) {
+          return element
+        }
+        break
+      }
+      case 'spline': {
+        const spline = element.data as Spline2D
+        if (spline.distanceToPoint(point) <= tolerance) {
+          return element
+        }
+        break
+      }
+      case 'ellipse': {
+        const ellipse = element.data as Ellipse2D
+        if (ellipse.distanceToPoint(point) <= tolerance || point.distanceTo(ellipse.center) <= tolerance) {
+          return element
+        }
+        break
+      }
+      case 'elliptical-arc': {
+        const arc = element.data as EllipticalArc2D
+        if (arc.distanceToPoint(point) <= tolerance || point.distanceTo(arc.center) <= tolerance) {
+          return element
+        }
+        break
+      }
       case 'rectangle': {
         const rect = element.data as RectangleData
         const x = Math.min(rect.topLeft.x, rect.bottomRight.x)
@@ -237,6 +367,13 @@ export function findElementAtPoint(
         }
         break
       }
+      case 'text': {
+        const outline = getTextOutline(element.data as TextData)
+        if (outline.containsPoint(point) || outline.distanceToPoint(point) <= tolerance) {
+          return element
+        }
+        break
+      }
     }
   }
   
@@ -244,71 +381,1061 @@ export function findElementAtPoint(
 }
 
 /**
- * Apply offset to geometric data for copy/paste operations
+ * Get the Bezier chain tracing a polyline, with straight segments as flat curves
  */
-export function applyOffsetToGeometricData(
-  data: Point2D | Line2D | Circle2D | RectangleData | TriangleData | CogWheel,
-  type: GeometricElementType,
-  offset: Vector2D
-): Point2D | Line2D | Circle2D | RectangleData | TriangleData | CogWheel {
-  switch (type) {
-    case 'point': {
-      return (data as Point2D).add(offset)
-    }
-    case 'line': {
-      const line = data as Line2D
-      return new Line2D(line.start.add(offset), line.end.add(offset))
+function polylineToBeziers(polyline: Polyline2D): CubicBezier2D[] {
+  return polyline.segments.flatMap(segment => segment instanceof Arc2D
+    ? CubicBezier2D.fromArc(segment)
+    : [new CubicBezier2D(segment.start, segment.evaluateAt(1 / 3), segment.evaluateAt(2 / 3), segment.end)]
+  )
+}
+
+/**
+ * Apply an affine transform to an element, keeping its ID
+ * Circles, arcs and arc segments keep their type under moves, rotations, mirrors and
+ * uniform scaling; other transforms turn circles into ellipses, arcs into elliptical arcs
+ * and bulged polylines into Bezier splines. Rectangles become polygons unless their sides stay axis-aligned.
+ * Cog wheels cannot be stretched, so other transforms move their center and scale them
+ * uniformly by the transform's mean scale factor.
+ * @throws Error if the transform is singular
+ */
+export function transformElement(element: GeometricElement, matrix: Matrix2D): GeometricElement {
+  if (matrix.isSingular) {
+    throw new Error(`Cannot apply a singular transform: ${matrix.toString()}`)
+  }
+  const map = (point: Point2D) => matrix.transformPoint(point)
+  const transformed = (type: GeometricElementType, data: GeometricData): GeometricElement => ({ ...element, type, data })
+
+  switch (element.type) {
+    case 'point':
+      return transformed('point', map(element.data as Point2D))
+    case 'line':
+    case 'perpendicular': {
+      const line = element.data as Line2D
+      return transformed(element.type, new Line2D(map(line.start), map(line.end)))
     }
     case 'circle': {
-      const circle = data as Circle2D
-      return new Circle2D(circle.center.add(offset), circle.radius)
+      const circle = element.data as Circle2D
+      if (matrix.isSimilarity) {
+        return transformed('circle', new Circle2D(map(circle.center), circle.radius * matrix.scaleFactor))
+      }
+      const ellipse = Ellipse2D.fromConjugateDiameters(
+        map(circle.center),
+        matrix.transformVector(new Vector2D(circle.radius, 0)),
+        matrix.transformVector(new Vector2D(0, circle.radius))
+      )!
+      return transformed('ellipse', ellipse)
     }
+    case 'arc': {
+      const arc = element.data as Arc2D
+      if (matrix.isSimilarity) {
+        return transformed('arc', new Arc2D(
+          map(arc.center),
+          arc.radius * matrix.scaleFactor,
+          matrix.transformAngle(arc.startAngle),
+          matrix.transformAngle(arc.endAngle),
+          arc.clockwise !== matrix.isReflection
+        ))
+      }
+      return transformed('elliptical-arc', transformEllipticalArc(EllipticalArc2D.fromEllipse(
+        new Ellipse2D(arc.center, arc.radius, arc.radius),
+        arc.startAngle,
+        arc.endAngle,
+        arc.clockwise
+      ), matrix))
+    }
+    case 'ellipse':
+      return transformed('ellipse', transformEllipse(element.data as Ellipse2D, matrix))
+    case 'elliptical-arc':
+      return transformed('elliptical-arc', transformEllipticalArc(element.data as EllipticalArc2D, matrix))
+    case 'polyline': {
+      const polyline = element.data as Polyline2D
+      if (matrix.isSimilarity || polyline.bulges.every(bulge => bulge === 0)) {
+        // Mirroring reverses the turning direction of every arc segment
+        const bulges = matrix.isReflection ? polyline.bulges.map(bulge => -bulge) : polyline.bulges
+        return transformed('polyline', new Polyline2D(polyline.vertices.map(map), bulges, polyline.closed))
+      }
+      return transformed('spline', transformSpline(Spline2D.fromBeziers(polylineToBeziers(polyline), polyline.closed), matrix))
+    }
+    case 'polygon':
+      return transformed('polygon', new Polygon2D((element.data as Polygon2D).vertices.map(map)))
+    case 'bezier': {
+      const [start, control1, control2, end] = (element.data as CubicBezier2D).controlPoints.map(map)
+      return transformed('bezier', new CubicBezier2D(start, control1, control2, end))
+    }
+    case 'spline':
+      return transformed('spline', transformSpline(element.data as Spline2D, matrix))
     case 'rectangle': {
-      const rect = data as RectangleData
-      return {
-        topLeft: rect.topLeft.add(offset),
-        bottomRight: rect.bottomRight.add(offset),
-        width: rect.width,
-        height: rect.height
+      if (!matrix.preservesAxes) {
+        return transformed('polygon', new Polygon2D(convertToPolygon(element)!.vertices.map(map)))
       }
+      const rect = element.data as RectangleData
+      const corner1 = map(rect.topLeft)
+      const corner2 = map(rect.bottomRight)
+      const topLeft = new Point2D(Math.min(corner1.x, corner2.x), Math.min(corner1.y, corner2.y))
+      const bottomRight = new Point2D(Math.max(corner1.x, corner2.x), Math.max(corner1.y, corner2.y))
+      return transformed('rectangle', {
+        topLeft,
+        bottomRight,
+        width: bottomRight.x - topLeft.x,
+        height: bottomRight.y - topLeft.y
+      })
     }
     case 'triangle': {
-      const triangle = data as TriangleData
-      return {
-        pointA: triangle.pointA.add(offset),
-        pointB: triangle.pointB.add(offset),
-        pointC: triangle.pointC.add(offset)
-      }
+      const triangle = element.data as TriangleData
+      return transformed('triangle', {
+        pointA: map(triangle.pointA),
+        pointB: map(triangle.pointB),
+        pointC: map(triangle.pointC)
+      })
     }
     case 'cogwheel': {
-      const cogWheel = data as CogWheel
-      return new CogWheel(
-        cogWheel.center.add(offset),
-        cogWheel.outerRadius,
-        cogWheel.innerRadius,
-        cogWheel.teethCount
-      )
+      const cogWheel = element.data as CogWheel
+      const scale = matrix.scaleFactor
+      // A mirrored wheel has the same outline, as every tooth is symmetric
+      return transformed('cogwheel', new CogWheel(
+        map(cogWheel.center),
+        cogWheel.outerRadius * scale,
+        cogWheel.innerRadius * scale,
+        cogWheel.teethCount,
+        matrix.transformAngle(cogWheel.rotation)
+      ))
+    }
+    case 'text': {
+      // Text stays readable: it follows the transformed baseline but is never mirrored or stretched
+      const text = element.data as TextData
+      return transformed('text', {
+        ...text,
+        position: map(text.position),
+        height: text.height * matrix.scaleFactor,
+        rotation: matrix.transformAngle(text.rotation)
+      })
     }
     default:
-      return data
+      return element
   }
 }
 
 /**
- * Clone a geometric element with a new ID and optional offset
+ * Get the affine image of an ellipse from the images of its semi-axes
+ */
+function transformEllipse(ellipse: Ellipse2D, matrix: Matrix2D): Ellipse2D {
+  const axisX = new Vector2D(Math.cos(ellipse.rotation), Math.sin(ellipse.rotation))
+  return Ellipse2D.fromConjugateDiameters(
+    matrix.transformPoint(ellipse.center),
+    matrix.transformVector(axisX.scale(ellipse.radiusX)),
+    matrix.transformVector(axisX.perpendicular.scale(ellipse.radiusY))
+  )!
+}
+
+/**
+ * Get the affine image of an elliptical arc
+ * Its ends keep their place on the transformed ellipse; a mirroring transform reverses
+ * the direction of increasing parametric angles, like it does for circular arcs.
+ */
+function transformEllipticalArc(arc: EllipticalArc2D, matrix: Matrix2D): EllipticalArc2D {
+  const ellipse = transformEllipse(arc.ellipse, matrix)
+  const angleOf = (point: Point2D) => ellipse.parametricAngleOf(matrix.transformPoint(point))
+  return EllipticalArc2D.fromEllipse(ellipse, angleOf(arc.startPoint), angleOf(arc.endPoint), arc.clockwise !== matrix.isReflection)
+}
+
+/**
+ * Transform the control points of a spline; every spline kind is affine invariant
+ */
+function transformSpline(spline: Spline2D, matrix: Matrix2D): Spline2D {
+  return new Spline2D(spline.controlPoints.map(point => matrix.transformPoint(point)), spline.kind, spline.closed)
+}
+
+/**
+ * Clone a geometric element with a new ID, optionally moved by an offset or transformed
  */
 export function cloneElement(
   element: GeometricElement,
-  offset?: Vector2D
+  transform?: Vector2D | Matrix2D
 ): GeometricElement {
-  const newData = offset 
-    ? applyOffsetToGeometricData(element.data, element.type, offset)
-    : element.data
-    
+  const matrix = transform instanceof Vector2D ? Matrix2D.translation(transform) : transform
+  const source = matrix ? transformElement(element, matrix) : element
+
   return {
+    ...source,
+    id: generateElementId()
+  }
+}
+
+/**
+ * Get the outline of a rectangle or triangle as a polygon, so its corners can be edited freely
+ * Rectangle corners run from topLeft through bottomRight; polygons are returned as they are
+ * @returns Polygon, or null for other element types
+ */
+export function convertToPolygon(element: GeometricElement): Polygon2D | null {
+  switch (element.type) {
+    case 'polygon':
+      return element.data as Polygon2D
+    case 'rectangle': {
+      const { topLeft, bottomRight } = element.data as RectangleData
+      return new Polygon2D([
+        topLeft,
+        new Point2D(bottomRight.x, topLeft.y),
+        bottomRight,
+        new Point2D(topLeft.x, bottomRight.y)
+      ])
+    }
+    case 'triangle': {
+      const { pointA, pointB, pointC } = element.data as TriangleData
+      return new Polygon2D([pointA, pointB, pointC])
+    }
+    default:
+      return null
+  }
+}
+
+const OFFSET_ELEMENT_TYPES: GeometricElementType[] = ['line', 'perpendicular', 'circle', 'arc', 'polyline', 'polygon', 'rectangle', 'triangle']
+
+/**
+ * Whether an element has parallel curves that offsetElement can build
+ */
+export function canOffsetElement(element: GeometricElement): boolean {
+  return OFFSET_ELEMENT_TYPES.includes(element.type)
+}
+
+/**
+ * Get the side of a line or arc a point lies on, as used by Line2D and Polyline2D offsets
+ * @returns 1 on the left of the direction of travel, -1 on the right
+ */
+function sideOfSegment(segment: Line2D | Arc2D, point: Point2D): number {
+  if (segment instanceof Arc2D) {
+    // The left of an arc through increasing angles is its inside
+    const inside = segment.center.distanceTo(point) < segment.radius
+    return inside !== segment.clockwise ? 1 : -1
+  }
+  return segment.unitDirection.perpendicular.dot(point.subtract(segment.start)) >= 0 ? 1 : -1
+}
+
+/**
+ * Get the element for one offset outline of a polygon, rectangle or triangle
+ * Straight outlines keep the source type when they still have its shape
+ */
+function offsetOutlineElement(element: GeometricElement, outline: Polyline2D): { type: GeometricElementType; data: GeometricData } {
+  if (outline.bulges.some(bulge => bulge !== 0)) {
+    return { type: 'polyline', data: outline }
+  }
+  const { vertices } = outline
+  const axisAligned = vertices.every((vertex, index) => {
+    const next = vertices[(index + 1) % vertices.length]
+    return Math.abs(next.x - vertex.x) < 1e-9 || Math.abs(next.y - vertex.y) < 1e-9
+  })
+  if (element.type === 'rectangle' && vertices.length === 4 && axisAligned) {
+    const xs = vertices.map(vertex => vertex.x)
+    const ys = vertices.map(vertex => vertex.y)
+    const topLeft = new Point2D(Math.min(...xs), Math.min(...ys))
+    const bottomRight = new Point2D(Math.max(...xs), Math.max(...ys))
+    return { type: 'rectangle', data: { topLeft, bottomRight, width: bottomRight.x - topLeft.x, height: bottomRight.y - topLeft.y } }
+  }
+  if (element.type === 'triangle' && vertices.length === 3) {
+    const [pointA, pointB, pointC] = vertices
+    return { type: 'triangle', data: { pointA, pointB, pointC } }
+  }
+  return { type: 'polygon', data: new Polygon2D(vertices) }
+}
+
+/**
+ * Get copies of an element offset toward the side of a point, keeping its color and layer
+ * Lines, arcs and polylines move to the side of the point; circles and closed outlines
+ * grow when the point lies outside them and shrink when it lies inside.
+ * @param element Element of a type accepted by canOffsetElement
+ * @param sidePoint Point on the side to offset toward
+ * @param distance Offset distance, or null to offset through sidePoint
+ * @param join How corners on the outside of polylines and outlines are joined
+ * @returns New elements with new IDs; none when the offset collapses or the distance is zero
+ * @throws Error for element types that cannot be offset
+ */
+export function offsetElement(
+  element: GeometricElement,
+  sidePoint: Point2D,
+  distance: number | null,
+  join: OffsetJoin
+): GeometricElement[] {
+  const derived = (type: GeometricElementType, data: GeometricData): GeometricElement => ({
     ...element,
     id: generateElementId(),
-    data: newData
+    type,
+    data
+  })
+
+  switch (element.type) {
+    case 'line':
+    case 'perpendicular': {
+      const line = element.data as Line2D
+      const side = sideOfSegment(line, sidePoint)
+      const size = distance ?? Math.abs(line.unitDirection.perpendicular.dot(sidePoint.subtract(line.start)))
+      return size > 0 ? [derived(element.type, line.offset(side * size))] : []
+    }
+    case 'circle':
+    case 'arc': {
+      const curve = element.data as Circle2D | Arc2D
+      const fromCenter = curve.center.distanceTo(sidePoint)
+      const size = distance ?? Math.abs(fromCenter - curve.radius)
+      const result = curve.offset(fromCenter > curve.radius ? size : -size)
+      return result && size > 0 ? [derived(element.type, result)] : []
+    }
+    case 'polyline': {
+      const polyline = element.data as Polyline2D
+      const nearest = polyline.segments.reduce((best, segment) =>
+        segment.distanceToPoint(sidePoint) < best.distanceToPoint(sidePoint) ? segment : best
+      )
+      const size = distance ?? polyline.distanceToPoint(sidePoint)
+      return polyline.offset(sideOfSegment(nearest, sidePoint) * size, join)
+        .map(result => derived('polyline', result))
+    }
+    case 'polygon':
+    case 'rectangle':
+    case 'triangle': {
+      const polygon = convertToPolygon(element)!
+      const size = distance ?? polygon.distanceToPoint(sidePoint)
+      return polygon.offset(polygon.containsPoint(sidePoint) ? -size : size, join)
+        .map(outline => {
+          const { type, data } = offsetOutlineElement(element, outline)
+          return derived(type, data)
+        })
+    }
+    default:
+      throw new Error(`Cannot offset ${element.type} elements`)
+  }
+}
+
+/**
+ * Get the curve the fillet tool works with for an element, or null if it cannot be filleted
+ */
+function filletCurveOf(element: GeometricElement): FilletCurve | null {
+  switch (element.type) {
+    case 'line':
+    case 'perpendicular':
+      return element.data as Line2D
+    case 'circle':
+      return element.data as Circle2D
+    default:
+      return null
+  }
+}
+
+/**
+ * Whether the fillet tool can pick an element
+ */
+export function canFilletElement(element: GeometricElement): boolean {
+  return element.type === 'polyline' || filletCurveOf(element) !== null
+}
+
+/**
+ * Find the vertex between two picked neighbouring straight segments of a polyline
+ * @returns Vertex index, the segments before and after it and whether the first pick is on
+ *   the segment before; null if the picks are not on two such segments
+ */
+function pickPolylineCorner(
+  polyline: Polyline2D,
+  firstPick: Point2D,
+  secondPick: Point2D
+): { corner: number; before: Line2D; after: Line2D; firstBefore: boolean } | null {
+  const { segmentCount } = polyline
+  const nearestSegment = (point: Point2D) => polyline.segments.reduce((best, segment, index, segments) =>
+    segment.distanceToPoint(point) < segments[best].distanceToPoint(point) ? index : best, 0)
+  const [a, b] = [nearestSegment(firstPick), nearestSegment(secondPick)]
+  const next = (index: number) => polyline.closed ? (index + 1) % segmentCount : index + 1
+  // The corner is the vertex where one picked segment ends and the other starts
+  const corner = next(a) === b ? b : next(b) === a ? a : null
+  if (corner === null || a === b || (corner === 0 && !polyline.closed)) return null
+
+  const before = polyline.segmentAt((corner - 1 + segmentCount) % segmentCount)
+  const after = polyline.segmentAt(corner)
+  if (!(before instanceof Line2D) || !(after instanceof Line2D)) return null
+  return { corner, before, after, firstBefore: corner === b }
+}
+
+/**
+ * Replace a polyline vertex by the new ends of its trimmed neighbouring segments,
+ * joined by a segment with the given bulge
+ * @returns null unless both new ends fall within their segments, away from the neighbouring vertices
+ */
+function replacePolylineCorner(
+  polyline: Polyline2D,
+  corner: number,
+  before: Line2D,
+  after: Line2D,
+  trimmedBefore: Line2D,
+  trimmedAfter: Line2D,
+  bulge: number
+): Polyline2D | null {
+  if (!trimmedBefore.start.equals(before.start) || !trimmedAfter.end.equals(after.end) ||
+      trimmedBefore.length >= before.length || trimmedAfter.length >= after.length) {
+    return null
+  }
+  const { vertices, bulges } = polyline
+  const corners = [trimmedBefore.end, trimmedAfter.start]
+  const cornerBulges = [bulge, bulges[corner]]
+  if (corner === 0) {
+    return new Polyline2D([corners[1], ...vertices.slice(1), corners[0]], [cornerBulges[1], ...bulges.slice(1), cornerBulges[0]], true)
+  }
+  return new Polyline2D(
+    [...vertices.slice(0, corner), ...corners, ...vertices.slice(corner + 1)],
+    [...bulges.slice(0, corner), ...cornerBulges, ...bulges.slice(corner + 1)],
+    polyline.closed
+  )
+}
+
+/**
+ * Round off the vertex between two neighbouring straight segments of a polyline
+ */
+function filletPolylineCorner(polyline: Polyline2D, firstPick: Point2D, secondPick: Point2D, radius: number): Polyline2D | null {
+  const picked = pickPolylineCorner(polyline, firstPick, secondPick)
+  if (!picked) return null
+  const { corner, before, after } = picked
+  const fillet = GeometryUtils.fillet(before, before.start, after, after.end, radius)
+  if (!fillet) return null
+  if (!fillet.arc) return polyline
+  return replacePolylineCorner(polyline, corner, before, after, fillet.first as Line2D, fillet.second as Line2D, fillet.arc.bulge)
+}
+
+/**
+ * Round off the corner between two picked elements with a tangent arc
+ * Lines are trimmed or extended to the arc and circles are kept whole; two picks on
+ * neighbouring straight segments of one polyline round off the vertex between them.
+ * The arc takes the color and layer of the first element.
+ * @param radius Fillet radius; 0 trims or extends two lines to a sharp corner
+ * @returns Elements edited in place and elements to add, or null if no fillet fits
+ */
+export function filletElements(
+  first: GeometricElement,
+  firstPick: Point2D,
+  second: GeometricElement,
+  secondPick: Point2D,
+  radius: number
+): { updated: GeometricElement[]; added: GeometricElement[] } | null {
+  if (first.id === second.id) {
+    if (first.type !== 'polyline') return null
+    const polyline = filletPolylineCorner(first.data as Polyline2D, firstPick, secondPick, radius)
+    if (!polyline) return null
+    return { updated: polyline === first.data ? [] : [{ ...first, data: polyline }], added: [] }
+  }
+
+  const firstCurve = filletCurveOf(first)
+  const secondCurve = filletCurveOf(second)
+  if (!firstCurve || !secondCurve) return null
+  const fillet = GeometryUtils.fillet(firstCurve, firstPick, secondCurve, secondPick, radius)
+  if (!fillet) return null
+
+  const updated = [{ ...first, data: fillet.first }, { ...second, data: fillet.second }]
+    .filter(element => element.type !== 'circle')
+  const added: GeometricElement[] = fillet.arc ? [{ ...first, id: generateElementId(), type: 'arc', data: fillet.arc }] : []
+  return { updated, added }
+}
+
+const CHAMFER_OUTLINE_TYPES: GeometricElementType[] = ['polyline', 'polygon', 'rectangle', 'triangle']
+
+/**
+ * Whether the chamfer tool can pick an element
+ */
+export function canChamferElement(element: GeometricElement): boolean {
+  return element.type === 'line' || element.type === 'perpendicular' || CHAMFER_OUTLINE_TYPES.includes(element.type)
+}
+
+/**
+ * Bevel the vertex between two neighbouring straight segments of a polyline
+ * The first distance is measured along the segment of the first pick.
+ */
+function chamferPolylineCorner(polyline: Polyline2D, firstPick: Point2D, secondPick: Point2D, size: ChamferSize): Polyline2D | null {
+  const picked = pickPolylineCorner(polyline, firstPick, secondPick)
+  if (!picked) return null
+  const { corner, before, after, firstBefore } = picked
+  const chamfer = firstBefore
+    ? GeometryUtils.chamfer(before, before.start, after, after.end, size)
+    : GeometryUtils.chamfer(after, after.end, before, before.start, size)
+  if (!chamfer) return null
+  if (!chamfer.bevel) return polyline
+  const [trimmedBefore, trimmedAfter] = firstBefore ? [chamfer.first, chamfer.second] : [chamfer.second, chamfer.first]
+  return replacePolylineCorner(polyline, corner, before, after, trimmedBefore, trimmedAfter, 0)
+}
+
+/**
+ * Cut off the corner between two picked lines with a straight bevel
+ * Lines are trimmed or extended to the bevel, which takes the color and layer of the first.
+ * Two picks on neighbouring straight edges of one polyline, polygon, rectangle or triangle
+ * bevel the vertex between them; rectangles and triangles become polygons.
+ * @param size Chamfer distances, the first along the first pick, or a distance and angle
+ * @returns Elements edited in place and elements to add, or null if no chamfer fits
+ */
+export function chamferElements(
+  first: GeometricElement,
+  firstPick: Point2D,
+  second: GeometricElement,
+  secondPick: Point2D,
+  size: ChamferSize
+): { updated: GeometricElement[]; added: GeometricElement[] } | null {
+  if (first.id === second.id) {
+    if (!CHAMFER_OUTLINE_TYPES.includes(first.type)) return null
+    const outline = first.type === 'polyline' ? first.data as Polyline2D : convertToPolygon(first)!.toPolyline()
+    const polyline = chamferPolylineCorner(outline, firstPick, secondPick, size)
+    if (!polyline || polyline === outline) return null
+    const updated: GeometricElement = first.type === 'polyline'
+      ? { ...first, data: polyline }
+      : { ...first, type: 'polygon', data: new Polygon2D(polyline.vertices) }
+    return { updated: [updated], added: [] }
+  }
+
+  const isLine = (element: GeometricElement) => element.type === 'line' || element.type === 'perpendicular'
+  if (!isLine(first) || !isLine(second)) return null
+  const chamfer = GeometryUtils.chamfer(first.data as Line2D, firstPick, second.data as Line2D, secondPick, size)
+  if (!chamfer) return null
+
+  const updated = [{ ...first, data: chamfer.first }, { ...second, data: chamfer.second }]
+  const added: GeometricElement[] = chamfer.bevel ? [{ ...first, id: generateElementId(), type: 'line', data: chamfer.bevel }] : []
+  return { updated, added }
+}
+
+type IntersectionShape = Parameters<typeof GeometryUtils.findIntersections>[0]
+
+/**
+ * Get the shape GeometryUtils.findIntersections works with for an element, or null if it has none
+ */
+function intersectionShapeOf(element: GeometricElement): IntersectionShape | null {
+  switch (element.type) {
+    case 'perpendicular':
+      return { type: 'line', data: element.data as Line2D }
+    case 'rectangle':
+    case 'triangle':
+      return { type: 'polygon', data: convertToPolygon(element)! }
+    case 'cogwheel':
+      return null
+    default:
+      return { type: element.type, data: element.data as IntersectionShape['data'] }
+  }
+}
+
+/**
+ * Find where an element crosses a line, such as the fence dragged across elements to trim them
+ */
+export function findLineCrossings(element: GeometricElement, line: Line2D): Point2D[] {
+  const shape = intersectionShapeOf(element)
+  return shape ? GeometryUtils.findIntersections({ type: 'line', data: line }, shape) : []
+}
+
+/**
+ * Get the path an element runs along, as cut by the trim tool and followed by path arrays
+ * Circles become a closed path of two half circles through increasing angles.
+ * @returns Polyline, or null for elements without one
+ */
+export function getElementPath(element: GeometricElement): Polyline2D | null {
+  switch (element.type) {
+    case 'line':
+    case 'perpendicular': {
+      const line = element.data as Line2D
+      return new Polyline2D([line.start, line.end])
+    }
+    case 'circle': {
+      const { center, radius } = element.data as Circle2D
+      const side = new Vector2D(radius, 0)
+      return new Polyline2D([center.add(side), center.add(side.scale(-1))], [1, 1], true)
+    }
+    case 'arc': {
+      const arc = element.data as Arc2D
+      return new Polyline2D([arc.startPoint, arc.endPoint], [arc.bulge])
+    }
+    case 'polyline':
+      return element.data as Polyline2D
+    case 'polygon':
+    case 'rectangle':
+    case 'triangle':
+      return convertToPolygon(element)!.toPolyline()
+    default:
+      return null
+  }
+}
+
+/**
+ * A path the trim and break tools cut, addressed by position from 0 to segmentCount
+ * Slices of a closed path may run on past its end, round to its start.
+ */
+interface CutPath {
+  closed: boolean
+  segmentCount: number
+  closestParameterTo(point: Point2D): number
+  slice(from: number, to: number): Polyline2D | EllipticalArc2D | null
+}
+
+/**
+ * Get the path the trim and break tools cut an element along
+ * Ellipses and elliptical arcs are one-segment paths through increasing parametric angles,
+ * or in the arc's own direction; other elements follow getElementPath.
+ * @returns Path, or null for elements that cannot be cut
+ */
+function getCutPath(element: GeometricElement): CutPath | null {
+  switch (element.type) {
+    case 'ellipse': {
+      const ellipse = element.data as Ellipse2D
+      const fullTurn = 2 * Math.PI
+      return {
+        closed: true,
+        segmentCount: 1,
+        closestParameterTo: point => GeometryUtils.normalizeAngle(ellipse.parametricAngleOf(ellipse.closestPointTo(point))) / fullTurn,
+        slice: (from, to) => {
+          const end = to < from ? to + 1 : to
+          return (end - from) * fullTurn < ZERO_TOLERANCE * 10 || end - from > 1 - ZERO_TOLERANCE
+            ? null
+            : EllipticalArc2D.fromEllipse(ellipse, from * fullTurn, end * fullTurn)
+        }
+      }
+    }
+    case 'elliptical-arc': {
+      const arc = element.data as EllipticalArc2D
+      return {
+        closed: false,
+        segmentCount: 1,
+        closestParameterTo: point => arc.closestParameterTo(point),
+        slice: (from, to) => (to - from) * arc.sweep < ZERO_TOLERANCE * 10 ? null : arc.slice(from, to)
+      }
+    }
+    default:
+      return getElementPath(element)
+  }
+}
+
+/**
+ * Get the element for a piece of a trimmed path
+ * Lines stay lines, circles and arcs become arcs on the same circle, ellipses and elliptical
+ * arcs become elliptical arcs and outlines become polylines.
+ */
+function trimmedPieceOf(element: GeometricElement, piece: Polyline2D | EllipticalArc2D): { type: GeometricElementType; data: GeometricData } {
+  if (piece instanceof EllipticalArc2D) {
+    return { type: 'elliptical-arc', data: piece }
+  }
+  switch (element.type) {
+    case 'line':
+    case 'perpendicular':
+      return { type: element.type, data: new Line2D(piece.startPoint, piece.endPoint) }
+    case 'circle':
+    case 'arc': {
+      const { center, radius } = element.data as Circle2D | Arc2D
+      const clockwise = element.type === 'arc' && (element.data as Arc2D).clockwise
+      const angleOf = (point: Point2D) => GeometryUtils.vectorAngle(point.subtract(center))
+      return { type: 'arc', data: new Arc2D(center, radius, angleOf(piece.startPoint), angleOf(piece.endPoint), clockwise) }
+    }
+    default:
+      return { type: 'polyline', data: piece }
+  }
+}
+
+/**
+ * Whether the trim tool can cut an element
+ */
+export function canTrimElement(element: GeometricElement): boolean {
+  return getCutPath(element) !== null
+}
+
+/**
+ * Remove the spans of an element that contain any of the picked points
+ * Spans run between neighbouring points where cutting edges cross the element, or on to
+ * the end of an open element; an element no edge crosses is one span. What remains of a
+ * circle is an arc, of an ellipse an elliptical arc and of a closed outline an open polyline.
+ * @param picks Points on or near the spans to remove
+ * @param edges Cutting edges; the element itself is skipped
+ * @returns Remaining pieces, the first keeping the element's ID and the rest with new IDs;
+ *   empty when the whole element is removed, null when no span was picked
+ * @throws Error for element types that cannot be trimmed
+ */
+export function trimElement(
+  element: GeometricElement,
+  picks: Point2D[],
+  edges: GeometricElement[]
+): GeometricElement[] | null {
+  const path = getCutPath(element)
+  const elementShape = intersectionShapeOf(element)
+  if (!path || !elementShape) throw new Error(`Cannot trim ${element.type} elements`)
+  const count = path.segmentCount
+  const margin = 1e-9
+
+  const cutPoints = edges
+    .filter(edge => edge.id !== element.id)
+    .flatMap(edge => {
+      const shape = intersectionShapeOf(edge)
+      return shape ? GeometryUtils.findIntersections(elementShape, shape) : []
+    })
+  const cuts = cutPoints
+    .map(point => path.closestParameterTo(point))
+    .map(position => path.closed && position > count - margin ? 0 : position)
+    .filter(position => path.closed || (position > margin && position < count - margin))
+    .sort((a, b) => a - b)
+    .filter((position, index, sorted) => index === 0 || position - sorted[index - 1] > margin)
+
+  // Spans as [from, to] positions; the last span of a closed path runs on past its first vertex
+  let spans: Array<[number, number]>
+  if (!path.closed) {
+    const bounds = [0, ...cuts, count]
+    spans = bounds.slice(1).map((to, index) => [bounds[index], to])
+  } else if (cuts.length === 0) {
+    spans = [[0, count]]
+  } else {
+    spans = cuts.map((from, index) => [from, index + 1 < cuts.length ? cuts[index + 1] : cuts[0] + count])
+  }
+
+  const pickPositions = picks.map(point => path.closestParameterTo(point))
+  const removed = spans.map(([from, to]) => pickPositions.some(position =>
+    (position >= from && position <= to) || (path.closed && position + count <= to)
+  ))
+  if (!removed.includes(true)) return null
+
+  // Join neighbouring spans that stay, starting after a removed one so that no run wraps on a closed path
+  const start = path.closed ? removed.indexOf(true) + 1 : 0
+  const runs: Array<[number, number]> = []
+  for (let k = 0; k < spans.length; k++) {
+    const index = (start + k) % spans.length
+    if (removed[index]) continue
+    const previous = (index - 1 + spans.length) % spans.length
+    if (k > 0 && !removed[previous]) {
+      runs[runs.length - 1][1] = spans[index][1]
+    } else {
+      runs.push([...spans[index]])
+    }
+  }
+
+  return runs
+    .map(([from, to]) => path.slice(from, to))
+    .filter((piece): piece is Polyline2D | EllipticalArc2D => piece !== null)
+    .map((piece, index) => ({
+      ...element,
+      id: index === 0 ? element.id : generateElementId(),
+      ...trimmedPieceOf(element, piece)
+    }))
+}
+
+/**
+ * Whether the extend tool can lengthen an element
+ */
+export function canExtendElement(element: GeometricElement): boolean {
+  switch (element.type) {
+    case 'line':
+    case 'perpendicular':
+    case 'arc':
+      return true
+    case 'polyline':
+      return !(element.data as Polyline2D).closed
+    default:
+      return false
+  }
+}
+
+/**
+ * Lengthen one end of a line or arc to the first boundary it reaches
+ * Lines run on straight for up to `reach` and arcs run on around their circle.
+ * @returns Extended segment, or null if the extension meets no boundary
+ */
+function extendSegment(segment: PolylineSegment, atStart: boolean, boundaries: IntersectionShape[], reach: number): PolylineSegment | null {
+  const minimum = 1e-6
+  if (segment instanceof Line2D) {
+    const [anchor, direction] = atStart
+      ? [segment.start, segment.unitDirection.scale(-1)]
+      : [segment.end, segment.unitDirection]
+    const ray = new Line2D(anchor, anchor.add(direction.scale(reach)))
+    const distances = boundaries
+      .flatMap(boundary => GeometryUtils.findIntersections({ type: 'line', data: ray }, boundary))
+      .map(point => point.distanceTo(anchor))
+      .filter(distance => distance > minimum)
+    if (distances.length === 0) return null
+    const hit = anchor.add(direction.scale(Math.min(...distances)))
+    return atStart ? new Line2D(hit, segment.end) : new Line2D(segment.start, hit)
+  }
+
+  // The rest of the circle, running on from the extended end
+  const { center, radius, startAngle, endAngle, clockwise } = segment
+  const rest = atStart
+    ? new Arc2D(center, radius, startAngle, endAngle, !clockwise)
+    : new Arc2D(center, radius, endAngle, startAngle, clockwise)
+  const margin = minimum / rest.length
+  const parameters = boundaries
+    .flatMap(boundary => GeometryUtils.findIntersections({ type: 'arc', data: rest }, boundary))
+    .map(point => rest.parameterOf(point))
+    .filter(t => t > margin && t < 1 - margin)
+  if (parameters.length === 0) return null
+  const hitAngle = rest.angleAt(Math.min(...parameters))
+  return atStart
+    ? new Arc2D(center, radius, hitAngle, endAngle, clockwise)
+    : new Arc2D(center, radius, startAngle, hitAngle, clockwise)
+}
+
+/**
+ * Lengthen the end of an element nearest a point to the first boundary edge it reaches
+ * Lines run on straight, arcs run on around their circle and open polylines extend
+ * their first or last segment in the same way.
+ * @param point Point near the end to extend
+ * @param edges Boundary edges; the element itself is skipped
+ * @returns The extended element with the same ID, or null if the extension meets no edge
+ * @throws Error for element types that cannot be extended
+ */
+export function extendElement(element: GeometricElement, point: Point2D, edges: GeometricElement[]): GeometricElement | null {
+  if (!canExtendElement(element)) throw new Error(`Cannot extend ${element.type} elements`)
+  const others = edges.filter(edge => edge.id !== element.id)
+  const boundaries = others
+    .map(intersectionShapeOf)
+    .filter((shape): shape is IntersectionShape => shape !== null)
+  const bounds = getElementsBounds(others)
+  if (!bounds) return null
+
+  let path: Polyline2D
+  if (element.type === 'polyline') {
+    path = element.data as Polyline2D
+  } else if (element.type === 'arc') {
+    const arc = element.data as Arc2D
+    path = new Polyline2D([arc.startPoint, arc.endPoint], [arc.bulge])
+  } else {
+    const line = element.data as Line2D
+    path = new Polyline2D([line.start, line.end])
+  }
+  const atStart = point.distanceTo(path.startPoint) < point.distanceTo(path.endPoint)
+  const index = atStart ? 0 : path.segmentCount - 1
+  const anchor = atStart ? path.startPoint : path.endPoint
+  // Far enough for a straight extension to cross every edge it can reach
+  const reach = Math.max(
+    ...[bounds.min, bounds.max, new Point2D(bounds.min.x, bounds.max.y), new Point2D(bounds.max.x, bounds.min.y)]
+      .map(corner => corner.distanceTo(anchor))
+  ) + 1
+
+  const segment = element.type === 'arc' ? element.data as Arc2D : path.segmentAt(index)
+  const extended = extendSegment(segment, atStart, boundaries, reach)
+  if (!extended) return null
+  if (element.type !== 'polyline') return { ...element, data: extended }
+
+  const ends = extended instanceof Arc2D ? [extended.startPoint, extended.endPoint] : [extended.start, extended.end]
+  const vertex = atStart ? 0 : path.vertices.length - 1
+  const vertices = path.vertices.map((existing, i) => i === vertex ? ends[atStart ? 0 : 1] : existing)
+  const bulges = path.bulges.map((bulge, i) => i === index && extended instanceof Arc2D ? extended.bulge : bulge)
+  return { ...element, data: new Polyline2D(vertices, bulges) }
+}
+
+const BREAK_ELEMENT_TYPES: GeometricElementType[] = ['line', 'perpendicular', 'arc', 'circle', 'ellipse', 'elliptical-arc', 'polyline']
+
+/**
+ * Whether the break tool can split an element
+ */
+export function canBreakElement(element: GeometricElement): boolean {
+  return BREAK_ELEMENT_TYPES.includes(element.type)
+}
+
+/**
+ * Split an element at a point, or remove the part between two points
+ * On a closed element the part from the first point to the second is removed, running
+ * counter-clockwise on screen around a circle or ellipse and against the vertex order around
+ * a polyline. Split at one point, a closed polyline opens there and a circle or ellipse stays whole.
+ * @param first Point on or near the element
+ * @param second Other end of the part to remove, or null to split at the first point
+ * @returns Remaining pieces, the first keeping the element's ID and the rest with new IDs;
+ *   empty when the whole element is removed, null when nothing changes
+ * @throws Error for element types that cannot be broken
+ */
+export function breakElement(element: GeometricElement, first: Point2D, second: Point2D | null): GeometricElement[] | null {
+  if (!canBreakElement(element)) throw new Error(`Cannot break ${element.type} elements`)
+  const path = getCutPath(element)!
+  const count = path.segmentCount
+  const margin = 1e-9
+  const positionOf = (point: Point2D) => {
+    const position = path.closestParameterTo(point)
+    return path.closed && position > count - margin ? 0 : position
+  }
+  const from = positionOf(first)
+  const to = second ? positionOf(second) : from
+
+  let pieces: Array<Polyline2D | EllipticalArc2D | null>
+  if (path.closed) {
+    const atOnePoint = Math.abs(to - from) < margin
+    if (atOnePoint && (element.type === 'circle' || element.type === 'ellipse')) return null
+    pieces = [atOnePoint ? path.slice(from, from + count) : path.slice(from, to)]
+  } else {
+    const start = Math.min(from, to)
+    const end = Math.max(from, to)
+    if (end - start < margin && (start < margin || end > count - margin)) return null
+    pieces = [path.slice(0, start), path.slice(end, count)]
+  }
+
+  return pieces
+    .filter((piece): piece is Polyline2D | EllipticalArc2D => piece !== null)
+    .map((piece, index) => ({
+      ...element,
+      id: index === 0 ? element.id : generateElementId(),
+      ...trimmedPieceOf(element, piece)
+    }))
+}
+
+type JoinedCurve = Line2D | Arc2D | Circle2D | Polyline2D
+
+/**
+ * Whether the join tool can merge an element with others
+ */
+export function canJoinElement(element: GeometricElement): boolean {
+  switch (element.type) {
+    case 'line':
+    case 'perpendicular':
+    case 'arc':
+      return true
+    case 'polyline':
+      return !(element.data as Polyline2D).closed
+    default:
+      return false
+  }
+}
+
+/**
+ * Sort elements into groups, adding each to the first group whose first member accepts it
+ */
+function groupElements(
+  elements: GeometricElement[],
+  belongs: (first: GeometricElement, element: GeometricElement) => boolean
+): GeometricElement[][] {
+  const groups: GeometricElement[][] = []
+  elements.forEach(element => {
+    const group = groups.find(candidate => belongs(candidate[0], element))
+    if (group) {
+      group.push(element)
+    } else {
+      groups.push([element])
+    }
+  })
+  return groups
+}
+
+/**
+ * Get the element for a curve made by joining elements
+ * A path merged down to a single segment becomes that line or arc.
+ */
+function joinedElementOf(curve: JoinedCurve | PolylineSegment): { type: GeometricElementType; data: GeometricData } {
+  if (curve instanceof Line2D) return { type: 'line', data: curve }
+  if (curve instanceof Arc2D) return { type: 'arc', data: curve }
+  if (curve instanceof Circle2D) return { type: 'circle', data: curve }
+  return !curve.closed && curve.segmentCount === 1 ? joinedElementOf(curve.segmentAt(0)) : { type: 'polyline', data: curve }
+}
+
+/**
+ * Merge lines, arcs and open polylines into as few elements as possible
+ * Collinear lines become one line and arcs on the same circle one arc, or the circle
+ * when they cover it, bridging any gaps between them. Then curves that meet end to end
+ * become one polyline, closed when the chain comes back to its start.
+ * @returns Joined elements, each keeping the ID, color and layer of the first element
+ *   it was made from, and the IDs of the other elements they replace; null if nothing joins
+ */
+export function joinElements(elements: GeometricElement[]): { updated: GeometricElement[]; deleted: string[] } | null {
+  const joinable = elements.filter(canJoinElement)
+  const lines = joinable.filter(element => element.type === 'line' || element.type === 'perpendicular')
+  const arcs = joinable.filter(element => element.type === 'arc')
+  const joinLines = (group: GeometricElement[]) => GeometryUtils.joinCollinearLines(group.map(element => element.data as Line2D))
+  const joinArcs = (group: GeometricElement[]) => GeometryUtils.joinCocircularArcs(group.map(element => element.data as Arc2D))
+
+  const merged: Array<{ sources: GeometricElement[]; curve: JoinedCurve }> = [
+    ...groupElements(lines, (first, element) => joinLines([first, element]) !== null)
+      .map(sources => ({ sources, curve: joinLines(sources)! })),
+    ...groupElements(arcs, (first, element) => joinArcs([first, element]) !== null)
+      .map(sources => ({ sources, curve: joinArcs(sources)! })),
+    ...joinable
+      .filter(element => element.type === 'polyline')
+      .map(element => ({ sources: [element], curve: element.data as Polyline2D }))
+  ].sort((a, b) => joinable.indexOf(a.sources[0]) - joinable.indexOf(b.sources[0]))
+
+  // Chain the curves with open ends; a circle made of arcs stands alone
+  const open = merged.filter(item => !(item.curve instanceof Circle2D))
+  const paths = open.map(({ curve }) => {
+    if (curve instanceof Line2D) return new Polyline2D([curve.start, curve.end])
+    if (curve instanceof Arc2D) return new Polyline2D([curve.startPoint, curve.endPoint], [curve.bulge])
+    return curve as Polyline2D
+  })
+  const joined = [
+    ...merged.filter(item => item.curve instanceof Circle2D),
+    ...GeometryUtils.joinPaths(paths).map(chain => ({
+      sources: chain.sources.flatMap(index => open[index].sources),
+      curve: chain.sources.length > 1 ? chain.path : open[chain.sources[0]].curve
+    }))
+  ].filter(item => item.sources.length > 1)
+  if (joined.length === 0) return null
+
+  return {
+    updated: joined.map(({ sources, curve }) => ({ ...sources[0], ...joinedElementOf(curve) })),
+    deleted: joined.flatMap(({ sources }) => sources.slice(1).map(element => element.id))
+  }
+}
+
+const EXPLODE_ELEMENT_TYPES: GeometricElementType[] = ['polyline', 'polygon', 'rectangle', 'triangle', 'cogwheel']
+
+/**
+ * Whether the explode tool can split an element into lines and arcs
+ */
+export function canExplodeElement(element: GeometricElement): boolean {
+  return EXPLODE_ELEMENT_TYPES.includes(element.type)
+}
+
+/**
+ * Split an element into the lines and arcs it is made of
+ * Polylines and outlines give one line or arc per segment; a cog wheel gives the lines
+ * of its outline and the circle of its center hole.
+ * @returns Parts, the first keeping the element's ID and the rest with new IDs
+ * @throws Error for element types that cannot be exploded
+ */
+export function explodeElement(element: GeometricElement): GeometricElement[] {
+  if (!canExplodeElement(element)) throw new Error(`Cannot explode ${element.type} elements`)
+  let parts: Array<{ type: GeometricElementType; data: GeometricData }>
+  if (element.type === 'cogwheel') {
+    const cogWheel = element.data as CogWheel
+    const outline = cogWheel.generatePoints()
+    parts = outline.flatMap((point, index) => {
+      const next = outline[(index + 1) % outline.length]
+      return point.equals(next) ? [] : [{ type: 'line' as const, data: new Line2D(point, next) }]
+    })
+    parts.push({ type: 'circle', data: cogWheel.getCenterHole() })
+  } else {
+    parts = getElementPath(element)!.segments.map(segment => segment instanceof Arc2D
+      ? { type: 'arc' as const, data: segment }
+      : { type: 'line' as const, data: segment })
+  }
+  return parts.map((part, index) => ({
+    ...element,
+    id: index === 0 ? element.id : generateElementId(),
+    ...part
+  }))
+}
+
+/**
+ * Get the points of an element that can be dragged to reshape it:
+ * polyline and polygon vertices, rectangle and triangle corners and curve control points
+ */
+export function getElementGrips(element: GeometricElement): Point2D[] {
+  switch (element.type) {
+    case 'polyline':
+      return [...(element.data as Polyline2D).vertices]
+    case 'polygon':
+    case 'rectangle':
+    case 'triangle':
+      return [...convertToPolygon(element)!.vertices]
+    case 'bezier':
+      return (element.data as CubicBezier2D).controlPoints
+    case 'spline':
+      return [...(element.data as Spline2D).controlPoints]
+    default:
+      return []
+  }
+}
+
+/**
+ * Get an element with one of its grips moved
+ * Rectangles and triangles become polygons, since a moved corner no longer keeps their shape
+ * @param index Grip index as returned by getElementGrips
+ * @throws Error if the element has no grips or the move makes the geometry invalid
+ */
+export function moveElementGrip(element: GeometricElement, index: number, point: Point2D): GeometricElement {
+  switch (element.type) {
+    case 'polyline':
+      return { ...element, data: (element.data as Polyline2D).withVertex(index, point) }
+    case 'polygon':
+    case 'rectangle':
+    case 'triangle':
+      return { ...element, type: 'polygon', data: convertToPolygon(element)!.withVertex(index, point) }
+    case 'bezier':
+      return { ...element, data: (element.data as CubicBezier2D).withControlPoint(index, point) }
+    case 'spline':
+      return { ...element, data: (element.data as Spline2D).withControlPoint(index, point) }
+    default:
+      throw new Error(`Elements of type ${element.type} have no grips`)
   }
 }
 
@@ -339,12 +1466,120 @@ export function getSelectedElements(
   return elements.filter(element => selectedIds.includes(element.id))
 }
 
+/**
+ * Axis-aligned bounding box in world coordinates
+ */
+export interface ElementBounds {
+  min: Point2D
+  max: Point2D
+}
+
+/**
+ * Compute the bounding box enclosing a set of points
+ */
+function boundsOfPoints(points: Point2D[]): ElementBounds {
+  const xs = points.map(point => point.x)
+  const ys = points.map(point => point.y)
+  return {
+    min: new Point2D(Math.min(...xs), Math.min(...ys)),
+    max: new Point2D(Math.max(...xs), Math.max(...ys))
+  }
+}
+
+/**
+ * Get the box a text element covers, starting at its insertion point and running along its baseline
+ * The width is estimated from the character count, as glyph widths depend on the font.
+ */
+export function getTextOutline(text: TextData): Polygon2D {
+  const along = new Vector2D(Math.cos(text.rotation), Math.sin(text.rotation))
+  // Canvas Y points down, so the glyphs rise against the perpendicular
+  const up = along.perpendicular.scale(-text.height)
+  const width = along.scale(text.text.length * text.height * GEOMETRY_CONSTANTS.TEXT_WIDTH_FACTOR)
+  const { position } = text
+  return new Polygon2D([position, position.add(width), position.add(width).add(up), position.add(up)])
+}
+
+/**
+ * Get the bounding box of a single element
+ */
+export function getElementBounds(element: GeometricElement): ElementBounds {
+  switch (element.type) {
+    case 'point': {
+      const point = element.data as Point2D
+      return { min: point, max: point }
+    }
+    case 'line':
+    case 'perpendicular': {
+      const line = element.data as Line2D
+      return boundsOfPoints([line.start, line.end])
+    }
+    case 'circle': {
+      const circle = element.data as Circle2D
+      return {
+        min: new Point2D(circle.center.x - circle.radius, circle.center.y - circle.radius),
+        max: new Point2D(circle.center.x + circle.radius, circle.center.y + circle.radius)
+      }
+    }
+    case 'rectangle': {
+      const rect = element.data as RectangleData
+      return boundsOfPoints([rect.topLeft, rect.bottomRight])
+    }
+    case 'triangle': {
+      const triangle = element.data as TriangleData
+      return boundsOfPoints([triangle.pointA, triangle.pointB, triangle.pointC])
+    }
+    case 'arc': {
+      return (element.data as Arc2D).getBounds()
+    }
+    case 'ellipse': {
+      return (element.data as Ellipse2D).getBounds()
+    }
+    case 'elliptical-arc': {
+      return (element.data as EllipticalArc2D).getBounds()
+    }
+    case 'polyline': {
+      return (element.data as Polyline2D).getBounds()
+    }
+    case 'polygon': {
+      return (element.data as Polygon2D).getBounds()
+    }
+    case 'bezier': {
+      return (element.data as CubicBezier2D).getBounds()
+    }
+    case 'spline': {
+      return (element.data as Spline2D).getBounds()
+    }
+    case 'cogwheel': {
+      return (element.data as CogWheel).getBounds()
+    }
+    case 'text': {
+      return getTextOutline(element.data as TextData).getBounds()
+    }
+    default:
+      return boundsOfPoints([Point2D.ORIGIN])
+  }
+}
+
+/**
+ * Get the bounding box enclosing all given elements
+ * Returns null for an empty list
+ */
+export function getElementsBounds(elements: GeometricElement[]): ElementBounds | null {
+  if (elements.length === 0) return null
+
+  const corners = elements.flatMap(element => {
+    const bounds = getElementBounds(element)
+    return [bounds.min, bounds.max]
+  })
+  return boundsOfPoints(corners)
+}
+
 /**
  * Validate geometric data before creating elements
  */
 export function validateGeometricData(
   type: GeometricElementType,
-  data: Point2D | Line2D | Circle2D | RectangleData | TriangleData | CogWheel
+  data: GeometricData
 ): boolean {
   try {
     switch (type) {
@@ -360,6 +1595,53 @@ export function validateGeometricData(
         const circle = data as Circle2D
         return circle.radius > 0 && Number.isFinite(circle.radius)
       }
+      case 'arc': {
+        const arc = data as Arc2D
+        return arc.radius > 0 &&
+               Number.isFinite(arc.radius) &&
+               Number.isFinite(arc.startAngle) &&
+               Number.isFinite(arc.endAngle) &&
+               arc.sweep > 0
+      }
+      case 'polyline': {
+        const polyline = data as Polyline2D
+        return polyline.vertices.length >= 2 &&
+               polyline.vertices.every(vertex => Number.isFinite(vertex.x) && Number.isFinite(vertex.y))
+      }
+      case 'polygon': {
+        const polygon = data as Polygon2D
+        return polygon.vertices.every(vertex => Number.isFinite(vertex.x) && Number.isFinite(vertex.y)) &&
+               polygon.area > 0
+      }
+      case 'bezier': {
+        const curve = data as CubicBezier2D
+        return curve.controlPoints.every(controlPoint => Number.isFinite(controlPoint.x) && Number.isFinite(controlPoint.y)) &&
+               curve.controlPoints.some(controlPoint => !controlPoint.equals(curve.start))
+      }
+      case 'spline': {
+        const spline = data as Spline2D
+        return spline.controlPoints.length >= (spline.closed ? 3 : 2) &&
+               spline.controlPoints.every(controlPoint => Number.isFinite(controlPoint.x) && Number.isFinite(controlPoint.y))
+      }
+      case 'ellipse': {
+        const ellipse = data as Ellipse2D
+        return ellipse.radiusX > 0 &&
+               ellipse.radiusY > 0 &&
+               Number.isFinite(ellipse.radiusX) &&
+               Number.isFinite(ellipse.radiusY) &&
+               Number.isFinite(ellipse.rotation)
+      }
+      case 'elliptical-arc': {
+        const arc = data as EllipticalArc2D
+        return arc.radiusX > 0 &&
+               arc.radiusY > 0 &&
+               Number.isFinite(arc.radiusX) &&
+               Number.isFinite(arc.radiusY) &&
+               Number.isFinite(arc.rotation) &&
+               Number.isFinite(arc.startAngle) &&
+               Number.isFinite(arc.endAngle) &&
+               arc.sweep > 0
+      }
       case 'rectangle': {
         const rect = data as RectangleData
         return rect.width > 0 && rect.height > 0
@@ -382,6 +1664,15 @@ export function validateGeometricData(
                Number.isFinite(cogWheel.outerRadius) &&
                Number.isFinite(cogWheel.innerRadius)
       }
+      case 'text': {
+        const text = data as TextData
+        return text.text.length > 0 &&
+               text.height > 0 &&
+               Number.isFinite(text.height) &&
+               Number.isFinite(text.rotation) &&
+               Number.isFinite(text.position.x) &&
+               Number.isFinite(text.position.y)
+      }
       default:
         return true
     }